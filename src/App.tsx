@@ -2,8 +2,10 @@ import { useState, useEffect } from 'react';
 import './styles/App.css';
 import FileUpload from './components/upload/FileUpload';
 import HtmlInput from './components/upload/HtmlInput';
+import MarkdownInput from './components/upload/MarkdownInput';
 import HtmlPreview from './components/preview/HtmlPreview';
 import ConfigContainer from './components/config/ConfigContainer';
+import ConversionProgress from './components/conversion/ConversionProgress';
 import { ConversionConfig, SlideLayout, PresentationTheme, SplitStrategy } from './models';
 
 /**
@@ -64,7 +66,7 @@ const App: React.FC = () => {
   // State for HTML content and error messages
   const [htmlContent, setHtmlContent] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [uploadMethod, setUploadMethod] = useState<'file' | 'direct'>('file');
+  const [uploadMethod, setUploadMethod] = useState<'file' | 'direct' | 'markdown'>('file');
   
   // Default configuration state
   const [conversionConfig, setConversionConfig] = useState<ConversionConfig>({
@@ -82,8 +84,12 @@ const App: React.FC = () => {
     customStyles: {}
   });
 
-  // Handle HTML content acceptance (from either file upload or direct input)
-  const handleContentAccepted = (content: string) => {
+  // Handle HTML content acceptance (from file upload, direct input or Markdown)
+  // Markdown front matter may request settings such as the theme
+  const handleContentAccepted = (content: string, config?: Partial<ConversionConfig>) => {
+    if (config) {
+      setConversionConfig(previous => ({ ...previous, ...config }));
+    }
     setHtmlContent(content);
     setErrorMessage(null);
     // Automatically move to the next step when content is successfully provided
@@ -105,7 +111,7 @@ const App: React.FC = () => {
         return (
           <section className="app-section">
             <h2>Upload HTML Content</h2>
-            <p>Upload an HTML file or paste HTML code to convert it to a PowerPoint presentation.</p>
+            <p>Upload an HTML or Markdown file, paste HTML code or write Markdown to convert it to a PowerPoint presentation.</p>
             
             <div className="upload-method-toggle">
               <button 
@@ -122,6 +128,13 @@ const App: React.FC = () => {
               >
                 Paste HTML
               </button>
+              <button 
+                className={`toggle-button ${uploadMethod === 'markdown' ? 'active' : ''}`}
+                onClick={() => setUploadMethod('markdown')}
+                aria-pressed={uploadMethod === 'markdown'}
+              >
+                Write Markdown
+              </button>
             </div>
             
             {uploadMethod === 'file' ? (
@@ -130,12 +143,18 @@ const App: React.FC = () => {
                 onFileAccepted={handleContentAccepted}
                 onError={handleError}
               />
-            ) : (
+            ) : uploadMethod === 'direct' ? (
               /* HTML Input Component */
               <HtmlInput 
                 onContentAccepted={handleContentAccepted}
                 onError={handleError}
               />
+            ) : (
+              /* Markdown Input Component */
+              <MarkdownInput 
+                onContentAccepted={handleContentAccepted}
+                onError={handleError}
+              />
             )}
             
             {/* Error message display */}
@@ -177,10 +196,11 @@ const App: React.FC = () => {
             <h2>Convert HTML to PPTX</h2>
             <p>Review your content and start the conversion process.</p>
             
-            {/* Placeholder for the conversion component */}
-            <div className="placeholder-component">
-              <p>Conversion Component will be implemented here</p>
-            </div>
+            {/* Conversion with its progress, result and warnings */}
+            <ConversionProgress 
+              htmlContent={htmlContent}
+              config={conversionConfig}
+            />
           </section>
         );
       case 3:
@@ -42,8 +42,18 @@ const formatSplitStrategy = (strategy: SplitStrategy): string => {
       return 'By H1 Headings';
     case SplitStrategy.BY_H2:
       return 'By H2 Headings';
+    case SplitStrategy.HIERARCHICAL:
+      return 'Hierarchical (H1 Dividers, H2 Slides)';
     case SplitStrategy.BY_CUSTOM_SELECTOR:
       return 'Custom Selector';
+    case SplitStrategy.BY_HR:
+      return 'By Horizontal Rules';
+    case SplitStrategy.BY_SLIDE_COMMENT:
+      return 'By Slide Comments';
+    case SplitStrategy.BY_SLIDE_BREAK_ATTRIBUTE:
+      return 'By Slide Break Attributes';
+    case SplitStrategy.BY_SECTION_ELEMENT:
+      return 'By Section Elements';
     case SplitStrategy.NO_SPLIT:
       return 'No Split (Single Slide)';
     default:
@@ -106,6 +116,24 @@ const ConfigContainer: React.FC<ConfigContainerProps> = ({ initialConfig, onConf
     onConfigChange(updatedConfig);
   };
 
+  const handleIncludeAgendaChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const updatedConfig = {
+      ...config,
+      includeAgenda: e.target.checked
+    };
+    setConfig(updatedConfig);
+    onConfigChange(updatedConfig);
+  };
+
+  const handleSectionTextInNotesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const updatedConfig = {
+      ...config,
+      sectionTextInNotes: e.target.checked
+    };
+    setConfig(updatedConfig);
+    onConfigChange(updatedConfig);
+  };
+
   const handleResetToDefaults = () => {
     const resetConfig = resetToDefaults();
     setConfig(resetConfig);
@@ -152,6 +180,48 @@ const ConfigContainer: React.FC<ConfigContainerProps> = ({ initialConfig, onConf
         onChange={handleSectionSplittingChange}
       />
       
+      <div className="navigation-config">
+        <h3>Navigation</h3>
+        <div className="toggle-option">
+          <label className="toggle-switch">
+            <input
+              type="checkbox"
+              checked={!!config.includeAgenda}
+              onChange={handleIncludeAgendaChange}
+              aria-label="Include agenda slide"
+            />
+            <span className="toggle-slider"></span>
+          </label>
+          <div className="toggle-label">
+            <span className="option-name">Agenda Slide</span>
+            <span className="option-description">
+              Add an agenda listing every section, with each entry linking to its slide
+            </span>
+          </div>
+        </div>
+      </div>
+      
+      <div className="notes-config">
+        <h3>Speaker Notes</h3>
+        <div className="toggle-option">
+          <label className="toggle-switch">
+            <input
+              type="checkbox"
+              checked={!!config.sectionTextInNotes}
+              onChange={handleSectionTextInNotesChange}
+              aria-label="Include section text in speaker notes"
+            />
+            <span className="toggle-slider"></span>
+          </label>
+          <div className="toggle-label">
+            <span className="option-name">Section Text in Notes</span>
+            <span className="option-description">
+              Copy the full text of each section into the speaker notes of its slide, after any authored notes
+            </span>
+          </div>
+        </div>
+      </div>
+      
       <div className="config-summary">
         <h3>Current Configuration</h3>
         <p className="config-description">
@@ -161,6 +231,8 @@ const ConfigContainer: React.FC<ConfigContainerProps> = ({ initialConfig, onConf
           <li><strong>Slide Layout:</strong> {formatSlideLayout(config.slideLayout)}</li>
           <li><strong>Theme:</strong> {formatTheme(config.theme)}</li>
           <li><strong>Section Splitting:</strong> {formatSplitStrategy(config.splitSections)}</li>
+          <li><strong>Agenda Slide:</strong> {config.includeAgenda ? 'Included' : 'Excluded'}</li>
+          <li><strong>Section Text in Notes:</strong> {config.sectionTextInNotes ? 'Included' : 'Excluded'}</li>
           <li><strong>Images:</strong> {config.includeImages ? 'Included' : 'Excluded'}</li>
           {config.includeImages && config.imageOptions && (
             <li className="nested-item">
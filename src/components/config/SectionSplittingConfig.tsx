@@ -44,7 +44,12 @@ const SectionSplittingConfig: React.FC<SectionSplittingConfigProps> = ({
   const strategyDescriptions: Record<SplitStrategy, string> = {
     [SplitStrategy.BY_H1]: 'Create a new slide for each H1 heading in the HTML content',
     [SplitStrategy.BY_H2]: 'Create a new slide for each H2 heading in the HTML content',
+    [SplitStrategy.HIERARCHICAL]: 'Create a section divider slide for each H1 and a content slide for each H2',
     [SplitStrategy.BY_CUSTOM_SELECTOR]: 'Create a new slide for each element matching a custom CSS selector',
+    [SplitStrategy.BY_HR]: 'Start a new slide at each horizontal rule (<hr>)',
+    [SplitStrategy.BY_SLIDE_COMMENT]: 'Start a new slide at each <!-- slide --> comment',
+    [SplitStrategy.BY_SLIDE_BREAK_ATTRIBUTE]: 'Start a new slide at each element with a data-slide-break attribute',
+    [SplitStrategy.BY_SECTION_ELEMENT]: 'Create a new slide for each <section> element',
     [SplitStrategy.NO_SPLIT]: 'Keep all content on a single slide'
   };
 
@@ -75,7 +80,9 @@ const SectionSplittingConfig: React.FC<SectionSplittingConfigProps> = ({
           <ul>
             <li><strong>By H1 Headings:</strong> Best for content with clear main sections marked by &lt;h1&gt; tags</li>
             <li><strong>By H2 Headings:</strong> Good for content with subsections marked by &lt;h2&gt; tags</li>
+            <li><strong>Hierarchical:</strong> Long documents with chapters (&lt;h1&gt;) split into sections (&lt;h2&gt;); &lt;h3&gt; headings stay on the slide as sub-headings</li>
             <li><strong>Custom Selector:</strong> Advanced option for specific HTML structures (e.g., ".slide-section" or "section.slide")</li>
+            <li><strong>Slide Breaks:</strong> Split exactly where the author marked it with &lt;hr&gt;, &lt;!-- slide --&gt;, data-slide-break or &lt;section&gt;</li>
             <li><strong>No Split:</strong> Puts all content on a single slide (best for small content)</li>
           </ul>
         </div>
@@ -137,8 +144,18 @@ const formatStrategyName = (strategy: SplitStrategy): string => {
       return 'By H1 Headings';
     case SplitStrategy.BY_H2:
       return 'By H2 Headings';
+    case SplitStrategy.HIERARCHICAL:
+      return 'Hierarchical (H1 Dividers, H2 Slides)';
     case SplitStrategy.BY_CUSTOM_SELECTOR:
       return 'Custom Selector';
+    case SplitStrategy.BY_HR:
+      return 'By Horizontal Rules';
+    case SplitStrategy.BY_SLIDE_COMMENT:
+      return 'By Slide Comments';
+    case SplitStrategy.BY_SLIDE_BREAK_ATTRIBUTE:
+      return 'By Slide Break Attributes';
+    case SplitStrategy.BY_SECTION_ELEMENT:
+      return 'By Section Elements';
     case SplitStrategy.NO_SPLIT:
       return 'No Split (Single Slide)';
     default:
@@ -0,0 +1,145 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { HTMLParser } from '../../services/parser/HTMLParser';
+import { PptxGenerator } from '../../services/pptx/PptxGenerator';
+import type { PptxGeneratorService } from '../../services/pptx/PptxGeneratorInterface';
+import { SlideCreator } from '../../services/conversion/SlideCreator';
+import type { SlideCreatorService } from '../../services/conversion/SlideCreatorInterface';
+import { ImageHandler } from '../../services/conversion/ImageHandler';
+import { TableHandler } from '../../services/conversion/TableHandler';
+import { ListHandler } from '../../services/conversion/ListHandler';
+import { LinkHandler } from '../../services/conversion/LinkHandler';
+import { ThemeHandler } from '../../services/conversion/ThemeHandler';
+import { ConversionConfig } from '../../models';
+import './ConversionProgress.css';
+
+const defaultHtmlParser = new HTMLParser();
+const defaultPptxGenerator = new PptxGenerator();
+const defaultSlideCreator = new SlideCreator(
+  defaultPptxGenerator,
+  new ImageHandler(),
+  new TableHandler(),
+  new ListHandler(),
+  new LinkHandler(),
+  new ThemeHandler()
+);
+
+// Outcome of a finished conversion
+export interface ConversionResult {
+  blob: Blob;
+  // Problems that did not stop the conversion (e.g. links to anchors that do not exist)
+  warnings: string[];
+}
+
+interface ConversionProgressProps {
+  htmlContent: string | null;
+  config: ConversionConfig;
+  onConverted?: (result: ConversionResult) => void;
+  htmlParser?: Pick<HTMLParser, 'parseHTML'>;
+  slideCreator?: SlideCreatorService;
+  pptxGenerator?: PptxGeneratorService;
+}
+
+/**
+ * Conversion Progress Component
+ * 
+ * This component runs the conversion of the HTML content into a PPTX file and
+ * shows its progress, the download link and the warnings collected while the
+ * slides were created.
+ * 
+ * Requirements:
+ * - 5.1: Clear visual feedback on the current state of the process
+ */
+const ConversionProgress: React.FC<ConversionProgressProps> = ({
+  htmlContent,
+  config,
+  onConverted,
+  htmlParser = defaultHtmlParser,
+  slideCreator = defaultSlideCreator,
+  pptxGenerator = defaultPptxGenerator
+}) => {
+  const [isConverting, setIsConverting] = useState<boolean>(false);
+  const [result, setResult] = useState<ConversionResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
+  
+  // Release the download URL of a previous result
+  useEffect(() => {
+    return () => {
+      if (downloadUrl) {
+        URL.revokeObjectURL(downloadUrl);
+      }
+    };
+  }, [downloadUrl]);
+  
+  // Function to handle the conversion
+  const handleConvert = useCallback(async () => {
+    if (!htmlContent) {
+      return;
+    }
+    
+    setIsConverting(true);
+    setError(null);
+    setResult(null);
+    
+    try {
+      const parsed = htmlParser.parseHTML(htmlContent, config.splitSections, config.customSectionSelector);
+      const presentation = await slideCreator.createSlides(parsed, config);
+      const blob = await pptxGenerator.savePresentation(presentation);
+      const conversionResult: ConversionResult = { blob, warnings: slideCreator.getWarnings() };
+      
+      setResult(conversionResult);
+      setDownloadUrl(URL.createObjectURL(blob));
+      onConverted?.(conversionResult);
+    } catch (error) {
+      setError(`Error converting content: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsConverting(false);
+    }
+  }, [htmlContent, config, htmlParser, slideCreator, pptxGenerator, onConverted]);
+  
+  return (
+    <div className="conversion-progress">
+      <button
+        className="action-button primary"
+        onClick={handleConvert}
+        disabled={isConverting || !htmlContent}
+      >
+        {isConverting ? 'Converting...' : 'Convert to PPTX'}
+      </button>
+      
+      {isConverting && (
+        <p className="conversion-status" role="status">Creating slides...</p>
+      )}
+      
+      {error && (
+        <div className="error-message" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+      
+      {result && (
+        <div className="conversion-result">
+          <p className="conversion-status" role="status">Your presentation is ready.</p>
+          {downloadUrl && (
+            <a className="download-link" href={downloadUrl} download="presentation.pptx">
+              Download presentation
+            </a>
+          )}
+          
+          {result.warnings.length > 0 && (
+            <div className="conversion-warnings">
+              <h3>Warnings</h3>
+              <ul>
+                {result.warnings.map((warning, index) => (
+                  <li key={index}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConversionProgress;
\ No newline at end of file
@@ -1,20 +1,70 @@
 import React, { useState, useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
+import { BundleLoader, BundleLoaderService, VirtualFileSystem } from '../../services/bundle';
+import { MHTMLParser, MHTMLParserService } from '../../services/parser';
+import { MarkdownConverter, MarkdownConverterService } from '../../services/markdown';
+import { ConversionConfig } from '../../models';
 import './FileUpload.css';
 
 // Maximum file size in bytes (5MB)
 const MAX_FILE_SIZE = 5 * 1024 * 1024;
 
+// Maximum total size of a ZIP archive or dropped folder in bytes (25MB)
+const MAX_BUNDLE_SIZE = 25 * 1024 * 1024;
+
+// File types offered by the file dialog (the files of a dropped folder are accepted whatever their type)
+const ACCEPTED_FILE_TYPES = {
+  'text/html': ['.html', '.htm'],
+  'text/markdown': ['.md', '.markdown'],
+  'application/zip': ['.zip'],
+  'multipart/related': ['.mhtml', '.mht']
+};
+
+const defaultBundleLoader = new BundleLoader();
+const defaultMHTMLParser = new MHTMLParser(defaultBundleLoader);
+const defaultMarkdownConverter = new MarkdownConverter();
+
 interface FileUploadProps {
-  onFileAccepted: (content: string) => void;
+  // Receives the HTML, plus the settings requested in the front matter of Markdown files
+  onFileAccepted: (content: string, config?: Partial<ConversionConfig>) => void;
   onError: (message: string) => void;
+  // Reads ZIP archives and dropped folders (an HTML page with its images and stylesheets)
+  bundleLoader?: BundleLoaderService;
+  // Unpacks single-file web archives (.mhtml/.mht)
+  mhtmlParser?: MHTMLParserService;
+  // Converts Markdown files (.md/.markdown) to HTML
+  markdownConverter?: MarkdownConverterService;
 }
 
+// Files dropped from a folder carry their relative path (set by react-dropzone)
+type DroppedFile = File & { path?: string };
+
+/**
+ * Get the path of a dropped file relative to the dropped folder
+ */
+const getRelativePath = (file: DroppedFile): string => {
+  return (file.path || file.webkitRelativePath || file.name).replace(/^\.?\//, '');
+};
+
+/**
+ * Check whether dropped files come from a single folder (a page with its assets)
+ */
+const isFolderDrop = (files: DroppedFile[]): boolean => {
+  const folders = files.map(file => {
+    const path = getRelativePath(file);
+    return path.includes('/') ? path.slice(0, path.indexOf('/')) : null;
+  });
+  
+  return files.length > 0 && folders[0] !== null && folders.every(folder => folder === folders[0]);
+};
+
 /**
  * File Upload Component
  * 
  * This component provides a drag-and-drop and file selection interface for HTML files.
  * It validates that the uploaded file is a valid HTML file and checks its size.
+ * ZIP archives and dropped folders are unpacked client-side and their local
+ * images and stylesheets are inlined into the HTML page.
  * 
  * Requirements:
  * - 1.1: Display an upload interface for HTML files
@@ -22,7 +72,13 @@ interface FileUploadProps {
  * - 1.5: Display an appropriate error message if the file is not valid HTML
  * - 1.6: Notify the user if the HTML content exceeds the maximum allowed size
  */
-const FileUpload: React.FC<FileUploadProps> = ({ onFileAccepted, onError }) => {
+const FileUpload: React.FC<FileUploadProps> = ({
+  onFileAccepted,
+  onError,
+  bundleLoader = defaultBundleLoader,
+  mhtmlParser = defaultMHTMLParser,
+  markdownConverter = defaultMarkdownConverter
+}) => {
   const [isDragging, setIsDragging] = useState<boolean>(false);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
 
@@ -38,11 +94,54 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileAccepted, onError }) => {
     return hasHtmlTags || hasHtmlStructure;
   };
 
+  // Function to turn a bundle into a single HTML document
+  const acceptBundle = useCallback((fileSystem: VirtualFileSystem) => {
+    const content = bundleLoader.bundleToHTML(fileSystem);
+    
+    // Validate HTML content
+    if (!validateHTML(content)) {
+      onError('The uploaded bundle does not contain valid HTML content');
+      return;
+    }
+    
+    onFileAccepted(content);
+  }, [bundleLoader, onFileAccepted, onError]);
+
   // Function to handle file reading
   const handleFileRead = useCallback(async (file: File) => {
     setIsProcessing(true);
     
     try {
+      // ZIP bundle with the HTML page and its assets
+      if (file.name.toLowerCase().endsWith('.zip') || file.type.includes('zip')) {
+        if (file.size > MAX_BUNDLE_SIZE) {
+          onError(`File size exceeds the maximum allowed size (${MAX_BUNDLE_SIZE / (1024 * 1024)}MB)`);
+          return;
+        }
+        
+        acceptBundle(await bundleLoader.loadZip(file));
+        return;
+      }
+      
+      // Single-file web archive with the page and its assets as MIME parts
+      if (/\.mht(ml)?$/i.test(file.name) || file.type === 'multipart/related' || file.type === 'message/rfc822') {
+        if (file.size > MAX_BUNDLE_SIZE) {
+          onError(`File size exceeds the maximum allowed size (${MAX_BUNDLE_SIZE / (1024 * 1024)}MB)`);
+          return;
+        }
+        
+        const content = mhtmlParser.toHTML(await file.text());
+        
+        // Validate HTML content
+        if (!validateHTML(content)) {
+          onError('The uploaded archive does not contain valid HTML content');
+          return;
+        }
+        
+        onFileAccepted(content);
+        return;
+      }
+      
       // Check file size
       if (file.size > MAX_FILE_SIZE) {
         onError(`File size exceeds the maximum allowed size (${MAX_FILE_SIZE / (1024 * 1024)}MB)`);
@@ -50,9 +149,16 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileAccepted, onError }) => {
         return;
       }
       
+      // Markdown notes are converted to HTML; front matter settings are passed along
+      if (/\.(md|markdown)$/i.test(file.name) || file.type === 'text/markdown') {
+        const { html, config } = markdownConverter.convert(await file.text());
+        onFileAccepted(html, config);
+        return;
+      }
+      
       // Check file type
       if (!file.type.includes('html') && !file.name.endsWith('.html') && !file.name.endsWith('.htm')) {
-        onError('Please upload a valid HTML file (.html or .htm)');
+        onError('Please upload a valid HTML file (.html or .htm), a Markdown file (.md), an MHTML archive (.mhtml or .mht) or a ZIP bundle');
         setIsProcessing(false);
         return;
       }
@@ -74,27 +180,59 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileAccepted, onError }) => {
     } finally {
       setIsProcessing(false);
     }
-  }, [onFileAccepted, onError]);
+  }, [acceptBundle, bundleLoader, mhtmlParser, markdownConverter, onFileAccepted, onError]);
+
+  // Function to handle a dropped folder
+  const handleFolderRead = useCallback(async (files: DroppedFile[]) => {
+    setIsProcessing(true);
+    
+    try {
+      const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+      if (totalSize > MAX_BUNDLE_SIZE) {
+        onError(`File size exceeds the maximum allowed size (${MAX_BUNDLE_SIZE / (1024 * 1024)}MB)`);
+        return;
+      }
+      
+      acceptBundle(await bundleLoader.loadFiles(
+        files.map(file => ({ path: getRelativePath(file), file }))
+      ));
+    } catch (error) {
+      onError(`Error reading files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [acceptBundle, bundleLoader, onError]);
 
   // Configure dropzone
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
-    accept: {
-      'text/html': ['.html', '.htm']
-    },
-    maxSize: MAX_FILE_SIZE,
-    multiple: false,
+    accept: ACCEPTED_FILE_TYPES,
+    multiple: true,
     onDragEnter: () => setIsDragging(true),
     onDragLeave: () => setIsDragging(false),
-    onDropAccepted: (files) => {
-      setIsDragging(false);
-      handleFileRead(files[0]);
-    },
-    onDropRejected: (fileRejections) => {
+    onDrop: (acceptedFiles, fileRejections) => {
       setIsDragging(false);
+      
+      // A dropped folder keeps its images and stylesheets, which the accepted types leave out
+      const files: DroppedFile[] = [...acceptedFiles, ...fileRejections.map(rejection => rejection.file)];
+      if (isFolderDrop(files)) {
+        handleFolderRead(files);
+        return;
+      }
+      
+      if (files.length > 1) {
+        onError('Please drop a single file, or a folder with the page and its images and stylesheets');
+        return;
+      }
+      
+      if (acceptedFiles.length === 1) {
+        handleFileRead(acceptedFiles[0]);
+        return;
+      }
+      
       const error = fileRejections[0]?.errors[0];
       if (error) {
-        if (error.code === 'file-too-large') {
-          onError(`File size exceeds the maximum allowed size (${MAX_FILE_SIZE / (1024 * 1024)}MB)`);
+        if (error.code === 'file-invalid-type') {
+          onError('Please upload a valid HTML file (.html or .htm), a Markdown file (.md), an MHTML archive (.mhtml or .mht) or a ZIP bundle');
         } else {
           onError(`File error: ${error.message}`);
         }
@@ -122,7 +260,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileAccepted, onError }) => {
                 <path d="M12 15V3m0 12l-4-4m4 4l4-4M2 17l.621 2.485A2 2 0 0 0 4.561 21h14.878a2 2 0 0 0 1.94-1.515L22 17"></path>
               </svg>
             </div>
-            <p className="upload-text">Drop your HTML file here</p>
+            <p className="upload-text">Drop your HTML file, web archive, ZIP bundle or folder here</p>
           </div>
         ) : (
           <div className="upload-prompt">
@@ -131,8 +269,10 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileAccepted, onError }) => {
                 <path d="M12 15V3m0 12l-4-4m4 4l4-4M2 17l.621 2.485A2 2 0 0 0 4.561 21h14.878a2 2 0 0 0 1.94-1.515L22 17"></path>
               </svg>
             </div>
-            <p className="upload-text">Drag and drop your HTML file here, or click to select a file</p>
-            <p className="upload-hint">Only .html and .htm files are accepted (max {MAX_FILE_SIZE / (1024 * 1024)}MB)</p>
+            <p className="upload-text">Drag and drop your HTML file, web archive, ZIP bundle or folder here, or click to select a file</p>
+            <p className="upload-hint">
+              {`Accepts .html, .htm and .md files (max ${MAX_FILE_SIZE / (1024 * 1024)}MB), or an .mhtml/.mht archive, .zip or folder with the page and its images and stylesheets (max ${MAX_BUNDLE_SIZE / (1024 * 1024)}MB)`}
+            </p>
           </div>
         )}
       </div>
@@ -0,0 +1,142 @@
+import React, { useState, useCallback } from 'react';
+import { MarkdownConverter, MarkdownConverterService } from '../../services/markdown';
+import { ConversionConfig } from '../../models';
+import './HtmlInput.css';
+
+// Maximum content size in bytes (5MB)
+const MAX_CONTENT_SIZE = 5 * 1024 * 1024;
+
+const defaultMarkdownConverter = new MarkdownConverter();
+
+interface MarkdownInputProps {
+  // Receives the converted HTML and the settings requested in the front matter
+  onContentAccepted: (content: string, config?: Partial<ConversionConfig>) => void;
+  onError: (message: string) => void;
+  markdownConverter?: MarkdownConverterService;
+}
+
+/**
+ * Markdown Content Input Component
+ * 
+ * This component provides a text area for Markdown input. The Markdown is
+ * converted to HTML (CommonMark with tables, task lists and fenced code);
+ * front matter sets the presentation metadata and theme.
+ */
+const MarkdownInput: React.FC<MarkdownInputProps> = ({
+  onContentAccepted,
+  onError,
+  markdownConverter = defaultMarkdownConverter
+}) => {
+  const [markdownContent, setMarkdownContent] = useState<string>('');
+  const [isProcessing, setIsProcessing] = useState<boolean>(false);
+
+  // Function to handle content submission
+  const handleSubmit = useCallback(() => {
+    setIsProcessing(true);
+    
+    try {
+      // Check if content is empty
+      if (!markdownContent.trim()) {
+        onError('Please enter Markdown content');
+        return;
+      }
+      
+      // Check content size
+      const contentSize = new Blob([markdownContent]).size;
+      if (contentSize > MAX_CONTENT_SIZE) {
+        onError(`Content size exceeds the maximum allowed size (${MAX_CONTENT_SIZE / (1024 * 1024)}MB)`);
+        return;
+      }
+      
+      const { html, config } = markdownConverter.convert(markdownContent);
+      
+      // Pass the converted content to parent component
+      onContentAccepted(html, config);
+    } catch (error) {
+      onError(`Error processing content: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [markdownContent, markdownConverter, onContentAccepted, onError]);
+
+  // Function to handle content change
+  const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setMarkdownContent(e.target.value);
+  };
+
+  // Function to handle example insertion
+  const insertExample = () => {
+    const exampleMarkdown = `---
+title: Sample Presentation
+author: Jane Doe
+theme: professional
+---
+
+# Main Title
+
+This is an example of **Markdown** content that can be converted to a PowerPoint presentation.
+
+## Section 1
+
+This will become a new slide in the presentation.
+
+- [x] Bullet point 1
+- [ ] Bullet point 2
+- Bullet point 3
+
+## Section 2
+
+| Header 1 | Header 2 |
+| -------- | -------: |
+| Data 1   | 42       |
+
+\`\`\`js
+console.log('Hello, slides!');
+\`\`\`
+`;
+    
+    setMarkdownContent(exampleMarkdown);
+  };
+
+  return (
+    <div className="html-input-container">
+      <div className="textarea-container">
+        <textarea
+          className="html-textarea"
+          value={markdownContent}
+          onChange={handleContentChange}
+          placeholder="Paste or type your Markdown here..."
+          rows={10}
+          data-testid="markdown-textarea"
+          aria-label="Markdown content input"
+        />
+      </div>
+      
+      <div className="html-input-actions">
+        <button 
+          type="button" 
+          className="action-button secondary"
+          onClick={insertExample}
+          disabled={isProcessing}
+        >
+          Insert Example
+        </button>
+        <button 
+          type="button" 
+          className="action-button primary"
+          onClick={handleSubmit}
+          disabled={isProcessing || !markdownContent.trim()}
+        >
+          {isProcessing ? 'Processing...' : 'Use This Markdown'}
+        </button>
+      </div>
+      
+      <div className="html-input-info">
+        <p>Enter Markdown content up to {MAX_CONTENT_SIZE / (1024 * 1024)}MB in size.</p>
+        <p>Front matter (title, author, theme) sets the presentation properties and theme.</p>
+      </div>
+    </div>
+  );
+};
+
+export default MarkdownInput;
\ No newline at end of file
@@ -32,6 +32,25 @@ export interface ConversionConfig {
   splitSections: SplitStrategy;
   customSectionSelector?: string;
   preserveLinks: boolean;
+  // Base URL for relative links and image sources (defaults to the document's <base href>)
+  baseUrl?: string;
+  // Keep http:// links instead of upgrading them to https://
+  keepHttpLinks?: boolean;
+  // Vertical spacing between elements on a slide in inches
+  elementSpacing?: number;
+  // Maximum bullets/table rows per slide before continuing on a new slide
+  maxBulletsPerSlide?: number;
+  maxTableRowsPerSlide?: number;
+  // Add a "Page X of Y" caption below tables that span several slides
+  showTablePageNumbers?: boolean;
+  // Render tables with numeric columns as native charts (bar charts unless the table sets data-chart)
+  convertTablesToCharts?: boolean;
+  // Put the full text of each section into the speaker notes of its slide (after any authored notes)
+  sectionTextInNotes?: boolean;
+  // Start the deck with a title slide built from the document metadata
+  includeTitleSlide?: boolean;
+  // Add agenda slides linking to each top-level section (after the title slide)
+  includeAgenda?: boolean;
   customStyles: Record<string, any>;
 }
 
@@ -51,7 +70,14 @@ export enum PresentationTheme {
 export enum SplitStrategy {
   BY_H1 = 'BY_H1',
   BY_H2 = 'BY_H2',
+  // H1 chapters become divider slides, H2 sections content slides (H3 stay sub-headings on the slide)
+  HIERARCHICAL = 'HIERARCHICAL',
   BY_CUSTOM_SELECTOR = 'BY_CUSTOM_SELECTOR',
+  // Slide breaks written into the source: <hr>, <!-- slide --> comments, data-slide-break attributes, <section> elements
+  BY_HR = 'BY_HR',
+  BY_SLIDE_COMMENT = 'BY_SLIDE_COMMENT',
+  BY_SLIDE_BREAK_ATTRIBUTE = 'BY_SLIDE_BREAK_ATTRIBUTE',
+  BY_SECTION_ELEMENT = 'BY_SECTION_ELEMENT',
   NO_SPLIT = 'NO_SPLIT'
 }
 
@@ -60,12 +86,38 @@ export interface Section {
   title: string;
   content: string;
   elements: SlideElement[];
+  // Speaker notes authored in the section (aside.notes, [data-notes] or <!-- notes: ... --> comments)
+  notes?: string;
+  // Heading level the section was split at (HIERARCHICAL: 1 = chapter divider, 2 = content slide)
+  level?: number;
+  // Index of the parent section (the chapter divider) in the section list
+  parentIndex?: number;
+  // Targets of in-document links ("#id") in the section: element ids, <a name> anchors and heading slugs
+  anchors?: string[];
+  // Slide background set by the source deck (reveal.js data-background-*, Remark background-image)
+  background?: SlideBackground;
 }
 
+export interface SlideBackground {
+  // Hex color without '#'
+  color?: string;
+  // Image URL or data URL
+  image?: string;
+}
+
+// HTML slide frameworks whose decks are imported slide by slide instead of being split
+export type SlideFramework = 'reveal' | 'impress' | 'remark';
+
 export interface SlideElement {
-  type: 'text' | 'image' | 'table' | 'list' | 'link';
+  type: 'text' | 'image' | 'table' | 'list' | 'link' | 'chart' | 'code' | 'quote';
   content: any;
   style?: Record<string, any>;
+  // Position of the source node in document order (used to keep reading order stable)
+  sourceIndex?: number;
+  // Targets of in-document links ("#id") defined inside the element's source nodes
+  anchors?: string[];
+  // Caption laid out below the element (<figcaption> of its figure, <caption> of a table)
+  caption?: string;
 }
 
 export interface ImageResource {
@@ -74,28 +126,108 @@ export interface ImageResource {
   width: number;
   height: number;
   dataUrl?: string;
+  // <figcaption> of the image's figure (added to the alt text in the PPTX)
+  caption?: string;
   style?: Record<string, any>;
 }
 
 export interface TableResource {
   headers: string[];
+  // Header rows below `headers` when the table head has several rows
+  additionalHeaderRows?: string[][];
   rows: any[][];
+  // Chart type requested with the data-chart attribute
+  chartType?: ChartType;
   style?: Record<string, any>;
 }
 
+// Details of a single table cell, stored per cell in `TableResource.style.cellDetails`
+// (body rows) and `TableResource.style.headerDetails` (header rows)
+export interface TableCellResource {
+  // Cell HTML
+  content: string;
+  text: string;
+  // Inline formatting runs (only set when the cell contains formatted text)
+  runs?: TextRun[];
+  // Header cell (<th>), e.g. a row header in the table body
+  header?: boolean;
+  fill?: string;
+  color?: string;
+  align?: 'left' | 'center' | 'right' | 'justify';
+  valign?: 'top' | 'middle' | 'bottom';
+  colSpan: number;
+  rowSpan: number;
+}
+
+export type ChartType = 'bar' | 'line' | 'pie' | 'area' | 'scatter';
+
+export interface ChartSeries {
+  name: string;
+  values: number[];
+}
+
+export interface ChartResource {
+  type: ChartType;
+  // Category labels (first table column); numeric X values for scatter charts
+  categories: string[];
+  series: ChartSeries[];
+}
+
 export interface ListResource {
   items: string[];
   ordered: boolean;
   style?: Record<string, any>;
 }
 
+// Code block (<pre>), rendered in a monospace font on a shaded box
+export interface CodeResource {
+  // Source code with its line breaks and indentation (tabs expanded to spaces)
+  code: string;
+  // Language from class="language-xxx" on the <pre> or its <code>
+  language?: string;
+  // Font size in points, set when a long listing is shrunk to fit the slide
+  fontSize?: number;
+  // Syntax highlighted runs, one breakLine per source line (set by CodeHandler)
+  runs?: TextRun[];
+}
+
+// Block quotation (<blockquote>), rendered in large italic text with an accent
+export interface QuoteResource {
+  // Quote text, paragraphs separated by line breaks
+  text: string;
+  // Inline formatting runs of the quote text
+  runs?: TextRun[];
+  // Attribution from a <footer> or <cite> in the quote, or the <figcaption> of its <figure>
+  attribution?: string;
+  // Source URL from the cite attribute
+  source?: string;
+}
+
 export interface LinkResource {
   text: string;
   href: string;
 }
 
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  superscript?: boolean;
+  subscript?: boolean;
+  code?: boolean;
+  color?: string;
+  link?: string;
+  // Slide number an internal link jumps to (used instead of `link`)
+  slide?: number;
+  breakLine?: boolean;
+}
+
 export interface TextResource {
   content: string;
+  // Inline formatting runs in reading order (rendered instead of the plain content when present)
+  runs?: TextRun[];
   format: {
     bold?: boolean;
     italic?: boolean;
@@ -113,10 +245,25 @@ export interface TextResource {
   };
 }
 
+// Document metadata read from <title>, <meta> and Open Graph tags
+export interface DocumentMetadata {
+  title?: string;
+  author?: string;
+  description?: string;
+  date?: string;
+  siteName?: string;
+  keywords?: string[];
+  // <base href> of the document
+  baseUrl?: string;
+}
+
 // HTML Content Model
 export interface HTMLContent {
   raw: string;
   parsed: DocumentFragment;
+  metadata?: DocumentMetadata;
+  // Set when the document is a slide deck of a known framework (sections are its slides)
+  slideFramework?: SlideFramework;
   sections: Section[];
   resources: {
     images: ImageResource[];
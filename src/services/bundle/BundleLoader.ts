@@ -0,0 +1,295 @@
+import JSZip from 'jszip';
+import { BundleLoaderService, BundleFile, BundleError } from './BundleLoaderInterface';
+import { VirtualFileSystem } from './VirtualFileSystem';
+
+// url(...) references in CSS, with or without quotes
+const CSS_URL_PATTERN = /url\(\s*(['"]?)([^'")]+)\1\s*\)/gi;
+
+// @import rules in CSS ("@import 'a.css';" or "@import url(a.css) screen;")
+const CSS_IMPORT_PATTERN = /@import\s+(?:url\(\s*)?(['"]?)([^'")\s;]+)\1\s*\)?([^;]*);/gi;
+
+// Elements whose attribute points to an image or other media file
+const MEDIA_ATTRIBUTES: Array<[string, string]> = [
+  ['img[src]', 'src'],
+  ['source[src]', 'src'],
+  ['video[poster]', 'poster'],
+  ['input[type="image"][src]', 'src']
+];
+
+// Nested @import rules followed when inlining a stylesheet
+const MAX_IMPORT_DEPTH = 5;
+
+/**
+ * Bundle Loader implementation
+ * 
+ * Reads ZIP archives and dropped folders into a VirtualFileSystem and
+ * inlines the local assets of the HTML page so that the rest of the
+ * pipeline (parser, ImageHandler) sees a single HTML document with
+ * data URLs.
+ */
+export class BundleLoader implements BundleLoaderService {
+  /**
+   * Extract a ZIP archive into a virtual file system
+   * 
+   * @param data - The archive contents
+   * @returns The extracted files
+   * @throws BundleError if the archive cannot be read
+   */
+  async loadZip(data: Blob | ArrayBuffer | Uint8Array): Promise<VirtualFileSystem> {
+    let zip: JSZip;
+    
+    try {
+      const content = data instanceof Blob ? await this.readBlob(data) : data;
+      zip = await JSZip.loadAsync(content);
+    } catch (error) {
+      throw new BundleError(`Failed to read ZIP archive: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    const entries = Object.values(zip.files).filter(entry => !entry.dir && !this.isSystemFile(entry.name));
+    const files = await Promise.all(entries.map(async entry => ({
+      path: entry.name,
+      data: await entry.async('uint8array')
+    })));
+    
+    return this.createFileSystem(files);
+  }
+  
+  /**
+   * Read the files of a dropped folder into a virtual file system
+   * 
+   * @param files - The dropped files
+   * @returns The files keyed by their path
+   */
+  async loadFiles(files: BundleFile[]): Promise<VirtualFileSystem> {
+    const entries = await Promise.all(
+      files
+        .filter(({ path }) => !this.isSystemFile(path))
+        .map(async ({ path, file }) => ({
+          path,
+          data: await this.readBlob(file)
+        }))
+    );
+    
+    return this.createFileSystem(entries);
+  }
+  
+  /**
+   * Find the HTML page of a bundle
+   * 
+   * @param fileSystem - The bundle files
+   * @returns Path of the page, or null if the bundle contains no HTML file
+   */
+  findEntryPage(fileSystem: VirtualFileSystem): string | null {
+    const pages = fileSystem.listFiles()
+      .filter(path => /\.html?$/i.test(path))
+      .sort((a, b) => a.split('/').length - b.split('/').length);
+    
+    if (pages.length === 0) {
+      return null;
+    }
+    
+    const depth = pages[0].split('/').length;
+    const index = pages.find(path => /(^|\/)index\.html?$/i.test(path) && path.split('/').length === depth);
+    
+    return index || pages[0];
+  }
+  
+  /**
+   * Build a self-contained HTML document from a bundle
+   * 
+   * @param fileSystem - The bundle files
+   * @param entryPath - Path of the HTML page (defaults to findEntryPage)
+   * @returns The HTML document
+   * @throws BundleError if the bundle contains no HTML page
+   */
+  bundleToHTML(fileSystem: VirtualFileSystem, entryPath?: string): string {
+    const pagePath = entryPath || this.findEntryPage(fileSystem);
+    const html = pagePath ? fileSystem.readText(pagePath) : undefined;
+    
+    if (!pagePath || html === undefined) {
+      throw new BundleError('The bundle does not contain an HTML file');
+    }
+    
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    
+    doc.querySelectorAll('style').forEach(style => {
+      style.textContent = this.rewriteCss(fileSystem, pagePath, style.textContent || '', 0);
+    });
+    
+    // Inline linked stylesheets in place so the cascade order is kept
+    doc.querySelectorAll('link[rel][href]').forEach(link => {
+      const isStylesheet = (link.getAttribute('rel') || '').toLowerCase().split(/\s+/).includes('stylesheet');
+      const cssPath = isStylesheet ? fileSystem.resolve(pagePath, link.getAttribute('href') || '') : null;
+      if (!cssPath) {
+        return;
+      }
+      
+      const style = doc.createElement('style');
+      const media = link.getAttribute('media');
+      if (media) {
+        style.setAttribute('media', media);
+      }
+      style.textContent = this.inlineStylesheet(fileSystem, cssPath, 0);
+      link.replaceWith(style);
+    });
+    
+    doc.querySelectorAll('[style]').forEach(element => {
+      element.setAttribute('style', this.rewriteCssUrls(fileSystem, pagePath, element.getAttribute('style') || ''));
+    });
+    
+    MEDIA_ATTRIBUTES.forEach(([selector, attribute]) => {
+      doc.querySelectorAll(selector).forEach(element => {
+        const dataUrl = this.toDataUrl(fileSystem, pagePath, element.getAttribute(attribute) || '');
+        if (dataUrl) {
+          element.setAttribute(attribute, dataUrl);
+        }
+      });
+    });
+    
+    // srcset candidates are replaced individually, keeping their descriptors
+    doc.querySelectorAll('img[srcset], source[srcset]').forEach(element => {
+      const srcset = (element.getAttribute('srcset') || '')
+        .split(',')
+        .map(candidate => {
+          const [url, ...descriptors] = candidate.trim().split(/\s+/);
+          const dataUrl = this.toDataUrl(fileSystem, pagePath, url || '');
+          return [dataUrl || url, ...descriptors].join(' ');
+        })
+        .join(', ');
+      element.setAttribute('srcset', srcset);
+    });
+    
+    return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+  }
+  
+  /**
+   * Read the contents of a file or blob
+   * 
+   * @param blob - The file to read
+   * @returns The file contents
+   */
+  private readBlob(blob: Blob): Promise<Uint8Array> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+      reader.onerror = () => reject(reader.error || new Error('Failed to read file'));
+      reader.readAsArrayBuffer(blob);
+    });
+  }
+  
+  /**
+   * Create a virtual file system, removing a root folder shared by all files
+   * 
+   * @param files - Paths and contents of the files
+   * @returns The virtual file system
+   */
+  private createFileSystem(files: Array<{ path: string; data: Uint8Array }>): VirtualFileSystem {
+    const fileSystem = new VirtualFileSystem();
+    const paths = files.map(({ path }) => VirtualFileSystem.normalizePath(path));
+    const root = this.getCommonRoot(paths);
+    
+    files.forEach(({ data }, index) => {
+      fileSystem.addFile(paths[index].slice(root.length), data);
+    });
+    
+    return fileSystem;
+  }
+  
+  /**
+   * Get the folder prefix shared by all paths (e.g. "export/")
+   * 
+   * @param paths - Normalized file paths
+   * @returns The shared prefix including the trailing "/", or an empty string
+   */
+  private getCommonRoot(paths: string[]): string {
+    if (paths.length === 0) {
+      return '';
+    }
+    
+    const folders = paths.map(path => path.split('/').slice(0, -1));
+    const common: string[] = [];
+    
+    for (let i = 0; i < folders[0].length; i++) {
+      if (folders.every(folder => folder[i] === folders[0][i])) {
+        common.push(folders[0][i]);
+      } else {
+        break;
+      }
+    }
+    
+    return common.length > 0 ? `${common.join('/')}/` : '';
+  }
+  
+  /**
+   * Check whether a path is operating system metadata (__MACOSX, .DS_Store, Thumbs.db)
+   * 
+   * @param path - File path
+   * @returns True if the file should be ignored
+   */
+  private isSystemFile(path: string): boolean {
+    return /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$)/i.test(path);
+  }
+  
+  /**
+   * Read a stylesheet with its imports inlined and url() references as data URLs
+   * 
+   * @param fileSystem - The bundle files
+   * @param cssPath - Path of the stylesheet
+   * @param depth - Current @import nesting depth
+   * @returns The rewritten CSS
+   */
+  private inlineStylesheet(fileSystem: VirtualFileSystem, cssPath: string, depth: number): string {
+    return this.rewriteCss(fileSystem, cssPath, fileSystem.readText(cssPath) || '', depth);
+  }
+  
+  /**
+   * Inline @import rules and rewrite url() references of CSS
+   * 
+   * @param fileSystem - The bundle files
+   * @param basePath - Path references are relative to
+   * @param css - The CSS text
+   * @param depth - Current @import nesting depth
+   * @returns The rewritten CSS
+   */
+  private rewriteCss(fileSystem: VirtualFileSystem, basePath: string, css: string, depth: number): string {
+    const withImports = css.replace(CSS_IMPORT_PATTERN, (rule, _quote, reference: string, media: string) => {
+      const importPath = fileSystem.resolve(basePath, reference);
+      if (!importPath || depth >= MAX_IMPORT_DEPTH) {
+        return rule;
+      }
+      
+      const imported = this.inlineStylesheet(fileSystem, importPath, depth + 1);
+      return media.trim() ? `@media ${media.trim()} {\n${imported}\n}` : imported;
+    });
+    
+    return this.rewriteCssUrls(fileSystem, basePath, withImports);
+  }
+  
+  /**
+   * Replace url() references to bundle files with data URLs
+   * 
+   * @param fileSystem - The bundle files
+   * @param basePath - Path references are relative to
+   * @param css - The CSS text
+   * @returns The rewritten CSS
+   */
+  private rewriteCssUrls(fileSystem: VirtualFileSystem, basePath: string, css: string): string {
+    return css.replace(CSS_URL_PATTERN, (match, _quote, reference: string) => {
+      const dataUrl = this.toDataUrl(fileSystem, basePath, reference);
+      return dataUrl ? `url("${dataUrl}")` : match;
+    });
+  }
+  
+  /**
+   * Resolve a reference and encode the referenced file as a data URL
+   * 
+   * @param fileSystem - The bundle files
+   * @param basePath - Path the reference is relative to
+   * @param reference - The src/href/url() value
+   * @returns Data URL, or null if the reference is not a bundle file
+   */
+  private toDataUrl(fileSystem: VirtualFileSystem, basePath: string, reference: string): string | null {
+    const path = fileSystem.resolve(basePath, reference);
+    return path ? fileSystem.toDataUrl(path) || null : null;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { VirtualFileSystem } from './VirtualFileSystem';
+
+/**
+ * A file picked or dropped by the user, with its path inside the dropped folder
+ */
+export interface BundleFile {
+  /**
+   * Path relative to the dropped folder (e.g. "export/images/logo.png")
+   */
+  path: string;
+  
+  /**
+   * The file itself
+   */
+  file: Blob;
+}
+
+/**
+ * Interface for the bundle loader service
+ * 
+ * This service reads HTML bundles (a ZIP archive or a dropped folder with
+ * an HTML page and its images and stylesheets) into a virtual file system
+ * and turns them into a single self-contained HTML document. Everything
+ * happens client-side.
+ */
+export interface BundleLoaderService {
+  /**
+   * Extract a ZIP archive into a virtual file system
+   * 
+   * @param data - The archive contents
+   * @returns The extracted files
+   * @throws BundleError if the archive cannot be read
+   */
+  loadZip(data: Blob | ArrayBuffer | Uint8Array): Promise<VirtualFileSystem>;
+  
+  /**
+   * Read the files of a dropped folder into a virtual file system
+   * 
+   * A folder shared by all files (the dropped folder itself) is removed
+   * from the paths.
+   * 
+   * @param files - The dropped files
+   * @returns The files keyed by their path
+   */
+  loadFiles(files: BundleFile[]): Promise<VirtualFileSystem>;
+  
+  /**
+   * Find the HTML page of a bundle
+   * 
+   * "index.html" is preferred; otherwise the HTML file closest to the root is used.
+   * 
+   * @param fileSystem - The bundle files
+   * @returns Path of the page, or null if the bundle contains no HTML file
+   */
+  findEntryPage(fileSystem: VirtualFileSystem): string | null;
+  
+  /**
+   * Build a self-contained HTML document from a bundle
+   * 
+   * Stylesheets linked with <link rel="stylesheet"> are inlined as <style>
+   * elements, and relative image sources and CSS url() references are
+   * replaced with data URLs. References to files that are not in the
+   * bundle are left unchanged.
+   * 
+   * @param fileSystem - The bundle files
+   * @param entryPath - Path of the HTML page (defaults to findEntryPage)
+   * @returns The HTML document
+   * @throws BundleError if the bundle contains no HTML page
+   */
+  bundleToHTML(fileSystem: VirtualFileSystem, entryPath?: string): string;
+}
+
+/**
+ * Bundle error class
+ * 
+ * Custom error class for errors reading HTML bundles
+ */
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
\ No newline at end of file
@@ -0,0 +1,240 @@
+import { encodeBase64 } from '../../utils/base64';
+
+// MIME types of the asset files an HTML export usually contains
+const MIME_TYPES: Record<string, string> = {
+  html: 'text/html',
+  htm: 'text/html',
+  css: 'text/css',
+  js: 'text/javascript',
+  json: 'application/json',
+  txt: 'text/plain',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  svg: 'image/svg+xml',
+  avif: 'image/avif',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  ttf: 'font/ttf',
+  otf: 'font/otf'
+};
+
+// Origin used to resolve paths with the URL standard; it never leaves this module
+const VIRTUAL_ORIGIN = 'https://bundle.invalid';
+
+/**
+ * A file stored in the virtual file system
+ */
+export interface VirtualFile {
+  path: string;
+  data: Uint8Array;
+  mimeType: string;
+  // Original URL of the file (e.g. the Content-Location of an MHTML part); relative references resolve against it
+  url?: string;
+}
+
+/**
+ * Options for adding a file to the virtual file system
+ */
+export interface VirtualFileOptions {
+  // MIME type (derived from the file extension when omitted)
+  mimeType?: string;
+  // Original URL of the file; references to this URL resolve to the file
+  url?: string;
+}
+
+/**
+ * In-memory virtual file system for uploaded HTML bundles
+ * 
+ * Paths are relative to the bundle root, use "/" as separator and never
+ * start with "/" (e.g. "images/logo.png"). Files from web archives can
+ * additionally be found by their original URL or a "cid:" alias.
+ */
+export class VirtualFileSystem {
+  private files = new Map<string, VirtualFile>();
+  private aliases = new Map<string, string>();
+  
+  /**
+   * Add a file to the file system, replacing any file with the same path
+   * 
+   * @param path - Path of the file within the bundle
+   * @param data - File contents
+   * @param options - MIME type and original URL of the file
+   */
+  addFile(path: string, data: Uint8Array, options: VirtualFileOptions = {}): void {
+    const normalizedPath = VirtualFileSystem.normalizePath(path);
+    if (!normalizedPath) {
+      return;
+    }
+    
+    this.files.set(normalizedPath, {
+      path: normalizedPath,
+      data,
+      mimeType: options.mimeType || VirtualFileSystem.getMimeType(normalizedPath),
+      url: options.url
+    });
+    
+    if (options.url) {
+      this.addAlias(options.url, normalizedPath);
+    }
+  }
+  
+  /**
+   * Register another URL under which a file can be referenced
+   * 
+   * @param url - Absolute URL or "cid:" reference
+   * @param path - Path of the file within the bundle
+   */
+  addAlias(url: string, path: string): void {
+    this.aliases.set(VirtualFileSystem.normalizeUrl(url), VirtualFileSystem.normalizePath(path));
+  }
+  
+  /**
+   * Get a file by its path
+   * 
+   * @param path - Path of the file within the bundle
+   * @returns The file, or undefined if it does not exist
+   */
+  getFile(path: string): VirtualFile | undefined {
+    return this.files.get(VirtualFileSystem.normalizePath(path));
+  }
+  
+  /**
+   * Get the paths of all files
+   * 
+   * @returns File paths in insertion order
+   */
+  listFiles(): string[] {
+    return Array.from(this.files.keys());
+  }
+  
+  /**
+   * Resolve a reference found in a file to the path of the referenced file
+   * 
+   * References are resolved like a browser would (the URL standard), so
+   * "../", "./", query strings and fragments are handled. Relative
+   * references in a file with an original URL resolve against that URL.
+   * 
+   * @param fromPath - Path of the file containing the reference
+   * @param reference - The src/href value
+   * @returns Path of the referenced file, or null if it is not a file in the bundle
+   */
+  resolve(fromPath: string, reference: string): string | null {
+    const trimmed = reference.trim();
+    
+    // In-document links and inline data are not bundle files
+    if (!trimmed || trimmed.startsWith('#') || /^data:/i.test(trimmed)) {
+      return null;
+    }
+    
+    const alias = this.aliases.get(VirtualFileSystem.normalizeUrl(trimmed));
+    if (alias) {
+      return alias;
+    }
+    
+    try {
+      const base = this.getFile(fromPath)?.url || `${VIRTUAL_ORIGIN}/${VirtualFileSystem.normalizePath(fromPath)}`;
+      const url = new URL(trimmed, base);
+      url.hash = '';
+      
+      const urlAlias = this.aliases.get(url.href);
+      if (urlAlias) {
+        return urlAlias;
+      }
+      
+      // Other absolute URLs (http:, data:, mailto: ...) are not bundle files
+      if (url.origin !== VIRTUAL_ORIGIN) {
+        return null;
+      }
+      
+      const path = VirtualFileSystem.normalizePath(decodeURIComponent(url.pathname));
+      return this.files.has(path) ? path : null;
+    } catch (error) {
+      return null;
+    }
+  }
+  
+  /**
+   * Read a file as UTF-8 text
+   * 
+   * @param path - Path of the file within the bundle
+   * @returns File contents, or undefined if the file does not exist
+   */
+  readText(path: string): string | undefined {
+    const file = this.getFile(path);
+    return file ? new TextDecoder('utf-8').decode(file.data) : undefined;
+  }
+  
+  /**
+   * Encode a file as a data URL
+   * 
+   * @param path - Path of the file within the bundle
+   * @returns Data URL, or undefined if the file does not exist
+   */
+  toDataUrl(path: string): string | undefined {
+    const file = this.getFile(path);
+    if (!file) {
+      return undefined;
+    }
+    
+    return `data:${file.mimeType};base64,${encodeBase64(file.data)}`;
+  }
+  
+  /**
+   * Normalize a path to the form used as key ("a/b.png")
+   * 
+   * @param path - Path to normalize
+   * @returns Normalized path (empty for the root)
+   */
+  static normalizePath(path: string): string {
+    const segments: string[] = [];
+    
+    for (const segment of path.replace(/\\/g, '/').split('/')) {
+      if (segment === '..') {
+        segments.pop();
+      } else if (segment && segment !== '.') {
+        segments.push(segment);
+      }
+    }
+    
+    return segments.join('/');
+  }
+  
+  /**
+   * Normalize a URL to the form used as alias key (fragment removed)
+   * 
+   * @param url - Absolute URL or "cid:" reference
+   * @returns Normalized URL
+   */
+  static normalizeUrl(url: string): string {
+    const trimmed = url.trim();
+    
+    // Content-IDs are compared as written (without the angle brackets of the header)
+    if (/^cid:/i.test(trimmed)) {
+      return `cid:${trimmed.slice(4).replace(/^<|>$/g, '')}`;
+    }
+    
+    try {
+      const parsed = new URL(trimmed);
+      parsed.hash = '';
+      return parsed.href;
+    } catch (error) {
+      return trimmed;
+    }
+  }
+  
+  /**
+   * Get the MIME type of a file from its extension
+   * 
+   * @param path - File path
+   * @returns MIME type (application/octet-stream for unknown extensions)
+   */
+  static getMimeType(path: string): string {
+    const extension = path.split('.').pop()?.toLowerCase() || '';
+    return MIME_TYPES[extension] || 'application/octet-stream';
+  }
+}
\ No newline at end of file
@@ -0,0 +1,3 @@
+export * from './VirtualFileSystem';
+export * from './BundleLoaderInterface';
+export * from './BundleLoader';
\ No newline at end of file
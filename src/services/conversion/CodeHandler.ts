@@ -0,0 +1,398 @@
+import { TextRun } from '../../models';
+import { CodeHandlerService, CodeHandlingError, CodeToken, CodeTokenType } from './CodeHandlerInterface';
+
+/**
+ * Lexical rules of a language, just enough to find keywords, strings and comments
+ */
+interface LanguageDefinition {
+  keywords: string[];
+  lineComments?: string[];
+  blockComments?: [string, string][];
+  // String delimiters; three-character delimiters and backticks may span lines
+  strings?: string[];
+  caseInsensitive?: boolean;
+}
+
+const C_COMMENTS: Pick<LanguageDefinition, 'lineComments' | 'blockComments'> = {
+  lineComments: ['//'],
+  blockComments: [['/*', '*/']]
+};
+
+const JAVASCRIPT_KEYWORDS = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do',
+  'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'get', 'if', 'import', 'in',
+  'instanceof', 'let', 'new', 'null', 'of', 'return', 'set', 'static', 'super', 'switch', 'this', 'throw', 'true',
+  'try', 'typeof', 'undefined', 'var', 'void', 'while', 'with', 'yield'
+];
+
+const C_KEYWORDS = [
+  'auto', 'bool', 'break', 'case', 'char', 'const', 'continue', 'default', 'do', 'double', 'else', 'enum', 'extern',
+  'false', 'float', 'for', 'goto', 'if', 'inline', 'int', 'long', 'NULL', 'register', 'restrict', 'return', 'short',
+  'signed', 'sizeof', 'static', 'struct', 'switch', 'true', 'typedef', 'union', 'unsigned', 'void', 'volatile', 'while'
+];
+
+const LANGUAGES: Record<string, LanguageDefinition> = {
+  javascript: {
+    ...C_COMMENTS,
+    keywords: JAVASCRIPT_KEYWORDS,
+    strings: ['`', '"', "'"]
+  },
+  typescript: {
+    ...C_COMMENTS,
+    keywords: [
+      ...JAVASCRIPT_KEYWORDS,
+      'abstract', 'any', 'as', 'boolean', 'declare', 'enum', 'implements', 'interface', 'keyof', 'namespace', 'never',
+      'number', 'private', 'protected', 'public', 'readonly', 'string', 'type', 'unknown'
+    ],
+    strings: ['`', '"', "'"]
+  },
+  python: {
+    keywords: [
+      'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except',
+      'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'None', 'nonlocal', 'not',
+      'or', 'pass', 'raise', 'return', 'self', 'True', 'try', 'while', 'with', 'yield'
+    ],
+    lineComments: ['#'],
+    strings: ['"""', "'''", '"', "'"]
+  },
+  java: {
+    ...C_COMMENTS,
+    keywords: [
+      'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const', 'continue',
+      'default', 'do', 'double', 'else', 'enum', 'extends', 'false', 'final', 'finally', 'float', 'for', 'if',
+      'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'native', 'new', 'null', 'package', 'private',
+      'protected', 'public', 'record', 'return', 'short', 'static', 'super', 'switch', 'synchronized', 'this', 'throw',
+      'throws', 'transient', 'true', 'try', 'var', 'void', 'volatile', 'while'
+    ],
+    strings: ['"""', '"', "'"]
+  },
+  kotlin: {
+    ...C_COMMENTS,
+    keywords: [
+      'as', 'break', 'class', 'companion', 'continue', 'data', 'do', 'else', 'false', 'for', 'fun', 'if', 'import',
+      'in', 'interface', 'internal', 'is', 'lateinit', 'null', 'object', 'open', 'override', 'package', 'private',
+      'protected', 'public', 'return', 'sealed', 'super', 'this', 'throw', 'true', 'try', 'typealias', 'val', 'var',
+      'when', 'while'
+    ],
+    strings: ['"""', '"', "'"]
+  },
+  c: {
+    ...C_COMMENTS,
+    keywords: C_KEYWORDS,
+    strings: ['"', "'"]
+  },
+  cpp: {
+    ...C_COMMENTS,
+    keywords: [
+      ...C_KEYWORDS,
+      'catch', 'class', 'constexpr', 'delete', 'explicit', 'friend', 'mutable', 'namespace', 'new', 'noexcept',
+      'nullptr', 'operator', 'override', 'private', 'protected', 'public', 'template', 'this', 'throw', 'try',
+      'typename', 'using', 'virtual'
+    ],
+    strings: ['"', "'"]
+  },
+  csharp: {
+    ...C_COMMENTS,
+    keywords: [
+      'abstract', 'as', 'async', 'await', 'base', 'bool', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const',
+      'continue', 'decimal', 'default', 'delegate', 'do', 'double', 'else', 'enum', 'event', 'false', 'finally',
+      'float', 'for', 'foreach', 'if', 'in', 'int', 'interface', 'internal', 'is', 'lock', 'long', 'namespace', 'new',
+      'null', 'object', 'out', 'override', 'params', 'private', 'protected', 'public', 'readonly', 'ref', 'return',
+      'sealed', 'static', 'string', 'struct', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'using', 'var',
+      'virtual', 'void', 'while'
+    ],
+    strings: ['"', "'"]
+  },
+  go: {
+    ...C_COMMENTS,
+    keywords: [
+      'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'false', 'for', 'func',
+      'go', 'goto', 'if', 'import', 'interface', 'map', 'nil', 'package', 'range', 'return', 'select', 'struct',
+      'switch', 'true', 'type', 'var'
+    ],
+    strings: ['`', '"', "'"]
+  },
+  rust: {
+    ...C_COMMENTS,
+    keywords: [
+      'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum', 'extern', 'false', 'fn',
+      'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'self', 'Self',
+      'static', 'struct', 'super', 'trait', 'true', 'type', 'unsafe', 'use', 'where', 'while'
+    ],
+    strings: ['"']
+  },
+  ruby: {
+    keywords: [
+      'alias', 'and', 'begin', 'break', 'case', 'class', 'def', 'do', 'else', 'elsif', 'end', 'ensure', 'false', 'for',
+      'if', 'in', 'module', 'next', 'nil', 'not', 'or', 'redo', 'rescue', 'retry', 'return', 'self', 'super', 'then',
+      'true', 'unless', 'until', 'when', 'while', 'yield'
+    ],
+    lineComments: ['#'],
+    strings: ['"', "'"]
+  },
+  php: {
+    lineComments: ['//', '#'],
+    blockComments: [['/*', '*/']],
+    keywords: [
+      'abstract', 'array', 'as', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'do', 'echo',
+      'else', 'elseif', 'extends', 'false', 'final', 'finally', 'fn', 'for', 'foreach', 'function', 'global', 'if',
+      'implements', 'include', 'interface', 'match', 'namespace', 'new', 'null', 'private', 'protected', 'public',
+      'require', 'return', 'static', 'switch', 'throw', 'trait', 'true', 'try', 'use', 'while', 'yield'
+    ],
+    strings: ['"', "'"]
+  },
+  bash: {
+    keywords: [
+      'break', 'case', 'continue', 'declare', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'exit', 'export', 'fi',
+      'for', 'function', 'if', 'in', 'local', 'readonly', 'return', 'select', 'then', 'until', 'while'
+    ],
+    lineComments: ['#'],
+    strings: ['"', "'"]
+  },
+  sql: {
+    keywords: [
+      'all', 'alter', 'and', 'as', 'asc', 'avg', 'between', 'by', 'case', 'count', 'create', 'default', 'delete',
+      'desc', 'distinct', 'drop', 'else', 'end', 'exists', 'foreign', 'from', 'full', 'group', 'having', 'in', 'index',
+      'inner', 'insert', 'into', 'is', 'join', 'key', 'left', 'like', 'limit', 'max', 'min', 'not', 'null', 'offset',
+      'on', 'or', 'order', 'outer', 'primary', 'references', 'right', 'select', 'set', 'sum', 'table', 'then', 'union',
+      'update', 'values', 'view', 'when', 'where', 'with'
+    ],
+    lineComments: ['--'],
+    blockComments: [['/*', '*/']],
+    strings: ["'", '"'],
+    caseInsensitive: true
+  },
+  json: {
+    keywords: ['false', 'null', 'true'],
+    strings: ['"']
+  },
+  yaml: {
+    keywords: ['false', 'no', 'null', 'true', 'yes'],
+    lineComments: ['#'],
+    strings: ['"', "'"]
+  }
+};
+
+// Alternative names used in language-xxx classes
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  node: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  python3: 'python',
+  kt: 'kotlin',
+  h: 'c',
+  'c++': 'cpp',
+  cc: 'cpp',
+  cxx: 'cpp',
+  hpp: 'cpp',
+  cs: 'csharp',
+  'c#': 'csharp',
+  golang: 'go',
+  rs: 'rust',
+  rb: 'ruby',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  mysql: 'sql',
+  postgresql: 'sql',
+  pgsql: 'sql',
+  yml: 'yaml'
+};
+
+// Run colors per token type (readable on the light code box)
+const TOKEN_FORMATS: Record<CodeTokenType, Omit<TextRun, 'text'>> = {
+  plain: {},
+  keyword: { color: '0033B3', bold: true },
+  string: { color: '067D17' },
+  comment: { color: '8C8C8C', italic: true },
+  number: { color: '1750EB' }
+};
+
+const IDENTIFIER_PATTERN = /[A-Za-z_$][\w$]*/y;
+const NUMBER_PATTERN = /(?:0[xX][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)/y;
+
+/**
+ * Code Handler Service Implementation
+ * 
+ * This service highlights code blocks without any external highlighter. It
+ * knows the keywords, comments and string literals of common languages;
+ * anything else stays plain.
+ */
+export class CodeHandler implements CodeHandlerService {
+  /**
+   * Check whether a language is known to the highlighter
+   * 
+   * @param language - Language name or alias (e.g. "ts", "python")
+   * @returns True if the language can be highlighted
+   */
+  isSupportedLanguage(language?: string): boolean {
+    return !!this.getLanguageDefinition(language);
+  }
+  
+  /**
+   * Split source code into keyword, string, comment, number and plain tokens
+   * 
+   * @param code - The source code
+   * @param language - Language name or alias; unknown languages yield a single plain token
+   * @returns Tokens covering the whole code in order
+   */
+  tokenize(code: string, language?: string): CodeToken[] {
+    try {
+      const definition = this.getLanguageDefinition(language);
+      if (!definition) {
+        return code ? [{ text: code, type: 'plain' }] : [];
+      }
+      
+      const keywords = new Set(definition.keywords.map(keyword => definition.caseInsensitive ? keyword.toLowerCase() : keyword));
+      // Longer delimiters first so that """ is not read as an empty "" string
+      const strings = [...(definition.strings || [])].sort((a, b) => b.length - a.length);
+      const tokens: CodeToken[] = [];
+      
+      const push = (text: string, type: CodeTokenType) => {
+        const last = tokens[tokens.length - 1];
+        if (last && last.type === type) {
+          last.text += text;
+        } else {
+          tokens.push({ text, type });
+        }
+      };
+      
+      let index = 0;
+      while (index < code.length) {
+        const lineComment = definition.lineComments?.find(marker => code.startsWith(marker, index));
+        if (lineComment) {
+          const end = code.indexOf('\n', index);
+          const stop = end < 0 ? code.length : end;
+          push(code.slice(index, stop), 'comment');
+          index = stop;
+          continue;
+        }
+        
+        const blockComment = definition.blockComments?.find(([open]) => code.startsWith(open, index));
+        if (blockComment) {
+          const end = code.indexOf(blockComment[1], index + blockComment[0].length);
+          const stop = end < 0 ? code.length : end + blockComment[1].length;
+          push(code.slice(index, stop), 'comment');
+          index = stop;
+          continue;
+        }
+        
+        const quote = strings.find(delimiter => code.startsWith(delimiter, index));
+        if (quote) {
+          const stop = this.findStringEnd(code, index, quote);
+          push(code.slice(index, stop), 'string');
+          index = stop;
+          continue;
+        }
+        
+        IDENTIFIER_PATTERN.lastIndex = index;
+        const identifier = IDENTIFIER_PATTERN.exec(code);
+        if (identifier) {
+          const word = definition.caseInsensitive ? identifier[0].toLowerCase() : identifier[0];
+          push(identifier[0], keywords.has(word) ? 'keyword' : 'plain');
+          index += identifier[0].length;
+          continue;
+        }
+        
+        NUMBER_PATTERN.lastIndex = index;
+        const number = NUMBER_PATTERN.exec(code);
+        if (number) {
+          push(number[0], 'number');
+          index += number[0].length;
+          continue;
+        }
+        
+        push(code[index], 'plain');
+        index++;
+      }
+      
+      return tokens;
+    } catch (error) {
+      throw new CodeHandlingError(
+        `Failed to tokenize code: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  
+  /**
+   * Highlight source code as formatting runs
+   * 
+   * @param code - The source code
+   * @param language - Language name or alias
+   * @returns Colored runs with a line break after each source line
+   */
+  highlight(code: string, language?: string): TextRun[] {
+    try {
+      const runs: TextRun[] = [];
+      
+      for (const token of this.tokenize(code, language)) {
+        const lines = token.text.split('\n');
+        
+        lines.forEach((line, index) => {
+          const breakLine = index < lines.length - 1;
+          if (line || breakLine) {
+            runs.push({ text: line, ...TOKEN_FORMATS[token.type], ...(breakLine ? { breakLine } : {}) });
+          }
+        });
+      }
+      
+      return runs;
+    } catch (error) {
+      throw new CodeHandlingError(
+        `Failed to highlight code: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  
+  /**
+   * Look up the lexical rules of a language
+   * 
+   * @param language - Language name or alias
+   * @returns The language definition, or undefined for unknown languages
+   */
+  private getLanguageDefinition(language?: string): LanguageDefinition | undefined {
+    if (!language) {
+      return undefined;
+    }
+    
+    const name = language.trim().toLowerCase();
+    return LANGUAGES[LANGUAGE_ALIASES[name] || name];
+  }
+  
+  /**
+   * Find the end of a string literal
+   * 
+   * @param code - The source code
+   * @param start - Index of the opening delimiter
+   * @param quote - The delimiter
+   * @returns Index after the closing delimiter (or the end of the line for unterminated strings)
+   */
+  private findStringEnd(code: string, start: number, quote: string): number {
+    const multiline = quote.length > 1 || quote === '`';
+    let index = start + quote.length;
+    
+    while (index < code.length) {
+      if (code[index] === '\\') {
+        index += 2;
+        continue;
+      }
+      
+      if (code.startsWith(quote, index)) {
+        return index + quote.length;
+      }
+      
+      if (code[index] === '\n' && !multiline) {
+        return index;
+      }
+      
+      index++;
+    }
+    
+    return code.length;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { TextRun } from '../../models';
+
+export type CodeTokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number';
+
+/**
+ * A piece of source code classified for syntax highlighting
+ */
+export interface CodeToken {
+  text: string;
+  type: CodeTokenType;
+}
+
+/**
+ * Interface for the code handler service
+ * 
+ * This service is responsible for syntax highlighting code blocks for PPTX slides.
+ */
+export interface CodeHandlerService {
+  /**
+   * Check whether a language is known to the highlighter
+   * 
+   * @param language - Language name or alias (e.g. "ts", "python")
+   * @returns True if the language can be highlighted
+   */
+  isSupportedLanguage(language?: string): boolean;
+  
+  /**
+   * Split source code into keyword, string, comment, number and plain tokens
+   * 
+   * @param code - The source code
+   * @param language - Language name or alias; unknown languages yield a single plain token
+   * @returns Tokens covering the whole code in order
+   */
+  tokenize(code: string, language?: string): CodeToken[];
+  
+  /**
+   * Highlight source code as formatting runs
+   * 
+   * @param code - The source code
+   * @param language - Language name or alias
+   * @returns Colored runs with a line break after each source line
+   */
+  highlight(code: string, language?: string): TextRun[];
+}
+
+/**
+ * Code handling error class
+ * 
+ * Custom error class for code handling errors
+ */
+export class CodeHandlingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CodeHandlingError';
+  }
+}
\ No newline at end of file
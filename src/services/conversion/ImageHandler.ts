@@ -1,5 +1,26 @@
 import { ImageResource, ImageProcessingOptions } from '../../models';
 import { ImageHandlerService, ImageHandlingError } from './ImageHandlerInterface';
+import { createSvgDataUrl, isSvgSource, measureSvg, parseSvg, readSvgDataUrl, serializeSvg } from '../../utils/svg';
+
+// Image formats (MIME subtypes) PowerPoint can show; others (WebP, AVIF) are converted
+const SUPPORTED_FORMATS = ['jpeg', 'png', 'gif', 'bmp'];
+
+// Image format (MIME subtype) by file extension
+const FORMAT_EXTENSIONS: Record<string, string> = {
+  jpg: 'jpeg',
+  jpeg: 'jpeg',
+  jpe: 'jpeg',
+  jfif: 'jpeg',
+  png: 'png',
+  apng: 'png',
+  gif: 'gif',
+  bmp: 'bmp',
+  webp: 'webp',
+  avif: 'avif'
+};
+
+// JPEG quality in percent when ImageProcessingOptions.quality is not set
+const DEFAULT_QUALITY = 80;
 
 /**
  * Image Handler Service Implementation
@@ -20,6 +41,11 @@ export class ImageHandler implements ImageHandlerService {
    */
   async processImage(image: ImageResource, options?: ImageProcessingOptions): Promise<ImageResource> {
     try {
+      // SVGs stay vector images
+      if (isSvgSource(image.dataUrl || image.src)) {
+        return await this.processSvgImage(image, options);
+      }
+      
       // If the image already has a data URL, use it
       if (image.dataUrl) {
         return this.processDataUrlImage(image, options);
@@ -28,9 +54,6 @@ export class ImageHandler implements ImageHandlerService {
       // Load the image from URL
       const imgElement = await this.loadImageFromUrl(image.src);
       
-      // Convert to data URL with processing options
-      const dataUrl = this.convertToDataUrl(imgElement, options);
-      
       // Calculate optimal dimensions
       const { width, height } = this.calculateOptimalDimensions(
         imgElement.naturalWidth,
@@ -40,6 +63,20 @@ export class ImageHandler implements ImageHandlerService {
         options?.preserveAspectRatio ?? true
       );
       
+      // Images PowerPoint can show that need no resizing are embedded from their source as they are
+      const format = this.getImageFormat(image.src);
+      if (format && SUPPORTED_FORMATS.includes(format) &&
+          width === imgElement.naturalWidth && height === imgElement.naturalHeight) {
+        return {
+          ...image,
+          width,
+          height
+        };
+      }
+      
+      // Convert to data URL with processing options
+      const dataUrl = this.convertToDataUrl(imgElement, options);
+      
       // Return processed image
       return {
         ...image,
@@ -82,16 +119,19 @@ export class ImageHandler implements ImageHandlerService {
         options?.preserveAspectRatio ?? true
       );
       
-      // If resizing is needed, create a new data URL
+      // If resizing is needed or PowerPoint cannot show the format, create a new data URL
+      const format = this.getImageFormat(image.dataUrl!);
       if (
         (options?.maxWidth && width !== imgElement.naturalWidth) ||
-        (options?.maxHeight && height !== imgElement.naturalHeight)
+        (options?.maxHeight && height !== imgElement.naturalHeight) ||
+        !format || !SUPPORTED_FORMATS.includes(format)
       ) {
         const dataUrl = this.resizeImage(
           imgElement,
           options?.maxWidth,
           options?.maxHeight,
-          options?.preserveAspectRatio
+          options?.preserveAspectRatio,
+          options?.quality
         );
         
         return {
@@ -102,7 +142,7 @@ export class ImageHandler implements ImageHandlerService {
         };
       }
       
-      // No resizing needed, return the original image
+      // No resizing needed, keep the original data
       return {
         ...image,
         width,
@@ -115,6 +155,105 @@ export class ImageHandler implements ImageHandlerService {
     }
   }
   
+  /**
+   * Process an SVG image (an svg+xml data URL or a .svg file)
+   * 
+   * The SVG is kept as an SVG data URL and sized from its width/height
+   * attributes or viewBox; maxWidth and maxHeight only change its display
+   * size. A .svg file whose markup cannot be read is rendered to a PNG
+   * through a canvas instead.
+   * 
+   * @param image - The image resource to process
+   * @param options - Image processing options
+   * @returns Processed image resource
+   */
+  private async processSvgImage(image: ImageResource, options?: ImageProcessingOptions): Promise<ImageResource> {
+    let markup: string;
+    try {
+      markup = image.dataUrl ? readSvgDataUrl(image.dataUrl) : await this.loadSvgFromUrl(image.src);
+    } catch (error) {
+      if (image.dataUrl) {
+        throw error;
+      }
+      
+      console.warn(`Failed to read SVG markup, rendering a PNG instead: ${error instanceof Error ? error.message : String(error)}`);
+      return this.rasterizeSvgImage(image, options);
+    }
+    
+    const svg = parseSvg(markup);
+    if (!svg) {
+      throw new ImageHandlingError(`Invalid SVG image: ${image.dataUrl ? 'data URL' : image.src}`);
+    }
+    
+    const size = measureSvg(svg);
+    const { width, height } = this.calculateOptimalDimensions(
+      size.width,
+      size.height,
+      options?.maxWidth,
+      options?.maxHeight,
+      options?.preserveAspectRatio ?? true
+    );
+    
+    return {
+      ...image,
+      dataUrl: createSvgDataUrl(serializeSvg(svg, { width, height })),
+      width,
+      height
+    };
+  }
+  
+  /**
+   * Load the markup of an SVG file
+   * 
+   * @param svgUrl - URL of the SVG file
+   * @returns SVG markup
+   */
+  private async loadSvgFromUrl(svgUrl: string): Promise<string> {
+    const response = await fetch(svgUrl);
+    if (!response.ok) {
+      throw new ImageHandlingError(`Failed to load SVG from URL: ${svgUrl} (${response.status})`);
+    }
+    
+    return response.text();
+  }
+  
+  /**
+   * Render an SVG file to a PNG data URL through a canvas
+   * 
+   * @param image - The image resource to render
+   * @param options - Image processing options
+   * @returns Image resource with the PNG data URL
+   */
+  private async rasterizeSvgImage(image: ImageResource, options?: ImageProcessingOptions): Promise<ImageResource> {
+    const imgElement = await this.loadImageFromUrl(image.src);
+    const { width, height } = this.calculateOptimalDimensions(
+      imgElement.naturalWidth || image.width,
+      imgElement.naturalHeight || image.height,
+      options?.maxWidth,
+      options?.maxHeight,
+      options?.preserveAspectRatio ?? true
+    );
+    
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new ImageHandlingError('Failed to get canvas context');
+    }
+    
+    // PNG keeps the transparent background of the SVG
+    ctx.drawImage(imgElement, 0, 0, width, height);
+    
+    return {
+      ...image,
+      dataUrl: canvas.toDataURL('image/png'),
+      width,
+      height
+    };
+  }
+  
   /**
    * Load image data from URL
    * 
@@ -137,6 +276,10 @@ export class ImageHandler implements ImageHandlerService {
   /**
    * Convert image to data URL
    * 
+   * Data URLs in a format PowerPoint can show are returned as they are when
+   * no resizing is needed; other images are encoded as described for
+   * resizeImage.
+   * 
    * @param image - The image to convert
    * @param options - Image processing options
    * @returns Data URL of the image
@@ -152,11 +295,18 @@ export class ImageHandler implements ImageHandlerService {
           image,
           options?.maxWidth,
           options?.maxHeight,
-          options?.preserveAspectRatio
+          options?.preserveAspectRatio,
+          options?.quality
         );
       }
       
-      // No resizing needed, convert directly to data URL
+      // No resizing needed, so there is nothing to re-encode in a data URL
+      const format = this.getImageFormat(image.src);
+      if (image.src.startsWith('data:') && format && SUPPORTED_FORMATS.includes(format)) {
+        return image.src;
+      }
+      
+      // Otherwise convert directly to data URL
       const canvas = document.createElement('canvas');
       canvas.width = image.naturalWidth;
       canvas.height = image.naturalHeight;
@@ -169,9 +319,7 @@ export class ImageHandler implements ImageHandlerService {
       // Draw the image on the canvas
       ctx.drawImage(image, 0, 0);
       
-      // Convert to data URL with quality option
-      const quality = options?.quality !== undefined ? options.quality / 100 : 0.8;
-      return canvas.toDataURL('image/jpeg', quality);
+      return this.encodeCanvas(canvas, ctx, format, options?.quality);
     } catch (error) {
       throw new ImageHandlingError(
         `Failed to convert image to data URL: ${error instanceof Error ? error.message : String(error)}`
@@ -182,17 +330,23 @@ export class ImageHandler implements ImageHandlerService {
   /**
    * Resize an image
    * 
+   * JPEG images stay JPEG and PNG, GIF and BMP images become PNG, keeping
+   * their transparency. Other formats (WebP, AVIF) become PNG when they have
+   * transparent pixels and JPEG otherwise, as they are mostly photos.
+   * 
    * @param image - The image to resize
    * @param maxWidth - Maximum width of the resized image
    * @param maxHeight - Maximum height of the resized image
    * @param preserveAspectRatio - Whether to preserve the aspect ratio
+   * @param quality - JPEG quality in percent
    * @returns Resized image data URL
    */
   resizeImage(
     image: HTMLImageElement, 
     maxWidth?: number, 
     maxHeight?: number, 
-    preserveAspectRatio = true
+    preserveAspectRatio = true,
+    quality?: number
   ): string {
     try {
       // Calculate dimensions
@@ -218,7 +372,7 @@ export class ImageHandler implements ImageHandlerService {
       ctx.drawImage(image, 0, 0, width, height);
       
       // Convert to data URL
-      return canvas.toDataURL('image/jpeg', 0.8);
+      return this.encodeCanvas(canvas, ctx, this.getImageFormat(image.src), quality);
     } catch (error) {
       throw new ImageHandlingError(
         `Failed to resize image: ${error instanceof Error ? error.message : String(error)}`
@@ -226,6 +380,79 @@ export class ImageHandler implements ImageHandlerService {
     }
   }
   
+  /**
+   * Encode a canvas holding a drawn image as a data URL
+   * 
+   * @param canvas - The canvas to encode
+   * @param ctx - 2D context of the canvas
+   * @param format - Format (MIME subtype) of the source image, if known
+   * @param quality - JPEG quality in percent
+   * @returns PNG or JPEG data URL
+   */
+  private encodeCanvas(
+    canvas: HTMLCanvasElement,
+    ctx: CanvasRenderingContext2D,
+    format: string | undefined,
+    quality = DEFAULT_QUALITY
+  ): string {
+    let type: string;
+    if (format === 'jpeg') {
+      type = 'image/jpeg';
+    } else if (format && SUPPORTED_FORMATS.includes(format)) {
+      type = 'image/png';
+    } else {
+      type = this.hasTransparency(ctx, canvas.width, canvas.height) ? 'image/png' : 'image/jpeg';
+    }
+    
+    return type === 'image/jpeg'
+      ? canvas.toDataURL(type, quality / 100)
+      : canvas.toDataURL(type);
+  }
+  
+  /**
+   * Check whether a drawn image has transparent pixels
+   * 
+   * @param ctx - 2D context of the canvas holding the image
+   * @param width - Width of the image
+   * @param height - Height of the image
+   * @returns Whether any pixel is not fully opaque
+   */
+  private hasTransparency(ctx: CanvasRenderingContext2D, width: number, height: number): boolean {
+    if (width === 0 || height === 0) {
+      return false;
+    }
+    
+    const { data } = ctx.getImageData(0, 0, width, height);
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] < 255) {
+        return true;
+      }
+    }
+    
+    return false;
+  }
+  
+  /**
+   * Get the format of an image from its data URL MIME type or file extension
+   * 
+   * @param src - Image URL or data URL
+   * @returns Format as MIME subtype (e.g. 'jpeg', 'png'), or undefined if unknown
+   */
+  private getImageFormat(src: string): string | undefined {
+    const mimeType = src.match(/^data:image\/([\w.+-]+)/i);
+    if (mimeType) {
+      const subtype = mimeType[1].toLowerCase();
+      return subtype === 'jpg' || subtype === 'pjpeg' ? 'jpeg' : subtype;
+    }
+    
+    if (src.startsWith('data:')) {
+      return undefined;
+    }
+    
+    const extension = src.split(/[?#]/)[0].match(/\.(\w+)$/);
+    return extension ? FORMAT_EXTENSIONS[extension[1].toLowerCase()] : undefined;
+  }
+  
   /**
    * Calculate optimal image dimensions
    * 
@@ -39,13 +39,15 @@ export interface ImageHandlerService {
    * @param maxWidth - Maximum width of the resized image
    * @param maxHeight - Maximum height of the resized image
    * @param preserveAspectRatio - Whether to preserve the aspect ratio
+   * @param quality - JPEG quality in percent
    * @returns Resized image data URL
    */
   resizeImage(
     image: HTMLImageElement, 
     maxWidth?: number, 
     maxHeight?: number, 
-    preserveAspectRatio?: boolean
+    preserveAspectRatio?: boolean,
+    quality?: number
   ): string;
   
   /**
@@ -0,0 +1,825 @@
+import { SlideElement, SlideLayout, TextResource, ListResource, TableResource, ImageResource, LinkResource, CodeResource, QuoteResource } from '../../models';
+import {
+  LayoutEngineService,
+  LayoutError,
+  LayoutBox,
+  LayoutOptions,
+  ElementPlacement,
+  SlideDimensions
+} from './LayoutEngineInterface';
+import { TableHandlerService } from './TableHandlerInterface';
+import { TableHandler } from './TableHandler';
+import { parseFontSize } from '../../utils/fontSize';
+
+// Slide sizes in inches for each layout (matching the PptxGenJS LAYOUT_4x3 and LAYOUT_16x9 presets)
+const SLIDE_DIMENSIONS: Record<SlideLayout, SlideDimensions> = {
+  [SlideLayout.STANDARD]: { width: 10, height: 7.5 },
+  [SlideLayout.WIDE]: { width: 10, height: 5.625 },
+  [SlideLayout.CUSTOM]: { width: 10, height: 5.625 }
+};
+
+// Margin around the content area in inches
+const SLIDE_MARGIN = 0.5;
+
+// Bottom of the title area drawn by PptxGenerator.addSlide in inches
+const TITLE_AREA_BOTTOM = 1.5;
+
+// Default vertical spacing between elements in inches
+const DEFAULT_SPACING = 0.2;
+
+const POINTS_PER_INCH = 72;
+const LINE_HEIGHT_RATIO = 1.2;
+
+// Average glyph width relative to the font size (good enough for proportional fonts)
+const CHAR_WIDTH_RATIO = 0.5;
+
+// Inner padding of PptxGenJS text boxes (top + bottom) in inches
+const TEXT_BOX_PADDING = 0.1;
+
+// Horizontal space taken by bullets and numbers in inches
+const BULLET_INDENT = 0.4;
+
+const DEFAULT_FONT_SIZE = 18;
+const TABLE_FONT_SIZE = 12;
+const DEFAULT_TABLE_CELL_PADDING = 5;
+
+// Code blocks: default and smallest font size in points, glyph width of monospace
+// fonts relative to the font size, and inner padding of the code box (both sides) in inches
+const CODE_FONT_SIZE = 14;
+const MIN_CODE_FONT_SIZE = 10;
+const MONOSPACE_CHAR_WIDTH_RATIO = 0.6;
+const CODE_BOX_PADDING = 0.2;
+
+// Quotes: font size of the quote text, indent next to the accent bar in inches
+// and height of the attribution line (as drawn by PptxGenerator.addQuoteElement)
+const QUOTE_FONT_SIZE = 24;
+const QUOTE_INDENT = 0.3;
+const QUOTE_ATTRIBUTION_HEIGHT = 0.4;
+
+// Font size of figure and table captions in points (as drawn by SlideCreator)
+const CAPTION_FONT_SIZE = 12;
+
+// Format of the "Page X of Y" line below each page of a table split across slides
+const TABLE_PAGE_NUMBER_FORMAT = { italic: true, fontSize: '12pt', color: '666666', alignment: 'right' };
+
+// Chart height relative to its width
+const CHART_ASPECT_RATIO = 0.5625;
+
+// Smallest height in inches an image or chart is scaled down to when fitted below other content
+const MIN_MEDIA_HEIGHT = 1;
+
+// Fallback image size in inches when the source dimensions are unknown
+const DEFAULT_IMAGE_WIDTH = 4;
+const DEFAULT_IMAGE_HEIGHT = 3;
+
+/**
+ * Layout Engine Service Implementation
+ * 
+ * This service estimates the height of slide elements and stacks them
+ * top-to-bottom inside the content area of a slide, so that elements
+ * no longer overlap each other.
+ */
+export class LayoutEngine implements LayoutEngineService {
+  private tableHandler: TableHandlerService;
+  
+  /**
+   * Constructor
+   * 
+   * @param tableHandler - The table handler service used to split tables across slides
+   */
+  constructor(tableHandler: TableHandlerService = new TableHandler()) {
+    this.tableHandler = tableHandler;
+  }
+  
+  /**
+   * Get the dimensions of a slide layout
+   * 
+   * @param layout - The slide layout
+   * @returns Slide width and height in inches
+   */
+  getSlideDimensions(layout: SlideLayout): SlideDimensions {
+    return SLIDE_DIMENSIONS[layout] || SLIDE_DIMENSIONS[SlideLayout.WIDE];
+  }
+  
+  /**
+   * Get the area of a slide available for content
+   * 
+   * @param layout - The slide layout
+   * @param hasTitle - Whether the slide has a title
+   * @returns Content area in inches
+   */
+  getContentArea(layout: SlideLayout, hasTitle: boolean = true): LayoutBox {
+    const { width, height } = this.getSlideDimensions(layout);
+    const top = hasTitle ? TITLE_AREA_BOTTOM : SLIDE_MARGIN;
+    
+    return {
+      x: SLIDE_MARGIN,
+      y: top,
+      w: width - SLIDE_MARGIN * 2,
+      h: height - SLIDE_MARGIN - top
+    };
+  }
+  
+  /**
+   * Estimate the rendered height of an element
+   * 
+   * @param element - The element to measure
+   * @param width - Width available to the element in inches
+   * @returns Estimated height in inches
+   */
+  estimateElementHeight(element: SlideElement, width: number): number {
+    try {
+      switch (element.type) {
+        case 'text':
+          return this.estimateTextHeight(element.content, width, element.style);
+        case 'list':
+          return this.estimateListHeight(element.content, width, element.style);
+        case 'table':
+          return this.estimateTableHeight(element.content, width);
+        case 'image':
+          return this.getImageSize(element.content, width).h;
+        case 'link':
+          return this.estimateLinkHeight(element.content, width, element.style);
+        case 'chart':
+          return width * CHART_ASPECT_RATIO;
+        case 'code':
+          return this.estimateCodeHeight(element.content, width);
+        case 'quote':
+          return this.estimateQuoteHeight(element.content, width);
+        default:
+          return this.getLineHeight(DEFAULT_FONT_SIZE) + TEXT_BOX_PADDING;
+      }
+    } catch (error) {
+      throw new LayoutError(
+        `Failed to estimate element height: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  
+  /**
+   * Place elements top-to-bottom within the content area of a slide
+   * 
+   * @param elements - The elements to place, in reading order
+   * @param layout - The slide layout
+   * @param options - Layout options
+   * @returns Placements for each element
+   */
+  layoutElements(elements: SlideElement[], layout: SlideLayout, options?: LayoutOptions): ElementPlacement[] {
+    try {
+      const area = this.getContentArea(layout, options?.hasTitle ?? true);
+      const spacing = options?.spacing ?? DEFAULT_SPACING;
+      const placements: ElementPlacement[] = [];
+      let y = area.y;
+      
+      for (const element of elements) {
+        let position: LayoutBox;
+        const captionHeight = this.getCaptionHeight(element, area.w);
+        
+        if (element.type === 'image' || element.type === 'chart') {
+          // Images and charts keep their aspect ratio, fit the space left on the slide and are centered horizontally
+          const space = Math.max(area.y + area.h - y - captionHeight, MIN_MEDIA_HEIGHT);
+          const size = this.getMediaSize(element, area.w, space);
+          position = {
+            x: this.round(area.x + (area.w - size.w) / 2),
+            y: this.round(y),
+            w: this.round(size.w),
+            h: this.round(size.h)
+          };
+        } else {
+          position = {
+            x: area.x,
+            y: this.round(y),
+            w: area.w,
+            h: this.round(this.getPlacedHeight(element, area) - captionHeight)
+          };
+        }
+        
+        const placement: ElementPlacement = { element, position };
+        
+        // The caption sits directly below its element, across the content width
+        if (captionHeight > 0) {
+          placement.captionPosition = { x: area.x, y: this.round(y + position.h), w: area.w, h: captionHeight };
+        }
+        
+        placements.push(placement);
+        y += position.h + captionHeight + spacing;
+      }
+      
+      return placements;
+    } catch (error) {
+      throw new LayoutError(
+        `Failed to lay out elements: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  
+  /**
+   * Distribute elements over as many slides as needed so that none overflows
+   * 
+   * @param elements - The elements to place, in reading order
+   * @param layout - The slide layout
+   * @param options - Layout options
+   * @returns Placements for each slide (always at least one slide)
+   */
+  paginateElements(elements: SlideElement[], layout: SlideLayout, options?: LayoutOptions): ElementPlacement[][] {
+    try {
+      const area = this.getContentArea(layout, options?.hasTitle ?? true);
+      const spacing = options?.spacing ?? DEFAULT_SPACING;
+      const pages: SlideElement[][] = [];
+      const queue = [...elements];
+      let page: SlideElement[] = [];
+      let usedHeight = 0;
+      
+      const startNewPage = () => {
+        pages.push(page);
+        page = [];
+        usedHeight = 0;
+      };
+      
+      while (queue.length > 0) {
+        let element = queue.shift()!;
+        
+        // Long code listings get a smaller font before they are split
+        if (element.type === 'code') {
+          element = this.shrinkCode(element, area);
+        }
+        
+        // Enforce the configured maximum number of bullets per slide first
+        const limited = this.splitByCount(element, options);
+        if (limited) {
+          element = limited[0];
+          queue.unshift(limited[1]);
+        }
+        
+        const gap = page.length > 0 ? spacing : 0;
+        const available = area.h - usedHeight - gap;
+        
+        if (element.type === 'table') {
+          // The first page of a table fills the rest of the slide, later pages get slides of their own
+          const tablePages = this.pageTable(element, area, available, options);
+          
+          if (page.length === 0 || this.getStackHeight(tablePages[0], area, spacing) <= available) {
+            tablePages.forEach((tablePage, index) => {
+              if (index > 0) {
+                startNewPage();
+              }
+              usedHeight += (page.length > 0 ? spacing : 0) + this.getStackHeight(tablePage, area, spacing);
+              page.push(...tablePage);
+            });
+            continue;
+          }
+        } else {
+          const height = this.getPlacedHeight(element, area);
+          
+          if (height <= available) {
+            page.push(element);
+            usedHeight += gap + height;
+            
+            // The rest of a list cut at the per-slide limit goes on the next slide
+            if (limited) {
+              startNewPage();
+            }
+            continue;
+          }
+          
+          // Split long lists at the last item that still fits
+          // (code is only split when it does not fit on a slide of its own)
+          const split = element.type !== 'code' || height > area.h
+            ? this.splitToFit(element, area, available)
+            : null;
+          if (split) {
+            page.push(split[0]);
+            queue.unshift(split[1]);
+            startNewPage();
+            continue;
+          }
+        }
+        
+        if (page.length > 0) {
+          // Keep a heading together with the content that follows it
+          const last = page[page.length - 1];
+          const heading = last.type === 'text' && !!last.content?.format?.headingLevel;
+          
+          if (!heading || page.length > 1) {
+            const carried = heading ? page.pop()! : null;
+            
+            startNewPage();
+            queue.unshift(element);
+            if (carried) {
+              queue.unshift(carried);
+            }
+            continue;
+          }
+          
+          // A heading already alone on the slide cannot move up with the element: images and
+          // charts are scaled into the space below it, other elements go to the next slide
+          const mediaSpace = available - this.getCaptionHeight(element, area.w);
+          if ((element.type !== 'image' && element.type !== 'chart') || mediaSpace < MIN_MEDIA_HEIGHT) {
+            startNewPage();
+            queue.unshift(element);
+            continue;
+          }
+        }
+        
+        // A single element taller than a whole slide is placed on its own
+        page.push(element);
+        startNewPage();
+      }
+      
+      if (page.length > 0 || pages.length === 0) {
+        pages.push(page);
+      }
+      
+      return pages.map(pageElements => this.layoutElements(pageElements, layout, options));
+    } catch (error) {
+      throw new LayoutError(
+        `Failed to paginate elements: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  
+  /**
+   * Get the height an element takes once placed in the content area, including its caption
+   * 
+   * @param element - The element to measure
+   * @param area - The content area
+   * @returns Height in inches
+   */
+  private getPlacedHeight(element: SlideElement, area: LayoutBox): number {
+    const captionHeight = this.getCaptionHeight(element, area.w);
+    
+    switch (element.type) {
+      case 'image':
+      case 'chart':
+        // Images and charts are scaled down to the content area
+        return this.round(this.getMediaSize(element, area.w, area.h - captionHeight).h + captionHeight);
+      default:
+        return this.round(this.estimateElementHeight(element, area.w) + captionHeight);
+    }
+  }
+  
+  /**
+   * Get the height of the caption of an element
+   * 
+   * @param element - The element
+   * @param width - Available width in inches
+   * @returns Height in inches (0 for elements without a caption)
+   */
+  private getCaptionHeight(element: SlideElement, width: number): number {
+    if (!element.caption) {
+      return 0;
+    }
+    
+    return this.round(
+      this.countWrappedLines(element.caption, width, CAPTION_FONT_SIZE) * this.getLineHeight(CAPTION_FONT_SIZE)
+        + TEXT_BOX_PADDING
+    );
+  }
+  
+  /**
+   * Get the height a group of elements takes when stacked in the content area
+   * 
+   * @param elements - The elements, in reading order
+   * @param area - The content area
+   * @param spacing - Vertical spacing between elements in inches
+   * @returns Height in inches
+   */
+  private getStackHeight(elements: SlideElement[], area: LayoutBox, spacing: number): number {
+    return this.round(elements.reduce(
+      (height, element, index) => height + (index > 0 ? spacing : 0) + this.getPlacedHeight(element, area),
+      0
+    ));
+  }
+  
+  /**
+   * Split a table into slide-sized pages with the table handler
+   * 
+   * Each page holds at most the configured number of rows and is cut short
+   * where it would overflow: the first page at the height left on the current
+   * slide, later pages at the height of the content area.
+   * 
+   * @param element - The table element
+   * @param area - The content area
+   * @param available - Height left on the current slide in inches
+   * @param options - Layout options with the per-slide row limit
+   * @returns The elements of each page (the table part, followed by its page number if shown)
+   */
+  private pageTable(element: SlideElement, area: LayoutBox, available: number, options?: LayoutOptions): SlideElement[][] {
+    const spacing = options?.spacing ?? DEFAULT_SPACING;
+    const showPageNumbers = !!options?.showTablePageNumbers;
+    
+    const pages = this.tableHandler.paginateTable(
+      element.content as TableResource,
+      options?.maxTableRows || 0,
+      showPageNumbers,
+      (table, pageIndex, lastPage) => {
+        // A table shown whole gets no page number (the page count does not change its height)
+        const pageNumber = showPageNumbers && !(pageIndex === 0 && lastPage)
+          ? `Page ${pageIndex + 1} of ${pageIndex + 1}`
+          : undefined;
+        const height = this.getStackHeight(this.createTablePage(element, table, lastPage, pageNumber), area, spacing);
+        
+        return height <= (pageIndex === 0 ? available : area.h);
+      }
+    );
+    
+    return pages.map(page => this.createTablePage(element, page.table, page.pageNumber === page.pageCount, page.caption));
+  }
+  
+  /**
+   * Create the elements of one page of a table
+   * 
+   * @param element - The table element
+   * @param table - The rows of the page
+   * @param lastPage - Whether this is the last page (which keeps the table caption)
+   * @param pageNumber - "Page X of Y" line to show below the table
+   * @returns The table part, followed by its page number if given
+   */
+  private createTablePage(element: SlideElement, table: TableResource, lastPage: boolean, pageNumber?: string): SlideElement[] {
+    const { caption, ...uncaptioned } = element;
+    const part: SlideElement = { ...(caption && !lastPage ? uncaptioned : element), content: table };
+    
+    if (!pageNumber) {
+      return [part];
+    }
+    
+    return [part, {
+      type: 'text',
+      content: { content: pageNumber, format: { ...TABLE_PAGE_NUMBER_FORMAT } } as TextResource,
+      sourceIndex: element.sourceIndex
+    }];
+  }
+  
+  /**
+   * Reduce the font size of a code listing taller than the content area
+   * 
+   * @param element - The code element
+   * @param area - The content area
+   * @returns The element with the largest font size that fits (the smallest
+   *   size if none fits), or the element itself if it already fits or has a font size
+   */
+  private shrinkCode(element: SlideElement, area: LayoutBox): SlideElement {
+    const code = element.content as CodeResource;
+    
+    if (code.fontSize || this.estimateCodeHeight(code, area.w) <= area.h) {
+      return element;
+    }
+    
+    let fontSize = CODE_FONT_SIZE - 1;
+    while (fontSize > MIN_CODE_FONT_SIZE && this.estimateCodeHeight({ ...code, fontSize }, area.w) > area.h) {
+      fontSize--;
+    }
+    
+    return { ...element, content: { ...code, fontSize } };
+  }
+  
+  /**
+   * Split a list that has more items than allowed per slide
+   * 
+   * @param element - The element to split
+   * @param options - Layout options with the per-slide limit
+   * @returns The part for the current slide and the remainder, or null if no split is needed
+   */
+  private splitByCount(element: SlideElement, options?: LayoutOptions): [SlideElement, SlideElement] | null {
+    const limit = options?.maxListItems;
+    
+    if (element.type !== 'list' || !limit || limit < 1 || this.getItemCount(element) <= limit) {
+      return null;
+    }
+    
+    return this.splitElement(element, limit);
+  }
+  
+  /**
+   * Split a list or code listing so that its first part fits the available height
+   * 
+   * @param element - The element to split
+   * @param area - The content area
+   * @param available - Height left on the current slide in inches
+   * @returns The part for the current slide and the remainder, or null if the element cannot be split
+   */
+  private splitToFit(element: SlideElement, area: LayoutBox, available: number): [SlideElement, SlideElement] | null {
+    const count = this.getItemCount(element);
+    let best: [SlideElement, SlideElement] | null = null;
+    
+    for (let size = 1; size < count; size++) {
+      const candidate = this.splitElement(element, size);
+      if (this.getPlacedHeight(candidate[0], area) > available) {
+        break;
+      }
+      best = candidate;
+    }
+    
+    return best;
+  }
+  
+  /**
+   * Get the number of list items or code lines of an element
+   * 
+   * @param element - The element
+   * @returns Number of splittable items (0 for other element types)
+   */
+  private getItemCount(element: SlideElement): number {
+    if (element.type === 'code') {
+      return (element.content as CodeResource).code.split('\n').length;
+    }
+    
+    if (element.type === 'list') {
+      return (element.content as ListResource).items?.length || 0;
+    }
+    
+    return 0;
+  }
+  
+  /**
+   * Split a list or code listing after the given number of items/lines
+   * 
+   * A caption stays with the last part, below which it is laid out.
+   * 
+   * @param element - The list or code element
+   * @param size - Number of items/lines in the first part
+   * @returns The first part and the remainder
+   */
+  private splitElement(element: SlideElement, size: number): [SlideElement, SlideElement] {
+    const [first, rest] = this.splitContent(element, size);
+    const { caption, ...uncaptioned } = first;
+    
+    return [caption ? uncaptioned : first, rest];
+  }
+  
+  /**
+   * Split the content of a list or code element
+   * 
+   * @param element - The list or code element
+   * @param size - Number of items/lines in the first part
+   * @returns The first part and the remainder
+   */
+  private splitContent(element: SlideElement, size: number): [SlideElement, SlideElement] {
+    if (element.type === 'code') {
+      const code = element.content as CodeResource;
+      const lines = code.code.split('\n');
+      
+      return [
+        { ...element, content: { ...code, code: lines.slice(0, size).join('\n') } },
+        { ...element, content: { ...code, code: lines.slice(size).join('\n') } }
+      ];
+    }
+    
+    const list = element.content as ListResource;
+    const rest: ListResource = { ...list, items: list.items.slice(size) };
+    
+    // Continue the numbering of ordered lists on the next slide
+    if (list.ordered) {
+      const start = parseInt(list.style?.start || '1', 10) || 1;
+      rest.style = { ...list.style, start: String(start + size) };
+    }
+    
+    return [
+      { ...element, content: { ...list, items: list.items.slice(0, size) } },
+      { ...element, content: rest }
+    ];
+  }
+  
+  /**
+   * Estimate the height of a text element
+   * 
+   * @param text - The text resource
+   * @param width - Available width in inches
+   * @param style - Element style overrides
+   * @returns Height in inches
+   */
+  private estimateTextHeight(text: TextResource, width: number, style?: Record<string, any>): number {
+    const fontSize = parseFontSize(style?.fontSize) || this.getTextFontSize(text);
+    
+    // Runs carry explicit line breaks, plain content is a single paragraph
+    const paragraphs = text.runs && text.runs.length > 0
+      ? text.runs
+          .reduce<string[]>((lines, run) => {
+            lines[lines.length - 1] += run.text;
+            if (run.breakLine) {
+              lines.push('');
+            }
+            return lines;
+          }, [''])
+      : [this.stripHtmlTags(text.content || '')];
+    
+    const lineCount = paragraphs.reduce(
+      (count, paragraph) => count + this.countWrappedLines(paragraph, width, fontSize),
+      0
+    );
+    
+    return lineCount * this.getLineHeight(fontSize) + TEXT_BOX_PADDING;
+  }
+  
+  /**
+   * Estimate the height of a list element
+   * 
+   * @param list - The list resource
+   * @param width - Available width in inches
+   * @param style - Element style overrides
+   * @returns Height in inches
+   */
+  private estimateListHeight(list: ListResource, width: number, style?: Record<string, any>): number {
+    const fontSize = parseFontSize(style?.fontSize)
+      || parseFontSize(list.style?.fontSize)
+      || DEFAULT_FONT_SIZE;
+    const itemWidth = Math.max(width - BULLET_INDENT, 1);
+    
+    // Items are measured by their text, as drawn by PptxGenerator.addListElement
+    const lineCount = (list.items || []).reduce(
+      (count, item) => count + this.countWrappedLines(this.stripHtmlTags(String(item)), itemWidth, fontSize),
+      0
+    );
+    
+    return Math.max(lineCount, 1) * this.getLineHeight(fontSize) + TEXT_BOX_PADDING;
+  }
+  
+  /**
+   * Estimate the height of a table element
+   * 
+   * @param table - The table resource
+   * @param width - Available width in inches
+   * @returns Height in inches
+   */
+  private estimateTableHeight(table: TableResource, width: number): number {
+    const rows = [
+      ...(table.headers && table.headers.length > 0 ? [table.headers] : []),
+      ...(table.additionalHeaderRows || []),
+      ...(table.rows || [])
+    ];
+    const columnCount = Math.max(1, ...rows.map(row => row.length));
+    const cellPadding = parseInt(table.style?.cellPadding || String(DEFAULT_TABLE_CELL_PADDING), 10) / POINTS_PER_INCH;
+    const cellWidth = Math.max(width / columnCount - cellPadding * 2, 0.1);
+    
+    return rows.reduce((height, row) => {
+      const lines = Math.max(
+        1,
+        ...row.map(cell => this.countWrappedLines(String(cell ?? ''), cellWidth, TABLE_FONT_SIZE))
+      );
+      return height + lines * this.getLineHeight(TABLE_FONT_SIZE) + cellPadding * 2;
+    }, 0);
+  }
+  
+  /**
+   * Estimate the height of a link element
+   * 
+   * @param link - The link resource
+   * @param width - Available width in inches
+   * @param style - Element style overrides
+   * @returns Height in inches
+   */
+  private estimateLinkHeight(link: LinkResource, width: number, style?: Record<string, any>): number {
+    const fontSize = parseFontSize(style?.fontSize) || DEFAULT_FONT_SIZE;
+    return this.countWrappedLines(link.text || link.href || '', width, fontSize) * this.getLineHeight(fontSize)
+      + TEXT_BOX_PADDING;
+  }
+  
+  /**
+   * Estimate the height of a code element
+   * 
+   * Lines keep their line breaks; lines wider than the box wrap.
+   * 
+   * @param code - The code resource
+   * @param width - Available width in inches
+   * @returns Height in inches
+   */
+  private estimateCodeHeight(code: CodeResource, width: number): number {
+    const fontSize = code.fontSize || CODE_FONT_SIZE;
+    const charWidth = (fontSize * MONOSPACE_CHAR_WIDTH_RATIO) / POINTS_PER_INCH;
+    const charsPerLine = Math.max(1, Math.floor(Math.max(width - CODE_BOX_PADDING, 0.1) / charWidth));
+    
+    const lineCount = code.code.split('\n').reduce(
+      (count, line) => count + Math.max(1, Math.ceil(line.trimEnd().length / charsPerLine)),
+      0
+    );
+    
+    return lineCount * this.getLineHeight(fontSize) + CODE_BOX_PADDING;
+  }
+  
+  /**
+   * Estimate the height of a quote element, including its attribution line
+   * 
+   * @param quote - The quote resource
+   * @param width - Available width in inches
+   * @returns Height in inches
+   */
+  private estimateQuoteHeight(quote: QuoteResource, width: number): number {
+    const textWidth = Math.max(width - QUOTE_INDENT, 1);
+    const lineCount = (quote.text || '').split('\n').reduce(
+      (count, paragraph) => count + this.countWrappedLines(paragraph, textWidth, QUOTE_FONT_SIZE),
+      0
+    );
+    
+    return lineCount * this.getLineHeight(QUOTE_FONT_SIZE) + TEXT_BOX_PADDING
+      + (quote.attribution ? QUOTE_ATTRIBUTION_HEIGHT : 0);
+  }
+  
+  /**
+   * Get the size of an image or chart scaled down to fit the available space
+   * 
+   * @param element - The image or chart element
+   * @param maxWidth - Available width in inches
+   * @param maxHeight - Available height in inches
+   * @returns Width and height in inches
+   */
+  private getMediaSize(element: SlideElement, maxWidth: number, maxHeight: number): { w: number; h: number } {
+    if (element.type === 'image') {
+      return this.getImageSize(element.content, maxWidth, maxHeight);
+    }
+    
+    // Charts fill the available width unless that makes them too tall
+    const h = Math.min(maxWidth * CHART_ASPECT_RATIO, maxHeight);
+    return { w: h / CHART_ASPECT_RATIO, h };
+  }
+  
+  /**
+   * Get the size of an image scaled down to fit the available space
+   * 
+   * @param image - The image resource
+   * @param maxWidth - Available width in inches
+   * @param maxHeight - Available height in inches
+   * @returns Width and height in inches
+   */
+  private getImageSize(image: ImageResource, maxWidth: number, maxHeight?: number): { w: number; h: number } {
+    // Image dimensions are in pixels, 100px per inch (as used by PptxGenerator)
+    let w = image.width > 0 ? image.width / 100 : DEFAULT_IMAGE_WIDTH;
+    let h = image.height > 0 ? image.height / 100 : DEFAULT_IMAGE_HEIGHT;
+    
+    const scale = Math.min(
+      1,
+      maxWidth / w,
+      maxHeight && maxHeight > 0 ? maxHeight / h : 1
+    );
+    
+    w *= scale;
+    h *= scale;
+    
+    return { w, h };
+  }
+  
+  /**
+   * Get the font size used by PptxGenerator for a text element
+   * 
+   * @param text - The text resource
+   * @returns Font size in points
+   */
+  private getTextFontSize(text: TextResource): number {
+    switch (text.format?.headingLevel) {
+      case undefined:
+      case 0:
+        return parseFontSize(text.format?.fontSize) || DEFAULT_FONT_SIZE;
+      case 1:
+        return 24;
+      case 2:
+        return 20;
+      case 3:
+        return 18;
+      default:
+        return 16;
+    }
+  }
+  
+  /**
+   * Count the lines a paragraph wraps to
+   * 
+   * @param text - Paragraph text
+   * @param width - Available width in inches
+   * @param fontSize - Font size in points
+   * @returns Number of lines (at least 1)
+   */
+  private countWrappedLines(text: string, width: number, fontSize: number): number {
+    const charWidth = (fontSize * CHAR_WIDTH_RATIO) / POINTS_PER_INCH;
+    const charsPerLine = Math.max(1, Math.floor(width / charWidth));
+    return Math.max(1, Math.ceil(text.trim().length / charsPerLine));
+  }
+  
+  /**
+   * Get the height of a single line of text
+   * 
+   * @param fontSize - Font size in points
+   * @returns Line height in inches
+   */
+  private getLineHeight(fontSize: number): number {
+    return (fontSize * LINE_HEIGHT_RATIO) / POINTS_PER_INCH;
+  }
+  
+  /**
+   * Remove HTML tags from a string
+   * 
+   * @param html - HTML string
+   * @returns Plain text
+   */
+  private stripHtmlTags(html: string): string {
+    return html.replace(/<[^>]*>/g, '');
+  }
+  
+  /**
+   * Round a measurement to two decimal places
+   * 
+   * @param value - Value in inches
+   * @returns Rounded value
+   */
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
\ No newline at end of file
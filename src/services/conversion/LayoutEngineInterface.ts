@@ -0,0 +1,129 @@
+import { SlideElement, SlideLayout } from '../../models';
+
+/**
+ * Slide dimensions in inches
+ */
+export interface SlideDimensions {
+  width: number;
+  height: number;
+}
+
+/**
+ * Position and size of a box on a slide in inches
+ */
+export interface LayoutBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * An element together with the position it was assigned on the slide
+ */
+export interface ElementPlacement {
+  element: SlideElement;
+  position: LayoutBox;
+  // Box of the element's caption, directly below the element (only set for captioned elements)
+  captionPosition?: LayoutBox;
+}
+
+/**
+ * Options for laying out the elements of a slide
+ */
+export interface LayoutOptions {
+  /**
+   * Whether the slide has a title (content then starts below the title area)
+   */
+  hasTitle?: boolean;
+  
+  /**
+   * Vertical spacing between elements in inches
+   */
+  spacing?: number;
+  
+  /**
+   * Maximum number of list items per slide (longer lists continue on the next slide)
+   */
+  maxListItems?: number;
+  
+  /**
+   * Maximum number of table body rows per slide (longer tables continue on the next slide)
+   */
+  maxTableRows?: number;
+  
+  /**
+   * Whether to show a "Page X of Y" line below each page of a table split across slides
+   */
+  showTablePageNumbers?: boolean;
+}
+
+/**
+ * Interface for the layout engine service
+ * 
+ * This service is responsible for measuring slide elements and placing them
+ * on a slide without overlapping.
+ */
+export interface LayoutEngineService {
+  /**
+   * Get the dimensions of a slide layout
+   * 
+   * @param layout - The slide layout
+   * @returns Slide width and height in inches
+   */
+  getSlideDimensions(layout: SlideLayout): SlideDimensions;
+  
+  /**
+   * Get the area of a slide available for content
+   * 
+   * @param layout - The slide layout
+   * @param hasTitle - Whether the slide has a title
+   * @returns Content area in inches
+   */
+  getContentArea(layout: SlideLayout, hasTitle?: boolean): LayoutBox;
+  
+  /**
+   * Estimate the rendered height of an element
+   * 
+   * @param element - The element to measure
+   * @param width - Width available to the element in inches
+   * @returns Estimated height in inches
+   */
+  estimateElementHeight(element: SlideElement, width: number): number;
+  
+  /**
+   * Place elements top-to-bottom within the content area of a slide
+   * 
+   * @param elements - The elements to place, in reading order
+   * @param layout - The slide layout
+   * @param options - Layout options
+   * @returns Placements for each element
+   */
+  layoutElements(elements: SlideElement[], layout: SlideLayout, options?: LayoutOptions): ElementPlacement[];
+  
+  /**
+   * Distribute elements over as many slides as needed so that none overflows
+   * 
+   * Elements are moved to the next slide whole where possible; lists and
+   * tables that do not fit are split, repeating the table header row. Code
+   * listings taller than a slide are shrunk and, if still too tall, split.
+   * 
+   * @param elements - The elements to place, in reading order
+   * @param layout - The slide layout
+   * @param options - Layout options
+   * @returns Placements for each slide (always at least one slide)
+   */
+  paginateElements(elements: SlideElement[], layout: SlideLayout, options?: LayoutOptions): ElementPlacement[][];
+}
+
+/**
+ * Layout error class
+ * 
+ * Custom error class for slide layout errors
+ */
+export class LayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LayoutError';
+  }
+}
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { LinkResource } from '../../models';
-import { LinkHandlerService, LinkHandlingError } from './LinkHandlerInterface';
+import { LinkHandlerService, LinkHandlingError, UrlOptions } from './LinkHandlerInterface';
 
 /**
  * Link Handler Service Implementation
@@ -14,9 +14,10 @@ export class LinkHandler implements LinkHandlerService {
    * Process a link for PPTX output
    * 
    * @param link - The link resource to process
+   * @param options - URL resolution options
    * @returns Processed link resource
    */
-  processLink(link: LinkResource): LinkResource {
+  processLink(link: LinkResource, options?: UrlOptions): LinkResource {
     try {
       // Create a deep copy of the link to avoid modifying the original
       const processedLink: LinkResource = {
@@ -25,7 +26,7 @@ export class LinkHandler implements LinkHandlerService {
       };
       
       // Normalize the URL
-      processedLink.href = this.normalizeUrl(processedLink.href);
+      processedLink.href = this.normalizeUrl(processedLink.href, options);
       
       // Extract text from HTML if needed
       if (processedLink.text.includes('<') && processedLink.text.includes('>')) {
@@ -43,10 +44,14 @@ export class LinkHandler implements LinkHandlerService {
   /**
    * Validate and normalize a URL
    * 
+   * Relative URLs are resolved against `options.baseUrl` when one is given;
+   * without a usable base they cannot be resolved and are returned unchanged.
+   * 
    * @param url - The URL to validate and normalize
+   * @param options - URL resolution options
    * @returns Normalized URL
    */
-  normalizeUrl(url: string): string {
+  normalizeUrl(url: string, options?: UrlOptions): string {
     try {
       // Handle empty URLs
       if (!url) {
@@ -63,20 +68,19 @@ export class LinkHandler implements LinkHandlerService {
         return url;
       }
       
-      // Handle relative URLs
+      // Resolve relative URLs against the base URL
+      const resolvedUrl = this.resolveUrl(url, options?.baseUrl);
+      if (resolvedUrl !== url) {
+        return options?.keepHttp ? resolvedUrl : resolvedUrl.replace(/^http:\/\//, 'https://');
+      }
+      
+      // Relative URLs that could not be resolved are returned as they are
       if (!url.match(/^[a-z]+:\/\//i)) {
-        // If it's a relative URL without protocol, add https://
-        if (!url.startsWith('/')) {
-          return `https://${url}`;
-        }
-        
-        // For paths starting with /, we can't determine the base URL
-        // So we'll just return the path as is
         return url;
       }
       
       // For URLs with protocol, ensure they use https if possible
-      if (url.startsWith('http://')) {
+      if (url.startsWith('http://') && !options?.keepHttp) {
         return url.replace('http://', 'https://');
       }
       
@@ -88,6 +92,27 @@ export class LinkHandler implements LinkHandlerService {
     }
   }
   
+  /**
+   * Resolve a relative URL against a base URL following the URL standard
+   * 
+   * @param url - The URL to resolve
+   * @param baseUrl - Base URL (relative URLs are returned unchanged without one)
+   * @returns Absolute URL, or the original URL if it cannot be resolved
+   */
+  resolveUrl(url: string, baseUrl?: string): string {
+    // Absolute URLs (including data: and blob: URLs) and in-document links stay as they are
+    if (!baseUrl || !url || url.startsWith('#') || url.match(/^[a-z][a-z0-9+.-]*:/i)) {
+      return url;
+    }
+    
+    try {
+      return new URL(url, baseUrl).href;
+    } catch (error) {
+      // Invalid base URL
+      return url;
+    }
+  }
+  
   /**
    * Extract link text from HTML content
    * 
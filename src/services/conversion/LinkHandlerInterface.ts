@@ -1,5 +1,20 @@
 import { LinkResource } from '../../models';
 
+/**
+ * Options for resolving and normalizing URLs
+ */
+export interface UrlOptions {
+  /**
+   * Base URL that relative URLs are resolved against
+   */
+  baseUrl?: string;
+  
+  /**
+   * Keep http:// URLs instead of upgrading them to https://
+   */
+  keepHttp?: boolean;
+}
+
 /**
  * Interface for the link handler service
  * 
@@ -10,17 +25,30 @@ export interface LinkHandlerService {
    * Process a link for PPTX output
    * 
    * @param link - The link resource to process
+   * @param options - URL resolution options
    * @returns Processed link resource
    */
-  processLink(link: LinkResource): LinkResource;
+  processLink(link: LinkResource, options?: UrlOptions): LinkResource;
   
   /**
    * Validate and normalize a URL
    * 
+   * Relative URLs are returned unchanged when there is no usable base URL.
+   * 
    * @param url - The URL to validate and normalize
+   * @param options - URL resolution options
    * @returns Normalized URL
    */
-  normalizeUrl(url: string): string;
+  normalizeUrl(url: string, options?: UrlOptions): string;
+  
+  /**
+   * Resolve a relative URL against a base URL following the URL standard
+   * 
+   * @param url - The URL to resolve
+   * @param baseUrl - Base URL (relative URLs are returned unchanged without one)
+   * @returns Absolute URL, or the original URL if it cannot be resolved
+   */
+  resolveUrl(url: string, baseUrl?: string): string;
   
   /**
    * Extract link text from HTML content
@@ -1,11 +1,21 @@
-import { HTMLContent, ConversionConfig, Section, SlideElement, SlideLayout } from '../../models';
+import { HTMLContent, ConversionConfig, DocumentMetadata, Section, SlideElement, SlideLayout, TextResource, TableResource, ListResource, LinkResource, ImageResource, CodeResource, QuoteResource } from '../../models';
 import { SlideCreatorService, SlideCreationError } from './SlideCreatorInterface';
 import { PptxGeneratorService } from '../pptx/PptxGeneratorInterface';
 import { ImageHandlerService } from './ImageHandlerInterface';
 import { TableHandlerService } from './TableHandlerInterface';
 import { ListHandlerService } from './ListHandlerInterface';
-import { LinkHandlerService } from './LinkHandlerInterface';
+import { LinkHandlerService, UrlOptions } from './LinkHandlerInterface';
 import { ThemeHandlerService } from './ThemeHandlerInterface';
+import { LayoutEngineService, LayoutBox, ElementPlacement } from './LayoutEngineInterface';
+import { LayoutEngine } from './LayoutEngine';
+import { CodeHandlerService } from './CodeHandlerInterface';
+import { CodeHandler } from './CodeHandler';
+
+// Title of the agenda slides
+const AGENDA_TITLE = 'Agenda';
+
+// Agenda entries per slide when no bullet limit is configured
+const DEFAULT_AGENDA_ENTRIES_PER_SLIDE = 8;
 
 /**
  * Slide Creator Service Implementation
@@ -23,6 +33,11 @@ export class SlideCreator implements SlideCreatorService {
   private listHandler: ListHandlerService;
   private linkHandler: LinkHandlerService;
   private themeHandler: ThemeHandlerService;
+  private layoutEngine: LayoutEngineService;
+  private codeHandler: CodeHandlerService;
+  private warnings: string[] = [];
+  // Slide number of each in-document anchor while createSlides runs
+  private anchorSlides: Map<string, number> | null = null;
   
   /**
    * Constructor
@@ -33,6 +48,8 @@ export class SlideCreator implements SlideCreatorService {
    * @param listHandler - The list handler service
    * @param linkHandler - The link handler service
    * @param themeHandler - The theme handler service
+   * @param layoutEngine - The layout engine service used to position elements
+   * @param codeHandler - The code handler service used to highlight code blocks
    */
   constructor(
     pptxGenerator: PptxGeneratorService, 
@@ -40,7 +57,9 @@ export class SlideCreator implements SlideCreatorService {
     tableHandler: TableHandlerService,
     listHandler: ListHandlerService,
     linkHandler: LinkHandlerService,
-    themeHandler: ThemeHandlerService
+    themeHandler: ThemeHandlerService,
+    layoutEngine: LayoutEngineService = new LayoutEngine(),
+    codeHandler: CodeHandlerService = new CodeHandler()
   ) {
     this.pptxGenerator = pptxGenerator;
     this.imageHandler = imageHandler;
@@ -48,6 +67,8 @@ export class SlideCreator implements SlideCreatorService {
     this.listHandler = listHandler;
     this.linkHandler = linkHandler;
     this.themeHandler = themeHandler;
+    this.layoutEngine = layoutEngine;
+    this.codeHandler = codeHandler;
   }
   
   /**
@@ -68,29 +89,318 @@ export class SlideCreator implements SlideCreatorService {
       // Apply the specified theme
       this.themeHandler.applyTheme(presentation, config.theme);
       
-      // If there are no sections, create a single slide with the entire content
-      if (!htmlContent.sections || htmlContent.sections.length === 0) {
-        const defaultSection: Section = {
-          title: 'Untitled',
-          content: htmlContent.raw,
-          elements: this.extractElementsFromResources(htmlContent)
-        };
-        await this.createSlideFromSection(presentation, defaultSection, config);
-      } else {
-        // Create slides from sections
-        for (const section of htmlContent.sections) {
-          await this.createSlideFromSection(presentation, section, config);
+      // Match the presentation size to the slide layout the elements are positioned for
+      presentation.layout = config.slideLayout === SlideLayout.STANDARD ? 'LAYOUT_4x3' : 'LAYOUT_16x9';
+      
+      this.warnings = [];
+      
+      // Relative links and images resolve against the document's <base href> unless configured otherwise
+      config = { ...config, baseUrl: this.getBaseUrl(config.baseUrl, htmlContent.metadata?.baseUrl) };
+      
+      // Slides added so far (used to number the section slides)
+      let slideCount = 0;
+      
+      // Carry the document metadata over to the presentation properties
+      if (htmlContent.metadata) {
+        this.pptxGenerator.setMetadata(presentation, htmlContent.metadata);
+        
+        if (config.includeTitleSlide && htmlContent.metadata.title) {
+          this.createTitleSlide(presentation, htmlContent.metadata, config);
+          slideCount++;
         }
       }
       
+      // If there are no sections, create a single slide with the entire content
+      const sections: Section[] = htmlContent.sections && htmlContent.sections.length > 0
+        ? htmlContent.sections
+        : [{
+            title: 'Untitled',
+            content: htmlContent.raw,
+            elements: this.extractElementsFromResources(htmlContent)
+          }];
+      
+      // Lay out every section first so that the slide number of each section is known before any link is drawn
+      const sectionPages: ElementPlacement[][][] = [];
+      for (const section of sections) {
+        sectionPages.push(await this.layoutSection(section, config));
+      }
+      
+      // The agenda slides come before the sections
+      const agendaSections = config.includeAgenda ? this.getAgendaSections(sections) : [];
+      const agendaSlides = this.createAgendaSlides(presentation, agendaSections.length, config);
+      slideCount += agendaSlides.length;
+      
+      const slideNumbers = new Map<Section, number>();
+      sections.forEach((section, index) => {
+        slideNumbers.set(section, slideCount + 1);
+        slideCount += sectionPages[index].length;
+      });
+      
+      this.fillAgendaSlides(agendaSlides, agendaSections, slideNumbers, config);
+      
+      // In-document links (href="#id") jump to the slide the target was placed on
+      this.anchorSlides = this.buildAnchorIndex(sections, sectionPages, slideNumbers);
+      
+      // Create slides from sections
+      for (let index = 0; index < sections.length; index++) {
+        await this.renderSection(presentation, sections[index], sectionPages[index], config);
+      }
+      
+      this.anchorSlides = null;
+      
       return presentation;
     } catch (error) {
+      this.anchorSlides = null;
       throw new SlideCreationError(
         `Failed to create slides: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
   
+  /**
+   * Get the warnings collected during the last call to createSlides
+   * 
+   * @returns Warning messages (e.g. links to anchors that do not exist)
+   */
+  getWarnings(): string[] {
+    return [...this.warnings];
+  }
+  
+  /**
+   * Create the title slide of the presentation on the theme's title master
+   * 
+   * @param presentation - The presentation instance
+   * @param metadata - Metadata of the source document (must have a title)
+   * @param config - Conversion configuration
+   * @returns The created slide
+   */
+  private createTitleSlide(presentation: any, metadata: DocumentMetadata, config: ConversionConfig): any {
+    // Description on the first line, author and date below it
+    const byline = [metadata.author, metadata.date].filter(part => part).join(' · ');
+    const subtitle = [metadata.description, byline].filter(part => part).join('\n');
+    
+    return this.pptxGenerator.addTitleSlide(presentation, metadata.title!, subtitle || undefined, `${config.theme}_TITLE`);
+  }
+  
+  /**
+   * Get the sections listed on the agenda (titled top-level sections)
+   * 
+   * @param sections - All sections of the document
+   * @returns Sections to list, in document order
+   */
+  private getAgendaSections(sections: Section[]): Section[] {
+    return sections.filter(section =>
+      section.parentIndex === undefined && !!section.title && section.title !== 'Untitled'
+    );
+  }
+  
+  /**
+   * Add empty agenda slides, enough for the given number of entries
+   * 
+   * @param presentation - The presentation instance
+   * @param entryCount - Number of agenda entries
+   * @param config - Conversion configuration
+   * @returns The agenda slides
+   */
+  private createAgendaSlides(presentation: any, entryCount: number, config: ConversionConfig): any[] {
+    const pageCount = Math.ceil(entryCount / this.getAgendaEntriesPerSlide(config));
+    
+    return Array.from({ length: pageCount }, (_, index) =>
+      this.pptxGenerator.addSlide(presentation, index > 0 ? `${AGENDA_TITLE} (cont.)` : AGENDA_TITLE, config.slideLayout)
+    );
+  }
+  
+  /**
+   * Write the agenda entries onto the agenda slides, each linked to the first slide of its section
+   * 
+   * @param agendaSlides - Slides created by createAgendaSlides
+   * @param sections - Sections listed on the agenda
+   * @param slideNumbers - Number of the first slide of each section
+   * @param config - Conversion configuration
+   */
+  private fillAgendaSlides(
+    agendaSlides: any[],
+    sections: Section[],
+    slideNumbers: Map<Section, number>,
+    config: ConversionConfig
+  ): void {
+    const entriesPerSlide = this.getAgendaEntriesPerSlide(config);
+    const area = this.layoutEngine.getContentArea(config.slideLayout, true);
+    
+    agendaSlides.forEach((slide, index) => {
+      const entries = sections.slice(index * entriesPerSlide, (index + 1) * entriesPerSlide);
+      const agenda: TextResource = {
+        content: entries.map(section => section.title).join('\n'),
+        runs: entries.map((section, entryIndex) => ({
+          text: section.title,
+          slide: slideNumbers.get(section),
+          breakLine: entryIndex < entries.length - 1
+        })),
+        format: {}
+      };
+      
+      this.pptxGenerator.addTextElement(slide, agenda, { ...area, valign: 'top', bullet: true, paraSpaceAfter: 6 });
+    });
+  }
+  
+  /**
+   * Get the number of agenda entries that fit on one slide
+   * 
+   * @param config - Conversion configuration
+   * @returns Entries per agenda slide
+   */
+  private getAgendaEntriesPerSlide(config: ConversionConfig): number {
+    return Math.max(1, config.maxBulletsPerSlide || DEFAULT_AGENDA_ENTRIES_PER_SLIDE);
+  }
+  
+  /**
+   * Map the anchors of all sections to the slide showing them
+   * 
+   * Anchors inside an element go to the slide the element was placed on (the
+   * first part of an element split over several slides); other anchors of a
+   * section, such as the heading used as its title, go to its first slide.
+   * The first section that defines an anchor wins, like in a browser.
+   * 
+   * @param sections - The sections
+   * @param sectionPages - Placements for each slide of each section, from layoutSection
+   * @param slideNumbers - Number of the first slide of each section
+   * @returns Slide number for each anchor
+   */
+  private buildAnchorIndex(
+    sections: Section[],
+    sectionPages: ElementPlacement[][][],
+    slideNumbers: Map<Section, number>
+  ): Map<string, number> {
+    const anchorSlides = new Map<string, number>();
+    const addAnchor = (anchor: string, slideNumber: number) => {
+      if (!anchorSlides.has(anchor)) {
+        anchorSlides.set(anchor, slideNumber);
+      }
+    };
+    
+    sections.forEach((section, index) => {
+      const firstSlide = slideNumbers.get(section);
+      if (firstSlide === undefined) {
+        return;
+      }
+      
+      sectionPages[index].forEach((placements, pageIndex) => {
+        placements.forEach(({ element }) => {
+          element.anchors?.forEach(anchor => addAnchor(anchor, firstSlide + pageIndex));
+        });
+      });
+      
+      section.anchors?.forEach(anchor => addAnchor(anchor, firstSlide));
+    });
+    
+    return anchorSlides;
+  }
+  
+  /**
+   * Resolve an in-document link to the number of the slide showing its target
+   * 
+   * Links that resolve to nothing are recorded as warnings.
+   * 
+   * @param href - Link starting with "#"
+   * @returns Slide number, or undefined if no section has the anchor
+   */
+  private resolveAnchor(href: string): number | undefined {
+    let anchor = href.slice(1);
+    try {
+      anchor = decodeURIComponent(anchor);
+    } catch {
+      // Keep malformed escapes as written
+    }
+    
+    const slideNumber = this.anchorSlides?.get(anchor);
+    if (slideNumber === undefined) {
+      this.addWarning(`Link target "${href}" was not found in the document; the link was removed`);
+    }
+    
+    return slideNumber;
+  }
+  
+  /**
+   * Get the base URL that relative links and images resolve against
+   * 
+   * The configured base URL wins over the document's <base href>. Base URLs
+   * that are not absolute are ignored with a warning: there is no document
+   * URL to resolve a relative <base href> against.
+   * 
+   * @param configuredUrl - Base URL from the configuration
+   * @param documentBase - <base href> of the document
+   * @returns Absolute base URL, or undefined if there is none
+   */
+  private getBaseUrl(configuredUrl?: string, documentBase?: string): string | undefined {
+    if (configuredUrl) {
+      if (this.isAbsoluteUrl(configuredUrl)) {
+        return configuredUrl;
+      }
+      
+      this.addWarning(`Base URL "${configuredUrl}" is not an absolute URL and was ignored`);
+    }
+    
+    if (documentBase) {
+      if (this.isAbsoluteUrl(documentBase)) {
+        return documentBase;
+      }
+      
+      this.addWarning(`The document's <base href="${documentBase}"> is relative and was ignored; set an absolute base URL to resolve relative links`);
+    }
+    
+    return undefined;
+  }
+  
+  /**
+   * Check whether a URL is absolute (has a scheme)
+   * 
+   * @param url - The URL to check
+   * @returns Whether the URL can be parsed without a base
+   */
+  private isAbsoluteUrl(url: string): boolean {
+    try {
+      new URL(url);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+  
+  /**
+   * Normalize a link URL, warning when it stays relative for lack of a base URL
+   * 
+   * @param url - The link URL
+   * @param config - Conversion configuration
+   * @returns Normalized URL
+   */
+  private normalizeLink(url: string, config: ConversionConfig): string {
+    const normalized = this.linkHandler.normalizeUrl(url, this.getUrlOptions(config));
+    this.warnIfRelative(normalized);
+    return normalized;
+  }
+  
+  /**
+   * Record a warning for a link that could not be made absolute
+   * 
+   * @param url - Normalized link URL
+   */
+  private warnIfRelative(url: string): void {
+    if (url && !url.startsWith('#') && !this.isAbsoluteUrl(url)) {
+      this.addWarning(`Relative link "${url}" was left unchanged because there is no base URL to resolve it against`);
+    }
+  }
+  
+  /**
+   * Record a conversion warning (each message once)
+   * 
+   * @param message - Warning message
+   */
+  private addWarning(message: string): void {
+    if (!this.warnings.includes(message)) {
+      this.warnings.push(message);
+    }
+  }
+  
   /**
    * Extract elements from HTML content resources
    * 
@@ -156,79 +466,362 @@ export class SlideCreator implements SlideCreatorService {
   /**
    * Create a slide from a section
    * 
+   * Content that does not fit on one slide continues on additional slides
+   * titled like "Section title (cont.)".
+   * Chapters of a hierarchical split (level 1 sections) become section
+   * divider slides.
+   * 
    * @param presentation - The presentation instance
    * @param section - The section to create a slide from
    * @param config - Conversion configuration
-   * @returns The created slide
+   * @returns The created slide (the first one if the section spans several slides)
    */
   async createSlideFromSection(presentation: any, section: Section, config: ConversionConfig): Promise<any> {
+    // Outside createSlides, in-document links can only jump to targets in this section
+    const standalone = !this.anchorSlides;
+    
     try {
-      // Create a new slide with the section title and specified layout
-      const slide = this.pptxGenerator.addSlide(presentation, section.title, config.slideLayout);
+      const pages = await this.layoutSection(section, config);
       
-      // Apply layout-specific positioning based on the selected layout
-      const layoutPositions = this.getLayoutPositions(config.slideLayout);
-      
-      // Process each element in the section with layout-specific positioning
-      for (const element of section.elements) {
-        await this.addElementToSlide(slide, element, config, layoutPositions);
+      if (standalone) {
+        const firstSlide = (presentation?.slides?.length ?? 0) + 1;
+        this.anchorSlides = this.buildAnchorIndex([section], [pages], new Map([[section, firstSlide]]));
       }
       
-      return slide;
+      return await this.renderSection(presentation, section, pages, config);
     } catch (error) {
+      // renderSection already reports its errors as slide creation errors
+      if (error instanceof SlideCreationError) {
+        throw error;
+      }
+      
       throw new SlideCreationError(
         `Failed to create slide from section: ${error instanceof Error ? error.message : String(error)}`
       );
+    } finally {
+      if (standalone) {
+        this.anchorSlides = null;
+      }
     }
   }
   
   /**
-   * Get layout-specific positioning for elements
+   * Distribute the elements of a section over the slides it needs
    * 
-   * @param layout - The slide layout
-   * @returns Layout positions object
+   * @param section - The section to lay out
+   * @param config - Conversion configuration
+   * @returns Placements for each slide of the section (one empty slide for divider sections)
    */
-  private getLayoutPositions(layout: SlideLayout): Record<string, any> {
-    // Define default positions
-    const defaultPositions = {
-      title: { x: 0.5, y: 0.5, w: '90%', h: 1 },
-      text: { x: 0.5, y: 1.5, w: '90%' },
-      image: { x: 1, y: 2, w: '80%' },
-      table: { x: 0.5, y: 2, w: '90%' },
-      list: { x: 0.5, y: 2, w: '90%' },
-      link: { x: 0.5, y: 2, w: '90%' }
-    };
+  private async layoutSection(section: Section, config: ConversionConfig): Promise<ElementPlacement[][]> {
+    if (this.isDividerSection(section)) {
+      return [[]];
+    }
+    
+    // Resolve the elements that will actually be drawn so they can be measured
+    const elements = await this.prepareElements(section.elements, config);
+    const hasTitle = !!section.title && section.title !== 'Untitled';
+    
+    // A section holding nothing but a quote gets the whole content area for it
+    if (elements.length === 1 && elements[0].type === 'quote') {
+      return [[{
+        element: { ...elements[0], style: { ...elements[0].style, fullSlide: true } },
+        position: this.layoutEngine.getContentArea(config.slideLayout, hasTitle)
+      }]];
+    }
     
-    // Adjust positions based on layout
-    switch (layout) {
-      case SlideLayout.STANDARD: // 4:3 layout
-        return {
-          ...defaultPositions,
-          image: { x: 1, y: 2, w: '80%' }
-        };
+    // Stack the elements top-to-bottom below the title, overflowing onto continuation slides
+    return this.layoutEngine.paginateElements(elements, config.slideLayout, {
+      hasTitle,
+      spacing: config.elementSpacing,
+      maxListItems: config.maxBulletsPerSlide,
+      maxTableRows: config.maxTableRowsPerSlide,
+      showTablePageNumbers: config.showTablePageNumbers
+    });
+  }
+  
+  /**
+   * Check whether a section is a chapter of a hierarchical split (shown as a divider slide)
+   * 
+   * @param section - The section to check
+   * @returns True for divider sections
+   */
+  private isDividerSection(section: Section): boolean {
+    return section.level === 1 && section.elements.length === 0;
+  }
+  
+  /**
+   * Add the slides of a laid out section to the presentation
+   * 
+   * @param presentation - The presentation instance
+   * @param section - The section
+   * @param pages - Placements for each slide, from layoutSection
+   * @param config - Conversion configuration
+   * @returns The first slide of the section
+   */
+  private async renderSection(
+    presentation: any,
+    section: Section,
+    pages: ElementPlacement[][],
+    config: ConversionConfig
+  ): Promise<any> {
+    try {
+      // Chapters of a hierarchical split become divider slides on the theme's title master
+      if (this.isDividerSection(section)) {
+        const divider = this.pptxGenerator.addTitleSlide(presentation, section.title, undefined, `${config.theme}_TITLE`);
         
-      case SlideLayout.WIDE: // 16:9 layout
-        return {
-          ...defaultPositions,
-          image: { x: 1, y: 2, w: '85%' }
-        };
+        const dividerNotes = this.getSlideNotes(section, config);
+        if (dividerNotes) {
+          this.pptxGenerator.addNotes(divider, dividerNotes);
+        }
         
-      case SlideLayout.CUSTOM:
-        // For custom layouts, we could allow more specific positioning
-        // This could be extended to support custom layouts defined in the configuration
-        return {
-          ...defaultPositions,
-          title: { x: 0.5, y: 0.5, w: '95%', h: 1 },
-          text: { x: 0.5, y: 1.5, w: '95%' },
-          image: { x: 0.5, y: 2, w: '90%' },
-          table: { x: 0.5, y: 2, w: '95%' },
-          list: { x: 0.5, y: 2, w: '95%' },
-          link: { x: 0.5, y: 2, w: '95%' }
-        };
+        return divider;
+      }
+      
+      const hasTitle = !!section.title && section.title !== 'Untitled';
+      let firstSlide: any = null;
+      
+      for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
+        const title = pageIndex > 0 && hasTitle ? `${section.title} (cont.)` : section.title;
         
-      default:
-        return defaultPositions;
+        // Create a new slide with the section title and specified layout
+        const slide = this.pptxGenerator.addSlide(presentation, title, config.slideLayout);
+        firstSlide = firstSlide || slide;
+        
+        // Backgrounds set by the source deck apply to every slide of the section
+        if (section.background) {
+          const { color, image } = section.background;
+          this.pptxGenerator.setBackground(slide, {
+            ...(color ? { color } : {}),
+            ...(image ? { image: this.linkHandler.resolveUrl(image, config.baseUrl) } : {})
+          });
+        }
+        
+        for (const { element, position, captionPosition } of pages[pageIndex]) {
+          await this.addElementToSlide(slide, element, config, position);
+          
+          if (element.caption && captionPosition) {
+            this.addCaption(slide, element.caption, captionPosition);
+          }
+        }
+      }
+      
+      // Speaker notes go on the first slide of the section
+      const notes = this.getSlideNotes(section, config);
+      if (notes) {
+        this.pptxGenerator.addNotes(firstSlide, notes);
+      }
+      
+      return firstSlide;
+    } catch (error) {
+      throw new SlideCreationError(
+        `Failed to create slide from section: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  
+  /**
+   * Filter out elements excluded by the configuration and process images,
+   * so that the layout engine measures the final image dimensions
+   * 
+   * @param elements - The section elements
+   * @param config - Conversion configuration
+   * @returns Elements to add to the slide
+   */
+  private async prepareElements(elements: SlideElement[], config: ConversionConfig): Promise<SlideElement[]> {
+    const prepared: SlideElement[] = [];
+    
+    for (const element of elements) {
+      // Only add images if includeImages is true in the configuration
+      if (element.type === 'image') {
+        if (!config.includeImages) {
+          continue;
+        }
+        
+        // Load relative sources from the base URL rather than the app origin
+        const image = { ...element.content, src: this.linkHandler.resolveUrl(element.content.src, config.baseUrl) };
+        
+        try {
+          // Process the image with the image handler
+          const processedImage = await this.imageHandler.processImage(image, config.imageOptions);
+          prepared.push({ ...element, content: processedImage });
+        } catch (error) {
+          console.warn(`Failed to process image: ${error instanceof Error ? error.message : String(error)}`);
+          
+          // Fallback to original image if processing fails
+          prepared.push({ ...element, content: image });
+        }
+        continue;
+      }
+      
+      // Only add links if preserveLinks is true in the configuration
+      if (element.type === 'link' && !config.preserveLinks) {
+        continue;
+      }
+      
+      // Render numeric tables as charts when requested by the table or the configuration
+      if (element.type === 'table' && (element.content.chartType || config.convertTablesToCharts)) {
+        try {
+          const chart = this.tableHandler.createChart(element.content);
+          if (chart) {
+            prepared.push({ ...element, type: 'chart', content: chart });
+            continue;
+          }
+        } catch (error) {
+          console.warn(`Failed to create chart: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+      
+      prepared.push(element);
     }
+    
+    return prepared;
+  }
+  
+  /**
+   * Get the speaker notes for the slide of a section
+   * 
+   * @param section - The section
+   * @param config - Conversion configuration
+   * @returns Authored notes, followed by the full section text if configured
+   */
+  private getSlideNotes(section: Section, config: ConversionConfig): string {
+    const parts = [section.notes?.trim() || ''];
+    
+    if (config.sectionTextInNotes) {
+      parts.push(this.getSectionText(section));
+    }
+    
+    return parts.filter(part => part).join('\n\n');
+  }
+  
+  /**
+   * Get the plain text of all elements of a section, one line per paragraph, item or row
+   * 
+   * @param section - The section
+   * @returns Section text
+   */
+  private getSectionText(section: Section): string {
+    const lines: string[] = [];
+    
+    for (const element of section.elements) {
+      switch (element.type) {
+        case 'text':
+          lines.push(...this.getPlainText(element.content as TextResource).split('\n'));
+          break;
+        case 'list':
+          lines.push(...(element.content as ListResource).items.map(item => `- ${this.stripHtmlTags(item)}`));
+          break;
+        case 'table': {
+          const table = element.content as TableResource;
+          [table.headers, ...(table.additionalHeaderRows || []), ...table.rows]
+            .forEach(row => lines.push(row.map(cell => String(cell ?? '')).join('\t')));
+          break;
+        }
+        case 'link':
+          lines.push((element.content as LinkResource).text);
+          break;
+        case 'image':
+          lines.push((element.content as ImageResource).alt);
+          break;
+        case 'code':
+          lines.push(...(element.content as CodeResource).code.split('\n'));
+          break;
+        case 'quote': {
+          const quote = element.content as QuoteResource;
+          lines.push(...quote.text.split('\n'));
+          if (quote.attribution) {
+            lines.push(`— ${quote.attribution}`);
+          }
+          break;
+        }
+      }
+      
+      if (element.caption) {
+        lines.push(element.caption);
+      }
+    }
+    
+    return lines.map(line => line?.trim()).filter(line => line).join('\n');
+  }
+  
+  /**
+   * Get the plain text of a text element, from its runs when it has them
+   * 
+   * @param text - The text resource
+   * @returns Text without markup (line breaks kept)
+   */
+  private getPlainText(text: TextResource): string {
+    if (text.runs && text.runs.length > 0) {
+      return text.runs.map(run => run.text + (run.breakLine ? '\n' : '')).join('');
+    }
+    
+    return this.stripHtmlTags(text.content);
+  }
+  
+  /**
+   * Strip HTML tags from text content
+   * 
+   * @param html - HTML content to strip tags from
+   * @returns Text content without HTML tags, with whitespace collapsed
+   */
+  private stripHtmlTags(html: string): string {
+    // Parse into an inert document so that markup in the source cannot load anything
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    return (doc.body.textContent || '').replace(/\s+/g, ' ');
+  }
+  
+  /**
+   * Get the options used to resolve and normalize link URLs
+   * 
+   * @param config - Conversion configuration
+   * @returns URL options
+   */
+  private getUrlOptions(config: ConversionConfig): UrlOptions {
+    return { baseUrl: config.baseUrl, keepHttp: config.keepHttpLinks };
+  }
+  
+  /**
+   * Add the caption of a figure or table below its element
+   * 
+   * @param slide - The slide to add the caption to
+   * @param caption - Caption text
+   * @param position - Position assigned to the caption by the layout engine
+   */
+  private addCaption(slide: any, caption: string, position: LayoutBox): void {
+    this.pptxGenerator.addTextElement(
+      slide,
+      {
+        content: caption,
+        format: { italic: true, fontSize: '12pt', color: '666666', alignment: 'center' }
+      },
+      { ...position, valign: 'top' }
+    );
+  }
+  
+  /**
+   * Get the main accent color of the configured theme
+   * 
+   * @param config - Conversion configuration
+   * @returns Hex accent color, or undefined if the theme has none
+   */
+  private getAccentColor(config: ConversionConfig): string | undefined {
+    return this.themeHandler.getThemeColorPalette(config.theme).accent1;
+  }
+  
+  /**
+   * Get the chart series colors of the configured theme
+   * 
+   * @param config - Conversion configuration
+   * @returns Accent colors in order, or undefined to use the PptxGenJS defaults
+   */
+  private getChartColors(config: ConversionConfig): string[] | undefined {
+    const palette = this.themeHandler.getThemeColorPalette(config.theme);
+    const accents = Object.keys(palette)
+      .filter(key => /^accent\d+$/.test(key))
+      .sort((a, b) => parseInt(a.slice(6), 10) - parseInt(b.slice(6), 10))
+      .map(key => palette[key]);
+    
+    return accents.length > 0 ? accents : undefined;
   }
   
   /**
@@ -237,54 +830,28 @@ export class SlideCreator implements SlideCreatorService {
    * @param slide - The slide to add the element to
    * @param element - The element to add
    * @param config - Conversion configuration
-   * @param layoutPositions - Layout-specific positions for elements
+   * @param position - Position assigned to the element by the layout engine
    */
   private async addElementToSlide(
     slide: any, 
     element: SlideElement, 
     config: ConversionConfig,
-    layoutPositions?: Record<string, any>
+    position: LayoutBox
   ): Promise<void> {
     try {
-      // Get layout-specific positions if not provided
-      const positions = layoutPositions || this.getLayoutPositions(config.slideLayout);
-      
       // Process the element based on its type
       switch (element.type) {
         case 'text':
           this.pptxGenerator.addTextElement(
             slide, 
-            element.content, 
-            { ...positions.text, ...element.style }
+            this.processTextLinks(element.content, config), 
+            { ...position, ...element.style }
           );
           break;
           
         case 'image':
-          // Only add images if includeImages is true in the configuration
-          if (config.includeImages) {
-            // Prepare image options for positioning
-            const imageOptions = {
-              ...positions.image,
-              ...element.style
-            };
-            
-            try {
-              // Process the image with the image handler
-              const processedImage = await this.imageHandler.processImage(element.content, config.imageOptions);
-              
-              // Update the image options with the processed dimensions
-              imageOptions.w = processedImage.width / 100; // Convert pixels to inches
-              imageOptions.h = processedImage.height / 100; // Convert pixels to inches
-              
-              // Add the processed image to the slide
-              this.pptxGenerator.addImageElement(slide, processedImage, imageOptions);
-            } catch (error) {
-              console.warn(`Failed to process image: ${error instanceof Error ? error.message : String(error)}`);
-              
-              // Fallback to original image if processing fails
-              this.pptxGenerator.addImageElement(slide, element.content, imageOptions);
-            }
-          }
+          // Images are already processed and filtered by prepareElements
+          this.pptxGenerator.addImageElement(slide, element.content, { ...position, ...element.style });
           break;
           
         case 'table':
@@ -297,20 +864,23 @@ export class SlideCreator implements SlideCreatorService {
             
             // Merge with position options
             const mergedOptions = {
-              ...positions.table,
               ...tableOptions,
+              ...position,
               ...element.style
             };
             
-            // Format headers and rows
-            const formattedHeaders = this.tableHandler.formatHeaders(processedTable.headers);
-            const formattedRows = this.tableHandler.formatRows(processedTable.rows);
+            // Format header rows (including merged header cells) and body rows
+            const headerDetails = processedTable.style?.headerDetails;
+            const formattedHeaderRows = [processedTable.headers, ...(processedTable.additionalHeaderRows || [])]
+              .map((headers, index) => this.tableHandler.formatHeaders(headers, headerDetails?.[index]))
+              .filter(headers => headers.length > 0);
+            const formattedRows = this.tableHandler.formatRows(processedTable.rows, processedTable.style?.cellDetails);
             
-            // Create formatted table data
+            // Create formatted table data, with the links in cells handled like those in text
             const tableData = [
-              ...formattedHeaders.length > 0 ? [formattedHeaders] : [],
+              ...formattedHeaderRows,
               ...formattedRows
-            ];
+            ].map(row => row.map(cell => this.processCellLinks(cell, config)));
             
             // Add the table to the slide with the processed data and options
             this.pptxGenerator.addTableElement(
@@ -328,7 +898,7 @@ export class SlideCreator implements SlideCreatorService {
             this.pptxGenerator.addTableElement(
               slide, 
               element.content, 
-              { ...positions.table, ...element.style }
+              { ...position, ...element.style }
             );
           }
           break;
@@ -343,8 +913,8 @@ export class SlideCreator implements SlideCreatorService {
             
             // Merge with position options
             const mergedOptions = {
-              ...positions.list,
               ...listOptions,
+              ...position,
               ...element.style
             };
             
@@ -374,7 +944,7 @@ export class SlideCreator implements SlideCreatorService {
             this.pptxGenerator.addListElement(
               slide, 
               element.content, 
-              { ...positions.list, ...element.style }
+              { ...position, ...element.style }
             );
           }
           break;
@@ -384,18 +954,34 @@ export class SlideCreator implements SlideCreatorService {
           if (config.preserveLinks) {
             try {
               // Process the link with the link handler
-              const processedLink = this.linkHandler.processLink(element.content);
+              const processedLink = this.linkHandler.processLink(element.content, this.getUrlOptions(config));
+              this.warnIfRelative(processedLink.href);
               
               // Get link styling options
               const linkOptions = this.linkHandler.applyLinkStyling(processedLink);
               
               // Merge with position options
-              const mergedOptions = {
-                ...positions.link,
+              const mergedOptions: Record<string, any> = {
                 ...linkOptions,
+                ...position,
                 ...element.style
               };
               
+              // In-document links jump to the slide showing their target, or become plain text
+              if (processedLink.href.startsWith('#') && this.anchorSlides) {
+                const slideNumber = this.resolveAnchor(processedLink.href);
+                if (slideNumber === undefined) {
+                  this.pptxGenerator.addTextElement(
+                    slide,
+                    { content: processedLink.text, format: {} },
+                    { ...position, ...element.style }
+                  );
+                  break;
+                }
+                
+                mergedOptions.hyperlink = { slide: slideNumber };
+              }
+              
               // Add the link to the slide with the processed data and options
               this.pptxGenerator.addLinkElement(
                 slide, 
@@ -409,12 +995,53 @@ export class SlideCreator implements SlideCreatorService {
               this.pptxGenerator.addLinkElement(
                 slide, 
                 element.content, 
-                { ...positions.link, ...element.style }
+                { ...position, ...element.style }
               );
             }
           }
           break;
           
+        case 'chart':
+          // Color the series with the theme's accent palette
+          this.pptxGenerator.addChartElement(
+            slide,
+            element.content,
+            { chartColors: this.getChartColors(config), ...position, ...element.style }
+          );
+          break;
+          
+        case 'code': {
+          const code = element.content as CodeResource;
+          let runs: CodeResource['runs'];
+          
+          try {
+            runs = this.codeHandler.highlight(code.code, code.language);
+          } catch (error) {
+            // Fallback to plain code if highlighting fails
+            console.warn(`Failed to highlight code: ${error instanceof Error ? error.message : String(error)}`);
+          }
+          
+          this.pptxGenerator.addCodeElement(slide, runs ? { ...code, runs } : code, { ...position, ...element.style });
+          break;
+        }
+          
+        case 'quote': {
+          const { source, ...quote } = element.content as QuoteResource;
+          const { runs } = this.processTextLinks({ content: quote.text, runs: quote.runs, format: {} }, config);
+          
+          // The source of the quote is linked from its attribution
+          this.pptxGenerator.addQuoteElement(
+            slide,
+            {
+              ...quote,
+              ...(runs ? { runs } : {}),
+              ...(source && config.preserveLinks ? { source: this.normalizeLink(source, config) } : {})
+            },
+            { accentColor: this.getAccentColor(config), ...position, ...element.style }
+          );
+          break;
+        }
+          
         default:
           console.warn(`Unknown element type: ${(element as any).type}`);
       }
@@ -425,6 +1052,60 @@ export class SlideCreator implements SlideCreatorService {
     }
   }
   
+  /**
+   * Normalize hyperlinks inside text runs, or drop them if links are not preserved
+   * 
+   * While createSlides runs, in-document links ("#id") become jumps to the
+   * slide showing their target.
+   * 
+   * @param text - The text resource to process
+   * @param config - Conversion configuration
+   * @returns Text resource with processed run links
+   */
+  private processTextLinks(text: TextResource, config: ConversionConfig): TextResource {
+    if (!text.runs || !text.runs.some(run => run.link)) {
+      return text;
+    }
+    
+    return {
+      ...text,
+      runs: text.runs.map(run => {
+        if (!run.link) {
+          return run;
+        }
+        
+        const { link, ...rest } = run;
+        if (!config.preserveLinks) {
+          return rest;
+        }
+        
+        // In-document links jump to the slide showing their target
+        if (link.startsWith('#') && this.anchorSlides) {
+          const slideNumber = this.resolveAnchor(link);
+          return slideNumber !== undefined ? { ...rest, slide: slideNumber } : rest;
+        }
+        
+        return { ...rest, link: this.normalizeLink(link, config) };
+      })
+    };
+  }
+  
+  /**
+   * Normalize the hyperlinks in the runs of a formatted table cell
+   * 
+   * @param cell - Cell as formatted by the table handler
+   * @param config - Conversion configuration
+   * @returns The cell with its links processed like those of text elements
+   */
+  private processCellLinks(cell: any, config: ConversionConfig): any {
+    if (!cell?.runs) {
+      return cell;
+    }
+    
+    const { runs } = this.processTextLinks({ content: String(cell.text ?? ''), runs: cell.runs, format: {} }, config);
+    return { ...cell, runs };
+  }
+  
   // Note: The calculateElementPosition method has been removed as it was unused.
   // It could be implemented in the future for more advanced slide layout functionality.
 }
\ No newline at end of file
@@ -24,6 +24,13 @@ export interface SlideCreatorService {
    * @returns The created slide
    */
   createSlideFromSection(presentation: any, section: Section, config: ConversionConfig): Promise<any>;
+  
+  /**
+   * Get the warnings collected during the last call to createSlides
+   * 
+   * @returns Warning messages (e.g. links to anchors that do not exist)
+   */
+  getWarnings(): string[];
 }
 
 /**
@@ -1,5 +1,5 @@
-import { TableResource } from '../../models';
-import { TableHandlerService, TableHandlingError } from './TableHandlerInterface';
+import { TableResource, TableCellResource, ChartResource, ChartType } from '../../models';
+import { TableHandlerService, TableHandlingError, TablePage, TablePageFit, TableGrid, TableGridCell } from './TableHandlerInterface';
 
 /**
  * Table Handler Service Implementation
@@ -25,7 +25,11 @@ export class TableHandler implements TableHandlerService {
         style: table.style ? { ...table.style } : {}
       };
       
-      // Ensure all rows have the same number of columns
+      if (table.additionalHeaderRows) {
+        processedTable.additionalHeaderRows = table.additionalHeaderRows.map(row => [...row]);
+      }
+      
+      // Ensure all rows cover the same number of grid columns
       this.normalizeTableDimensions(processedTable);
       
       // Apply default styling if not present
@@ -52,76 +56,217 @@ export class TableHandler implements TableHandlerService {
   }
   
   /**
-   * Normalize table dimensions to ensure all rows have the same number of columns
+   * Normalize table dimensions so that every row covers the same number of grid columns
+   * 
+   * Merged cells are taken into account, so only positions that no cell covers are padded.
    * 
    * @param table - The table to normalize
    */
   private normalizeTableDimensions(table: TableResource): void {
-    // Determine the maximum number of columns
-    const headerCount = table.headers.length;
-    let maxColumns = headerCount;
+    const style = table.style || {};
+    const headerRows = [table.headers, ...(table.additionalHeaderRows || [])];
+    const hasHeaders = table.headers.length > 0 || headerRows.length > 1;
     
-    table.rows.forEach(row => {
-      maxColumns = Math.max(maxColumns, row.length);
-    });
+    const headerGrid = this.resolveGrid(hasHeaders ? headerRows : [], style.headerDetails);
+    const bodyGrid = this.resolveGrid(table.rows, style.cellDetails);
+    const columnCount = Math.max(headerGrid.columnCount, bodyGrid.columnCount);
     
-    // Pad headers if needed
-    while (table.headers.length < maxColumns) {
-      table.headers.push('');
+    if (hasHeaders) {
+      const [headers, ...additionalHeaderRows] = this.padRows(headerRows, headerGrid, columnCount);
+      table.headers = headers;
+      if (table.additionalHeaderRows) {
+        table.additionalHeaderRows = additionalHeaderRows;
+      }
+    } else {
+      table.headers = Array(columnCount).fill('');
     }
     
-    // Pad rows if needed
-    table.rows = table.rows.map(row => {
-      const paddedRow = [...row];
-      while (paddedRow.length < maxColumns) {
-        paddedRow.push('');
-      }
-      return paddedRow;
+    table.rows = this.padRows(table.rows, bodyGrid, columnCount);
+    
+    // Store the resolved spans so that formatting emits consistent merges
+    if (Array.isArray(style.headerDetails)) {
+      style.headerDetails = this.normalizeCellDetails(style.headerDetails, headerGrid);
+    }
+    if (Array.isArray(style.cellDetails)) {
+      style.cellDetails = this.normalizeCellDetails(style.cellDetails, bodyGrid);
+    }
+  }
+  
+  /**
+   * Map the cells of a group of rows onto a rectangular grid, honoring colspan and rowspan
+   * 
+   * @param rows - The rows of cells, as in the HTML source
+   * @param cellDetails - Per-cell details with colSpan/rowSpan, aligned with the rows
+   * @returns The resolved grid
+   */
+  resolveGrid(rows: any[][], cellDetails?: any[][]): TableGrid {
+    // occupied[row][column] is true once a cell (or a span reaching into the row) covers it
+    const occupied: boolean[][] = rows.map(() => []);
+    const gridRows: TableGridCell[][] = [];
+    let columnCount = 0;
+    
+    rows.forEach((row, rowIndex) => {
+      const placed: TableGridCell[] = [];
+      let column = 0;
+      
+      row.forEach((_, cellIndex) => {
+        const details = cellDetails?.[rowIndex]?.[cellIndex];
+        const colSpan = Math.max(1, parseInt(details?.colSpan, 10) || 1);
+        const rowSpan = Math.min(
+          Math.max(1, parseInt(details?.rowSpan, 10) || 1),
+          rows.length - rowIndex
+        );
+        
+        // Skip positions covered by cells spanning down from earlier rows
+        while (occupied[rowIndex][column]) {
+          column++;
+        }
+        
+        for (let r = rowIndex; r < rowIndex + rowSpan; r++) {
+          for (let c = column; c < column + colSpan; c++) {
+            occupied[r][c] = true;
+          }
+        }
+        
+        placed.push({ index: cellIndex, column, colSpan, rowSpan });
+        column += colSpan;
+      });
+      
+      gridRows.push(placed);
+    });
+    
+    occupied.forEach(row => {
+      columnCount = Math.max(columnCount, row.length);
     });
+    
+    return {
+      columnCount,
+      rows: gridRows,
+      coveredCounts: occupied.map(row => row.filter(Boolean).length)
+    };
+  }
+  
+  /**
+   * Pad rows with empty cells for grid positions no cell covers
+   * 
+   * @param rows - The rows to pad
+   * @param grid - The resolved grid of the rows
+   * @param columnCount - Number of columns of the table
+   * @returns Padded rows
+   */
+  private padRows<T>(rows: T[][], grid: TableGrid, columnCount: number): T[][] {
+    return rows.map((row, rowIndex) => {
+      const missing = columnCount - (grid.coveredCounts[rowIndex] || 0);
+      return missing > 0 ? [...row, ...Array(missing).fill('')] : [...row];
+    });
+  }
+  
+  /**
+   * Write the spans resolved on the grid back into the cell details
+   * 
+   * @param cellDetails - Per-cell details aligned with the rows
+   * @param grid - The resolved grid of the rows
+   * @returns Cell details with valid colSpan/rowSpan values
+   */
+  private normalizeCellDetails(cellDetails: any[][], grid: TableGrid): any[][] {
+    return grid.rows.map((row, rowIndex) =>
+      row.map(cell => {
+        const details = cellDetails[rowIndex]?.[cell.index];
+        return details ? { ...details, colSpan: cell.colSpan, rowSpan: cell.rowSpan } : details ?? null;
+      })
+    );
+  }
+  
+  /**
+   * Get PptxGenJS merge options for a cell
+   * 
+   * @param details - The cell details
+   * @returns colspan/rowspan options, or undefined for unmerged cells
+   */
+  private getSpanOptions(details: any): Record<string, number> | undefined {
+    const colSpan = parseInt(details?.colSpan, 10) || 1;
+    const rowSpan = parseInt(details?.rowSpan, 10) || 1;
+    
+    if (colSpan <= 1 && rowSpan <= 1) {
+      return undefined;
+    }
+    
+    return {
+      ...(colSpan > 1 ? { colspan: colSpan } : {}),
+      ...(rowSpan > 1 ? { rowspan: rowSpan } : {})
+    };
   }
   
   /**
    * Format table headers
    * 
    * @param headers - The table headers to format
+   * @param cellDetails - Per-cell details (formatting, merged cells) for the header row
    * @returns Formatted table headers
    */
-  formatHeaders(headers: string[]): any[] {
-    return headers.map(header => ({
-      text: header,
-      bold: true,
-      color: '333333',
-      fill: 'EEEEEE',
-      valign: 'middle',
-      align: 'center'
-    }));
+  formatHeaders(headers: string[], cellDetails?: (TableCellResource | null)[]): any[] {
+    return headers.map((header, index) => this.formatCell(header, cellDetails?.[index], true));
   }
   
   /**
    * Format table rows
    * 
    * @param rows - The table rows to format
+   * @param cellDetails - Per-cell details (formatting, merged cells), aligned with the rows
    * @returns Formatted table rows
    */
-  formatRows(rows: any[][]): any[][] {
+  formatRows(rows: any[][], cellDetails?: (TableCellResource | null)[][]): any[][] {
     return rows.map((row, rowIndex) => {
-      return row.map((cell, cellIndex) => {
-        // Basic cell formatting
-        const cellFormat: any = {
-          text: String(cell),
-          valign: 'middle'
-        };
-        
-        // Add zebra striping for better readability
-        if (rowIndex % 2 === 1) {
-          cellFormat.fill = 'F9F9F9';
-        }
-        
-        return cellFormat;
-      });
+      return row.map((cell, cellIndex) => this.formatCell(cell, cellDetails?.[rowIndex]?.[cellIndex], false));
     });
   }
   
+  /**
+   * Translate a cell into a PptxGenJS table cell
+   * 
+   * @param value - The cell text
+   * @param details - The cell details, if available
+   * @param isHeaderRow - Whether the cell belongs to a header row
+   * @returns PptxGenJS cell with text, options and (if formatted) text runs
+   */
+  private formatCell(value: any, details: TableCellResource | null | undefined, isHeaderRow: boolean): any {
+    const options: Record<string, any> = {
+      valign: details?.valign || 'middle'
+    };
+    
+    // Header cells, including row headers (<th>) in body rows
+    if (isHeaderRow || details?.header) {
+      options.bold = true;
+      options.color = '333333';
+      options.fill = { color: 'EEEEEE' };
+      options.align = 'center';
+    }
+    
+    if (details?.align) {
+      options.align = details.align;
+    }
+    if (details?.fill) {
+      options.fill = { color: details.fill };
+    }
+    if (details?.color) {
+      options.color = details.color;
+    }
+    
+    // Merged cells
+    Object.assign(options, this.getSpanOptions(details));
+    
+    const cellFormat: any = {
+      text: String(value),
+      options
+    };
+    
+    if (details?.runs && details.runs.length > 0) {
+      cellFormat.runs = details.runs;
+    }
+    
+    return cellFormat;
+  }
+  
   /**
    * Calculate optimal column widths
    * 
@@ -129,7 +274,11 @@ export class TableHandler implements TableHandlerService {
    * @returns Array of column widths
    */
   calculateColumnWidths(table: TableResource): number[] {
-    const columnCount = table.headers.length;
+    const style = table.style || {};
+    const headerRows = [table.headers, ...(table.additionalHeaderRows || [])];
+    const headerGrid = this.resolveGrid(headerRows, style.headerDetails);
+    const bodyGrid = this.resolveGrid(table.rows, style.cellDetails);
+    const columnCount = Math.max(headerGrid.columnCount, bodyGrid.columnCount);
     
     // If no columns, return empty array
     if (columnCount === 0) {
@@ -139,20 +288,19 @@ export class TableHandler implements TableHandlerService {
     // Calculate content length for each column
     const columnLengths: number[] = Array(columnCount).fill(0);
     
-    // Check headers
-    table.headers.forEach((header, index) => {
-      columnLengths[index] = Math.max(columnLengths[index], header.length);
-    });
-    
-    // Check rows
-    table.rows.forEach(row => {
-      row.forEach((cell, index) => {
-        if (index < columnCount) {
-          const cellLength = String(cell).length;
-          columnLengths[index] = Math.max(columnLengths[index], cellLength);
-        }
+    // Check headers and rows; merged cells do not determine a single column's width
+    const measure = (rows: any[][], grid: TableGrid) => {
+      grid.rows.forEach((cells, rowIndex) => {
+        cells.forEach(cell => {
+          if (cell.colSpan === 1) {
+            const cellLength = String(rows[rowIndex][cell.index]).length;
+            columnLengths[cell.column] = Math.max(columnLengths[cell.column], cellLength);
+          }
+        });
       });
-    });
+    };
+    measure(headerRows, headerGrid);
+    measure(table.rows, bodyGrid);
     
     // Convert lengths to proportional widths
     const totalLength = columnLengths.reduce((sum, length) => sum + length, 0);
@@ -173,6 +321,9 @@ export class TableHandler implements TableHandlerService {
   /**
    * Apply table styling
    * 
+   * Merged cells are not part of the table options: formatHeaders and
+   * formatRows set colspan/rowspan on each cell from the resolved grid.
+   * 
    * @param table - The table resource
    * @returns Table with applied styling
    */
@@ -190,40 +341,236 @@ export class TableHandler implements TableHandlerService {
       align: tableStyle.textAlign || 'left'
     };
     
-    // Apply advanced styling if available
-    if (tableStyle.cellDetails) {
-      tableOptions.complex = true;
+    return tableOptions;
+  }
+  
+  /**
+   * Split a table into pages of at most the given number of body rows,
+   * repeating the header row on every page
+   * 
+   * @param table - The table resource
+   * @param rowsPerPage - Maximum number of body rows per page (0 for no limit)
+   * @param showPageNumbers - Whether to add a "Page X of Y" caption to each page
+   * @param fitsPage - Check whether a candidate page fits the space available to it
+   * @returns Table pages (a single page if the table is short enough)
+   */
+  paginateTable(
+    table: TableResource,
+    rowsPerPage: number,
+    showPageNumbers: boolean = false,
+    fitsPage?: TablePageFit
+  ): TablePage[] {
+    try {
+      const limit = rowsPerPage && rowsPerPage >= 1 ? rowsPerPage : table.rows.length;
+      
+      const fitsWhole = table.rows.length <= limit && (!fitsPage || fitsPage(table, 0, true));
+      if (table.rows.length === 0 || fitsWhole) {
+        return [{ table, pageNumber: 1, pageCount: 1 }];
+      }
       
-      // Process cell details for merged cells and custom formatting
-      const cellDetails = tableStyle.cellDetails;
-      if (Array.isArray(cellDetails) && cellDetails.length > 0) {
-        // Handle merged cells
-        const mergedCells: any[] = [];
+      const breaks = this.getRowBreaks(table);
+      const ranges: Array<[number, number]> = [];
+      let start = 0;
+      
+      while (start < table.rows.length) {
+        // The shortest page that does not cut cells merged across rows
+        let shortest = start + 1;
+        while (!breaks[shortest]) {
+          shortest++;
+        }
         
-        cellDetails.forEach((row, rowIndex) => {
-          if (!Array.isArray(row)) return;
-          
-          row.forEach((cell, colIndex) => {
-            if (!cell) return;
-            
-            // Check for merged cells
-            if (cell.colSpan > 1 || cell.rowSpan > 1) {
-              mergedCells.push({
-                row: rowIndex + 1, // +1 because headers are row 0
-                col: colIndex,
-                rowspan: cell.rowSpan,
-                colspan: cell.colSpan
-              });
+        // Never split a page inside cells merged across rows: end earlier, or later if unavoidable
+        let end = Math.max(Math.min(start + limit, table.rows.length), shortest);
+        while (!breaks[end]) {
+          end--;
+        }
+        
+        // Cut the page short at the last row that still fits (the shortest page is always taken)
+        if (fitsPage) {
+          let fitted = shortest;
+          for (let candidate = shortest + 1; candidate <= end; candidate++) {
+            if (!breaks[candidate]) {
+              continue;
             }
-          });
-        });
+            if (!fitsPage(this.sliceRows(table, start, candidate), ranges.length, candidate === table.rows.length)) {
+              break;
+            }
+            fitted = candidate;
+          }
+          end = fitted;
+        }
         
-        if (mergedCells.length > 0) {
-          tableOptions.mergedCells = mergedCells;
+        ranges.push([start, end]);
+        start = end;
+      }
+      
+      return ranges.map(([rangeStart, rangeEnd], pageIndex) => {
+        const page: TablePage = {
+          table: this.sliceRows(table, rangeStart, rangeEnd),
+          pageNumber: pageIndex + 1,
+          pageCount: ranges.length
+        };
+        
+        if (showPageNumbers && ranges.length > 1) {
+          page.caption = `Page ${pageIndex + 1} of ${ranges.length}`;
+        }
+        
+        return page;
+      });
+    } catch (error) {
+      throw new TableHandlingError(
+        `Failed to paginate table: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  
+  /**
+   * Turn a table with numeric columns into chart data
+   * 
+   * @param table - The table resource
+   * @param type - Chart type (defaults to the table's data-chart type, then bar)
+   * @returns Chart data, or null if the table has no numeric columns
+   */
+  createChart(table: TableResource, type?: ChartType): ChartResource | null {
+    try {
+      const chartType = type || table.chartType || 'bar';
+      
+      // Read cells by grid position, so that merged headers and labels line up with their columns
+      const headerRows = this.toGridMatrix(
+        [table.headers, ...(table.additionalHeaderRows || [])],
+        table.style?.headerDetails
+      );
+      const rows = this.toGridMatrix(table.rows, table.style?.cellDetails);
+      const columnCount = Math.max(...headerRows.map(row => row.length), ...rows.map(row => row.length));
+      
+      if (rows.length === 0 || columnCount < 2) {
+        return null;
+      }
+      
+      // Series come from columns after the first one in which every filled cell is a number
+      const numericColumns: number[] = [];
+      for (let column = 1; column < columnCount; column++) {
+        const values = rows.map(row => row[column] ?? '').filter(Boolean);
+        if (values.length > 0 && values.every(value => this.parseNumber(value) !== null)) {
+          numericColumns.push(column);
         }
       }
+      
+      if (numericColumns.length === 0) {
+        return null;
+      }
+      
+      // Scatter charts need numeric X values in the first column
+      if (chartType === 'scatter' && rows.some(row => this.parseNumber(row[0] ?? '') === null)) {
+        return null;
+      }
+      
+      return {
+        type: chartType,
+        categories: rows.map(row => row[0] ?? ''),
+        series: numericColumns.map(column => ({
+          // The lowest header row naming the column is the most specific
+          name: headerRows.map(row => row[column]).filter(Boolean).pop() || `Series ${column}`,
+          values: rows.map(row => this.parseNumber(row[column] ?? '') ?? 0)
+        }))
+      };
+    } catch (error) {
+      throw new TableHandlingError(
+        `Failed to create chart from table: ${error instanceof Error ? error.message : String(error)}`
+      );
     }
+  }
+  
+  /**
+   * Lay out the text of a group of rows on their resolved grid
+   * 
+   * A merged cell's text is repeated at every grid position it covers.
+   * 
+   * @param rows - The rows of cells, as in the HTML source
+   * @param cellDetails - Per-cell details with colSpan/rowSpan, aligned with the rows
+   * @returns Trimmed cell text for each row and grid column
+   */
+  private toGridMatrix(rows: any[][], cellDetails?: any[][]): string[][] {
+    const grid = this.resolveGrid(rows, cellDetails);
+    const matrix: string[][] = rows.map(() => Array(grid.columnCount).fill(''));
     
-    return tableOptions;
+    grid.rows.forEach((cells, rowIndex) => {
+      cells.forEach(cell => {
+        const text = String(rows[rowIndex][cell.index] ?? '').trim();
+        for (let r = rowIndex; r < rowIndex + cell.rowSpan; r++) {
+          for (let c = cell.column; c < cell.column + cell.colSpan; c++) {
+            matrix[r][c] = text;
+          }
+        }
+      });
+    });
+    
+    return matrix;
+  }
+  
+  /**
+   * Parse a number as written in a table cell (e.g. "1,200", "$35", "12%", "(4.5)")
+   * 
+   * @param value - The cell text
+   * @returns The number, or null if the text is not numeric
+   */
+  private parseNumber(value: string): number | null {
+    let text = value.trim().replace(/[\s,]/g, '').replace(/^[$€£¥]/, '').replace(/%$/, '');
+    
+    // Accounting notation for negative numbers
+    const negative = /^\(.*\)$/.test(text);
+    if (negative) {
+      text = text.slice(1, -1);
+    }
+    
+    if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text)) {
+      return null;
+    }
+    
+    const number = parseFloat(text);
+    return negative ? -number : number;
+  }
+  
+  /**
+   * Find the row indexes a table can be split at without cutting merged cells
+   * 
+   * @param table - The table resource
+   * @returns breaks[i] is true if a page may end before body row i
+   */
+  private getRowBreaks(table: TableResource): boolean[] {
+    const breaks: boolean[] = Array(table.rows.length + 1).fill(true);
+    const grid = this.resolveGrid(table.rows, table.style?.cellDetails);
+    
+    grid.rows.forEach((cells, rowIndex) => {
+      cells.forEach(cell => {
+        for (let r = rowIndex + 1; r < rowIndex + cell.rowSpan; r++) {
+          breaks[r] = false;
+        }
+      });
+    });
+    
+    return breaks;
+  }
+  
+  /**
+   * Take a range of body rows from a table, keeping per-row cell details aligned
+   * 
+   * @param table - The table resource
+   * @param start - Index of the first row
+   * @param end - Index after the last row
+   * @returns Table with the selected rows and the same headers
+   */
+  private sliceRows(table: TableResource, start: number, end: number): TableResource {
+    const sliced: TableResource = {
+      ...table,
+      headers: [...table.headers],
+      rows: table.rows.slice(start, end)
+    };
+    
+    if (Array.isArray(table.style?.cellDetails)) {
+      sliced.style = { ...table.style, cellDetails: table.style!.cellDetails.slice(start, end) };
+    }
+    
+    return sliced;
   }
 }
\ No newline at end of file
@@ -1,4 +1,48 @@
-import { TableResource } from '../../models';
+import { TableResource, TableCellResource, ChartResource, ChartType } from '../../models';
+
+/**
+ * One slide-sized chunk of a paged table
+ */
+export interface TablePage {
+  table: TableResource;
+  pageNumber: number;
+  pageCount: number;
+  // Caption such as "Page 2 of 5" (only set when page numbers are requested)
+  caption?: string;
+}
+
+/**
+ * Check whether a candidate table page fits the space available to it
+ * 
+ * @param page - Table with the rows of the candidate page
+ * @param pageIndex - Index of the page (0 for the first page)
+ * @param lastPage - Whether the page ends with the last row of the table
+ * @returns Whether the page fits
+ */
+export type TablePageFit = (page: TableResource, pageIndex: number, lastPage: boolean) => boolean;
+
+/**
+ * A source cell placed on the resolved table grid
+ */
+export interface TableGridCell {
+  // Index of the cell within its source row
+  index: number;
+  // First grid column covered by the cell
+  column: number;
+  colSpan: number;
+  rowSpan: number;
+}
+
+/**
+ * Rectangular cell matrix of a group of table rows with merged cells resolved
+ */
+export interface TableGrid {
+  columnCount: number;
+  // Placed cells for each source row
+  rows: TableGridCell[][];
+  // Number of grid positions covered (by own or spanning cells) in each row
+  coveredCounts: number[];
+}
 
 /**
  * Interface for the table handler service
@@ -14,21 +58,32 @@ export interface TableHandlerService {
    */
   processTable(table: TableResource): TableResource;
   
+  /**
+   * Map the cells of a group of rows onto a rectangular grid, honoring colspan and rowspan
+   * 
+   * @param rows - The rows of cells, as in the HTML source
+   * @param cellDetails - Per-cell details with colSpan/rowSpan, aligned with the rows
+   * @returns The resolved grid
+   */
+  resolveGrid(rows: any[][], cellDetails?: any[][]): TableGrid;
+  
   /**
    * Format table headers
    * 
    * @param headers - The table headers to format
+   * @param cellDetails - Per-cell details (formatting, merged cells) for the header row
    * @returns Formatted table headers
    */
-  formatHeaders(headers: string[]): any[];
+  formatHeaders(headers: string[], cellDetails?: (TableCellResource | null)[]): any[];
   
   /**
    * Format table rows
    * 
    * @param rows - The table rows to format
+   * @param cellDetails - Per-cell details (formatting, merged cells), aligned with the rows
    * @returns Formatted table rows
    */
-  formatRows(rows: any[][]): any[][];
+  formatRows(rows: any[][], cellDetails?: (TableCellResource | null)[][]): any[][];
   
   /**
    * Calculate optimal column widths
@@ -45,6 +100,35 @@ export interface TableHandlerService {
    * @returns Table with applied styling
    */
   applyTableStyling(table: TableResource): Record<string, any>;
+  
+  /**
+   * Split a table into pages of at most the given number of body rows,
+   * repeating the header row on every page
+   * 
+   * Pages never end inside cells merged across rows. When a fit check is
+   * given, each page is also cut short at the last row that still fits, so
+   * that callers laying out slides get every page (and its page number)
+   * from a single pass.
+   * 
+   * @param table - The table resource
+   * @param rowsPerPage - Maximum number of body rows per page (0 for no limit)
+   * @param showPageNumbers - Whether to add a "Page X of Y" caption to each page
+   * @param fitsPage - Check whether a candidate page fits the space available to it
+   * @returns Table pages (a single page if the table is short enough)
+   */
+  paginateTable(table: TableResource, rowsPerPage: number, showPageNumbers?: boolean, fitsPage?: TablePageFit): TablePage[];
+  
+  /**
+   * Turn a table with numeric columns into chart data
+   * 
+   * The first column provides the categories and each numeric column becomes
+   * a series named after its header cell.
+   * 
+   * @param table - The table resource
+   * @param type - Chart type (defaults to the table's data-chart type, then bar)
+   * @returns Chart data, or null if the table has no numeric columns
+   */
+  createChart(table: TableResource, type?: ChartType): ChartResource | null;
 }
 
 /**
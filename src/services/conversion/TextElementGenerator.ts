@@ -1,4 +1,11 @@
-import { TextResource } from '../../models';
+import { TextResource, TextRun } from '../../models';
+import { hslToHex, namedColorToHex } from '../../utils/cssColors';
+
+// Inline formatting state shared by all runs inside an element
+type TextRunFormat = Omit<TextRun, 'text' | 'breakLine'>;
+
+// Elements that end a line when they appear inside inline content
+const LINE_BLOCK_TAGS = ['p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'pre', 'blockquote', 'tr'];
 
 /**
  * Text Element Generator Interface
@@ -29,6 +36,23 @@ export interface TextElementGeneratorService {
    * @returns Plain text content
    */
   extractText(htmlContent: string): string;
+  
+  /**
+   * Generate formatting runs from HTML
+   * 
+   * @param htmlContent - HTML content to generate runs from
+   * @param preserveWhitespace - Whether to keep whitespace and line breaks as written (e.g. for pre blocks)
+   * @returns Array of text runs in reading order
+   */
+  generateTextRuns(htmlContent: string, preserveWhitespace?: boolean): TextRun[];
+  
+  /**
+   * Convert a CSS color to the hex format used by PptxGenJS (e.g. "FF0000")
+   * 
+   * @param color - CSS color value (#rgb, #rrggbb, rgb()/rgba(), hsl()/hsla() or a named color)
+   * @returns Hex color without the leading '#', or undefined if the color is not supported
+   */
+  normalizeColor(color: string): string | undefined;
 }
 
 /**
@@ -69,7 +93,8 @@ export class TextElementGenerator implements TextElementGeneratorService {
       // Create and return text resource
       return {
         content,
-        format
+        format,
+        runs: this.generateTextRuns(htmlContent)
       };
     } catch (error) {
       throw new TextElementGenerationError(
@@ -245,141 +270,277 @@ export class TextElementGenerator implements TextElementGeneratorService {
   }
   
   /**
-   * Generate text elements from complex HTML with mixed formatting
+   * Generate formatting runs from HTML
    * 
-   * @param htmlContent - Complex HTML content with mixed formatting
-   * @returns Array of text resources with different formatting
+   * Walks the nodes in reading order, inheriting inline formatting from
+   * ancestors, so `Revenue grew <b>12%</b>` yields a plain run followed by a
+   * bold run. Adjacent runs with identical formatting are merged.
+   * 
+   * @param htmlContent - HTML content to generate runs from
+   * @param preserveWhitespace - Whether to keep whitespace and line breaks as written (e.g. for pre blocks)
+   * @returns Array of text runs in reading order
    */
-  generateComplexTextElements(htmlContent: string): TextResource[] {
+  generateTextRuns(htmlContent: string, preserveWhitespace = false): TextRun[] {
     try {
       // Create a temporary element to parse the HTML
       const tempElement = document.createElement('div');
       tempElement.innerHTML = htmlContent;
       
-      // Initialize result array
-      const textElements: TextResource[] = [];
-      
-      // Process each child node
-      this.processNodeForTextElements(tempElement, textElements);
+      const runs: TextRun[] = [];
+      this.collectTextRuns(tempElement, {}, runs, preserveWhitespace);
       
-      return textElements;
+      return this.normalizeTextRuns(runs, preserveWhitespace);
     } catch (error) {
       throw new TextElementGenerationError(
-        `Failed to generate complex text elements: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to generate text runs: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
   
   /**
-   * Process a node recursively to extract text elements
+   * Collect text runs from a node recursively
    * 
    * @param node - Node to process
-   * @param textElements - Array to add text elements to
+   * @param inherited - Formatting inherited from ancestor elements
+   * @param runs - Array to add text runs to
+   * @param preserveWhitespace - Whether whitespace is significant
    */
-  private processNodeForTextElements(node: Node, textElements: TextResource[]): void {
-    // Skip empty nodes
-    if (!node.textContent?.trim()) {
-      return;
-    }
-    
-    // Process text nodes
-    if (node.nodeType === Node.TEXT_NODE && node.textContent?.trim()) {
-      // Get parent element for formatting
-      const parentElement = node.parentElement;
-      if (parentElement) {
-        const format = this.getNodeFormatting(parentElement);
-        textElements.push({
-          content: node.textContent,
-          format
-        });
-      } else {
-        textElements.push({
-          content: node.textContent,
-          format: {}
-        });
+  private collectTextRuns(node: Node, inherited: TextRunFormat, runs: TextRun[], preserveWhitespace: boolean): void {
+    node.childNodes.forEach(childNode => {
+      if (childNode.nodeType === Node.TEXT_NODE) {
+        const text = preserveWhitespace
+          ? childNode.textContent || ''
+          : (childNode.textContent || '').replace(/\s+/g, ' ');
+        
+        if (text) {
+          runs.push({ text, ...inherited });
+        }
+        return;
       }
-      return;
+      
+      if (childNode.nodeType !== Node.ELEMENT_NODE) {
+        return;
+      }
+      
+      const element = childNode as Element;
+      const tagName = element.tagName.toLowerCase();
+      
+      if (tagName === 'script' || tagName === 'style') {
+        return;
+      }
+      
+      if (tagName === 'br') {
+        this.addLineBreak(runs);
+        return;
+      }
+      
+      this.collectTextRuns(
+        element,
+        { ...inherited, ...this.getRunFormatting(element) },
+        runs,
+        preserveWhitespace || tagName === 'pre'
+      );
+      
+      // Block-level content inside inline text starts a new line
+      if (LINE_BLOCK_TAGS.includes(tagName) && element.nextSibling) {
+        this.addLineBreak(runs);
+      }
+    });
+  }
+  
+  /**
+   * End the current line of runs
+   * 
+   * @param runs - Array of runs collected so far
+   */
+  private addLineBreak(runs: TextRun[]): void {
+    const lastRun = runs[runs.length - 1];
+    if (lastRun && !lastRun.breakLine) {
+      lastRun.breakLine = true;
+    } else {
+      runs.push({ text: '', breakLine: true });
     }
+  }
+  
+  /**
+   * Merge adjacent runs and collapse whitespace across run boundaries
+   * 
+   * @param runs - Raw runs collected from the DOM
+   * @param preserveWhitespace - Whether whitespace is significant
+   * @returns Normalized runs
+   */
+  private normalizeTextRuns(runs: TextRun[], preserveWhitespace: boolean): TextRun[] {
+    const normalized: TextRun[] = [];
     
-    // Process element nodes with children
-    if (node.nodeType === Node.ELEMENT_NODE) {
-      // Check if this is a formatting element with a single text node
-      const element = node as Element;
-      if (element.childNodes.length === 1 && element.firstChild?.nodeType === Node.TEXT_NODE) {
-        const format = this.getNodeFormatting(element);
-        textElements.push({
-          content: element.textContent || '',
-          format
-        });
+    runs.forEach(run => {
+      const current = { ...run };
+      const previous = normalized[normalized.length - 1];
+      
+      if (!preserveWhitespace) {
+        // Drop whitespace at the start of a line or after a run that already ends with a space
+        const atLineStart = !previous || previous.breakLine;
+        if (atLineStart || previous.text.endsWith(' ')) {
+          current.text = current.text.replace(/^ +/, '');
+        }
+      }
+      
+      if (!current.text && !current.breakLine) {
         return;
       }
       
-      // Process child nodes recursively
-      node.childNodes.forEach(childNode => {
-        this.processNodeForTextElements(childNode, textElements);
+      if (previous && !previous.breakLine && this.haveSameFormatting(previous, current)) {
+        previous.text += current.text;
+        if (current.breakLine) {
+          previous.breakLine = true;
+        }
+        return;
+      }
+      
+      normalized.push(current);
+    });
+    
+    if (!preserveWhitespace) {
+      // Trim trailing spaces at the end of each line
+      normalized.forEach((run, index) => {
+        if (run.breakLine || index === normalized.length - 1) {
+          run.text = run.text.replace(/ +$/, '');
+        }
       });
     }
+    
+    // A trailing line break would leave an empty last line in the text box
+    const lastRun = normalized[normalized.length - 1];
+    if (lastRun?.breakLine) {
+      delete lastRun.breakLine;
+    }
+    
+    return normalized.filter(run => run.text || run.breakLine);
   }
   
   /**
-   * Get formatting information from a node
+   * Check whether two runs share the same formatting
+   * 
+   * @param a - First run
+   * @param b - Second run
+   * @returns True if all formatting properties match
+   */
+  private haveSameFormatting(a: TextRun, b: TextRun): boolean {
+    const keys: (keyof TextRunFormat)[] = [
+      'bold', 'italic', 'underline', 'strikethrough', 'superscript', 'subscript', 'code', 'color', 'link'
+    ];
+    return keys.every(key => (a[key] || undefined) === (b[key] || undefined));
+  }
+  
+  /**
+   * Get the run formatting contributed by a single element
    * 
    * @param element - Element to get formatting from
-   * @returns Text format object
+   * @returns Run formatting set by the element's tag and inline style
    */
-  private getNodeFormatting(element: Element): TextResource['format'] {
-    const format: TextResource['format'] = {};
-    
-    // Check element tag name for basic formatting
+  private getRunFormatting(element: Element): TextRunFormat {
+    const format: TextRunFormat = {};
     const tagName = element.tagName.toLowerCase();
     
-    // Check for heading level
-    if (tagName.match(/^h[1-6]$/)) {
-      format.headingLevel = parseInt(tagName.substring(1), 10);
+    if (['strong', 'b'].includes(tagName)) format.bold = true;
+    if (['em', 'i', 'cite', 'dfn', 'var'].includes(tagName)) format.italic = true;
+    if (['u', 'ins'].includes(tagName)) format.underline = true;
+    if (['s', 'strike', 'del'].includes(tagName)) format.strikethrough = true;
+    if (tagName === 'sup') format.superscript = true;
+    if (tagName === 'sub') format.subscript = true;
+    if (['code', 'kbd', 'samp', 'tt'].includes(tagName)) format.code = true;
+    
+    if (tagName === 'a' && element.getAttribute('href')) {
+      format.link = element.getAttribute('href') || undefined;
     }
     
-    // Check for basic formatting based on tag name
-    format.bold = ['strong', 'b'].includes(tagName) || false;
-    format.italic = ['em', 'i'].includes(tagName) || false;
-    format.underline = tagName === 'u' || false;
-    format.strikethrough = ['s', 'strike', 'del'].includes(tagName) || false;
-    format.superscript = tagName === 'sup' || false;
-    format.subscript = tagName === 'sub' || false;
+    // <font color="..."> is still common in exported HTML
+    const fontColor = tagName === 'font' ? element.getAttribute('color') : null;
+    if (fontColor) {
+      format.color = this.normalizeColor(fontColor);
+    }
     
     // Check for inline styles
     const style = element.getAttribute('style');
     if (style) {
-      // Check for text alignment
-      const alignMatch = style.match(/text-align:\s*(\w+)/);
-      if (alignMatch && alignMatch[1]) {
-        format.alignment = alignMatch[1] as any;
+      const weightMatch = style.match(/font-weight:\s*([^;]+)/);
+      if (weightMatch && (weightMatch[1].trim() === 'bold' || parseInt(weightMatch[1], 10) >= 600)) {
+        format.bold = true;
       }
       
-      // Check for font family
-      const fontMatch = style.match(/font-family:\s*([^;]+)/);
-      if (fontMatch && fontMatch[1]) {
-        format.fontFamily = fontMatch[1].trim();
+      if (/font-style:\s*italic/.test(style)) {
+        format.italic = true;
       }
       
-      // Check for font size
-      const sizeMatch = style.match(/font-size:\s*([^;]+)/);
-      if (sizeMatch && sizeMatch[1]) {
-        format.fontSize = sizeMatch[1].trim();
+      if (/text-decoration[^:]*:[^;]*underline/.test(style)) {
+        format.underline = true;
       }
       
-      // Check for text color
-      const colorMatch = style.match(/color:\s*([^;]+)/);
-      if (colorMatch && colorMatch[1]) {
-        format.color = colorMatch[1].trim();
+      if (/text-decoration[^:]*:[^;]*line-through/.test(style)) {
+        format.strikethrough = true;
       }
       
-      // Check for background color
-      const bgMatch = style.match(/background-color:\s*([^;]+)/);
-      if (bgMatch && bgMatch[1]) {
-        format.backgroundColor = bgMatch[1].trim();
+      const colorMatch = style.match(/(?:^|;)\s*color:\s*([^;]+)/);
+      if (colorMatch && colorMatch[1]) {
+        format.color = this.normalizeColor(colorMatch[1].trim()) || format.color;
       }
     }
     
     return format;
   }
+  
+  /**
+   * Convert a CSS color to the hex format used by PptxGenJS (e.g. "FF0000")
+   * 
+   * @param color - CSS color value (#rgb, #rrggbb, rgb()/rgba(), hsl()/hsla() or a named color)
+   * @returns Hex color without the leading '#', or undefined if the color is not supported
+   */
+  normalizeColor(color: string): string | undefined {
+    const value = color.trim();
+    
+    const hexMatch = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+    if (hexMatch) {
+      const hex = hexMatch[1].length === 3
+        ? hexMatch[1].split('').map(char => char + char).join('')
+        : hexMatch[1];
+      return hex.toUpperCase();
+    }
+    
+    const rgbMatch = value.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i);
+    if (rgbMatch) {
+      return rgbMatch.slice(1, 4)
+        .map(channel => Math.min(255, parseInt(channel, 10)).toString(16).padStart(2, '0'))
+        .join('')
+        .toUpperCase();
+    }
+    
+    return hslToHex(value) || namedColorToHex(value);
+  }
+  
+  /**
+   * Generate text elements from complex HTML with mixed formatting
+   * 
+   * @param htmlContent - Complex HTML content with mixed formatting
+   * @returns Array of text resources with different formatting, one per run
+   */
+  generateComplexTextElements(htmlContent: string): TextResource[] {
+    try {
+      return this.generateTextRuns(htmlContent).map(run => ({
+        content: run.text,
+        format: {
+          bold: run.bold || false,
+          italic: run.italic || false,
+          underline: run.underline || false,
+          strikethrough: run.strikethrough || false,
+          superscript: run.superscript || false,
+          subscript: run.subscript || false,
+          color: run.color
+        },
+        runs: [run]
+      }));
+    } catch (error) {
+      throw new TextElementGenerationError(
+        `Failed to generate complex text elements: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
 }
\ No newline at end of file
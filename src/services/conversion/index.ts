@@ -11,4 +11,8 @@ export { ListHandlerService, ListHandlingError } from './ListHandlerInterface';
 export { LinkHandler } from './LinkHandler';
 export { LinkHandlerService, LinkHandlingError } from './LinkHandlerInterface';
 export { ThemeHandler } from './ThemeHandler';
-export { ThemeHandlerService, ThemeHandlingError } from './ThemeHandlerInterface';
\ No newline at end of file
+export { ThemeHandlerService, ThemeHandlingError } from './ThemeHandlerInterface';
+export { LayoutEngine } from './LayoutEngine';
+export { type LayoutEngineService, LayoutError } from './LayoutEngineInterface';
+export { CodeHandler } from './CodeHandler';
+export { type CodeHandlerService, CodeHandlingError, type CodeToken, type CodeTokenType } from './CodeHandlerInterface';
\ No newline at end of file
@@ -0,0 +1,1056 @@
+import { ConversionConfig, PresentationTheme } from '../../models';
+import { FrontMatter, MarkdownConverterService, MarkdownDocument, MarkdownConversionError } from './MarkdownConverterInterface';
+
+// Block structure
+const FENCE_PATTERN = /^( {0,3})(`{3,}|~{3,})[ \t]*(.*?)[ \t]*$/;
+const ATX_HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE_PATTERN = /^ {0,3}(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK_PATTERN = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE_PATTERN = /^ {0,3}> ?/;
+const LIST_ITEM_PATTERN = /^( {0,3})([-+*]|\d{1,9}[.)])(?:([ \t]+)(.*))?$/;
+const TASK_PATTERN = /^\[([ xX])\](?:[ \t]+|$)/;
+const TABLE_DELIMITER_PATTERN = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const LINK_REFERENCE_PATTERN = /^ {0,3}\[([^\]]+)\]:[ \t]*<?([^\s>]+)>?(?:[ \t]+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?[ \t]*$/;
+
+// HTML blocks: elements that end at a blank line, and raw elements that end at their closing tag
+const HTML_BLOCK_TAGS = 'address|article|aside|blockquote|body|caption|center|col|colgroup|dd|details|dialog|dir|div|dl|dt|fieldset|figcaption|figure|footer|form|frame|frameset|h[1-6]|head|header|hr|html|iframe|legend|li|link|main|menu|nav|ol|optgroup|option|p|param|section|source|summary|table|tbody|td|tfoot|th|thead|title|tr|track|ul';
+const HTML_BLOCK_PATTERN = new RegExp(`^ {0,3}(?:<!--|<\\/?(?:${HTML_BLOCK_TAGS})(?:[\\s/>]|$))`, 'i');
+const HTML_RAW_BLOCK_PATTERN = /^ {0,3}<(pre|script|style|textarea)(?:[\s>]|$)/i;
+
+// Inline structure
+const ASCII_PUNCTUATION = '!"#$%&\'()*+,-./:;<=>?@[\\]^_`{|}~';
+const ENTITY_PATTERN = /^&(?:#[xX][0-9a-fA-F]{1,6}|#\d{1,7}|[a-zA-Z][a-zA-Z0-9]{1,31});/;
+const AUTOLINK_PATTERN = /^<([A-Za-z][A-Za-z0-9+.-]{1,31}:[^\s<>]*)>/;
+const EMAIL_AUTOLINK_PATTERN = /^<([a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*)>/;
+const INLINE_HTML_PATTERN = /^(?:<[A-Za-z][A-Za-z0-9-]*(?:\s+[A-Za-z_:][\w.:-]*(?:\s*=\s*(?:[^\s"'=<>`]+|'[^']*'|"[^"]*"))?)*\s*\/?>|<\/[A-Za-z][A-Za-z0-9-]*\s*>|<!--[\s\S]*?-->)/;
+
+// Front matter between "---" lines at the very start of the document
+const FRONT_MATTER_PATTERN = /^\uFEFF?---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Link reference definition ([label]: url "title")
+ */
+interface LinkReference {
+  url: string;
+  title?: string;
+}
+
+/**
+ * Link reference definitions of one document, by normalized label
+ */
+type LinkReferences = Map<string, LinkReference>;
+
+/**
+ * Rendered block; paragraphs keep their bare inline HTML until the container
+ * decides whether to wrap them in <p> (tight list items do not)
+ */
+interface RenderedBlock {
+  html: string;
+  paragraph: boolean;
+}
+
+/**
+ * Inline token: rendered HTML, or a run of emphasis delimiters (*, _ or ~)
+ */
+type InlineToken =
+  | { type: 'html'; value: string }
+  | {
+      type: 'delimiter';
+      char: string;
+      count: number;
+      originalCount: number;
+      canOpen: boolean;
+      canClose: boolean;
+      openTags: string[];
+      closeTags: string[];
+    };
+
+/**
+ * Markdown Converter implementation
+ * 
+ * A small CommonMark renderer with the GitHub extensions used in notes
+ * (tables, task lists, strikethrough). Front matter metadata is written
+ * into the document head, where HTMLParser.extractMetadata picks it up.
+ */
+export class MarkdownConverter implements MarkdownConverterService {
+  /**
+   * Convert a Markdown document into an HTML document
+   * 
+   * @param markdown - Markdown source, optionally starting with YAML front matter
+   * @returns The HTML document, its front matter and the settings it requests
+   * @throws MarkdownConversionError if the document cannot be converted
+   */
+  convert(markdown: string): MarkdownDocument {
+    if (typeof markdown !== 'string') {
+      throw new MarkdownConversionError('Markdown content must be a string');
+    }
+    
+    const { data, body } = this.parseFrontMatter(markdown);
+    const warnings: string[] = [];
+    const config = this.getConfigOverrides(data, warnings);
+    const content = this.renderMarkdown(body);
+    const html = [
+      '<!DOCTYPE html>',
+      '<html>',
+      '<head>',
+      '<meta charset="utf-8">',
+      ...this.renderHead(data),
+      '</head>',
+      '<body>',
+      content,
+      '</body>',
+      '</html>'
+    ].join('\n');
+    
+    return { html, frontMatter: data, config, warnings };
+  }
+  
+  /**
+   * Render Markdown to an HTML fragment
+   * 
+   * @param markdown - Markdown source
+   * @returns HTML of the rendered blocks
+   * @throws MarkdownConversionError if the Markdown cannot be rendered
+   */
+  renderMarkdown(markdown: string): string {
+    try {
+      const lines = markdown.replace(/\r\n?/g, '\n').split('\n').map(line => this.expandTabs(line));
+      
+      return this.renderBlocks(lines, this.extractReferences(lines));
+    } catch (error) {
+      throw new MarkdownConversionError(
+        `Failed to convert Markdown: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  
+  /**
+   * Split YAML front matter from the document
+   * 
+   * @param markdown - Markdown source
+   * @returns Front matter values and the remaining Markdown
+   */
+  parseFrontMatter(markdown: string): { data: FrontMatter; body: string } {
+    const match = FRONT_MATTER_PATTERN.exec(markdown);
+    if (!match) {
+      return { data: {}, body: markdown };
+    }
+    
+    const data: FrontMatter = {};
+    let listKey: string | null = null;
+    
+    for (const line of (match[1] || '').split(/\r?\n/)) {
+      const listItem = /^[ \t]*-[ \t]+(.*)$/.exec(line);
+      if (listItem && listKey) {
+        const values = Array.isArray(data[listKey]) ? data[listKey] as string[] : [];
+        data[listKey] = [...values, this.unquote(listItem[1])];
+        continue;
+      }
+      
+      const entry = /^([A-Za-z_][\w-]*)[ \t]*:[ \t]*(.*)$/.exec(line);
+      if (!entry) {
+        continue;
+      }
+      
+      const key = entry[1].toLowerCase();
+      const value = entry[2].trim();
+      listKey = value ? null : key;
+      
+      // Inline lists ("tags: [a, b]"); an empty value may be followed by "- item" lines
+      const inlineList = /^\[(.*)\]$/.exec(value);
+      if (inlineList) {
+        data[key] = inlineList[1].split(',').map(item => this.unquote(item)).filter(item => item);
+      } else if (value) {
+        data[key] = this.unquote(value);
+      }
+    }
+    
+    return { data, body: markdown.slice(match[0].length) };
+  }
+  
+  /**
+   * Map front matter onto conversion settings
+   * 
+   * @param frontMatter - Front matter values
+   * @param warnings - List the problems found are added to (e.g. unknown themes)
+   * @returns Settings to apply (unknown values are ignored)
+   */
+  getConfigOverrides(frontMatter: FrontMatter, warnings: string[] = []): Partial<ConversionConfig> {
+    const config: Partial<ConversionConfig> = {};
+    const theme = String(frontMatter.theme ?? '').trim();
+    
+    if (theme) {
+      // Theme names match regardless of case ("professional", "Professional", ...)
+      const match = Object.values(PresentationTheme).find(value => value.toLowerCase() === theme.toLowerCase());
+      
+      if (match) {
+        config.theme = match;
+      } else {
+        const warning = `Unknown theme "${theme}" in front matter was ignored (expected one of: ` +
+          `${Object.values(PresentationTheme).map(value => value.toLowerCase()).join(', ')})`;
+        console.warn(warning);
+        warnings.push(warning);
+      }
+    }
+    
+    return config;
+  }
+  
+  /**
+   * Render front matter metadata as <title> and <meta> tags
+   * 
+   * @param frontMatter - Front matter values
+   * @returns Head elements
+   */
+  private renderHead(frontMatter: FrontMatter): string[] {
+    const text = (value: string | string[] | undefined) => Array.isArray(value) ? value.join(', ') : value || '';
+    const head: string[] = [];
+    
+    if (frontMatter.title) {
+      head.push(`<title>${this.escapeHtml(text(frontMatter.title))}</title>`);
+    }
+    
+    const meta: Array<[string, string]> = [
+      ['author', text(frontMatter.author)],
+      ['description', text(frontMatter.description)],
+      ['date', text(frontMatter.date)],
+      ['keywords', text(frontMatter.keywords || frontMatter.tags)]
+    ];
+    
+    meta.filter(([, content]) => content).forEach(([name, content]) => {
+      head.push(`<meta name="${name}" content="${this.escapeHtml(content)}">`);
+    });
+    
+    return head;
+  }
+  
+  /**
+   * Collect link reference definitions, blanking their lines
+   * 
+   * Definitions inside fenced or indented code are left alone.
+   * 
+   * @param lines - Document lines (modified in place)
+   * @returns Definitions keyed by normalized label (the first definition wins)
+   */
+  private extractReferences(lines: string[]): LinkReferences {
+    const references: LinkReferences = new Map();
+    let fence: string | null = null;
+    let previousBlank = true;
+    
+    lines.forEach((line, index) => {
+      const fenceMatch = FENCE_PATTERN.exec(line);
+      if (fence) {
+        if (fenceMatch && fenceMatch[2][0] === fence[0] && fenceMatch[2].length >= fence.length && !fenceMatch[3]) {
+          fence = null;
+        }
+        return;
+      }
+      if (fenceMatch) {
+        fence = fenceMatch[2];
+        return;
+      }
+      
+      const match = previousBlank || LINK_REFERENCE_PATTERN.test(lines[index - 1] || '') ? LINK_REFERENCE_PATTERN.exec(line) : null;
+      if (match) {
+        const label = this.normalizeLabel(match[1]);
+        if (!references.has(label)) {
+          references.set(label, { url: this.unescape(match[2]), title: match[3] ?? match[4] ?? match[5] });
+        }
+        lines[index] = '';
+      }
+      
+      previousBlank = !line.trim() || Boolean(match);
+    });
+    
+    return references;
+  }
+  
+  /**
+   * Render a sequence of block-level lines
+   * 
+   * @param lines - Lines of the container (blockquote markers removed)
+   * @param references - Link reference definitions of the document
+   * @returns HTML
+   */
+  private renderBlocks(lines: string[], references: LinkReferences): string {
+    return this.joinBlocks(this.parseBlocks(lines, references).blocks, false);
+  }
+  
+  /**
+   * Join rendered blocks into HTML
+   * 
+   * @param blocks - The rendered blocks
+   * @param tight - Whether the blocks belong to an item of a tight list (paragraphs without <p>)
+   * @returns HTML
+   */
+  private joinBlocks(blocks: RenderedBlock[], tight: boolean): string {
+    return blocks.map(block => block.paragraph && !tight ? `<p>${block.html}</p>` : block.html).join('\n');
+  }
+  
+  /**
+   * Render the blocks of a sequence of block-level lines
+   * 
+   * @param lines - Lines of the container (blockquote markers and list indentation removed)
+   * @param references - Link reference definitions of the document
+   * @returns The rendered blocks, and whether a blank line separates any two of them
+   *   (which makes the list item holding them loose)
+   */
+  private parseBlocks(lines: string[], references: LinkReferences): { blocks: RenderedBlock[]; separated: boolean } {
+    const blocks: RenderedBlock[] = [];
+    let blankLine = false;
+    let separated = false;
+    let i = 0;
+    
+    const addBlock = (html: string, paragraph: boolean = false) => {
+      separated = separated || (blankLine && blocks.length > 0);
+      blankLine = false;
+      blocks.push({ html, paragraph });
+    };
+    
+    while (i < lines.length) {
+      const line = lines[i];
+      
+      if (!line.trim()) {
+        blankLine = true;
+        i++;
+        continue;
+      }
+      
+      // Fenced code
+      const fence = FENCE_PATTERN.exec(line);
+      if (fence && !(fence[2][0] === '`' && fence[3].includes('`'))) {
+        const indent = fence[1].length;
+        const code: string[] = [];
+        i++;
+        
+        while (i < lines.length) {
+          const closing = FENCE_PATTERN.exec(lines[i]);
+          if (closing && closing[2][0] === fence[2][0] && closing[2].length >= fence[2].length && !closing[3]) {
+            i++;
+            break;
+          }
+          code.push(lines[i].replace(new RegExp(`^ {0,${indent}}`), ''));
+          i++;
+        }
+        
+        const language = this.unescape(fence[3].split(/\s+/)[0] || '');
+        const className = language ? ` class="language-${this.escapeHtml(language)}"` : '';
+        addBlock(`<pre><code${className}>${this.escapeHtml(code.join('\n'))}${code.length ? '\n' : ''}</code></pre>`);
+        continue;
+      }
+      
+      // ATX heading
+      const heading = ATX_HEADING_PATTERN.exec(line);
+      if (heading) {
+        const level = heading[1].length;
+        addBlock(`<h${level}>${this.renderInline((heading[2] || '').trim(), references)}</h${level}>`);
+        i++;
+        continue;
+      }
+      
+      // Thematic break (before lists, as "* * *" would otherwise start one)
+      if (THEMATIC_BREAK_PATTERN.test(line)) {
+        addBlock('<hr>');
+        i++;
+        continue;
+      }
+      
+      // Blockquote, including lazy continuation lines of its paragraphs
+      if (BLOCKQUOTE_PATTERN.test(line)) {
+        const quoted: string[] = [];
+        
+        while (i < lines.length && lines[i].trim()) {
+          if (BLOCKQUOTE_PATTERN.test(lines[i])) {
+            quoted.push(lines[i].replace(BLOCKQUOTE_PATTERN, ''));
+          } else if (quoted.length > 0 && quoted[quoted.length - 1].trim() && !this.startsBlock(lines[i])) {
+            quoted.push(lines[i]);
+          } else {
+            break;
+          }
+          i++;
+        }
+        
+        addBlock(`<blockquote>\n${this.renderBlocks(quoted, references)}\n</blockquote>`);
+        continue;
+      }
+      
+      // List
+      if (LIST_ITEM_PATTERN.test(line)) {
+        const list = this.renderList(lines, i, references);
+        addBlock(list.html);
+        i = list.end;
+        continue;
+      }
+      
+      // Raw HTML block
+      const rawBlock = HTML_RAW_BLOCK_PATTERN.exec(line);
+      if (rawBlock || HTML_BLOCK_PATTERN.test(line)) {
+        const block: string[] = [];
+        const end = rawBlock
+          ? new RegExp(`</${rawBlock[1]}>`, 'i')
+          : /^ {0,3}<!--/.test(line) ? /-->/ : null;
+        
+        while (i < lines.length) {
+          if (!end && !lines[i].trim()) {
+            break;
+          }
+          block.push(lines[i]);
+          i++;
+          if (end && end.test(block[block.length - 1])) {
+            break;
+          }
+        }
+        
+        addBlock(block.join('\n'));
+        continue;
+      }
+      
+      // Indented code
+      if (/^ {4}/.test(line)) {
+        const code: string[] = [];
+        
+        while (i < lines.length && (/^ {4}/.test(lines[i]) || !lines[i].trim())) {
+          code.push(lines[i].slice(4));
+          i++;
+        }
+        while (code.length > 0 && !code[code.length - 1].trim()) {
+          code.pop();
+        }
+        
+        addBlock(`<pre><code>${this.escapeHtml(code.join('\n'))}\n</code></pre>`);
+        continue;
+      }
+      
+      // Table (header row followed by a delimiter row with the same number of cells)
+      if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER_PATTERN.test(lines[i + 1])) {
+        const headers = this.splitTableRow(line);
+        const delimiters = this.splitTableRow(lines[i + 1]);
+        
+        if (headers.length === delimiters.length) {
+          i += 2;
+          const rows: string[][] = [];
+          
+          while (i < lines.length && lines[i].trim() && !this.startsBlock(lines[i])) {
+            rows.push(this.splitTableRow(lines[i]));
+            i++;
+          }
+          
+          addBlock(this.renderTable(headers, delimiters, rows, references));
+          continue;
+        }
+      }
+      
+      // Paragraph, or setext heading when underlined
+      const paragraph: string[] = [line.trimStart()];
+      let headingLevel = 0;
+      i++;
+      
+      while (i < lines.length && lines[i].trim()) {
+        const underline = SETEXT_UNDERLINE_PATTERN.exec(lines[i]);
+        if (underline) {
+          headingLevel = underline[1][0] === '=' ? 1 : 2;
+          i++;
+          break;
+        }
+        if (this.interruptsParagraph(lines[i])) {
+          break;
+        }
+        paragraph.push(lines[i].trimStart());
+        i++;
+      }
+      
+      const text = this.renderInline(paragraph.join('\n'), references);
+      if (headingLevel) {
+        addBlock(`<h${headingLevel}>${text}</h${headingLevel}>`);
+      } else {
+        addBlock(text, true);
+      }
+    }
+    
+    return { blocks, separated };
+  }
+  
+  /**
+   * Render a list starting at the given line
+   * 
+   * @param lines - Lines of the container
+   * @param start - Index of the first list item
+   * @param references - Link reference definitions of the document
+   * @returns HTML of the list and the index of the first line after it
+   *   (blank lines after the list are left to the container)
+   */
+  private renderList(lines: string[], start: number, references: LinkReferences): { html: string; end: number } {
+    const first = LIST_ITEM_PATTERN.exec(lines[start])!;
+    const ordered = /\d/.test(first[2]);
+    const marker = first[2].slice(-1);
+    const items: Array<{ task: RegExpExecArray | null; blocks: RenderedBlock[] }> = [];
+    let loose = false;
+    let blankAfterItem = false;
+    let i = start;
+    
+    while (i < lines.length) {
+      const item = LIST_ITEM_PATTERN.exec(lines[i]);
+      if (!item || /\d/.test(item[2]) !== ordered || item[2].slice(-1) !== marker || THEMATIC_BREAK_PATTERN.test(lines[i])) {
+        break;
+      }
+      
+      // A list is loose if blank lines separate any of its items...
+      loose = loose || blankAfterItem;
+      
+      // Content starts after the marker and its spacing (a single space when followed by indented code)
+      const spacing = (item[3] || '').length;
+      const padding = !item[4] || spacing > 4 ? 1 : spacing;
+      const contentIndent = item[1].length + item[2].length + padding;
+      const content: string[] = [spacing > 4 ? ' '.repeat(spacing - 1) + item[4] : item[4] || ''];
+      i++;
+      
+      while (i < lines.length) {
+        const next = lines[i];
+        const indent = next.length - next.trimStart().length;
+        
+        if (!next.trim()) {
+          content.push('');
+        } else if (indent >= contentIndent) {
+          content.push(next.slice(contentIndent));
+        } else if (content[content.length - 1].trim() && !this.startsBlock(next)) {
+          // Lazy continuation of the item's paragraph
+          content.push(next.trim());
+        } else {
+          break;
+        }
+        i++;
+      }
+      
+      let trailingBlanks = 0;
+      while (content.length > 1 && !content[content.length - 1].trim()) {
+        content.pop();
+        trailingBlanks++;
+      }
+      blankAfterItem = trailingBlanks > 0;
+      
+      // ...or if blank lines separate blocks directly inside one item (not inside nested blocks)
+      const task = TASK_PATTERN.exec(content[0]);
+      const parsed = this.parseBlocks(task ? [content[0].slice(task[0].length), ...content.slice(1)] : content, references);
+      loose = loose || parsed.separated;
+      
+      items.push({ task, blocks: parsed.blocks });
+    }
+    
+    // Blank lines after the last item belong to the container
+    while (i > start && !lines[i - 1].trim()) {
+      i--;
+    }
+    
+    const startNumber = ordered ? parseInt(first[2], 10) : 1;
+    const tag = ordered ? 'ol' : 'ul';
+    const rendered = items.map(({ task, blocks }) => {
+      const body = this.joinBlocks(blocks, !loose);
+      if (!task) {
+        return `<li>${body}</li>`;
+      }
+      
+      const checkbox = `<input type="checkbox" disabled${task[1] === ' ' ? '' : ' checked'}> `;
+      return `<li class="task-list-item">${body.startsWith('<p>') ? `<p>${checkbox}${body.slice(3)}` : checkbox + body}</li>`;
+    });
+    
+    return {
+      html: `<${tag}${ordered && startNumber !== 1 ? ` start="${startNumber}"` : ''}>\n${rendered.join('\n')}\n</${tag}>`,
+      end: i
+    };
+  }
+  
+  /**
+   * Render a GitHub-style table
+   * 
+   * @param headers - Header cells
+   * @param delimiters - Delimiter row cells (":--", ":-:", "--:")
+   * @param rows - Body rows
+   * @param references - Link reference definitions of the document
+   * @returns HTML table
+   */
+  private renderTable(headers: string[], delimiters: string[], rows: string[][], references: LinkReferences): string {
+    const alignments = delimiters.map(cell => {
+      const left = cell.startsWith(':');
+      const right = cell.endsWith(':');
+      return left && right ? 'center' : right ? 'right' : left ? 'left' : '';
+    });
+    const renderCell = (tag: string, content: string, index: number) =>
+      `<${tag}${alignments[index] ? ` align="${alignments[index]}"` : ''}>${this.renderInline(content, references)}</${tag}>`;
+    
+    const head = `<thead>\n<tr>${headers.map((cell, index) => renderCell('th', cell, index)).join('')}</tr>\n</thead>`;
+    const body = rows.map(row =>
+      `<tr>${headers.map((_, index) => renderCell('td', row[index] || '', index)).join('')}</tr>`
+    );
+    
+    return `<table>\n${head}${body.length ? `\n<tbody>\n${body.join('\n')}\n</tbody>` : ''}\n</table>`;
+  }
+  
+  /**
+   * Split a table row into cells at unescaped pipes
+   * 
+   * @param line - The row
+   * @returns Trimmed cell contents
+   */
+  private splitTableRow(line: string): string[] {
+    let row = line.trim();
+    if (row.startsWith('|')) {
+      row = row.slice(1);
+    }
+    if (row.endsWith('|') && !row.endsWith('\\|')) {
+      row = row.slice(0, -1);
+    }
+    
+    const cells: string[] = [];
+    let current = '';
+    
+    for (let i = 0; i < row.length; i++) {
+      if (row[i] === '\\' && row[i + 1] === '|') {
+        current += '|';
+        i++;
+      } else if (row[i] === '|') {
+        cells.push(current.trim());
+        current = '';
+      } else {
+        current += row[i];
+      }
+    }
+    cells.push(current.trim());
+    
+    return cells;
+  }
+  
+  /**
+   * Check whether a line starts a block that ends a table or lazy continuation
+   * 
+   * @param line - The line
+   * @returns True if the line starts a heading, fence, break, quote, list or HTML block
+   */
+  private startsBlock(line: string): boolean {
+    return ATX_HEADING_PATTERN.test(line) ||
+      FENCE_PATTERN.test(line) ||
+      THEMATIC_BREAK_PATTERN.test(line) ||
+      BLOCKQUOTE_PATTERN.test(line) ||
+      LIST_ITEM_PATTERN.test(line) ||
+      HTML_BLOCK_PATTERN.test(line) ||
+      HTML_RAW_BLOCK_PATTERN.test(line);
+  }
+  
+  /**
+   * Check whether a line ends the paragraph before it
+   * 
+   * Unlike other lists, an ordered list only interrupts a paragraph when it
+   * starts at 1, and empty list items never do.
+   * 
+   * @param line - The line
+   * @returns True if the line starts a new block
+   */
+  private interruptsParagraph(line: string): boolean {
+    const item = LIST_ITEM_PATTERN.exec(line);
+    if (item) {
+      return Boolean(item[4]?.trim()) && (!/\d/.test(item[2]) || parseInt(item[2], 10) === 1);
+    }
+    
+    return this.startsBlock(line);
+  }
+  
+  /**
+   * Render inline Markdown (code spans, emphasis, links, images, autolinks, inline HTML)
+   * 
+   * @param text - Inline content
+   * @param references - Link reference definitions of the document
+   * @returns HTML
+   */
+  private renderInline(text: string, references: LinkReferences): string {
+    const tokens: InlineToken[] = [];
+    const brackets: Array<{ index: number; start: number; image: boolean; active: boolean }> = [];
+    let buffer = '';
+    let i = 0;
+    
+    const flush = () => {
+      if (buffer) {
+        tokens.push({ type: 'html', value: buffer });
+        buffer = '';
+      }
+    };
+    
+    while (i < text.length) {
+      const char = text[i];
+      const rest = text.slice(i);
+      
+      if (char === '\\') {
+        const next = text[i + 1];
+        if (next === '\n') {
+          buffer += '<br />\n';
+          i += 2;
+        } else if (next && ASCII_PUNCTUATION.includes(next)) {
+          buffer += this.escapeHtml(next);
+          i += 2;
+        } else {
+          buffer += '\\';
+          i++;
+        }
+        continue;
+      }
+      
+      // Code span: closed by a backtick run of the same length
+      if (char === '`') {
+        const run = /^`+/.exec(rest)![0];
+        const match = this.findClosingBackticks(rest, run.length);
+        
+        if (match !== null) {
+          let code = rest.slice(run.length, match).replace(/\n/g, ' ');
+          if (code.startsWith(' ') && code.endsWith(' ') && code.trim()) {
+            code = code.slice(1, -1);
+          }
+          buffer += `<code>${this.escapeHtml(code)}</code>`;
+          i += match + run.length;
+        } else {
+          buffer += run;
+          i += run.length;
+        }
+        continue;
+      }
+      
+      if (char === '<') {
+        const autolink = AUTOLINK_PATTERN.exec(rest);
+        const email = autolink ? null : EMAIL_AUTOLINK_PATTERN.exec(rest);
+        const inlineHtml = autolink || email ? null : INLINE_HTML_PATTERN.exec(rest);
+        
+        if (autolink) {
+          buffer += `<a href="${this.escapeHtml(autolink[1])}">${this.escapeHtml(autolink[1])}</a>`;
+          i += autolink[0].length;
+        } else if (email) {
+          buffer += `<a href="mailto:${this.escapeHtml(email[1])}">${this.escapeHtml(email[1])}</a>`;
+          i += email[0].length;
+        } else if (inlineHtml) {
+          buffer += inlineHtml[0];
+          i += inlineHtml[0].length;
+        } else {
+          buffer += '&lt;';
+          i++;
+        }
+        continue;
+      }
+      
+      if (char === '&') {
+        const entity = ENTITY_PATTERN.exec(rest);
+        buffer += entity ? entity[0] : '&amp;';
+        i += entity ? entity[0].length : 1;
+        continue;
+      }
+      
+      // Line break: hard when the line ends with two or more spaces
+      if (char === '\n') {
+        buffer = buffer.replace(/ +$/, match => match.length >= 2 ? '<br />' : '') + '\n';
+        i++;
+        while (text[i] === ' ') {
+          i++;
+        }
+        continue;
+      }
+      
+      if (char === '*' || char === '_' || char === '~') {
+        const run = new RegExp(`^\\${char}+`).exec(rest)![0];
+        const before = i > 0 ? text[i - 1] : '\n';
+        const after = text[i + run.length] ?? '\n';
+        const leftFlanking = !this.isWhitespace(after) &&
+          (!this.isPunctuation(after) || this.isWhitespace(before) || this.isPunctuation(before));
+        const rightFlanking = !this.isWhitespace(before) &&
+          (!this.isPunctuation(before) || this.isWhitespace(after) || this.isPunctuation(after));
+        
+        // Strikethrough takes one or two tildes; longer runs are literal
+        if (char === '~' && run.length > 2) {
+          buffer += run;
+        } else {
+          flush();
+          tokens.push({
+            type: 'delimiter',
+            char,
+            count: run.length,
+            originalCount: run.length,
+            canOpen: char === '_' ? leftFlanking && (!rightFlanking || this.isPunctuation(before)) : leftFlanking,
+            canClose: char === '_' ? rightFlanking && (!leftFlanking || this.isPunctuation(after)) : rightFlanking,
+            openTags: [],
+            closeTags: []
+          });
+        }
+        i += run.length;
+        continue;
+      }
+      
+      if (char === '[' || (char === '!' && text[i + 1] === '[')) {
+        const image = char === '!';
+        flush();
+        brackets.push({ index: tokens.length, start: i + (image ? 2 : 1), image, active: true });
+        tokens.push({ type: 'html', value: image ? '![' : '[' });
+        i += image ? 2 : 1;
+        continue;
+      }
+      
+      if (char === ']') {
+        const opener = brackets.pop();
+        const link = opener && opener.active
+          ? this.parseLinkDestination(text, i + 1, text.slice(opener.start, i), references)
+          : null;
+        
+        if (!opener || !link) {
+          buffer += ']';
+          i++;
+          continue;
+        }
+        
+        flush();
+        const inner = tokens.splice(opener.index).slice(1);
+        this.processEmphasis(inner);
+        const content = this.renderTokens(inner);
+        const title = link.title !== undefined ? ` title="${this.escapeHtml(link.title)}"` : '';
+        
+        if (opener.image) {
+          const alt = content.replace(/<[^>]*>/g, '');
+          tokens.push({ type: 'html', value: `<img src="${this.escapeHtml(link.url)}" alt="${alt}"${title}>` });
+        } else {
+          tokens.push({ type: 'html', value: `<a href="${this.escapeHtml(link.url)}"${title}>${content}</a>` });
+          
+          // Links cannot contain other links
+          brackets.forEach(bracket => {
+            if (!bracket.image) {
+              bracket.active = false;
+            }
+          });
+        }
+        
+        i = link.end;
+        continue;
+      }
+      
+      buffer += this.escapeHtml(char);
+      i++;
+    }
+    
+    flush();
+    this.processEmphasis(tokens);
+    return this.renderTokens(tokens).replace(/(?:<br \/>)?\s+$/, '');
+  }
+  
+  /**
+   * Find the backtick run closing a code span
+   * 
+   * @param text - Text starting with the opening run
+   * @param length - Length of the opening run
+   * @returns Offset of the closing run, or null if the span is not closed
+   */
+  private findClosingBackticks(text: string, length: number): number | null {
+    const pattern = /`+/g;
+    pattern.lastIndex = length;
+    
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      if (match[0].length === length) {
+        return match.index;
+      }
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Parse what follows the "]" of a link: an inline destination or a reference
+   * 
+   * @param text - Inline content
+   * @param position - Index after the "]"
+   * @param label - Raw link text (used for collapsed and shortcut references)
+   * @param references - Link reference definitions of the document
+   * @returns URL, title and the index after the link, or null if there is no link
+   */
+  private parseLinkDestination(
+    text: string,
+    position: number,
+    label: string,
+    references: LinkReferences
+  ): { url: string; title?: string; end: number } | null {
+    // Inline: (url "title")
+    if (text[position] === '(') {
+      const inline = /^\(\s*(?:<([^<>\n]*)>|((?:[^\s()\\]|\\.|\((?:[^\s()\\]|\\.)*\))*))(?:\s+(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|\(((?:[^()\\]|\\.)*)\)))?\s*\)/
+        .exec(text.slice(position));
+      if (inline) {
+        const title = inline[3] ?? inline[4] ?? inline[5];
+        return {
+          url: this.unescape(inline[1] ?? inline[2] ?? ''),
+          title: title !== undefined ? this.unescape(title) : undefined,
+          end: position + inline[0].length
+        };
+      }
+    }
+    
+    // Full [text][label] or collapsed [label][] reference
+    const full = /^\[([^\]]*)\]/.exec(text.slice(position));
+    const reference = references.get(this.normalizeLabel(full && full[1].trim() ? full[1] : label));
+    if (reference) {
+      return { url: reference.url, title: reference.title, end: position + (full ? full[0].length : 0) };
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Match emphasis and strikethrough delimiters (CommonMark delimiter algorithm)
+   * 
+   * @param tokens - Inline tokens (delimiters are updated in place)
+   */
+  private processEmphasis(tokens: InlineToken[]): void {
+    for (let closerIndex = 0; closerIndex < tokens.length; closerIndex++) {
+      const closer = tokens[closerIndex];
+      if (closer.type !== 'delimiter' || !closer.canClose) {
+        continue;
+      }
+      
+      while (closer.count > 0) {
+        let openerIndex = closerIndex - 1;
+        
+        for (; openerIndex >= 0; openerIndex--) {
+          const candidate = tokens[openerIndex];
+          if (candidate.type !== 'delimiter' || candidate.char !== closer.char || !candidate.canOpen || candidate.count === 0) {
+            continue;
+          }
+          
+          // Strikethrough runs pair with runs of the same length
+          if (closer.char === '~') {
+            if (candidate.count === closer.count) {
+              break;
+            }
+            continue;
+          }
+          
+          // "Rule of 3": a delimiter that can both open and close cannot pair when the lengths sum to a multiple of 3
+          const multipleOfThree = (candidate.canClose || closer.canOpen) &&
+            (candidate.originalCount + closer.originalCount) % 3 === 0 &&
+            !(candidate.originalCount % 3 === 0 && closer.originalCount % 3 === 0);
+          if (!multipleOfThree) {
+            break;
+          }
+        }
+        
+        if (openerIndex < 0) {
+          break;
+        }
+        
+        const opener = tokens[openerIndex] as Extract<InlineToken, { type: 'delimiter' }>;
+        const use = closer.char === '~' ? closer.count : closer.count >= 2 && opener.count >= 2 ? 2 : 1;
+        const tag = closer.char === '~' ? 'del' : use === 2 ? 'strong' : 'em';
+        
+        opener.count -= use;
+        closer.count -= use;
+        opener.openTags.unshift(`<${tag}>`);
+        closer.closeTags.push(`</${tag}>`);
+        
+        // Delimiters inside the matched pair can no longer pair with anything outside it
+        for (let k = openerIndex + 1; k < closerIndex; k++) {
+          const token = tokens[k];
+          if (token.type === 'delimiter') {
+            token.canOpen = false;
+            token.canClose = false;
+          }
+        }
+      }
+    }
+  }
+  
+  /**
+   * Render inline tokens; unmatched delimiters stay literal
+   * 
+   * @param tokens - Inline tokens
+   * @returns HTML
+   */
+  private renderTokens(tokens: InlineToken[]): string {
+    return tokens.map(token => token.type === 'html'
+      ? token.value
+      : token.closeTags.join('') + token.char.repeat(token.count) + token.openTags.join('')
+    ).join('');
+  }
+  
+  /**
+   * Check whether a character is Unicode whitespace (line ends count as whitespace)
+   * 
+   * @param char - The character
+   * @returns True for whitespace
+   */
+  private isWhitespace(char: string): boolean {
+    return /\s/.test(char);
+  }
+  
+  /**
+   * Check whether a character is ASCII or Unicode punctuation
+   * 
+   * @param char - The character
+   * @returns True for punctuation
+   */
+  private isPunctuation(char: string): boolean {
+    return ASCII_PUNCTUATION.includes(char) || /\p{P}/u.test(char);
+  }
+  
+  /**
+   * Normalize a link label for reference lookup
+   * 
+   * @param label - The label
+   * @returns Case-folded label with collapsed whitespace
+   */
+  private normalizeLabel(label: string): string {
+    return label.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+  
+  /**
+   * Remove backslash escapes
+   * 
+   * @param text - Text with escapes
+   * @returns Unescaped text
+   */
+  private unescape(text: string): string {
+    return text.replace(/\\([!-/:-@[-`{-~])/g, '$1');
+  }
+  
+  /**
+   * Remove the quotes around a front matter scalar (and comments after unquoted ones)
+   * 
+   * @param value - The raw value
+   * @returns The value
+   */
+  private unquote(value: string): string {
+    const trimmed = value.trim();
+    const quoted = /^(["'])(.*)\1$/.exec(trimmed);
+    
+    return quoted ? quoted[2] : trimmed.replace(/\s+#.*$/, '');
+  }
+  
+  /**
+   * Replace leading tabs with spaces (tab stops every 4 columns)
+   * 
+   * @param line - The line
+   * @returns The line with expanded indentation
+   */
+  private expandTabs(line: string): string {
+    const indent = /^[ \t]*/.exec(line)![0];
+    if (!indent.includes('\t')) {
+      return line;
+    }
+    
+    let expanded = '';
+    for (const char of indent) {
+      expanded += char === '\t' ? ' '.repeat(4 - (expanded.length % 4)) : char;
+    }
+    
+    return expanded + line.slice(indent.length);
+  }
+  
+  /**
+   * Escape text for use in HTML content and attribute values
+   * 
+   * @param text - The text
+   * @returns Escaped text
+   */
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { ConversionConfig } from '../../models';
+
+/**
+ * Values of a YAML front matter block (scalars as strings, lists as string arrays)
+ */
+export type FrontMatter = Record<string, string | string[]>;
+
+/**
+ * Result of converting a Markdown document
+ */
+export interface MarkdownDocument {
+  /**
+   * Complete HTML document; front matter metadata is written into <title> and <meta> tags
+   */
+  html: string;
+  
+  /**
+   * Front matter of the document (keys lower-cased)
+   */
+  frontMatter: FrontMatter;
+  
+  /**
+   * Conversion settings requested in the front matter (e.g. the theme)
+   */
+  config: Partial<ConversionConfig>;
+  
+  /**
+   * Problems found while converting (e.g. front matter values that were ignored)
+   */
+  warnings: string[];
+}
+
+/**
+ * Interface for the Markdown converter service
+ * 
+ * This service turns Markdown (CommonMark with GitHub-style tables, task
+ * lists, fenced code and strikethrough) into HTML for the HTML parser.
+ */
+export interface MarkdownConverterService {
+  /**
+   * Convert a Markdown document into an HTML document
+   * 
+   * @param markdown - Markdown source, optionally starting with YAML front matter
+   * @returns The HTML document, its front matter and the settings it requests
+   * @throws MarkdownConversionError if the document cannot be converted
+   */
+  convert(markdown: string): MarkdownDocument;
+  
+  /**
+   * Render Markdown to an HTML fragment (front matter is not interpreted)
+   * 
+   * @param markdown - Markdown source
+   * @returns HTML of the rendered blocks
+   * @throws MarkdownConversionError if the Markdown cannot be rendered
+   */
+  renderMarkdown(markdown: string): string;
+  
+  /**
+   * Split YAML front matter (between "---" lines at the start) from the document
+   * 
+   * Only flat keys with scalar values and lists are supported.
+   * 
+   * @param markdown - Markdown source
+   * @returns Front matter values and the remaining Markdown
+   */
+  parseFrontMatter(markdown: string): { data: FrontMatter; body: string };
+  
+  /**
+   * Map front matter onto conversion settings
+   * 
+   * Theme names are matched regardless of case; unknown values are ignored
+   * with a warning.
+   * 
+   * @param frontMatter - Front matter values
+   * @param warnings - List the problems found are added to
+   * @returns Settings to apply
+   */
+  getConfigOverrides(frontMatter: FrontMatter, warnings?: string[]): Partial<ConversionConfig>;
+}
+
+/**
+ * Markdown conversion error class
+ * 
+ * Custom error class for errors converting Markdown documents
+ */
+export class MarkdownConversionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MarkdownConversionError';
+  }
+}
@@ -0,0 +1,2 @@
+export * from './MarkdownConverterInterface';
+export * from './MarkdownConverter';
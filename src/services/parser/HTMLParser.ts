@@ -1,5 +1,46 @@
-import { HTMLContent, Section, SlideElement, ImageResource, TableResource, ListResource, LinkResource, TextResource, SplitStrategy } from '../../models';
+import { HTMLContent, DocumentMetadata, Section, SlideElement, SlideBackground, CodeResource, QuoteResource, SlideFramework, ImageResource, TableResource, TableCellResource, ListResource, LinkResource, TextResource, SplitStrategy, ChartType } from '../../models';
 import { HTMLParserService, HTMLParsingError } from './HTMLParserInterface';
+import { TextElementGenerator, TextElementGeneratorService } from '../conversion/TextElementGenerator';
+import { MHTMLParser } from './MHTMLParser';
+import { MHTMLParserService } from './MHTMLParserInterface';
+import { MarkdownConverter } from '../markdown/MarkdownConverter';
+import { MarkdownConverterService } from '../markdown/MarkdownConverterInterface';
+import { createSvgDataUrl, isRenderedSvg, measureSvg, serializeSvg } from '../../utils/svg';
+
+// Elements that always form a single text block; inline formatting inside them becomes part of the block
+const TEXT_BLOCK_TAGS = ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'pre', 'address', 'dt', 'dd', 'figcaption', 'summary', 'caption'];
+
+// Elements that start a new block when they appear inside a container
+const BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, pre, address, dt, dd, dl, figcaption, summary, div, section, article, main, header, footer, aside, nav, blockquote, figure, details, form, fieldset, center, hr, table, ul, ol';
+
+// Elements skipped entirely during extraction
+const SKIPPED_TAGS = ['script', 'style', 'template', 'noscript'];
+
+// Element types a figure caption is attached to
+const CAPTIONED_TYPES: SlideElement['type'][] = ['image', 'table', 'code'];
+
+// Inline formatting selectors used to derive block-level formatting flags
+const BOLD_SELECTOR = 'b, strong';
+const ITALIC_SELECTOR = 'i, em';
+const UNDERLINE_SELECTOR = 'u';
+const STRIKETHROUGH_SELECTOR = 's, strike, del';
+const NESTED_FORMATTING_SELECTOR = 'b, strong, i, em, u, s, strike, sup, sub';
+
+// Speaker notes markup (notes comments start with NOTES_COMMENT_PATTERN)
+const NOTES_SELECTOR = 'aside.notes, [data-notes]';
+const NOTES_COMMENT_PATTERN = /^\s*notes:/i;
+
+// Comment that marks a slide break (<!-- slide -->)
+const SLIDE_COMMENT_PATTERN = /^\s*slide\s*$/i;
+
+// Shorthand slide backgrounds (data-background) that name an image rather than a color
+const IMAGE_REFERENCE_PATTERN = /^(data:image\/|[a-z][a-z0-9+.-]*:\/\/|\/|\.{1,2}\/)|\.(png|jpe?g|gif|svg|webp|bmp|avif)([?#].*)?$/i;
+
+// Elements that count as content even without any text
+const MEDIA_SELECTOR = 'img, svg, table, canvas, video, iframe, object';
+
+// Chart types accepted in the data-chart attribute of tables
+const CHART_TYPES: ChartType[] = ['bar', 'line', 'pie', 'area', 'scatter'];
 
 /**
  * HTML Parser Service Implementation
@@ -16,10 +57,34 @@ import { HTMLParserService, HTMLParsingError } from './HTMLParserInterface';
  * - 3.5: Handle tables and lists appropriately in the PPTX output
  */
 export class HTMLParser implements HTMLParserService {
+  private textElementGenerator: TextElementGeneratorService;
+  private mhtmlParser: MHTMLParserService;
+  private markdownConverter: MarkdownConverterService;
+  
+  /**
+   * Constructor
+   * 
+   * @param textElementGenerator - Generator used to turn block content into formatting runs
+   * @param mhtmlParser - Parser used to unpack MHTML web archives before parsing
+   * @param markdownConverter - Converter used to render the Markdown slides of Remark and reveal.js decks
+   */
+  constructor(
+    textElementGenerator: TextElementGeneratorService = new TextElementGenerator(),
+    mhtmlParser: MHTMLParserService = new MHTMLParser(),
+    markdownConverter: MarkdownConverterService = new MarkdownConverter()
+  ) {
+    this.textElementGenerator = textElementGenerator;
+    this.mhtmlParser = mhtmlParser;
+    this.markdownConverter = markdownConverter;
+  }
+  
   /**
    * Parse HTML content into a structured format
    * 
-   * @param html - Raw HTML string to parse
+   * MHTML web archives (.mhtml/.mht) are accepted as well; their root page
+   * is parsed with the archived images and stylesheets inlined.
+   * 
+   * @param html - Raw HTML string (or MHTML archive) to parse
    * @param splitStrategy - Strategy to use for splitting content into sections
    * @param customSelector - Custom CSS selector for splitting (if applicable)
    * @returns Parsed HTML content object
@@ -31,6 +96,11 @@ export class HTMLParser implements HTMLParserService {
     customSelector?: string
   ): HTMLContent {
     try {
+      // Unpack web archives into a single HTML document
+      if (this.mhtmlParser.isMHTML(html)) {
+        html = this.mhtmlParser.toHTML(html);
+      }
+      
       // Validate HTML before parsing
       if (!this.validateHTML(html)) {
         throw new HTMLParsingError(this.getHTMLValidationError(html));
@@ -53,6 +123,19 @@ export class HTMLParser implements HTMLParserService {
       const fragment = document.createDocumentFragment();
       fragment.appendChild(doc.documentElement.cloneNode(true));
       
+      // Read the document metadata from the head
+      const metadata = this.extractMetadata(doc);
+      
+      // Slide decks of HTML presentation frameworks keep their slides; other
+      // documents are split based on the specified strategy
+      const slideFramework = this.detectSlideFramework(doc);
+      const sections = slideFramework
+        ? this.extractSlideDeckSections(doc, slideFramework)
+        : this.extractSections(doc, splitStrategy, customSelector);
+      
+      // Speaker notes are not part of the visible content
+      this.extractNotes(doc.body);
+      
       // Extract resources from the document
       const images = this.extractImages(doc);
       const tables = this.extractTables(doc);
@@ -60,35 +143,33 @@ export class HTMLParser implements HTMLParserService {
       const texts = this.extractFormattedText(doc);
       const links = this.extractLinks(doc);
       
-      // Extract sections based on the specified strategy
-      const sections = this.extractSections(doc, splitStrategy, customSelector);
-      
       // Extract elements for each section
       sections.forEach(section => {
         // Create a temporary document to parse the section content
         const sectionDoc = parser.parseFromString(section.content, 'text/html');
         
-        // Extract elements from the section
-        const sectionImages = this.extractImages(sectionDoc);
-        const sectionTables = this.extractTables(sectionDoc);
-        const sectionLists = this.extractLists(sectionDoc);
-        const sectionTexts = this.extractFormattedText(sectionDoc);
-        const sectionLinks = this.extractLinks(sectionDoc);
+        // Move speaker notes out of the slide content
+        const notes = this.extractNotes(sectionDoc.body);
+        if (notes) {
+          section.notes = notes;
+        }
         
-        // Add elements to the section
-        section.elements = [
-          ...sectionImages.map(img => ({ type: 'image' as const, content: img })),
-          ...sectionTables.map(table => ({ type: 'table' as const, content: table })),
-          ...sectionLists.map(list => ({ type: 'list' as const, content: list })),
-          ...sectionTexts.map(text => ({ type: 'text' as const, content: text })),
-          ...sectionLinks.map(link => ({ type: 'link' as const, content: link }))
-        ];
+        // Remember the link targets so that "#id" links can jump to this section's slide
+        const anchors = this.extractAnchors(sectionDoc.body);
+        if (anchors.length > 0) {
+          section.anchors = anchors;
+        }
+
+        // Extract elements from the section in document order
+        section.elements = this.extractElements(sectionDoc, section.title);
       });
       
       // Return the parsed HTML content
       return {
         raw: html,
         parsed: fragment,
+        metadata,
+        ...(slideFramework ? { slideFramework } : {}),
         sections,
         resources: {
           images,
@@ -161,7 +242,7 @@ export class HTMLParser implements HTMLParserService {
     // and would cause issues during conversion
     
     // Check for unbalanced script or style tags which can cause major issues
-    const unbalancedScriptOrStyle = /<(script|style)[^>]*>[^<]*(?!<\/\1>)/i.test(html);
+    const unbalancedScriptOrStyle = /<(script|style)\b[^>]*>(?![\s\S]*<\/\1\s*>)/i.test(html);
     
     // Check for unclosed tags in a way that would clearly break the structure
     // This is a simplified check that only looks for obvious issues
@@ -288,6 +369,13 @@ export class HTMLParser implements HTMLParserService {
         });
         
         return sections;
+      case SplitStrategy.HIERARCHICAL:
+        return this.extractHierarchicalSections(body);
+      case SplitStrategy.BY_HR:
+      case SplitStrategy.BY_SLIDE_COMMENT:
+      case SplitStrategy.BY_SLIDE_BREAK_ATTRIBUTE:
+      case SplitStrategy.BY_SECTION_ELEMENT:
+        return this.splitAtBreaks(body, strategy);
     }
     
     // Find all elements matching the selector
@@ -307,6 +395,15 @@ export class HTMLParser implements HTMLParserService {
       return sections;
     }
     
+    // Content before the first header gets a slide of its own
+    const range = body.ownerDocument.createRange();
+    range.setStart(body, 0);
+    range.setEndBefore(sectionHeaders[0]);
+    const preamble = this.createSectionFromHTML(body.ownerDocument, this.serializeNodes(Array.from(range.cloneContents().childNodes)));
+    if (preamble) {
+      sections.push(preamble);
+    }
+    
     // Process each section header
     sectionHeaders.forEach((header, index) => {
       const title = header.textContent || `Section ${index + 1}`;
@@ -320,6 +417,9 @@ export class HTMLParser implements HTMLParserService {
           content += (currentNode as Element).outerHTML;
         } else if (currentNode.nodeType === Node.TEXT_NODE) {
           content += currentNode.textContent;
+        } else if (currentNode.nodeType === Node.COMMENT_NODE) {
+          // Keep comments, they may hold speaker notes
+          content += `<!--${(currentNode as Comment).data}-->`;
         }
         currentNode = currentNode.nextSibling;
       }
@@ -338,349 +438,1618 @@ export class HTMLParser implements HTMLParserService {
   }
   
   /**
-   * Extract a title from the HTML body
+   * Extract document metadata from the title, meta, Open Graph and base tags
    * 
-   * @param body - HTML body element
-   * @returns Extracted title or default title
+   * Open Graph tags take precedence over the plain title and description
+   * because they are usually written for sharing, i.e. for an audience.
+   * 
+   * @param doc - HTML document to extract metadata from
+   * @returns Document metadata (only the fields found in the document are set)
    */
-  private extractTitle(body: HTMLElement): string {
-    // Try to find a title in the following order: h1, h2, h3, title tag
-    const h1 = body.querySelector('h1');
-    if (h1 && h1.textContent) {
-      return h1.textContent;
+  extractMetadata(doc: Document): DocumentMetadata {
+    const metadata: DocumentMetadata = {};
+    
+    const getMeta = (...selectors: string[]): string | undefined => {
+      for (const selector of selectors) {
+        const value = doc.querySelector(selector)?.getAttribute('content')?.trim();
+        if (value) {
+          return value;
+        }
+      }
+      return undefined;
+    };
+    
+    const title = getMeta('meta[property="og:title"]') || doc.querySelector('title')?.textContent?.trim();
+    const author = getMeta('meta[name="author"]', 'meta[property="article:author"]');
+    const description = getMeta('meta[property="og:description"]', 'meta[name="description"]');
+    const date = getMeta('meta[name="date"]', 'meta[property="article:published_time"]');
+    const siteName = getMeta('meta[property="og:site_name"]');
+    const keywords = getMeta('meta[name="keywords"]');
+    const baseUrl = doc.querySelector('base[href]')?.getAttribute('href')?.trim();
+    
+    if (title) metadata.title = title;
+    if (author) metadata.author = author;
+    if (description) metadata.description = description;
+    if (date) metadata.date = date;
+    if (siteName) metadata.siteName = siteName;
+    if (baseUrl) metadata.baseUrl = baseUrl;
+    if (keywords) {
+      metadata.keywords = keywords.split(',').map(keyword => keyword.trim()).filter(keyword => keyword);
     }
     
-    const h2 = body.querySelector('h2');
-    if (h2 && h2.textContent) {
-      return h2.textContent;
+    return metadata;
+  }
+  
+  /**
+   * Detect slide decks written for an HTML presentation framework
+   * 
+   * Such decks already define their slides, so they are imported slide by
+   * slide instead of being split by headings.
+   * 
+   * @param doc - HTML document to inspect
+   * @returns The framework of the deck, or null for ordinary documents
+   */
+  detectSlideFramework(doc: Document): SlideFramework | null {
+    if (doc.querySelector('.reveal .slides > section')) {
+      return 'reveal';
     }
     
-    const h3 = body.querySelector('h3');
-    if (h3 && h3.textContent) {
-      return h3.textContent;
+    if (doc.querySelector('#impress .step')) {
+      return 'impress';
     }
     
-    const titleTag = document.querySelector('title');
-    if (titleTag && titleTag.textContent) {
-      return titleTag.textContent;
+    const usesRemark = Array.from(doc.querySelectorAll('script')).some(script =>
+      /remark/i.test(script.getAttribute('src') || '') || /remark\.create\s*\(/.test(script.textContent || '')
+    );
+    if (usesRemark && doc.querySelector('textarea#source')) {
+      return 'remark';
     }
     
-    return 'Untitled';
+    return null;
   }
-
+  
   /**
-   * Extract images from HTML document
+   * Extract one section per slide of a framework deck
    * 
-   * @param doc - HTML document to extract images from
-   * @returns Array of extracted image resources
+   * Fragments (reveal.js `.fragment`, Remark `--` increments) are shown at once
+   * on their slide. Speaker notes and slide backgrounds are kept.
+   * 
+   * @param doc - HTML document of the deck
+   * @param framework - Framework returned by detectSlideFramework
+   * @returns Array of sections in slide order
    */
-  extractImages(doc: Document): ImageResource[] {
-    const images: ImageResource[] = [];
-    const imgElements = doc.querySelectorAll('img');
+  extractSlideDeckSections(doc: Document, framework: SlideFramework): Section[] {
+    switch (framework) {
+      case 'reveal':
+        return this.extractRevealSlides(doc);
+      case 'impress':
+        return this.extractImpressSlides(doc);
+      case 'remark':
+        return this.extractRemarkSlides(doc);
+    }
+  }
+  
+  /**
+   * Extract the slides of a reveal.js deck
+   * 
+   * Vertical stacks (sections nested in a section) become one slide per child;
+   * the stack's background applies to children without their own. Markdown
+   * slides (data-markdown with an inline template) are rendered and split at
+   * their separators.
+   * 
+   * @param doc - HTML document of the deck
+   * @returns Array of sections in slide order
+   */
+  private extractRevealSlides(doc: Document): Section[] {
+    const sections: Section[] = [];
     
-    imgElements.forEach((img) => {
-      const src = img.getAttribute('src') || '';
-      const alt = img.getAttribute('alt') || '';
-      const width = parseInt(img.getAttribute('width') || '0', 10) || img.naturalWidth || 0;
-      const height = parseInt(img.getAttribute('height') || '0', 10) || img.naturalHeight || 0;
-      
-      // Skip images without a source
-      if (!src) {
+    doc.querySelectorAll('.reveal .slides > section').forEach(stack => {
+      if (stack.getAttribute('data-visibility') === 'hidden') {
         return;
       }
       
-      // Get additional style information
-      const style = window.getComputedStyle(img);
-      const computedWidth = parseInt(style.width, 10);
-      const computedHeight = parseInt(style.height, 10);
-      
-      // Create image resource
-      const imageResource: ImageResource = {
-        src,
-        alt,
-        width: width || computedWidth || 300, // Use explicit width, computed width, or default
-        height: height || computedHeight || 200, // Use explicit height, computed height, or default
-        style: {
-          // Extract any inline styles or attributes that might be useful
-          border: img.getAttribute('border') || style.border,
-          margin: img.getAttribute('hspace') ? `0 ${img.getAttribute('hspace')}px` : style.margin,
-          alignment: img.getAttribute('align') || 'center', // Default to center if not specified
-        }
-      };
-      
-      // If the image is a data URL, store it directly
-      if (src.startsWith('data:')) {
-        imageResource.dataUrl = src;
-      }
+      const children = Array.from(stack.children).filter(child => child.tagName.toLowerCase() === 'section');
+      const slides = children.length > 0 ? children : [stack];
+      const stackBackground = this.getSlideBackground(stack);
       
-      images.push(imageResource);
+      slides.forEach(slide => {
+        if (slide.getAttribute('data-visibility') === 'hidden') {
+          return;
+        }
+        
+        const background = this.getSlideBackground(slide) || stackBackground;
+        if (slide.hasAttribute('data-markdown')) {
+          sections.push(...this.extractRevealMarkdownSlides(doc, slide, background));
+        } else {
+          sections.push(this.createDeckSection(doc, slide.innerHTML, background));
+        }
+      });
     });
     
-    return images;
+    return sections;
   }
   
   /**
-   * Extract tables from HTML document
+   * Render an inline reveal.js Markdown slide
    * 
-   * @param doc - HTML document to extract tables from
-   * @returns Array of extracted table resources
+   * External Markdown files (data-markdown="slides.md") cannot be loaded and
+   * yield an empty slide.
+   * 
+   * @param doc - HTML document of the deck
+   * @param slide - Section with the data-markdown attribute
+   * @param background - Background of the slide
+   * @returns One section per slide in the Markdown
    */
-  extractTables(doc: Document): TableResource[] {
-    const tables: TableResource[] = [];
-    const tableElements = doc.querySelectorAll('table');
+  private extractRevealMarkdownSlides(doc: Document, slide: Element, background?: SlideBackground): Section[] {
+    const template = slide.querySelector('textarea[data-template], script[type="text/template"]');
+    const markdown = this.stripCommonIndent(template?.textContent || '');
     
-    tableElements.forEach((table) => {
-      // Extract headers
-      const headers: string[] = [];
-      const headerRow = table.querySelector('thead tr') || table.querySelector('tr');
-      
-      if (headerRow) {
-        const headerCells = headerRow.querySelectorAll('th, td');
-        headerCells.forEach((cell) => {
-          // For compatibility with tests, use textContent for headers
-          headers.push(cell.textContent?.trim() || '');
-        });
+    const separator = slide.getAttribute('data-separator') || '\\r?\\n---\\r?\\n';
+    const verticalSeparator = slide.getAttribute('data-separator-vertical');
+    const notesSeparator = slide.getAttribute('data-separator-notes') || '^\\s*notes?:';
+    
+    let parts = markdown.split(new RegExp(separator, 'm'));
+    if (verticalSeparator) {
+      parts = parts.flatMap(part => part.split(new RegExp(verticalSeparator, 'm')));
+    }
+    
+    return parts.map(part => {
+      const [content, ...notes] = part.split(new RegExp(notesSeparator, 'mi'));
+      const section = this.createDeckSection(doc, this.markdownConverter.renderMarkdown(content), background);
+      const notesText = notes.join('\n').trim();
+      if (notesText) {
+        section.notes = notesText;
       }
+      return section;
+    });
+  }
+  
+  /**
+   * Extract the steps of an impress.js deck
+   * 
+   * @param doc - HTML document of the deck
+   * @returns Array of sections in step order
+   */
+  private extractImpressSlides(doc: Document): Section[] {
+    return Array.from(doc.querySelectorAll('#impress .step')).map(step => {
+      const slide = step.cloneNode(true) as Element;
       
-      // Extract rows
-      const rows: any[][] = [];
-      const bodyRows = table.querySelectorAll('tbody tr');
-      
-      // If there's no tbody, get all rows except the first one (which we used for headers)
-      const allRows = Array.from(table.querySelectorAll('tr'));
-      const rowsToProcess = bodyRows.length > 0 
-        ? bodyRows 
-        : (headers.length > 0 ? allRows.slice(1) : allRows);
-      
-      rowsToProcess.forEach((row) => {
-        const cells: any[] = [];
-        const cellElements = row.querySelectorAll('td');
-        
-        cellElements.forEach((cell) => {
-          // For compatibility with tests, use simple text content
-          cells.push(cell.textContent?.trim() || '');
-        });
-        
-        if (cells.length > 0) {
-          rows.push(cells);
-        }
+      // impress.js keeps speaker notes in div.notes
+      slide.querySelectorAll('.notes').forEach(notes => {
+        const aside = doc.createElement('aside');
+        aside.className = 'notes';
+        aside.innerHTML = notes.innerHTML;
+        notes.replaceWith(aside);
       });
       
-      // Get computed style for the table if available
-      let tableStyle: CSSStyleDeclaration | null = null;
-      try {
-        tableStyle = window.getComputedStyle(table);
-      } catch (error) {
-        // In test environment, getComputedStyle might not be available
-        // Just continue without it
-      }
-      
-      // Create table resource
-      const tableResource: TableResource = {
-        headers,
-        rows,
-        style: {
-          // Extract styling information from the table
-          width: table.getAttribute('width') || (tableStyle?.width) || '100%',
-          border: table.getAttribute('border') !== null,
-          cellPadding: table.getAttribute('cellpadding') || '5',
-          // Store additional metadata for enhanced processing during PPTX generation
-          cellSpacing: table.getAttribute('cellspacing') || '0',
-          backgroundColor: (tableStyle?.backgroundColor) || 'transparent',
-          textAlign: (tableStyle?.textAlign) || 'left',
-          // Store detailed cell information for advanced processing
-          cellDetails: rows.map((row, rowIndex) => 
-            row.map((cell, cellIndex) => {
-              const cellElement = rowsToProcess[rowIndex]?.querySelectorAll('td')[cellIndex];
-              if (!cellElement) return null;
-              
-              return {
-                content: cellElement.innerHTML,
-                colSpan: parseInt(cellElement.getAttribute('colspan') || '1', 10),
-                rowSpan: parseInt(cellElement.getAttribute('rowspan') || '1', 10),
-                align: cellElement.getAttribute('align') || (tableStyle?.textAlign) || 'left',
-                valign: cellElement.getAttribute('valign') || 'middle'
-              };
-            })
-          )
-        }
-      };
-      
-      tables.push(tableResource);
+      return this.createDeckSection(doc, slide.innerHTML, this.getSlideBackground(step));
     });
-    
-    return tables;
   }
   
   /**
-   * Extract text elements with formatting from HTML document
+   * Extract the slides of a Remark deck from its Markdown source
    * 
-   * @param doc - HTML document to extract formatted text from
-   * @returns Array of extracted text resources
+   * Slides are separated by `---` lines; `--` increments are merged into their
+   * slide and text after `???` becomes the speaker notes. Slide properties at
+   * the top of a slide are read for the background; layout and excluded slides
+   * are skipped.
+   * 
+   * @param doc - HTML document of the deck
+   * @returns Array of sections in slide order
    */
-  extractFormattedText(doc: Document): TextResource[] {
-    const textResources: TextResource[] = [];
-    
-    // Define the elements we want to extract text from
-    // We'll focus on paragraphs, headings, and spans with formatting
-    const textElements = doc.querySelectorAll('p, h1, h2, h3, h4, h5, h6, span, div:not(:has(>*)), b, strong, i, em, u, s, strike, sup, sub');
+  private extractRemarkSlides(doc: Document): Section[] {
+    const source = doc.querySelector('textarea#source')?.textContent || '';
+    const sections: Section[] = [];
     
-    textElements.forEach((element) => {
-      // Skip empty elements
-      if (!element.textContent?.trim()) {
+    source.split(/^---[ \t]*$/m).forEach(slideSource => {
+      const lines = slideSource.replace(/^\s*\n/, '').split('\n');
+      const properties: Record<string, string> = {};
+      
+      let match: RegExpMatchArray | null;
+      while (lines.length > 0 && (match = lines[0].match(/^([\w-]+):[ \t]*(.*?)\s*$/))) {
+        properties[match[1].toLowerCase()] = match[2];
+        lines.shift();
+      }
+      
+      if (properties.layout === 'true' || properties.exclude === 'true') {
         return;
       }
       
-      // Get the element's computed style
-      const style = window.getComputedStyle(element);
-      
-      // Determine heading level if applicable
-      let headingLevel: number | undefined;
-      if (element.tagName.match(/^H[1-6]$/i)) {
-        headingLevel = parseInt(element.tagName.substring(1), 10);
-      }
-      
-      // Determine text alignment
-      let alignment: 'left' | 'center' | 'right' | 'justify' = 'left';
-      const textAlign = element.getAttribute('align') || style.textAlign;
-      if (textAlign) {
-        if (textAlign.includes('center')) alignment = 'center';
-        else if (textAlign.includes('right')) alignment = 'right';
-        else if (textAlign.includes('justify')) alignment = 'justify';
-      }
-      
-      // Create the text resource
-      const textResource: TextResource = {
-        content: element.innerHTML, // Use innerHTML to preserve internal formatting
-        format: {
-          // Check for direct formatting tags
-          bold: element.tagName === 'B' || element.tagName === 'STRONG' || 
-                style.fontWeight === 'bold' || parseInt(style.fontWeight, 10) >= 700 ||
-                !!element.closest('b, strong'),
-          italic: element.tagName === 'I' || element.tagName === 'EM' || 
-                 style.fontStyle === 'italic' ||
-                 !!element.closest('i, em'),
-          underline: element.tagName === 'U' || style.textDecoration.includes('underline') ||
-                    !!element.closest('u'),
-          strikethrough: element.tagName === 'S' || element.tagName === 'STRIKE' || 
-                        style.textDecoration.includes('line-through') ||
-                        !!element.closest('s, strike'),
-          superscript: element.tagName === 'SUP' || !!element.closest('sup'),
-          subscript: element.tagName === 'SUB' || !!element.closest('sub'),
-          
-          // Extract style information
-          color: style.color,
-          backgroundColor: style.backgroundColor !== 'rgba(0, 0, 0, 0)' ? style.backgroundColor : undefined,
-          fontSize: style.fontSize,
-          fontFamily: style.fontFamily,
-          headingLevel,
-          alignment
-        }
-      };
+      const [content, ...notes] = lines.join('\n').split(/^\?\?\?[ \t]*$/m);
+      const markdown = this.convertRemarkClasses(content.replace(/^--[ \t]*(\n|$)/gm, ''));
       
-      // Check for nested formatting elements
-      const hasNestedFormatting = element.querySelector('b, strong, i, em, u, s, strike, sup, sub');
-      if (hasNestedFormatting) {
-        textResource.format.hasNestedFormatting = true;
+      let background: SlideBackground | undefined;
+      const image = properties['background-image']?.match(/url\(\s*['"]?([^'")]+)['"]?\s*\)/i)?.[1];
+      const color = properties['background-color'] ? this.textElementGenerator.normalizeColor(properties['background-color']) : undefined;
+      if (image || color) {
+        background = {};
+        if (color) background.color = color;
+        if (image) background.image = image;
       }
       
-      textResources.push(textResource);
+      const section = this.createDeckSection(doc, this.markdownConverter.renderMarkdown(markdown), background);
+      const notesText = notes.join('\n').trim();
+      if (notesText) {
+        section.notes = notesText;
+      }
+      sections.push(section);
     });
     
-    return textResources;
+    return sections;
   }
   
   /**
-   * Extract hyperlinks from HTML document
+   * Convert Remark content classes (`.class[text]`) to HTML
    * 
-   * @param doc - HTML document to extract hyperlinks from
-   * @returns Array of extracted link resources
+   * Classes spanning several lines become a div whose content is still
+   * rendered as Markdown, single-line ones a span.
+   * 
+   * @param markdown - Remark slide Markdown
+   * @returns Markdown with the content classes replaced by HTML
    */
-  extractLinks(doc: Document): LinkResource[] {
-    const links: LinkResource[] = [];
-    const linkElements = doc.querySelectorAll('a[href]');
+  private convertRemarkClasses(markdown: string): string {
+    return markdown.replace(/(^|[\s(])\.([\w-]+(?:\.[\w-]+)*)\[([^[\]]*)\]/g, (_match, prefix: string, classes: string, text: string) => {
+      const className = classes.split('.').join(' ');
+      if (text.includes('\n')) {
+        return `${prefix}<div class="${className}">\n\n${text.trim()}\n\n</div>\n`;
+      }
+      return `${prefix}<span class="${className}">${text}</span>`;
+    });
+  }
+  
+  /**
+   * Remove the indentation shared by all lines (inline Markdown templates are
+   * usually indented with the surrounding HTML)
+   * 
+   * @param text - Text to dedent
+   * @returns Dedented text
+   */
+  private stripCommonIndent(text: string): string {
+    const lines = text.replace(/^\s*\n/, '').replace(/\s+$/, '').split('\n');
+    const indents = lines.filter(line => line.trim()).map(line => line.match(/^[ \t]*/)![0].length);
+    const indent = indents.length > 0 ? Math.min(...indents) : 0;
+    return lines.map(line => line.slice(indent)).join('\n');
+  }
+  
+  /**
+   * Read the background of a deck slide
+   * 
+   * Supports the reveal.js data-background-color, data-background-image and
+   * data-background attributes as well as inline background styles. The
+   * data-background shorthand is read as a color, or as an image when it looks
+   * like a URL; other values are ignored.
+   * 
+   * @param slide - Slide element
+   * @returns The background, or undefined if the slide sets none
+   */
+  private getSlideBackground(slide: Element): SlideBackground | undefined {
+    const style = (slide as HTMLElement).style;
+    const shorthand = slide.getAttribute('data-background')?.trim();
+    const shorthandColor = shorthand ? this.textElementGenerator.normalizeColor(shorthand) : undefined;
     
-    linkElements.forEach((link) => {
-      const href = link.getAttribute('href') || '';
-      const text = link.textContent?.trim() || '';
+    const color = slide.getAttribute('data-background-color')?.trim() || style?.backgroundColor;
+    const image = slide.getAttribute('data-background-image')?.trim()
+      || style?.backgroundImage?.match(/url\(\s*['"]?([^'")]+)['"]?\s*\)/i)?.[1]
+      || (shorthand && !shorthandColor && IMAGE_REFERENCE_PATTERN.test(shorthand) ? shorthand : undefined);
+    
+    const background: SlideBackground = {};
+    const normalizedColor = color ? this.textElementGenerator.normalizeColor(color) : shorthandColor;
+    if (normalizedColor) background.color = normalizedColor;
+    if (image) background.image = image;
+    
+    return background.color || background.image ? background : undefined;
+  }
+  
+  /**
+   * Create a section for a deck slide, titled by its first heading
+   * 
+   * Unlike split sections, empty slides are kept so that the slide count
+   * matches the deck.
+   * 
+   * @param doc - Document used to inspect the HTML
+   * @param content - Slide HTML
+   * @param background - Background of the slide
+   * @returns The section
+   */
+  private createDeckSection(doc: Document, content: string, background?: SlideBackground): Section {
+    const container = doc.createElement('div');
+    container.innerHTML = content;
+    this.extractNotes(container);
+    
+    const heading = container.querySelector('h1, h2, h3, h4, h5, h6');
+    const section: Section = {
+      title: heading?.textContent?.trim() || 'Untitled',
+      content,
+      elements: []
+    };
+    if (background) {
+      section.background = background;
+    }
+    
+    return section;
+  }
+  
+  /**
+   * Split the body into chapters (H1) and sections (H2)
+   * 
+   * Each H1 becomes a level 1 section without content (a divider slide). Content
+   * between an H1 and its first H2 becomes a level 2 section titled like the
+   * chapter, and each H2 a level 2 section whose parentIndex points to its
+   * chapter. H3 and lower headings stay inside the content of their section.
+   * 
+   * @param body - HTML body element
+   * @returns Array of extracted sections in document order
+   */
+  private extractHierarchicalSections(body: HTMLElement): Section[] {
+    const doc = body.ownerDocument;
+    const headings = Array.from(body.querySelectorAll('h1, h2'));
+    
+    if (headings.length === 0) {
+      return [this.createSectionFromHTML(doc, body.innerHTML) || { title: 'Untitled', content: '', elements: [] }];
+    }
+    
+    const sections: Section[] = [];
+    const range = doc.createRange();
+    
+    // Content before the first heading gets a slide of its own
+    range.setStart(body, 0);
+    range.setEndBefore(headings[0]);
+    const preamble = this.createSectionFromHTML(doc, this.serializeNodes(Array.from(range.cloneContents().childNodes)));
+    if (preamble) {
+      sections.push(preamble);
+    }
+    
+    let chapterIndex: number | undefined;
+    
+    headings.forEach((heading, index) => {
+      const title = heading.textContent?.trim() || `Section ${index + 1}`;
       
-      // Skip links without href or text
-      if (!href || !text) {
-        return;
+      // Everything up to the next H1/H2, wherever it is nested
+      range.setStartAfter(heading);
+      if (index + 1 < headings.length) {
+        range.setEndBefore(headings[index + 1]);
+      } else {
+        range.setEnd(body, body.childNodes.length);
       }
+      const content = this.serializeNodes(Array.from(range.cloneContents().childNodes));
       
-      // Create link resource
-      const linkResource: LinkResource = {
-        text,
-        href
-      };
-      
-      links.push(linkResource);
+      if (heading.tagName.toLowerCase() === 'h1') {
+        chapterIndex = sections.length;
+        sections.push({ title, content: heading.outerHTML, elements: [], level: 1 });
+        
+        const intro = this.createSectionFromHTML(doc, content);
+        if (intro) {
+          sections.push({ ...intro, title, level: 2, parentIndex: chapterIndex });
+        }
+      } else {
+        sections.push({ title, content: heading.outerHTML + content, elements: [], level: 2, parentIndex: chapterIndex });
+      }
     });
     
-    return links;
+    return sections;
   }
   
   /**
-   * Extract lists from HTML document
+   * Split the body at slide breaks written into the source
    * 
-   * @param doc - HTML document to extract lists from
-   * @returns Array of extracted list resources
+   * Depending on the strategy, a slide break is an `<hr>` (removed), a
+   * `<!-- slide -->` comment (removed), an element with a `data-slide-break`
+   * attribute (which starts the new slide) or a `<section>` element (which is
+   * a slide of its own; nested sections are split at the innermost level).
+   * Content before the first break becomes its own slide.
+   * 
+   * @param body - HTML body element
+   * @param strategy - One of the slide break strategies
+   * @returns Array of extracted sections
    */
-  extractLists(doc: Document): ListResource[] {
-    const lists: ListResource[] = [];
-    const listElements = doc.querySelectorAll('ul, ol');
+  private splitAtBreaks(body: HTMLElement, strategy: SplitStrategy): Section[] {
+    const chunks: Node[][] = [[]];
     
-    listElements.forEach((list) => {
-      const items: string[] = [];
-      const listItems = list.querySelectorAll('li');
-      
-      // Process each list item
-      listItems.forEach((item) => {
-        // Use innerHTML to preserve formatting within list items
-        items.push(item.innerHTML);
+    const startChunk = () => {
+      if (chunks[chunks.length - 1].length > 0) {
+        chunks.push([]);
+      }
+    };
+    
+    const visit = (parent: Node) => {
+      Array.from(parent.childNodes).forEach(node => {
+        const breakType = this.getBreakType(node, strategy);
         
-        // Check for nested lists (we'll handle them as part of the parent list item)
-        const nestedLists = item.querySelectorAll('ul, ol');
-        if (nestedLists.length > 0) {
-          // Mark this item as having nested lists for special handling in PPTX generation
-          // This information will be used when converting to PPTX
+        if (breakType === 'marker') {
+          startChunk();
+        } else if (breakType === 'slide') {
+          startChunk();
+          chunks[chunks.length - 1].push(node);
+          startChunk();
+        } else if (breakType === 'start') {
+          startChunk();
+          chunks[chunks.length - 1].push(node);
+        } else if (this.containsBreak(node, strategy)) {
+          // Breaks inside a container split the container itself
+          visit(node);
+        } else {
+          chunks[chunks.length - 1].push(node);
         }
       });
-      
-      // Skip empty lists
-      if (items.length === 0) {
-        return;
+    };
+    
+    visit(body);
+    
+    const sections = chunks
+      .map(nodes => this.createSectionFromHTML(body.ownerDocument, this.serializeNodes(nodes)))
+      .filter((section): section is Section => section !== null);
+    
+    return sections.length > 0 ? sections : [{ title: 'Untitled', content: '', elements: [] }];
+  }
+  
+  /**
+   * Determine whether a node is a slide break for the given strategy
+   * 
+   * @param node - Node to check
+   * @param strategy - Slide break strategy
+   * @returns 'marker' for a break that is removed, 'start' for an element that starts
+   * a new slide, 'slide' for an element that is a slide of its own, or null
+   */
+  private getBreakType(node: Node, strategy: SplitStrategy): 'marker' | 'start' | 'slide' | null {
+    if (node.nodeType === Node.COMMENT_NODE) {
+      return strategy === SplitStrategy.BY_SLIDE_COMMENT && SLIDE_COMMENT_PATTERN.test((node as Comment).data)
+        ? 'marker'
+        : null;
+    }
+    
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return null;
+    }
+    
+    const element = node as Element;
+    switch (strategy) {
+      case SplitStrategy.BY_HR:
+        return element.tagName.toLowerCase() === 'hr' ? 'marker' : null;
+      case SplitStrategy.BY_SLIDE_BREAK_ATTRIBUTE:
+        return element.hasAttribute('data-slide-break') ? 'start' : null;
+      case SplitStrategy.BY_SECTION_ELEMENT:
+        return element.tagName.toLowerCase() === 'section' && !element.querySelector('section') ? 'slide' : null;
+      default:
+        return null;
+    }
+  }
+  
+  /**
+   * Check whether a node contains a slide break below it
+   * 
+   * @param node - Node to check
+   * @param strategy - Slide break strategy
+   * @returns True if a descendant of the node is a slide break
+   */
+  private containsBreak(node: Node, strategy: SplitStrategy): boolean {
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return false;
+    }
+    
+    const walker = node.ownerDocument!.createTreeWalker(node, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_COMMENT);
+    for (let current = walker.nextNode(); current; current = walker.nextNode()) {
+      if (this.getBreakType(current, strategy)) {
+        return true;
       }
-      
-      // Get computed style for the list
-      const listStyle = window.getComputedStyle(list);
-      
-      // Create list resource with enhanced styling information
-      const listResource: ListResource = {
-        items,
-        ordered: list.tagName.toLowerCase() === 'ol',
-        style: {
-          // Extract styling information from the list
-          type: list.getAttribute('type') || (list.tagName.toLowerCase() === 'ol' ? '1' : 'disc'),
-          start: list.getAttribute('start') || '1',
-          // Additional styling properties
-          fontSize: listStyle.fontSize || '12pt',
-          fontFamily: listStyle.fontFamily || 'Arial',
-          color: listStyle.color || '#000000',
-          backgroundColor: listStyle.backgroundColor || 'transparent',
-          lineHeight: listStyle.lineHeight || 'normal',
-          margin: listStyle.margin || '0',
-          padding: listStyle.padding || '0',
-          textAlign: listStyle.textAlign || 'left',
-          // Class name for potential custom styling
-          className: Array.from(list.classList).join(' ') || ''
-        }
-      };
-      
-      lists.push(listResource);
-    });
+    }
     
-    return lists;
+    return false;
+  }
+  
+  /**
+   * Serialize nodes back to HTML, keeping comments (they may hold speaker notes)
+   * 
+   * @param nodes - Nodes to serialize
+   * @returns HTML string
+   */
+  private serializeNodes(nodes: Node[]): string {
+    return nodes.map(node => {
+      switch (node.nodeType) {
+        case Node.ELEMENT_NODE:
+          return (node as Element).outerHTML;
+        case Node.TEXT_NODE:
+          return (node.textContent || '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+        case Node.COMMENT_NODE:
+          return `<!--${(node as Comment).data}-->`;
+        default:
+          return '';
+      }
+    }).join('');
+  }
+  
+  /**
+   * Create a section from a piece of HTML, titled by its first heading
+   * 
+   * @param doc - Document used to inspect the HTML
+   * @param content - Section HTML
+   * @returns The section, or null if the HTML has no visible content
+   */
+  private createSectionFromHTML(doc: Document, content: string): Section | null {
+    const container = doc.createElement('div');
+    container.innerHTML = content;
+    
+    // Speaker notes alone do not make a slide
+    this.extractNotes(container);
+    
+    if (!container.textContent?.trim() && !container.querySelector(MEDIA_SELECTOR)) {
+      return null;
+    }
+    
+    const heading = container.querySelector('h1, h2, h3, h4, h5, h6');
+    
+    return {
+      title: heading?.textContent?.trim() || 'Untitled',
+      content,
+      elements: [] // Elements will be extracted in a separate task
+    };
+  }
+  
+  /**
+   * Extract a title from the HTML body
+   * 
+   * @param body - HTML body element
+   * @returns Extracted title or default title
+   */
+  private extractTitle(body: HTMLElement): string {
+    // Try to find a title in the following order: h1, h2, h3, title tag
+    const h1 = body.querySelector('h1');
+    if (h1 && h1.textContent) {
+      return h1.textContent;
+    }
+    
+    const h2 = body.querySelector('h2');
+    if (h2 && h2.textContent) {
+      return h2.textContent;
+    }
+    
+    const h3 = body.querySelector('h3');
+    if (h3 && h3.textContent) {
+      return h3.textContent;
+    }
+    
+    const titleTag = document.querySelector('title');
+    if (titleTag && titleTag.textContent) {
+      return titleTag.textContent;
+    }
+    
+    return 'Untitled';
+  }
+
+  /**
+   * Extract and remove speaker notes from a container
+   * 
+   * Notes are taken from `<aside class="notes">` and `[data-notes]` elements
+   * and from comments starting with "notes:". The markup is removed so that
+   * the notes do not appear on the slide.
+   * 
+   * @param root - Container to extract the notes from (may be null for documents without a body)
+   * @returns Notes text in document order, or undefined if the container has no notes
+   */
+  extractNotes(root: Element | null): string | undefined {
+    if (!root) {
+      return undefined;
+    }
+    
+    const notesNodes: Node[] = [];
+    const walker = root.ownerDocument.createTreeWalker(root, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_COMMENT);
+    
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const isNotes = node.nodeType === Node.COMMENT_NODE
+        ? NOTES_COMMENT_PATTERN.test((node as Comment).data)
+        : (node as Element).matches(NOTES_SELECTOR);
+      
+      // Nested notes markup is part of the outer notes
+      if (isNotes && !notesNodes.some(notesNode => notesNode.contains(node))) {
+        notesNodes.push(node);
+      }
+    }
+    
+    const notes = notesNodes.map(node => {
+      let text: string;
+      if (node.nodeType === Node.COMMENT_NODE) {
+        text = (node as Comment).data.replace(NOTES_COMMENT_PATTERN, '');
+      } else {
+        // <div data-notes="..."> may carry the notes in the attribute itself
+        text = node.textContent?.trim() ? node.textContent : (node as Element).getAttribute('data-notes') || '';
+      }
+      
+      node.parentNode?.removeChild(node);
+      
+      return text
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(line => line)
+        .join('\n');
+    }).filter(text => text);
+    
+    return notes.length > 0 ? notes.join('\n\n') : undefined;
+  }
+  
+  /**
+   * Extract the targets of in-document links from a container
+   * 
+   * Besides element ids and `<a name>` anchors, headings are reachable by
+   * their slug (e.g. "#getting-started" for "Getting Started"), which is how
+   * Markdown renderers generate heading anchors.
+   * 
+   * @param root - Container to extract the anchors from
+   * @returns Anchors in document order, without duplicates
+   */
+  extractAnchors(root: Element | null): string[] {
+    return root ? this.collectAnchors(Array.from(root.childNodes)) : [];
+  }
+  
+  /**
+   * Collect the link targets defined by nodes and their descendants
+   * 
+   * @param nodes - Nodes to search
+   * @returns Ids and named anchors, then heading slugs, without duplicates
+   */
+  private collectAnchors(nodes: Node[]): string[] {
+    const elements = nodes.filter(node => node.nodeType === Node.ELEMENT_NODE) as Element[];
+    const matching = (selector: string) => elements.flatMap(element => [
+      ...(element.matches(selector) ? [element] : []),
+      ...Array.from(element.querySelectorAll(selector))
+    ]);
+    
+    const anchors = new Set<string>();
+    
+    matching('[id], a[name]').forEach(element => {
+      const anchor = element.getAttribute('id') || element.getAttribute('name');
+      if (anchor) {
+        anchors.add(anchor);
+      }
+    });
+    
+    matching('h1, h2, h3, h4, h5, h6').forEach(heading => {
+      const slug = (heading.textContent || '')
+        .trim()
+        .toLowerCase()
+        .replace(/[^\w\s-]/g, '')
+        .replace(/\s+/g, '-');
+      if (slug) {
+        anchors.add(slug);
+      }
+    });
+    
+    return Array.from(anchors);
+  }
+  
+  /**
+   * Extract slide elements from HTML document in document order
+   * 
+   * Walks the body once so that paragraphs, images, tables, lists and links
+   * keep the reading order of the source HTML. Text is extracted per block:
+   * inline formatting (b, em, span, a, ...) stays inside the content of its
+   * parent block instead of producing separate elements, and loose inline
+   * content between blocks is grouped into an anonymous block. Tables and
+   * lists are emitted as a whole, so their contents are not extracted again.
+   * 
+   * @param doc - HTML document to extract elements from
+   * @param titleToExclude - Slide title; the first heading with this text is not emitted
+   * @returns Array of slide elements in document order
+   */
+  extractElements(doc: Document, titleToExclude?: string): SlideElement[] {
+    const elements: SlideElement[] = [];
+    
+    if (!doc.body) {
+      return elements;
+    }
+    
+    const state = {
+      index: 0,
+      titleToExclude: titleToExclude?.trim() || undefined
+    };
+    this.walkElements(doc.body, elements, state);
+    
+    return elements;
+  }
+  
+  /**
+   * Recursively visit the children of a container and collect slide elements
+   * 
+   * @param parent - Container element whose child nodes should be visited
+   * @param elements - Array to add slide elements to
+   * @param state - Running document-order index and the title heading still to exclude
+   */
+  private walkElements(
+    parent: Element,
+    elements: SlideElement[],
+    state: { index: number; titleToExclude?: string }
+  ): void {
+    // Inline nodes waiting to be grouped into an anonymous block
+    let pending: Node[] = [];
+    let pendingIndex = 0;
+    // Number of elements before those emitted for the node being visited
+    let nodeStart = elements.length;
+    
+    const flushPending = () => {
+      if (pending.length > 0) {
+        const start = elements.length;
+        this.addTextBlock(parent, pending, pendingIndex, elements);
+        this.attachAnchors(elements.slice(start), pending);
+        pending = [];
+      }
+      nodeStart = elements.length;
+    };
+    
+    const visitNode = (node: Node, sourceIndex: number) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        if (pending.length === 0) pendingIndex = sourceIndex;
+        pending.push(node);
+        return;
+      }
+      
+      if (node.nodeType !== Node.ELEMENT_NODE) {
+        return;
+      }
+      
+      const element = node as Element;
+      const tagName = element.tagName.toLowerCase();
+      
+      if (SKIPPED_TAGS.includes(tagName)) {
+        return;
+      }
+      
+      // Figure captions are attached to the element they describe (see addFigure)
+      if (tagName === 'figcaption' && element.closest('figure')) {
+        return;
+      }
+      
+      if (tagName === 'img' || tagName === 'svg') {
+        flushPending();
+        this.addImages([element], sourceIndex, elements);
+        return;
+      }
+      
+      if (tagName === 'table') {
+        flushPending();
+        const table: SlideElement = { type: 'table', content: this.createTableResource(element as HTMLTableElement), sourceIndex };
+        const caption = this.getCaptionText(Array.from(element.children).find(child => child.tagName.toLowerCase() === 'caption'));
+        if (caption) {
+          table.caption = caption;
+        }
+        elements.push(table);
+        return;
+      }
+      
+      if (tagName === 'pre') {
+        flushPending();
+        elements.push({ type: 'code', content: this.createCodeResource(element), sourceIndex });
+        return;
+      }
+      
+      // Quotations, optionally wrapped in a <figure> with the attribution as caption
+      const quote = tagName === 'blockquote' ? element : this.getFigureQuote(element);
+      if (quote) {
+        flushPending();
+        const caption = quote === element ? undefined : element.querySelector('figcaption') || undefined;
+        const resource = this.createQuoteResource(quote, caption);
+        if (resource) {
+          elements.push({ type: 'quote', content: resource, sourceIndex });
+        }
+        return;
+      }
+      
+      if (tagName === 'figure') {
+        flushPending();
+        this.addFigure(element, elements, state);
+        return;
+      }
+      
+      if (tagName === 'ul' || tagName === 'ol') {
+        flushPending();
+        const list = this.createListResource(element);
+        if (list) {
+          elements.push({ type: 'list', content: list, sourceIndex });
+        }
+        return;
+      }
+      
+      // Inline content is collected until the next block boundary
+      if (!element.matches(BLOCK_SELECTOR) && !element.querySelector(BLOCK_SELECTOR)) {
+        if (pending.length === 0) pendingIndex = sourceIndex;
+        pending.push(element);
+        return;
+      }
+      
+      flushPending();
+      
+      if (TEXT_BLOCK_TAGS.includes(tagName) || !element.querySelector(BLOCK_SELECTOR)) {
+        // Skip the heading already used as the slide title
+        if (state.titleToExclude && tagName.match(/^h[1-6]$/) &&
+            element.textContent?.trim() === state.titleToExclude) {
+          state.titleToExclude = undefined;
+          return;
+        }
+        
+        this.addTextBlock(element, Array.from(element.childNodes), sourceIndex, elements, true);
+        return;
+      }
+      
+      this.walkElements(element, elements, state);
+    };
+    
+    Array.from(parent.childNodes).forEach((node) => {
+      nodeStart = elements.length;
+      visitNode(node, state.index++);
+      
+      // Link targets inside the node belong to the elements it produced
+      this.attachAnchors(elements.slice(nodeStart), [node]);
+    });
+    
+    flushPending();
+  }
+  
+  /**
+   * Attach the link targets found in source nodes to the elements made from them
+   * 
+   * Anchors already attached to one of the elements (by a nested walk) are
+   * skipped; the others go to the first element. Anchors of nodes that
+   * produced no element stay section-level only.
+   * 
+   * @param produced - Elements created from the nodes
+   * @param nodes - Source nodes of the elements
+   */
+  private attachAnchors(produced: SlideElement[], nodes: Node[]): void {
+    if (produced.length === 0) {
+      return;
+    }
+    
+    const attached = new Set(produced.flatMap(element => element.anchors || []));
+    const anchors = this.collectAnchors(nodes).filter(anchor => !attached.has(anchor));
+    if (anchors.length > 0) {
+      produced[0].anchors = [...(produced[0].anchors || []), ...anchors];
+    }
+  }
+  
+  /**
+   * Add a text block (and any images it contains) to the element list
+   * 
+   * A block whose only content is a single hyperlink is emitted as a link element.
+   * 
+   * @param owner - Element that owns the block (the block itself, or the container of anonymous content)
+   * @param nodes - Nodes that make up the block content
+   * @param sourceIndex - Document-order index of the block
+   * @param elements - Array to add slide elements to
+   * @param isOwnBlock - Whether the owner element is the block itself
+   */
+  private addTextBlock(
+    owner: Element,
+    nodes: Node[],
+    sourceIndex: number,
+    elements: SlideElement[],
+    isOwnBlock = false
+  ): void {
+    const significantNodes = nodes.filter(node => 
+      node.nodeType === Node.ELEMENT_NODE || node.textContent?.trim()
+    );
+    const onlyChild = significantNodes.length === 1 ? significantNodes[0] : null;
+    
+    // A link wrapping images or other media is handled like any other inline content
+    if (onlyChild && onlyChild.nodeType === Node.ELEMENT_NODE &&
+        (onlyChild as Element).matches('a[href]') && !(onlyChild as Element).querySelector(MEDIA_SELECTOR)) {
+      const link = this.createLinkResource(onlyChild as Element);
+      if (link) {
+        elements.push({ type: 'link', content: link, sourceIndex });
+        return;
+      }
+    }
+    
+    const text = isOwnBlock
+      ? this.createTextResource(owner)
+      : this.createTextResource(owner, nodes);
+    if (text) {
+      elements.push({ type: 'text', content: text, sourceIndex });
+    }
+    
+    // Images placed inline within the text follow the block
+    const images = nodes.flatMap(node => {
+      if (node.nodeType !== Node.ELEMENT_NODE) return [];
+      const element = node as Element;
+      return element.matches('img, svg')
+        ? [element]
+        : Array.from(element.querySelectorAll('img, svg'));
+    });
+    this.addImages(images, sourceIndex, elements);
+  }
+  
+  /**
+   * Add image elements to the element list
+   * 
+   * @param images - img and svg elements to add (elements nested in an SVG are ignored)
+   * @param sourceIndex - Document-order index of the images
+   * @param elements - Array to add slide elements to
+   */
+  private addImages(images: Element[], sourceIndex: number, elements: SlideElement[]): void {
+    images.forEach((img) => {
+      if (img.parentElement?.closest('svg')) {
+        return;
+      }
+      
+      const image = img.tagName.toLowerCase() === 'svg'
+        ? this.createSvgImageResource(img)
+        : this.createImageResource(img as HTMLImageElement);
+      if (image) {
+        elements.push({ type: 'image', content: image, sourceIndex });
+      }
+    });
+  }
+  
+  /**
+   * Create a code resource from a <pre> element
+   * 
+   * The language is read from a language-xxx (or lang-xxx) class on the <pre>
+   * or its <code> child, as written by Markdown renderers and highlighters.
+   * 
+   * @param pre - The <pre> element
+   * @returns Code resource with line breaks and indentation preserved
+   */
+  private createCodeResource(pre: Element): CodeResource {
+    const code = (pre.textContent || '')
+      .replace(/\r\n?/g, '\n')
+      .replace(/\t/g, '    ')
+      .replace(/^\n+|\s+$/g, '');
+    
+    const classNames = [pre, ...Array.from(pre.querySelectorAll('code'))]
+      .map(element => element.getAttribute('class') || '')
+      .join(' ');
+    const language = classNames.match(/(?:^|\s)lang(?:uage)?-(\S+)/)?.[1].toLowerCase();
+    
+    return language ? { code, language } : { code };
+  }
+  
+  /**
+   * Add the content of a <figure>, attaching its caption to the figure's
+   * image, table or code block
+   * 
+   * With several of them, the caption goes to the last one (it is laid out
+   * below it). A figure without any keeps its caption as text.
+   * 
+   * @param figure - The <figure> element
+   * @param elements - Array to add slide elements to
+   * @param state - Walk state (source index counter and title to exclude)
+   */
+  private addFigure(
+    figure: Element,
+    elements: SlideElement[],
+    state: { index: number; titleToExclude?: string }
+  ): void {
+    const figureElements: SlideElement[] = [];
+    this.walkElements(figure, figureElements, state);
+    
+    const captionElement = figure.querySelector('figcaption');
+    const caption = this.getCaptionText(captionElement);
+    const captioned = [...figureElements].reverse().find(element => CAPTIONED_TYPES.includes(element.type));
+    
+    if (caption && captioned) {
+      captioned.caption = caption;
+    } else if (captionElement && caption) {
+      this.addTextBlock(captionElement, Array.from(captionElement.childNodes), state.index++, figureElements, true);
+    }
+    
+    elements.push(...figureElements);
+  }
+  
+  /**
+   * Get the text of a <figcaption> or table <caption>
+   * 
+   * @param caption - The caption element
+   * @returns Caption text with collapsed whitespace, or undefined if there is none
+   */
+  private getCaptionText(caption?: Element | null): string | undefined {
+    return caption?.textContent?.replace(/\s+/g, ' ').trim() || undefined;
+  }
+  
+  /**
+   * Get the blockquote of a pull-quote figure (<figure><blockquote/><figcaption/></figure>)
+   * 
+   * Only figures holding nothing but the blockquote and its caption are pull
+   * quotes; other figures are walked like any container, so the rest of their
+   * content is kept.
+   * 
+   * @param element - The element to check
+   * @returns The blockquote, or null if the element is not a pull-quote figure
+   */
+  private getFigureQuote(element: Element): Element | null {
+    if (element.tagName.toLowerCase() !== 'figure') {
+      return null;
+    }
+    
+    const hasOtherContent = Array.from(element.childNodes).some(node => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        return !!node.textContent?.trim();
+      }
+      return node.nodeType === Node.ELEMENT_NODE &&
+        !['blockquote', 'figcaption'].includes((node as Element).tagName.toLowerCase());
+    });
+    const quotes = Array.from(element.children).filter(child => child.tagName.toLowerCase() === 'blockquote');
+    
+    return !hasOtherContent && quotes.length === 1 ? quotes[0] : null;
+  }
+  
+  /**
+   * Create a quote resource from a <blockquote> element
+   * 
+   * The attribution is taken from the figure caption, a <footer> or a <cite>
+   * in the quote (in that order); footer and cite are removed from the quote
+   * text and leading dashes are dropped.
+   * 
+   * @param blockquote - The <blockquote> element
+   * @param caption - Caption of the figure wrapping the quote
+   * @returns Quote resource, or null if the quote has no text
+   */
+  private createQuoteResource(blockquote: Element, caption?: Element): QuoteResource | null {
+    const container = blockquote.cloneNode(true) as Element;
+    let attribution = caption?.textContent || undefined;
+    
+    // A <cite> next to a figure caption names a work within the quote
+    const credit = container.querySelector('footer') || (caption ? null : container.querySelector('cite'));
+    if (credit) {
+      attribution = attribution || credit.textContent || undefined;
+      
+      // Drop the paragraph that only held the attribution
+      const parent = credit.parentElement;
+      credit.remove();
+      if (parent && parent !== container && !parent.textContent?.replace(/[\s—–-]+/g, '')) {
+        parent.remove();
+      }
+    }
+    
+    const runs = this.textElementGenerator.generateTextRuns(container.innerHTML);
+    const text = runs.map(run => run.text + (run.breakLine ? '\n' : '')).join('').trim();
+    if (!text) {
+      return null;
+    }
+    
+    const quote: QuoteResource = { text, runs };
+    
+    attribution = attribution?.replace(/\s+/g, ' ').replace(/^\s*[—–-]+\s*/, '').trim();
+    if (attribution) {
+      quote.attribution = attribution;
+    }
+    
+    const source = blockquote.getAttribute('cite')?.trim();
+    if (source) {
+      quote.source = source;
+    }
+    
+    return quote;
+  }
+  
+  /**
+   * Extract images from HTML document
+   * 
+   * @param doc - HTML document to extract images from
+   * @returns Array of extracted image resources
+   */
+  extractImages(doc: Document): ImageResource[] {
+    const images: ImageResource[] = [];
+    const imgElements = doc.querySelectorAll('img, svg');
+    
+    imgElements.forEach((img) => {
+      if (img.parentElement?.closest('svg')) {
+        return;
+      }
+      
+      const imageResource = img.tagName.toLowerCase() === 'svg'
+        ? this.createSvgImageResource(img)
+        : this.createImageResource(img as HTMLImageElement);
+      
+      // Skip images without a source
+      if (imageResource) {
+        images.push(imageResource);
+      }
+    });
+    
+    return images;
+  }
+  
+  /**
+   * Create an image resource from an img element
+   * 
+   * @param img - The img element to convert
+   * @returns Image resource, or null if the image has no source
+   */
+  private createImageResource(img: HTMLImageElement): ImageResource | null {
+    const src = img.getAttribute('src') || '';
+    const alt = img.getAttribute('alt') || '';
+    const width = parseInt(img.getAttribute('width') || '0', 10) || img.naturalWidth || 0;
+    const height = parseInt(img.getAttribute('height') || '0', 10) || img.naturalHeight || 0;
+    
+    // Skip images without a source
+    if (!src) {
+      return null;
+    }
+    
+    // Get additional style information
+    const style = window.getComputedStyle(img);
+    const computedWidth = parseInt(style.width, 10);
+    const computedHeight = parseInt(style.height, 10);
+    
+    // Create image resource
+    const imageResource: ImageResource = {
+      src,
+      alt,
+      width: width || computedWidth || 300, // Use explicit width, computed width, or default
+      height: height || computedHeight || 200, // Use explicit height, computed height, or default
+      style: {
+        // Extract any inline styles or attributes that might be useful
+        border: img.getAttribute('border') || style.border,
+        margin: img.getAttribute('hspace') ? `0 ${img.getAttribute('hspace')}px` : style.margin,
+        alignment: img.getAttribute('align') || 'center', // Default to center if not specified
+      }
+    };
+    
+    // The caption of the image's figure describes it as well
+    const caption = this.getImageCaption(img);
+    if (caption) {
+      imageResource.caption = caption;
+    }
+    
+    // If the image is a data URL, store it directly
+    if (src.startsWith('data:')) {
+      imageResource.dataUrl = src;
+    }
+    
+    return imageResource;
+  }
+  
+  /**
+   * Create an image resource from an inline <svg> element
+   * 
+   * The SVG is serialized into an SVG data URL, sized from its width/height
+   * attributes or its viewBox. Its accessible name (aria-label or <title>)
+   * is used as the alt text.
+   * 
+   * @param svg - The <svg> element to convert
+   * @returns Image resource, or null if the SVG is hidden or decorative
+   */
+  private createSvgImageResource(svg: Element): ImageResource | null {
+    if (!isRenderedSvg(svg)) {
+      return null;
+    }
+    
+    const { width, height } = measureSvg(svg);
+    const dataUrl = createSvgDataUrl(serializeSvg(svg, { width, height }));
+    const title = Array.from(svg.children).find(child => child.tagName.toLowerCase() === 'title');
+    
+    const imageResource: ImageResource = {
+      src: dataUrl,
+      alt: svg.getAttribute('aria-label')?.trim() || title?.textContent?.trim() || '',
+      width,
+      height,
+      dataUrl,
+      style: {
+        alignment: 'center'
+      }
+    };
+    
+    const caption = this.getImageCaption(svg);
+    if (caption) {
+      imageResource.caption = caption;
+    }
+    
+    return imageResource;
+  }
+  
+  /**
+   * Get the caption of the figure an image belongs to
+   * 
+   * @param img - The img or svg element
+   * @returns Caption text, or undefined if the image is not in a captioned figure
+   */
+  private getImageCaption(img: Element): string | undefined {
+    const figure = img.closest('figure');
+    return figure && !this.getFigureQuote(figure) ? this.getCaptionText(figure.querySelector('figcaption')) : undefined;
+  }
+  
+  /**
+   * Extract tables from HTML document
+   * 
+   * @param doc - HTML document to extract tables from
+   * @returns Array of extracted table resources
+   */
+  extractTables(doc: Document): TableResource[] {
+    const tables: TableResource[] = [];
+    const tableElements = doc.querySelectorAll('table');
+    
+    tableElements.forEach((table) => {
+      tables.push(this.createTableResource(table));
+    });
+    
+    return tables;
+  }
+  
+  /**
+   * Create a table resource from a table element
+   * 
+   * @param table - The table element to convert
+   * @returns Table resource
+   */
+  private createTableResource(table: HTMLTableElement): TableResource {
+    // Only this table's own rows (not those of nested tables)
+    const allRows = Array.from(table.rows);
+    
+    // Header rows: every row of <thead>, or the first row if there is no <thead>
+    const headerRowElements = table.tHead && table.tHead.rows.length > 0
+      ? Array.from(table.tHead.rows)
+      : allRows.slice(0, 1);
+    const bodyRowElements = allRows.filter(row => !headerRowElements.includes(row));
+    
+    const headerRows = headerRowElements
+      .map(row => Array.from(row.cells))
+      .filter(cells => cells.length > 0);
+    const bodyRows = bodyRowElements
+      .map(row => Array.from(row.cells))
+      .filter(cells => cells.length > 0);
+    
+    // For compatibility with tests, use simple text content
+    const getCellText = (cell: HTMLTableCellElement) => cell.textContent?.trim() || '';
+    const headers: string[] = headerRows.length > 0 ? headerRows[0].map(getCellText) : [];
+    const rows: any[][] = bodyRows.map(cells => cells.map(getCellText));
+    
+    // Get computed style for the table if available
+    let tableStyle: CSSStyleDeclaration | null = null;
+    try {
+      tableStyle = window.getComputedStyle(table);
+    } catch (error) {
+      // In test environment, getComputedStyle might not be available
+      // Just continue without it
+    }
+    
+    // Create table resource
+    const tableResource: TableResource = {
+      headers,
+      rows,
+      style: {
+        // Extract styling information from the table
+        width: table.getAttribute('width') || (tableStyle?.width) || '100%',
+        border: table.getAttribute('border') !== null,
+        cellPadding: table.getAttribute('cellpadding') || '5',
+        // Store additional metadata for enhanced processing during PPTX generation
+        cellSpacing: table.getAttribute('cellspacing') || '0',
+        backgroundColor: (tableStyle?.backgroundColor) || 'transparent',
+        textAlign: (tableStyle?.textAlign) || 'left',
+        // Store detailed cell information (formatting, merged cells) for advanced processing
+        cellDetails: bodyRows.map((cells, rowIndex) =>
+          cells.map(cell => this.createTableCellResource(cell, bodyRows.length - rowIndex))
+        ),
+        headerDetails: headerRows.map((cells, rowIndex) =>
+          cells.map(cell => this.createTableCellResource(cell, headerRows.length - rowIndex))
+        )
+      }
+    };
+    
+    // Tables can ask to be rendered as a chart, e.g. data-chart="line" (defaults to a bar chart)
+    const chartAttribute = table.getAttribute('data-chart');
+    if (chartAttribute !== null) {
+      const chartType = chartAttribute.trim().toLowerCase() || 'bar';
+      if ((CHART_TYPES as string[]).includes(chartType)) {
+        tableResource.chartType = chartType as ChartType;
+      }
+    }
+    
+    // Keep the header rows below the first one of a multi-row <thead>
+    if (headerRows.length > 1) {
+      tableResource.additionalHeaderRows = headerRows.slice(1).map(cells => cells.map(getCellText));
+    }
+    
+    return tableResource;
+  }
+  
+  /**
+   * Create a table cell resource with the cell's formatting and spans
+   * 
+   * @param cell - The table cell element
+   * @param remainingRows - Number of rows from this cell's row to the end of its row group
+   * @returns Table cell resource
+   */
+  private createTableCellResource(cell: HTMLTableCellElement, remainingRows: number): TableCellResource {
+    const colSpan = parseInt(cell.getAttribute('colspan') || '1', 10);
+    const rowSpan = parseInt(cell.getAttribute('rowspan') || '1', 10);
+    
+    const cellResource: TableCellResource = {
+      content: cell.innerHTML,
+      text: cell.textContent?.trim() || '',
+      colSpan: colSpan > 0 ? colSpan : 1,
+      // rowspan="0" spans the rest of the row group
+      rowSpan: rowSpan === 0 ? remainingRows : Math.max(1, Math.min(rowSpan || 1, remainingRows))
+    };
+    
+    if (cell.tagName.toLowerCase() === 'th') {
+      cellResource.header = true;
+    }
+    
+    // Keep runs only when the cell has inline formatting (bold text, links, ...)
+    const runs = this.textElementGenerator.generateTextRuns(cell.innerHTML);
+    if (runs.some(run => Object.keys(run).some(key => key !== 'text' && key !== 'breakLine'))) {
+      cellResource.runs = runs;
+    }
+    
+    // Cell background and text colors
+    const fill = cell.style.backgroundColor || cell.getAttribute('bgcolor');
+    if (fill) {
+      cellResource.fill = this.textElementGenerator.normalizeColor(fill);
+    }
+    if (cell.style.color) {
+      cellResource.color = this.textElementGenerator.normalizeColor(cell.style.color);
+    }
+    
+    // Alignment from attributes or inline styles
+    const align = (cell.style.textAlign || cell.getAttribute('align') || '').toLowerCase();
+    if (align === 'left' || align === 'center' || align === 'right' || align === 'justify') {
+      cellResource.align = align;
+    }
+    
+    const valign = (cell.style.verticalAlign || cell.getAttribute('valign') || '').toLowerCase();
+    if (valign === 'top' || valign === 'bottom') {
+      cellResource.valign = valign;
+    } else if (valign === 'middle' || valign === 'center') {
+      cellResource.valign = 'middle';
+    }
+    
+    return cellResource;
+  }
+  
+  /**
+   * Extract text elements with formatting from HTML document
+   * 
+   * @param doc - HTML document to extract formatted text from
+   * @returns Array of extracted text resources
+   */
+  extractFormattedText(doc: Document): TextResource[] {
+    // Text is extracted per block, so inline formatting does not produce duplicates
+    return this.extractElements(doc)
+      .filter(element => element.type === 'text')
+      .map(element => element.content as TextResource);
+  }
+  
+  /**
+   * Create a text resource from a text block
+   * 
+   * @param element - The block element, or the container of anonymous inline content
+   * @param contentNodes - Inline nodes forming an anonymous block (defaults to the element itself)
+   * @returns Text resource, or null if the block has no text
+   */
+  private createTextResource(element: Element, contentNodes?: Node[]): TextResource | null {
+    // Collect the block content in a detached container so it can be inspected as a whole
+    let container = element;
+    if (contentNodes) {
+      container = element.ownerDocument.createElement('div');
+      contentNodes.forEach(node => container.appendChild(node.cloneNode(true)));
+    }
+    
+    // Inline SVGs become images, so their text is not part of the block
+    if (container.querySelector('svg')) {
+      container = container.cloneNode(true) as Element;
+      container.querySelectorAll('svg').forEach(svg => svg.remove());
+    }
+    
+    // Skip empty blocks
+    if (!container.textContent?.trim()) {
+      return null;
+    }
+    
+    // Get the element's computed style
+    const style = window.getComputedStyle(element);
+    
+    // Determine heading level if applicable
+    let headingLevel: number | undefined;
+    if (!contentNodes && element.tagName.match(/^H[1-6]$/i)) {
+      headingLevel = parseInt(element.tagName.substring(1), 10);
+    }
+    
+    // Determine text alignment
+    let alignment: 'left' | 'center' | 'right' | 'justify' = 'left';
+    const textAlign = element.getAttribute('align') || style.textAlign;
+    if (textAlign) {
+      if (textAlign.includes('center')) alignment = 'center';
+      else if (textAlign.includes('right')) alignment = 'right';
+      else if (textAlign.includes('justify')) alignment = 'justify';
+    }
+    
+    // Use innerHTML to preserve internal formatting
+    const content = contentNodes ? container.innerHTML.trim() : container.innerHTML;
+    
+    // Create the text resource
+    const textResource: TextResource = {
+      content,
+      runs: this.textElementGenerator.generateTextRuns(content, !!element.closest('pre')),
+      format: {
+        // A block is bold/italic/etc. when the style applies to the block or to all of its text
+        bold: style.fontWeight === 'bold' || parseInt(style.fontWeight, 10) >= 700 ||
+              !!element.closest(BOLD_SELECTOR) || this.isWhollyFormatted(container, BOLD_SELECTOR),
+        italic: style.fontStyle === 'italic' ||
+               !!element.closest(ITALIC_SELECTOR) || this.isWhollyFormatted(container, ITALIC_SELECTOR),
+        underline: style.textDecoration.includes('underline') ||
+                  !!element.closest(UNDERLINE_SELECTOR) || this.isWhollyFormatted(container, UNDERLINE_SELECTOR),
+        strikethrough: style.textDecoration.includes('line-through') ||
+                      !!element.closest(STRIKETHROUGH_SELECTOR) || this.isWhollyFormatted(container, STRIKETHROUGH_SELECTOR),
+        superscript: !!element.closest('sup') || this.isWhollyFormatted(container, 'sup'),
+        subscript: !!element.closest('sub') || this.isWhollyFormatted(container, 'sub'),
+        
+        // Extract style information
+        color: style.color,
+        backgroundColor: style.backgroundColor !== 'rgba(0, 0, 0, 0)' ? style.backgroundColor : undefined,
+        fontSize: style.fontSize,
+        fontFamily: style.fontFamily,
+        headingLevel,
+        alignment
+      }
+    };
+    
+    // Check for nested formatting elements
+    const hasNestedFormatting = container.querySelector(NESTED_FORMATTING_SELECTOR);
+    if (hasNestedFormatting) {
+      textResource.format.hasNestedFormatting = true;
+    }
+    
+    return textResource;
+  }
+  
+  /**
+   * Check whether all text inside a block is wrapped in a formatting element
+   * 
+   * @param container - The block to check
+   * @param selector - Selector of the formatting elements (e.g. 'b, strong')
+   * @returns True if every non-blank text node is inside a matching element
+   */
+  private isWhollyFormatted(container: Element, selector: string): boolean {
+    const walker = container.ownerDocument.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+    let hasText = false;
+    
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      if (!node.textContent?.trim()) continue;
+      
+      hasText = true;
+      const formatting = node.parentElement?.closest(selector);
+      if (!formatting || !container.contains(formatting)) {
+        return false;
+      }
+    }
+    
+    return hasText;
+  }
+  
+  /**
+   * Extract hyperlinks from HTML document
+   * 
+   * @param doc - HTML document to extract hyperlinks from
+   * @returns Array of extracted link resources
+   */
+  extractLinks(doc: Document): LinkResource[] {
+    const links: LinkResource[] = [];
+    const linkElements = doc.querySelectorAll('a[href]');
+    
+    linkElements.forEach((link) => {
+      const linkResource = this.createLinkResource(link);
+      
+      // Skip links without href or text
+      if (linkResource) {
+        links.push(linkResource);
+      }
+    });
+    
+    return links;
+  }
+  
+  /**
+   * Create a link resource from an anchor element
+   * 
+   * @param link - The anchor element to convert
+   * @returns Link resource, or null if the link has no href or text
+   */
+  private createLinkResource(link: Element): LinkResource | null {
+    const href = link.getAttribute('href') || '';
+    const text = link.textContent?.trim() || '';
+    
+    // Skip links without href or text
+    if (!href || !text) {
+      return null;
+    }
+    
+    return {
+      text,
+      href
+    };
+  }
+  
+  /**
+   * Extract lists from HTML document
+   * 
+   * @param doc - HTML document to extract lists from
+   * @returns Array of extracted list resources
+   */
+  extractLists(doc: Document): ListResource[] {
+    const lists: ListResource[] = [];
+    const listElements = doc.querySelectorAll('ul, ol');
+    
+    listElements.forEach((list) => {
+      const listResource = this.createListResource(list);
+      
+      // Skip empty lists
+      if (listResource) {
+        lists.push(listResource);
+      }
+    });
+    
+    return lists;
+  }
+  
+  /**
+   * Get the HTML of a list item, with task list checkboxes as ballot box characters
+   * 
+   * @param item - The li element
+   * @returns Item HTML
+   */
+  private getListItemHTML(item: Element): string {
+    const checkboxes = item.querySelectorAll(':scope > input[type="checkbox"], :scope > p > input[type="checkbox"]');
+    if (checkboxes.length === 0) {
+      return item.innerHTML;
+    }
+    
+    const clone = item.cloneNode(true) as Element;
+    clone.querySelectorAll(':scope > input[type="checkbox"], :scope > p > input[type="checkbox"]').forEach(checkbox => {
+      checkbox.replaceWith((checkbox as HTMLInputElement).checked || checkbox.hasAttribute('checked') ? '\u2611' : '\u2610');
+    });
+    
+    return clone.innerHTML;
+  }
+  
+  /**
+   * Create a list resource from a ul or ol element
+   * 
+   * @param list - The list element to convert
+   * @returns List resource, or null if the list has no items
+   */
+  private createListResource(list: Element): ListResource | null {
+    const items: string[] = [];
+    const listItems = list.querySelectorAll('li');
+    
+    // Process each list item
+    listItems.forEach((item) => {
+      // Use innerHTML to preserve formatting within list items
+      items.push(this.getListItemHTML(item));
+      
+      // Check for nested lists (we'll handle them as part of the parent list item)
+      const nestedLists = item.querySelectorAll('ul, ol');
+      if (nestedLists.length > 0) {
+        // Mark this item as having nested lists for special handling in PPTX generation
+        // This information will be used when converting to PPTX
+      }
+    });
+    
+    // Skip empty lists
+    if (items.length === 0) {
+      return null;
+    }
+    
+    // Get computed style for the list
+    const listStyle = window.getComputedStyle(list);
+    
+    // Create list resource with enhanced styling information
+    const listResource: ListResource = {
+      items,
+      ordered: list.tagName.toLowerCase() === 'ol',
+      style: {
+        // Extract styling information from the list
+        type: list.getAttribute('type') || (list.tagName.toLowerCase() === 'ol' ? '1' : 'disc'),
+        start: list.getAttribute('start') || '1',
+        // Additional styling properties
+        fontSize: listStyle.fontSize || '12pt',
+        fontFamily: listStyle.fontFamily || 'Arial',
+        color: listStyle.color || '#000000',
+        backgroundColor: listStyle.backgroundColor || 'transparent',
+        lineHeight: listStyle.lineHeight || 'normal',
+        margin: listStyle.margin || '0',
+        padding: listStyle.padding || '0',
+        textAlign: listStyle.textAlign || 'left',
+        // Class name for potential custom styling
+        className: Array.from(list.classList).join(' ') || ''
+      }
+    };
+    
+    return listResource;
   }
 }
\ No newline at end of file
@@ -0,0 +1,302 @@
+import { BundleLoader, BundleLoaderService, VirtualFileSystem } from '../bundle';
+import { decodeBase64 } from '../../utils/base64';
+import { MHTMLArchive, MHTMLParserService, MHTMLParsingError } from './MHTMLParserInterface';
+
+// Blank line separating the headers of a MIME entity from its body
+const HEADER_END_PATTERN = /\r?\n\r?\n/;
+
+// Parameters of a structured header value (name=value or name="value")
+const HEADER_PARAM_PATTERN = /;\s*([^=;\s]+)\s*=\s*(?:"([^"]*)"|([^;\s]*))/g;
+
+/**
+ * A MIME entity: lower-cased headers and the undecoded body
+ */
+interface MIMEEntity {
+  headers: Map<string, string>;
+  body: string;
+}
+
+/**
+ * MHTML Parser Service Implementation
+ * 
+ * Decodes MIME multipart/related web archives as written by browsers'
+ * "Save page as single file" into a VirtualFileSystem and inlines the
+ * referenced parts into the root page with the BundleLoader.
+ */
+export class MHTMLParser implements MHTMLParserService {
+  private bundleLoader: BundleLoaderService;
+  
+  /**
+   * Constructor
+   * 
+   * @param bundleLoader - Loader used to inline the archive parts into the root page
+   */
+  constructor(bundleLoader: BundleLoaderService = new BundleLoader()) {
+    this.bundleLoader = bundleLoader;
+  }
+  
+  /**
+   * Check whether content is an MHTML archive
+   * 
+   * @param content - File content
+   * @returns True if the content is an MHTML archive
+   */
+  isMHTML(content: string): boolean {
+    if (!content || /^\s*</.test(content)) {
+      return false;
+    }
+    
+    const { headers } = this.parseEntity(content);
+    return /^multipart\//i.test(headers.get('content-type') || '');
+  }
+  
+  /**
+   * Decode the parts of an MHTML archive
+   * 
+   * @param content - File content
+   * @returns The decoded archive
+   * @throws MHTMLParsingError if the content is not a valid archive
+   */
+  parseArchive(content: string): MHTMLArchive {
+    if (!this.isMHTML(content)) {
+      throw new MHTMLParsingError('The file is not an MHTML archive (no multipart Content-Type header)');
+    }
+    
+    const message = this.parseEntity(content);
+    const parts = this.collectParts(message);
+    
+    if (parts.length === 0) {
+      throw new MHTMLParsingError('The MHTML archive does not contain any parts');
+    }
+    
+    const fileSystem = new VirtualFileSystem();
+    const paths = parts.map((part, index) => this.addPart(fileSystem, part, index));
+    
+    // The root is named by the "start" parameter (a Content-ID), otherwise it is the first HTML part
+    const start = this.getHeaderParams(message.headers.get('content-type') || '').start;
+    const startIndex = start
+      ? parts.findIndex(part => this.stripAngleBrackets(part.headers.get('content-id') || '') === this.stripAngleBrackets(start))
+      : -1;
+    const htmlIndex = parts.findIndex(part => /^text\/html/i.test(part.headers.get('content-type') || ''));
+    const rootIndex = startIndex >= 0 ? startIndex : htmlIndex;
+    
+    if (rootIndex < 0) {
+      throw new MHTMLParsingError('The MHTML archive does not contain an HTML page');
+    }
+    
+    return { fileSystem, rootPath: paths[rootIndex] };
+  }
+  
+  /**
+   * Convert an MHTML archive into a single HTML document
+   * 
+   * @param content - File content
+   * @returns The HTML document
+   * @throws MHTMLParsingError if the archive cannot be converted
+   */
+  toHTML(content: string): string {
+    try {
+      const { fileSystem, rootPath } = this.parseArchive(content);
+      return this.bundleLoader.bundleToHTML(fileSystem, rootPath);
+    } catch (error) {
+      if (error instanceof MHTMLParsingError) {
+        throw error;
+      }
+      
+      throw new MHTMLParsingError(
+        `Failed to read MHTML archive: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  
+  /**
+   * Split a MIME entity into its headers and body
+   * 
+   * @param text - The entity text
+   * @returns Headers (names lower-cased, folded lines joined) and body
+   */
+  private parseEntity(text: string): MIMEEntity {
+    const match = HEADER_END_PATTERN.exec(text);
+    const headerText = match ? text.slice(0, match.index) : text;
+    const body = match ? text.slice(match.index + match[0].length) : '';
+    const headers = new Map<string, string>();
+    
+    headerText
+      .replace(/\r?\n[ \t]+/g, ' ')
+      .split(/\r?\n/)
+      .forEach(line => {
+        const separator = line.indexOf(':');
+        if (separator > 0) {
+          headers.set(line.slice(0, separator).trim().toLowerCase(), line.slice(separator + 1).trim());
+        }
+      });
+    
+    return { headers, body };
+  }
+  
+  /**
+   * Collect the leaf parts of a MIME entity, descending into nested multiparts
+   * 
+   * @param entity - The entity
+   * @returns Leaf parts in document order
+   */
+  private collectParts(entity: MIMEEntity): MIMEEntity[] {
+    const contentType = entity.headers.get('content-type') || 'text/plain';
+    if (!/^multipart\//i.test(contentType)) {
+      return [entity];
+    }
+    
+    const boundary = this.getHeaderParams(contentType).boundary;
+    if (!boundary) {
+      throw new MHTMLParsingError('Multipart Content-Type header without a boundary');
+    }
+    
+    const delimiter = new RegExp(`(?:^|\\r?\\n)--${boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`);
+    const parts: MIMEEntity[] = [];
+    
+    // The first segment is the preamble; a segment starting with "--" follows the closing delimiter
+    for (const segment of entity.body.split(delimiter).slice(1)) {
+      if (segment.startsWith('--')) {
+        break;
+      }
+      
+      parts.push(...this.collectParts(this.parseEntity(segment.replace(/^[ \t]*\r?\n/, ''))));
+    }
+    
+    return parts;
+  }
+  
+  /**
+   * Decode a part and add it to the file system
+   * 
+   * @param fileSystem - The file system
+   * @param part - The part
+   * @param index - Position of the part in the archive
+   * @returns Path of the part in the file system
+   */
+  private addPart(fileSystem: VirtualFileSystem, part: MIMEEntity, index: number): string {
+    const contentType = part.headers.get('content-type') || 'text/plain';
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+    const location = part.headers.get('content-location') || '';
+    const url = this.isAbsoluteUrl(location) ? location : undefined;
+    
+    // Relative Content-Locations are used as paths, so references between parts resolve like in a folder
+    const name = url
+      ? (new URL(url).pathname.split('/').pop() || 'index')
+      : VirtualFileSystem.normalizePath(location);
+    const path = url || !name ? `parts/${index}/${name || 'part'}` : name;
+    
+    fileSystem.addFile(path, this.decodeBody(part, mimeType, contentType), { mimeType, url });
+    
+    const contentId = part.headers.get('content-id');
+    if (contentId) {
+      fileSystem.addAlias(`cid:${this.stripAngleBrackets(contentId)}`, path);
+    }
+    
+    return VirtualFileSystem.normalizePath(path);
+  }
+  
+  /**
+   * Decode the body of a part according to its Content-Transfer-Encoding
+   * 
+   * Text parts are converted from their charset to UTF-8.
+   * 
+   * @param part - The part
+   * @param mimeType - MIME type of the part
+   * @param contentType - Full Content-Type header (for the charset)
+   * @returns The decoded bytes
+   */
+  private decodeBody(part: MIMEEntity, mimeType: string, contentType: string): Uint8Array {
+    const encoding = (part.headers.get('content-transfer-encoding') || '7bit').toLowerCase();
+    
+    // 7bit/8bit/binary bodies were already decoded as text when the file was read
+    if (encoding !== 'base64' && encoding !== 'quoted-printable') {
+      return new TextEncoder().encode(part.body);
+    }
+    
+    const bytes = encoding === 'base64' ? decodeBase64(part.body) : this.decodeQuotedPrintable(part.body);
+    if (!/^text\/|\+xml$|^application\/(?:xml|json|javascript)/.test(mimeType)) {
+      return bytes;
+    }
+    
+    const charset = this.getHeaderParams(contentType).charset || 'utf-8';
+    let text: string;
+    
+    try {
+      text = new TextDecoder(charset).decode(bytes);
+    } catch (error) {
+      // Unknown charset labels fall back to UTF-8
+      text = new TextDecoder('utf-8').decode(bytes);
+    }
+    
+    return new TextEncoder().encode(text);
+  }
+  
+  /**
+   * Decode a quoted-printable body
+   * 
+   * @param body - The encoded body
+   * @returns The decoded bytes
+   */
+  private decodeQuotedPrintable(body: string): Uint8Array {
+    const text = body.replace(/[ \t]+(?=\r?\n)/g, '').replace(/=\r?\n/g, '');
+    const bytes: number[] = [];
+    const encoder = new TextEncoder();
+    
+    for (let i = 0; i < text.length; i++) {
+      const hex = text[i] === '=' ? text.slice(i + 1, i + 3) : '';
+      
+      if (/^[0-9a-f]{2}$/i.test(hex)) {
+        bytes.push(parseInt(hex, 16));
+        i += 2;
+      } else if (text.charCodeAt(i) < 0x80) {
+        bytes.push(text.charCodeAt(i));
+      } else {
+        bytes.push(...encoder.encode(text[i]));
+      }
+    }
+    
+    return Uint8Array.from(bytes);
+  }
+  
+  /**
+   * Parse the parameters of a structured header value
+   * 
+   * @param value - Header value (e.g. 'multipart/related; boundary="abc"')
+   * @returns Parameters keyed by their lower-cased name
+   */
+  private getHeaderParams(value: string): Record<string, string> {
+    const params: Record<string, string> = {};
+    
+    for (const match of value.matchAll(HEADER_PARAM_PATTERN)) {
+      params[match[1].toLowerCase()] = match[2] ?? match[3];
+    }
+    
+    return params;
+  }
+  
+  /**
+   * Check whether a Content-Location is an absolute URL
+   * 
+   * @param location - The Content-Location
+   * @returns True for absolute URLs
+   */
+  private isAbsoluteUrl(location: string): boolean {
+    try {
+      new URL(location);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+  
+  /**
+   * Remove the angle brackets around a Content-ID
+   * 
+   * @param contentId - The Content-ID
+   * @returns The bare identifier
+   */
+  private stripAngleBrackets(contentId: string): string {
+    return contentId.trim().replace(/^<|>$/g, '');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { VirtualFileSystem } from '../bundle';
+import { HTMLParsingError } from './HTMLParserInterface';
+
+/**
+ * A decoded MHTML web archive
+ */
+export interface MHTMLArchive {
+  /**
+   * All parts of the archive, reachable by their Content-Location and "cid:" Content-ID
+   */
+  fileSystem: VirtualFileSystem;
+  
+  /**
+   * Path of the root HTML page in the file system
+   */
+  rootPath: string;
+}
+
+/**
+ * Interface for the MHTML parser service
+ * 
+ * This service decodes web archives saved as a single file (.mhtml/.mht,
+ * MIME multipart/related) and turns them into a self-contained HTML
+ * document that the HTML parser can process.
+ */
+export interface MHTMLParserService {
+  /**
+   * Check whether content is an MHTML archive (a MIME message with a multipart body)
+   * 
+   * @param content - File content
+   * @returns True if the content is an MHTML archive
+   */
+  isMHTML(content: string): boolean;
+  
+  /**
+   * Decode the parts of an MHTML archive
+   * 
+   * Quoted-printable and base64 bodies are decoded and text parts are
+   * stored as UTF-8. The root page is the part named by the "start"
+   * parameter, otherwise the first HTML part.
+   * 
+   * @param content - File content
+   * @returns The decoded archive
+   * @throws MHTMLParsingError if the content is not a valid archive
+   */
+  parseArchive(content: string): MHTMLArchive;
+  
+  /**
+   * Convert an MHTML archive into a single HTML document
+   * 
+   * Images, stylesheets and CSS url() references pointing to archive parts
+   * (by Content-Location or "cid:") are replaced with data URLs.
+   * 
+   * @param content - File content
+   * @returns The HTML document
+   * @throws MHTMLParsingError if the archive cannot be converted
+   */
+  toHTML(content: string): string;
+}
+
+/**
+ * MHTML parsing error class
+ * 
+ * Custom error class for errors decoding MHTML archives
+ */
+export class MHTMLParsingError extends HTMLParsingError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MHTMLParsingError';
+  }
+}
\ No newline at end of file
@@ -1,2 +1,4 @@
 export * from './HTMLParserInterface';
-export * from './HTMLParser';
\ No newline at end of file
+export * from './HTMLParser';
+export * from './MHTMLParserInterface';
+export * from './MHTMLParser';
\ No newline at end of file
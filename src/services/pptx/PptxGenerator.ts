@@ -1,6 +1,8 @@
 import pptxgen from 'pptxgenjs';
-import { SlideLayout, PresentationTheme, ImageResource, TableResource, ListResource, LinkResource, TextResource } from '../../models';
+import { SlideLayout, PresentationTheme, DocumentMetadata, SlideBackground, ImageResource, TableResource, ListResource, LinkResource, TextResource, TextRun, ChartResource, CodeResource, QuoteResource } from '../../models';
 import { PptxGeneratorService, PptxGenerationError } from './PptxGeneratorInterface';
+import { createSvgDataUrl, isSvgSource, readSvgDataUrl } from '../../utils/svg';
+import { parseFontSize } from '../../utils/fontSize';
 
 /**
  * PPTX Generator Service Implementation
@@ -61,6 +63,38 @@ export class PptxGenerator implements PptxGeneratorService {
     }
   }
   
+  /**
+   * Set the document properties of the presentation from the HTML metadata
+   * 
+   * PptxGenJS has no keywords property, so keywords are appended to the subject.
+   * 
+   * @param presentation - The presentation instance
+   * @param metadata - Metadata of the source document
+   */
+  setMetadata(presentation: any, metadata: DocumentMetadata): void {
+    try {
+      if (metadata.title) {
+        presentation.title = metadata.title;
+      }
+      if (metadata.author) {
+        presentation.author = metadata.author;
+      }
+      if (metadata.siteName) {
+        presentation.company = metadata.siteName;
+      }
+      
+      const keywords = metadata.keywords?.length ? `Keywords: ${metadata.keywords.join(', ')}` : '';
+      const subject = [metadata.description, keywords].filter(part => part).join(' | ');
+      if (subject) {
+        presentation.subject = subject;
+      }
+    } catch (error) {
+      throw new PptxGenerationError(
+        `Failed to set presentation metadata: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  
   /**
    * Apply a theme to the presentation
    * 
@@ -169,6 +203,61 @@ export class PptxGenerator implements PptxGeneratorService {
     }
   }
   
+  /**
+   * Add a title or section divider slide to the presentation
+   * 
+   * With a slide master the text goes into its title and subtitle placeholders,
+   * otherwise it is centered on the slide.
+   * 
+   * @param presentation - The presentation instance
+   * @param title - Title of the slide
+   * @param subtitle - Optional subtitle
+   * @param masterName - Name of the slide master to use (e.g. "DEFAULT_TITLE")
+   * @returns The created slide
+   */
+  addTitleSlide(presentation: any, title: string, subtitle?: string, masterName?: string): any {
+    try {
+      const slide = masterName ? presentation.addSlide({ masterName }) : presentation.addSlide();
+      
+      if (masterName) {
+        slide.addText(title, { placeholder: 'title' });
+        if (subtitle) {
+          slide.addText(subtitle, { placeholder: 'subtitle' });
+        }
+      } else {
+        slide.addText(title, {
+          x: 0.5,
+          y: 1.5,
+          w: '90%',
+          h: 1.5,
+          fontSize: 40,
+          bold: true,
+          color: '333333',
+          align: 'center',
+          valign: 'middle'
+        });
+        if (subtitle) {
+          slide.addText(subtitle, {
+            x: 0.5,
+            y: 3.2,
+            w: '90%',
+            h: 1,
+            fontSize: 24,
+            color: '666666',
+            align: 'center',
+            valign: 'top'
+          });
+        }
+      }
+      
+      return slide;
+    } catch (error) {
+      throw new PptxGenerationError(
+        `Failed to add title slide: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  
   /**
    * Add a text element to a slide
    * 
@@ -178,8 +267,10 @@ export class PptxGenerator implements PptxGeneratorService {
    */
   addTextElement(slide: any, text: TextResource, options?: any): void {
     try {
-      // Extract text content (remove HTML tags if present)
-      const content = this.stripHtmlTags(text.content);
+      // Use formatting runs when available, otherwise plain text (remove HTML tags if present)
+      const content = text.runs && text.runs.length > 0
+        ? this.createTextRuns(text.runs)
+        : this.stripHtmlTags(text.content);
       
       // Determine font size based on heading level
       let fontSize = 18;
@@ -198,11 +289,8 @@ export class PptxGenerator implements PptxGeneratorService {
             fontSize = 16;
         }
       } else if (text.format.fontSize) {
-        // Extract numeric value from fontSize string (e.g., "18px" -> 18)
-        const fontSizeMatch = text.format.fontSize.match(/(\d+)/);
-        if (fontSizeMatch && fontSizeMatch[1]) {
-          fontSize = parseInt(fontSizeMatch[1], 10);
-        }
+        // CSS sizes are converted to points (e.g., "16px" -> 12), as the layout engine measures them
+        fontSize = parseFontSize(text.format.fontSize) || fontSize;
       }
       
       // Convert color format if needed (e.g., "#FF0000" -> "FF0000")
@@ -240,6 +328,35 @@ export class PptxGenerator implements PptxGeneratorService {
     }
   }
   
+  /**
+   * Convert formatting runs to PptxGenJS text run objects
+   * 
+   * @param runs - The formatting runs to convert
+   * @returns Array of PptxGenJS text runs
+   */
+  private createTextRuns(runs: TextRun[]): any[] {
+    return runs.map(run => {
+      const options: Record<string, any> = {};
+      
+      if (run.bold) options.bold = true;
+      if (run.italic) options.italic = true;
+      if (run.underline) options.underline = true;
+      if (run.strikethrough) options.strike = true;
+      if (run.superscript) options.superscript = true;
+      if (run.subscript) options.subscript = true;
+      if (run.code) options.fontFace = 'Courier New';
+      if (run.color) options.color = run.color.replace(/^#/, '');
+      if (run.slide) {
+        options.hyperlink = { slide: run.slide };
+      } else if (run.link) {
+        options.hyperlink = { url: run.link, tooltip: run.link };
+      }
+      if (run.breakLine) options.breakLine = true;
+      
+      return { text: run.text, options };
+    });
+  }
+  
   /**
    * Strip HTML tags from text content
    * 
@@ -288,9 +405,20 @@ export class PptxGenerator implements PptxGeneratorService {
         y: options?.y || 2,
         w: options?.w || image.width / 100, // Convert pixels to inches (approximate)
         h: options?.h || image.height / 100, // Convert pixels to inches (approximate)
+        ...this.getImageAltText(image),
         ...options
       };
       
+      // SVG data is embedded as an SVG image (PptxGenJS adds a PNG rendering of it
+      // for viewers without SVG support); it must be base64 encoded for that
+      if (image.dataUrl && isSvgSource(image.dataUrl)) {
+        const svgData = /^data:image\/svg\+xml;base64,/i.test(image.dataUrl)
+          ? image.dataUrl
+          : createSvgDataUrl(readSvgDataUrl(image.dataUrl));
+        slide.addImage({ data: svgData, ...imageOptions });
+        return;
+      }
+      
       // Use data URL if available, otherwise use the source URL
       const imageData = image.dataUrl || image.src;
       
@@ -303,6 +431,19 @@ export class PptxGenerator implements PptxGeneratorService {
     }
   }
   
+  /**
+   * Get the alt text options of an image, combining its alt text and figure caption
+   * 
+   * @param image - The image resource
+   * @returns PptxGenJS altText option, or no options if the image has no description
+   */
+  private getImageAltText(image: ImageResource): { altText?: string } {
+    const parts = [image.alt?.trim(), image.caption?.trim()].filter(part => part);
+    const altText = parts.filter((part, index) => parts.indexOf(part) === index).join(' — ');
+    
+    return altText ? { altText } : {};
+  }
+  
   /**
    * Add a table element to a slide
    * 
@@ -316,8 +457,13 @@ export class PptxGenerator implements PptxGeneratorService {
       let tableData;
       
       if ('_formattedData' in table) {
-        // Use pre-formatted data if available
-        tableData = table._formattedData;
+        // Use pre-formatted data if available, rendering formatted cell text as runs
+        tableData = (table as any)._formattedData.map((row: any[]) =>
+          row.map(cell => cell?.runs
+            ? { text: this.createTextRuns(cell.runs), options: cell.options }
+            : cell
+          )
+        );
       } else {
         // Prepare table data
         tableData = [];
@@ -468,6 +614,216 @@ export class PptxGenerator implements PptxGeneratorService {
     }
   }
   
+  /**
+   * Add a native chart element to a slide
+   * 
+   * @param slide - The slide to add the chart element to
+   * @param chart - The chart resource to add
+   * @param options - Options for the chart element (e.g. chartColors)
+   */
+  addChartElement(slide: any, chart: ChartResource, options?: any): void {
+    try {
+      // Scatter charts take the X values as their first series, the others label their points
+      const chartData = chart.type === 'scatter'
+        ? [
+            { name: 'X', values: chart.categories.map(category => parseFloat(category)) },
+            ...chart.series.map(series => ({ name: series.name, values: series.values }))
+          ]
+        : chart.series.map(series => ({ name: series.name, labels: chart.categories, values: series.values }));
+      
+      // Prepare chart options
+      const chartOptions = {
+        x: options?.x || 0.5,
+        y: options?.y || 1.5,
+        w: options?.w || '90%',
+        h: options?.h || 3.5,
+        barDir: 'col',
+        showLegend: chart.type === 'pie' || chart.series.length > 1,
+        legendPos: 'b',
+        showPercent: chart.type === 'pie',
+        ...options
+      };
+      
+      // Pie charts show a single series
+      slide.addChart(chart.type, chart.type === 'pie' ? chartData.slice(0, 1) : chartData, chartOptions);
+    } catch (error) {
+      throw new PptxGenerationError(
+        `Failed to add chart element: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  
+  /**
+   * Add a code block to a slide
+   * 
+   * The code is set in a monospace font on a shaded box, keeping its line
+   * breaks and indentation.
+   * 
+   * @param slide - The slide to add the code to
+   * @param code - The code resource (highlighted runs are used when present)
+   * @param options - Position and style options for the code box
+   */
+  addCodeElement(slide: any, code: CodeResource, options?: any): void {
+    try {
+      const content = code.runs && code.runs.length > 0
+        ? this.createTextRuns(code.runs)
+        : code.code;
+      
+      slide.addText(content, {
+        x: options?.x || 0.5,
+        y: options?.y || 1.5,
+        w: options?.w || '90%',
+        h: options?.h || 1,
+        fontFace: 'Courier New',
+        fontSize: code.fontSize || 14,
+        color: '333333',
+        fill: { color: 'F5F5F5' },
+        line: { color: 'DDDDDD', width: 1 },
+        margin: 7,
+        align: 'left',
+        valign: 'top',
+        ...options
+      });
+    } catch (error) {
+      throw new PptxGenerationError(
+        `Failed to add code element: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  
+  /**
+   * Add a quotation to a slide
+   * 
+   * Quotes are set in large italic text next to an accent bar; full-slide
+   * quotes get a decorative quotation mark instead. The attribution is
+   * right-aligned below the quote.
+   * 
+   * @param slide - The slide to add the quote to
+   * @param quote - The quote resource
+   * @param options - Position of the quote, plus accentColor (hex) and fullSlide
+   */
+  addQuoteElement(slide: any, quote: QuoteResource, options?: any): void {
+    try {
+      const { accentColor, fullSlide, ...position } = options || {};
+      const accent = (accentColor || '4472C4').replace(/^#/, '');
+      const x = position.x ?? 0.5;
+      const y = position.y ?? 1.5;
+      const w = position.w ?? 9;
+      const h = position.h ?? 2;
+      
+      // The attribution line takes the bottom of the box
+      const attributionHeight = quote.attribution ? 0.4 : 0;
+      const textHeight = Math.max(h - attributionHeight, 0.5);
+      const content = quote.runs && quote.runs.length > 0
+        ? this.createTextRuns(quote.runs)
+        : quote.text;
+      
+      if (fullSlide) {
+        slide.addText('\u201C', {
+          x,
+          y,
+          w: 1,
+          h: 1,
+          fontSize: 96,
+          fontFace: 'Georgia',
+          color: accent,
+          bold: true,
+          valign: 'top'
+        });
+        slide.addText(content, {
+          x: x + 1,
+          y,
+          w: w - 1,
+          h: textHeight,
+          fontSize: 28,
+          italic: true,
+          color: '333333',
+          align: 'left',
+          valign: 'middle',
+          fit: 'shrink'
+        });
+      } else {
+        slide.addShape('rect', {
+          x,
+          y,
+          w: 0.08,
+          h: textHeight,
+          fill: { color: accent },
+          line: { color: accent }
+        });
+        slide.addText(content, {
+          x: x + 0.3,
+          y,
+          w: w - 0.3,
+          h: textHeight,
+          fontSize: 24,
+          italic: true,
+          color: '333333',
+          align: 'left',
+          valign: 'middle'
+        });
+      }
+      
+      if (quote.attribution) {
+        slide.addText(`\u2014 ${quote.attribution}`, {
+          x,
+          y: y + textHeight,
+          w,
+          h: attributionHeight,
+          fontSize: 16,
+          color: '666666',
+          align: 'right',
+          valign: 'top',
+          ...(quote.source ? { hyperlink: { url: quote.source } } : {})
+        });
+      }
+    } catch (error) {
+      throw new PptxGenerationError(
+        `Failed to add quote element: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  
+  /**
+   * Add speaker notes to a slide
+   * 
+   * @param slide - The slide to add the notes to
+   * @param notes - The notes text
+   */
+  addNotes(slide: any, notes: string): void {
+    try {
+      if (notes.trim()) {
+        slide.addNotes(notes);
+      }
+    } catch (error) {
+      throw new PptxGenerationError(
+        `Failed to add speaker notes: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  
+  /**
+   * Set the background of a slide
+   * 
+   * @param slide - The slide to set the background of
+   * @param background - Background color and/or image (the image covers the color)
+   */
+  setBackground(slide: any, background: SlideBackground): void {
+    try {
+      if (background.image) {
+        slide.background = background.image.startsWith('data:')
+          ? { data: background.image }
+          : { path: background.image };
+      } else if (background.color) {
+        slide.background = { color: background.color };
+      }
+    } catch (error) {
+      throw new PptxGenerationError(
+        `Failed to set slide background: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  
   /**
    * Save the presentation as a PPTX file
    * 
@@ -1,4 +1,4 @@
-import { SlideLayout, PresentationTheme, ImageResource, TableResource, ListResource, LinkResource, TextResource } from '../../models';
+import { SlideLayout, PresentationTheme, DocumentMetadata, SlideBackground, ImageResource, TableResource, ListResource, LinkResource, TextResource, ChartResource, CodeResource, QuoteResource } from '../../models';
 
 /**
  * Interface for the PPTX generator service
@@ -22,6 +22,14 @@ export interface PptxGeneratorService {
    */
   createPresentation(theme?: PresentationTheme): any;
   
+  /**
+   * Set the document properties of the presentation from the HTML metadata
+   * 
+   * @param presentation - The presentation instance
+   * @param metadata - Metadata of the source document
+   */
+  setMetadata(presentation: any, metadata: DocumentMetadata): void;
+  
   /**
    * Add a new slide to the presentation
    * 
@@ -32,6 +40,17 @@ export interface PptxGeneratorService {
    */
   addSlide(presentation: any, title: string, layout?: SlideLayout): any;
   
+  /**
+   * Add a title or section divider slide to the presentation
+   * 
+   * @param presentation - The presentation instance
+   * @param title - Title of the slide
+   * @param subtitle - Optional subtitle
+   * @param masterName - Name of the slide master to use (e.g. "DEFAULT_TITLE")
+   * @returns The created slide
+   */
+  addTitleSlide(presentation: any, title: string, subtitle?: string, masterName?: string): any;
+  
   /**
    * Add a text element to a slide
    * 
@@ -77,6 +96,50 @@ export interface PptxGeneratorService {
    */
   addLinkElement(slide: any, link: LinkResource, options?: any): void;
   
+  /**
+   * Add a native chart element to a slide
+   * 
+   * @param slide - The slide to add the chart element to
+   * @param chart - The chart resource to add
+   * @param options - Options for the chart element (e.g. chartColors)
+   */
+  addChartElement(slide: any, chart: ChartResource, options?: any): void;
+  
+  /**
+   * Add a code block to a slide
+   * 
+   * @param slide - The slide to add the code to
+   * @param code - The code resource (highlighted runs are used when present)
+   * @param options - Position and style options for the code box
+   */
+  addCodeElement(slide: any, code: CodeResource, options?: any): void;
+  
+  /**
+   * Add a quotation to a slide
+   * 
+   * @param slide - The slide to add the quote to
+   * @param quote - The quote resource
+   * @param options - Position of the quote, plus accentColor (hex) and fullSlide
+   *   (large centered quote with a decorative quotation mark instead of an accent bar)
+   */
+  addQuoteElement(slide: any, quote: QuoteResource, options?: any): void;
+  
+  /**
+   * Add speaker notes to a slide
+   * 
+   * @param slide - The slide to add the notes to
+   * @param notes - The notes text
+   */
+  addNotes(slide: any, notes: string): void;
+  
+  /**
+   * Set the background of a slide
+   * 
+   * @param slide - The slide to set the background of
+   * @param background - Background color and/or image (the image covers the color)
+   */
+  setBackground(slide: any, background: SlideBackground): void;
+  
   /**
    * Save the presentation as a PPTX file
    * 
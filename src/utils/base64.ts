@@ -0,0 +1,59 @@
+/**
+ * Base64 helpers for binary data
+ * 
+ * These work on bytes directly, so large files do not have to be turned
+ * into a binary string first (as atob/btoa require).
+ */
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Encode binary data as base64
+ * 
+ * @param data - The bytes to encode
+ * @returns Base64 text
+ */
+export function encodeBase64(data: Uint8Array): string {
+  const chunks: string[] = [];
+  
+  for (let i = 0; i < data.length; i += 3) {
+    const triple = (data[i] << 16) | ((data[i + 1] ?? 0) << 8) | (data[i + 2] ?? 0);
+    chunks.push(
+      BASE64_ALPHABET[(triple >> 18) & 63] +
+      BASE64_ALPHABET[(triple >> 12) & 63] +
+      (i + 1 < data.length ? BASE64_ALPHABET[(triple >> 6) & 63] : '=') +
+      (i + 2 < data.length ? BASE64_ALPHABET[triple & 63] : '=')
+    );
+  }
+  
+  return chunks.join('');
+}
+
+/**
+ * Decode base64 text to binary data
+ * 
+ * Whitespace (e.g. the line breaks of MIME bodies) and characters outside
+ * the base64 alphabet are ignored; URL-safe base64 ("-" and "_") is accepted.
+ * 
+ * @param text - The base64 text
+ * @returns The decoded bytes
+ */
+export function decodeBase64(text: string): Uint8Array {
+  const clean = text.replace(/-/g, '+').replace(/_/g, '/').replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor(clean.length * 3 / 4));
+  let buffer = 0;
+  let bits = 0;
+  let length = 0;
+  
+  for (let i = 0; i < clean.length; i++) {
+    buffer = ((buffer << 6) | BASE64_ALPHABET.indexOf(clean[i])) & 0xffff;
+    bits += 6;
+    
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[length++] = (buffer >> bits) & 0xff;
+    }
+  }
+  
+  return bytes.subarray(0, length);
+}
\ No newline at end of file
@@ -33,6 +33,31 @@ export const defaultConfig: ConversionConfig = {
   // Preserve hyperlinks by default
   preserveLinks: true,
   
+  // Upgrade http:// links to https://
+  keepHttpLinks: false,
+  
+  // Vertical spacing between elements on a slide (in inches)
+  elementSpacing: 0.2,
+  
+  // Continue long lists and tables on a new slide after this many bullets/rows
+  maxBulletsPerSlide: 8,
+  maxTableRowsPerSlide: 10,
+  
+  // Caption tables that span several slides with "Page X of Y"
+  showTablePageNumbers: true,
+  
+  // Keep tables as tables unless they ask for a chart with data-chart
+  convertTablesToCharts: false,
+  
+  // Only authored notes go into the speaker notes
+  sectionTextInNotes: false,
+  
+  // Start with the first section instead of a generated title slide
+  includeTitleSlide: false,
+  
+  // No agenda slide by default
+  includeAgenda: false,
+  
   // No custom styles by default
   customStyles: {}
 };
@@ -79,7 +104,12 @@ export const getConfigDescription = (config: ConversionConfig): string => {
   const splitNames: Record<SplitStrategy, string> = {
     [SplitStrategy.BY_H1]: 'By H1 Headings',
     [SplitStrategy.BY_H2]: 'By H2 Headings',
+    [SplitStrategy.HIERARCHICAL]: 'Hierarchical (H1 Dividers, H2 Slides)',
     [SplitStrategy.BY_CUSTOM_SELECTOR]: 'Custom Selector',
+    [SplitStrategy.BY_HR]: 'By Horizontal Rules',
+    [SplitStrategy.BY_SLIDE_COMMENT]: 'By Slide Comments',
+    [SplitStrategy.BY_SLIDE_BREAK_ATTRIBUTE]: 'By Slide Break Attributes',
+    [SplitStrategy.BY_SECTION_ELEMENT]: 'By Section Elements',
     [SplitStrategy.NO_SPLIT]: 'No Split (Single Slide)'
   };
   
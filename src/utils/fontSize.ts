@@ -0,0 +1,32 @@
+/**
+ * Font size helpers
+ * 
+ * PptxGenJS takes font sizes in points, while sizes read from HTML are CSS
+ * lengths. The layout engine and the PPTX generator both convert them here,
+ * so text is measured at the size it is drawn at.
+ */
+
+// Points per CSS pixel (96 pixels and 72 points per inch)
+const POINTS_PER_PIXEL = 0.75;
+
+/**
+ * Parse a font size into points
+ * 
+ * @param fontSize - Font size as a number (points) or CSS string ("18pt", "16px", "18")
+ * @returns Font size in points, or 0 if it cannot be parsed
+ */
+export function parseFontSize(fontSize: unknown): number {
+  if (typeof fontSize === 'number') {
+    return fontSize;
+  }
+  
+  if (typeof fontSize === 'string') {
+    const match = fontSize.match(/(\d+(?:\.\d+)?)\s*(pt|px)?/i);
+    if (match) {
+      const size = parseFloat(match[1]);
+      return match[2]?.toLowerCase() === 'px' ? Math.round(size * POINTS_PER_PIXEL) : size;
+    }
+  }
+  
+  return 0;
+}
\ No newline at end of file
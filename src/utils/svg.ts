@@ -0,0 +1,224 @@
+import { decodeBase64, encodeBase64 } from './base64';
+
+/**
+ * SVG helpers
+ * 
+ * Inline <svg> elements and .svg files are embedded in the PPTX as SVG images.
+ * When the presentation is written, PptxGenJS draws each SVG on a canvas to
+ * create the PNG fallback shown by viewers without SVG support, at the size
+ * given by the SVG's width and height attributes. SVGs are therefore always
+ * serialized with explicit dimensions, measured from their viewBox when the
+ * source does not set them.
+ */
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+const XLINK_NAMESPACE = 'http://www.w3.org/1999/xlink';
+
+// Size of an SVG without width, height or viewBox (the CSS default size of replaced elements)
+const DEFAULT_SVG_WIDTH = 300;
+const DEFAULT_SVG_HEIGHT = 150;
+
+// Pixels per unit of the absolute CSS lengths allowed in width/height attributes
+const LENGTH_UNITS: Record<string, number> = {
+  '': 1,
+  px: 1,
+  pt: 4 / 3,
+  pc: 16,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4
+};
+
+// Children that do not draw anything by themselves
+const NON_RENDERING_TAGS = ['defs', 'symbol', 'title', 'desc', 'metadata', 'style', 'script'];
+
+/**
+ * Check whether an image source is an SVG (an svg+xml data URL or a .svg file)
+ * 
+ * @param src - Image URL or data URL
+ * @returns Whether the source is an SVG image
+ */
+export function isSvgSource(src: string): boolean {
+  if (src.startsWith('data:')) {
+    return /^data:image\/svg\+xml[;,]/i.test(src);
+  }
+  
+  return /\.svg$/i.test(src.split(/[?#]/)[0]);
+}
+
+/**
+ * Check whether an inline SVG is shown as an image
+ * 
+ * Hidden SVGs (e.g. sprite sheets that only define symbols) and icons marked
+ * as decorative with aria-hidden are not.
+ * 
+ * @param svg - The <svg> element
+ * @returns Whether the SVG draws visible content
+ */
+export function isRenderedSvg(svg: Element): boolean {
+  if (svg.hasAttribute('hidden') || svg.getAttribute('aria-hidden') === 'true') {
+    return false;
+  }
+  
+  if (/display\s*:\s*none/i.test(svg.getAttribute('style') || '')) {
+    return false;
+  }
+  
+  return Array.from(svg.children).some(child => !NON_RENDERING_TAGS.includes(child.tagName.toLowerCase()));
+}
+
+/**
+ * Measure the size of an SVG in pixels
+ * 
+ * Explicit width and height attributes win; a missing dimension is derived
+ * from the other one and the aspect ratio of the viewBox, or taken from the
+ * viewBox itself.
+ * 
+ * @param svg - The <svg> element
+ * @returns Width and height in pixels
+ */
+export function measureSvg(svg: Element): { width: number; height: number } {
+  const width = parseLength(svg.getAttribute('width'));
+  const height = parseLength(svg.getAttribute('height'));
+  const viewBox = parseViewBox(svg.getAttribute('viewBox'));
+  
+  if (width && height) {
+    return { width, height };
+  }
+  
+  if (width) {
+    return { width, height: Math.round(viewBox ? width * viewBox.height / viewBox.width : DEFAULT_SVG_HEIGHT) };
+  }
+  
+  if (height) {
+    return { width: Math.round(viewBox ? height * viewBox.width / viewBox.height : DEFAULT_SVG_WIDTH), height };
+  }
+  
+  if (viewBox) {
+    return { width: Math.round(viewBox.width), height: Math.round(viewBox.height) };
+  }
+  
+  return { width: DEFAULT_SVG_WIDTH, height: DEFAULT_SVG_HEIGHT };
+}
+
+/**
+ * Serialize an SVG as a standalone document
+ * 
+ * Elements referenced by <use> from elsewhere in the document (icon sprites)
+ * are copied into the SVG, and the given size is written to its width and
+ * height attributes.
+ * 
+ * @param svg - The <svg> element
+ * @param size - Width and height in pixels
+ * @returns SVG markup
+ */
+export function serializeSvg(svg: Element, size: { width: number; height: number }): string {
+  const clone = svg.cloneNode(true) as Element;
+  const doc = svg.ownerDocument;
+  
+  // Copy referenced symbols that live outside the SVG
+  const ids = new Set(Array.from(clone.querySelectorAll('[id]')).map(element => element.id));
+  let defs: Element | null = null;
+  clone.querySelectorAll('use').forEach((use) => {
+    const href = use.getAttribute('href') || use.getAttributeNS(XLINK_NAMESPACE, 'href') || use.getAttribute('xlink:href') || '';
+    const id = href.startsWith('#') ? href.substring(1) : '';
+    if (!id || ids.has(id)) {
+      return;
+    }
+    
+    const target = doc.getElementById(id);
+    if (target && target.namespaceURI === SVG_NAMESPACE) {
+      if (!defs) {
+        defs = doc.createElementNS(SVG_NAMESPACE, 'defs');
+        clone.insertBefore(defs, clone.firstChild);
+      }
+      defs.appendChild(target.cloneNode(true));
+      ids.add(id);
+    }
+  });
+  
+  clone.setAttribute('width', String(size.width));
+  clone.setAttribute('height', String(size.height));
+  
+  return new XMLSerializer().serializeToString(clone);
+}
+
+/**
+ * Parse SVG markup (e.g. the contents of a .svg file)
+ * 
+ * @param markup - SVG markup
+ * @returns The root <svg> element, or null if the markup is not a valid SVG
+ */
+export function parseSvg(markup: string): Element | null {
+  const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  const root = doc.documentElement;
+  
+  if (!root || root.tagName.toLowerCase() !== 'svg' || root.namespaceURI !== SVG_NAMESPACE ||
+      doc.getElementsByTagName('parsererror').length > 0) {
+    return null;
+  }
+  
+  return root;
+}
+
+/**
+ * Create a base64 data URL from SVG markup
+ * 
+ * @param markup - SVG markup
+ * @returns image/svg+xml data URL
+ */
+export function createSvgDataUrl(markup: string): string {
+  return `data:image/svg+xml;base64,${encodeBase64(new TextEncoder().encode(markup))}`;
+}
+
+/**
+ * Read the SVG markup of an svg+xml data URL (base64 or URL-encoded)
+ * 
+ * @param dataUrl - image/svg+xml data URL
+ * @returns SVG markup
+ */
+export function readSvgDataUrl(dataUrl: string): string {
+  const commaIndex = dataUrl.indexOf(',');
+  const header = dataUrl.substring(0, commaIndex);
+  const data = dataUrl.substring(commaIndex + 1);
+  
+  if (/;base64$/i.test(header)) {
+    return new TextDecoder().decode(decodeBase64(data));
+  }
+  
+  return decodeURIComponent(data);
+}
+
+/**
+ * Parse a width or height attribute in pixels
+ * 
+ * @param value - Attribute value
+ * @returns Length in pixels, or undefined for missing and relative lengths (e.g. percentages)
+ */
+function parseLength(value: string | null): number | undefined {
+  const match = value?.trim().match(/^(\d*\.?\d+(?:e[+-]?\d+)?)\s*([a-z]*)$/i);
+  const unit = match ? LENGTH_UNITS[match[2].toLowerCase()] : undefined;
+  
+  if (!match || !unit) {
+    return undefined;
+  }
+  
+  const length = Math.round(parseFloat(match[1]) * unit);
+  return length > 0 ? length : undefined;
+}
+
+/**
+ * Parse the viewBox attribute of an SVG
+ * 
+ * @param value - Attribute value ("min-x min-y width height")
+ * @returns Width and height of the viewBox, or undefined if it is missing or invalid
+ */
+function parseViewBox(value: string | null): { width: number; height: number } | undefined {
+  const numbers = (value || '').trim().split(/[\s,]+/).map(Number);
+  
+  if (numbers.length !== 4 || numbers.some(isNaN) || numbers[2] <= 0 || numbers[3] <= 0) {
+    return undefined;
+  }
+  
+  return { width: numbers[2], height: numbers[3] };
+}
\ No newline at end of file
@@ -1,5 +1,5 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import App from '../../src/App';
 
 describe('App Component', () => {
@@ -19,7 +19,7 @@ describe('App Component', () => {
     
     // Check main content for the first step
     expect(screen.getByText('Upload HTML Content')).toBeInTheDocument();
-    expect(screen.getByText('Upload an HTML file or paste HTML code to convert it to a PowerPoint presentation.')).toBeInTheDocument();
+    expect(screen.getByText('Upload an HTML or Markdown file, paste HTML code or write Markdown to convert it to a PowerPoint presentation.')).toBeInTheDocument();
     
     // Check footer
     expect(screen.getByText(/HTML to PPTX Converter - Built with React, TypeScript, and PptxGenJS/)).toBeInTheDocument();
@@ -45,4 +45,13 @@ describe('App Component', () => {
     expect(activeStep?.textContent).toContain('1');
     expect(activeStep?.textContent).toContain('Upload HTML');
   });
+  
+  test('switches to Markdown input from the upload toggle', () => {
+    render(<App />);
+    
+    fireEvent.click(screen.getByText('Write Markdown'));
+    
+    expect(screen.getByText('Write Markdown')).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByTestId('markdown-textarea')).toBeInTheDocument();
+  });
 });
\ No newline at end of file
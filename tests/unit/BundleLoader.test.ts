@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import JSZip from 'jszip';
+import { BundleLoader, BundleError, VirtualFileSystem } from '../../src/services/bundle';
+
+const encode = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+// GIF file signature ("GIF89a")
+const PIXEL = Uint8Array.from([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]);
+const PIXEL_DATA_URL = 'data:image/gif;base64,R0lGODlh';
+
+describe('VirtualFileSystem', () => {
+  let fileSystem: VirtualFileSystem;
+  
+  beforeEach(() => {
+    fileSystem = new VirtualFileSystem();
+    fileSystem.addFile('index.html', encode('<html></html>'));
+    fileSystem.addFile('images/logo.gif', PIXEL);
+    fileSystem.addFile('css/site.css', encode('body {}'));
+  });
+  
+  it('should resolve references relative to the referencing file', () => {
+    expect(fileSystem.resolve('index.html', 'images/logo.gif')).toBe('images/logo.gif');
+    expect(fileSystem.resolve('index.html', './images/logo.gif?v=2#top')).toBe('images/logo.gif');
+    expect(fileSystem.resolve('css/site.css', '../images/logo.gif')).toBe('images/logo.gif');
+  });
+  
+  it('should not resolve absolute URLs, anchors or missing files', () => {
+    expect(fileSystem.resolve('index.html', 'https://example.com/images/logo.gif')).toBeNull();
+    expect(fileSystem.resolve('index.html', '//cdn.example.com/logo.gif')).toBeNull();
+    expect(fileSystem.resolve('index.html', PIXEL_DATA_URL)).toBeNull();
+    expect(fileSystem.resolve('index.html', '#section')).toBeNull();
+    expect(fileSystem.resolve('index.html', 'images/missing.png')).toBeNull();
+  });
+  
+  it('should resolve original URLs and cid: aliases of web archive parts', () => {
+    fileSystem.addFile('parts/0/report.html', encode('<html></html>'), { url: 'https://example.com/articles/report.html' });
+    fileSystem.addFile('parts/1/chart', PIXEL, { url: 'https://example.com/images/chart', mimeType: 'image/gif' });
+    fileSystem.addAlias('cid:chart@archive', 'parts/1/chart');
+    
+    expect(fileSystem.resolve('parts/0/report.html', '../images/chart')).toBe('parts/1/chart');
+    expect(fileSystem.resolve('parts/0/report.html', 'https://example.com/images/chart#x')).toBe('parts/1/chart');
+    expect(fileSystem.resolve('parts/0/report.html', 'cid:chart@archive')).toBe('parts/1/chart');
+    expect(fileSystem.resolve('parts/0/report.html', 'https://example.com/other.png')).toBeNull();
+    expect(fileSystem.getFile('parts/1/chart')?.mimeType).toBe('image/gif');
+  });
+  
+  it('should encode files as data URLs with their MIME type', () => {
+    expect(fileSystem.toDataUrl('images/logo.gif')).toBe(PIXEL_DATA_URL);
+    expect(fileSystem.toDataUrl('missing.png')).toBeUndefined();
+    
+    fileSystem.addFile('notes.txt', encode('ab'));
+    expect(fileSystem.toDataUrl('notes.txt')).toBe('data:text/plain;base64,YWI=');
+  });
+});
+
+describe('BundleLoader', () => {
+  let bundleLoader: BundleLoader;
+  
+  beforeEach(() => {
+    bundleLoader = new BundleLoader();
+  });
+  
+  describe('loadZip', () => {
+    it('should extract files and remove a shared root folder', async () => {
+      const zip = new JSZip();
+      zip.file('export/index.html', '<html><body></body></html>');
+      zip.file('export/images/logo.gif', PIXEL);
+      zip.file('__MACOSX/export/._index.html', 'metadata');
+      
+      const fileSystem = await bundleLoader.loadZip(await zip.generateAsync({ type: 'uint8array' }));
+      
+      expect(fileSystem.listFiles().sort()).toEqual(['images/logo.gif', 'index.html']);
+      expect(fileSystem.getFile('images/logo.gif')?.data).toEqual(PIXEL);
+    });
+    
+    it('should throw a BundleError for data that is not a ZIP archive', async () => {
+      await expect(bundleLoader.loadZip(encode('not a zip'))).rejects.toThrow(BundleError);
+    });
+  });
+  
+  describe('loadFiles', () => {
+    it('should read dropped folder files by their relative path', async () => {
+      const fileSystem = await bundleLoader.loadFiles([
+        { path: '/site/page.html', file: new Blob(['<html></html>']) },
+        { path: '/site/img/a.gif', file: new Blob([PIXEL]) }
+      ]);
+      
+      expect(fileSystem.listFiles().sort()).toEqual(['img/a.gif', 'page.html']);
+    });
+  });
+  
+  describe('findEntryPage', () => {
+    it('should prefer index.html and otherwise the shallowest HTML file', () => {
+      const fileSystem = new VirtualFileSystem();
+      fileSystem.addFile('docs/chapter.html', encode(''));
+      fileSystem.addFile('about.html', encode(''));
+      
+      expect(bundleLoader.findEntryPage(fileSystem)).toBe('about.html');
+      
+      fileSystem.addFile('index.html', encode(''));
+      expect(bundleLoader.findEntryPage(fileSystem)).toBe('index.html');
+    });
+    
+    it('should return null when the bundle has no HTML file', () => {
+      const fileSystem = new VirtualFileSystem();
+      fileSystem.addFile('logo.gif', PIXEL);
+      
+      expect(bundleLoader.findEntryPage(fileSystem)).toBeNull();
+    });
+  });
+  
+  describe('bundleToHTML', () => {
+    it('should inline images, stylesheets and CSS url() references as data URLs', () => {
+      const fileSystem = new VirtualFileSystem();
+      fileSystem.addFile('index.html', encode(`
+        <html>
+          <head><link rel="stylesheet" href="css/site.css"></head>
+          <body>
+            <img src="images/logo.gif" alt="Logo">
+            <img src="https://example.com/remote.png" alt="Remote">
+            <div style="background: url('images/logo.gif')"></div>
+          </body>
+        </html>
+      `));
+      fileSystem.addFile('css/site.css', encode('h1 { background-image: url(../images/logo.gif); }'));
+      fileSystem.addFile('images/logo.gif', PIXEL);
+      
+      const html = bundleLoader.bundleToHTML(fileSystem);
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      
+      expect(doc.querySelector('link')).toBeNull();
+      expect(doc.querySelector('style')?.textContent).toBe(`h1 { background-image: url("${PIXEL_DATA_URL}"); }`);
+      expect(doc.querySelector('img[alt="Logo"]')?.getAttribute('src')).toBe(PIXEL_DATA_URL);
+      expect(doc.querySelector('img[alt="Remote"]')?.getAttribute('src')).toBe('https://example.com/remote.png');
+      expect(doc.querySelector('div')?.getAttribute('style')).toContain(PIXEL_DATA_URL);
+    });
+    
+    it('should resolve references relative to a page in a subfolder', () => {
+      const fileSystem = new VirtualFileSystem();
+      fileSystem.addFile('pages/report.html', encode('<html><body><img src="../images/logo.gif"></body></html>'));
+      fileSystem.addFile('images/logo.gif', PIXEL);
+      
+      const html = bundleLoader.bundleToHTML(fileSystem, 'pages/report.html');
+      
+      expect(html).toContain(`src="${PIXEL_DATA_URL}"`);
+    });
+    
+    it('should throw a BundleError when the bundle has no HTML page', () => {
+      const fileSystem = new VirtualFileSystem();
+      fileSystem.addFile('logo.gif', PIXEL);
+      
+      expect(() => bundleLoader.bundleToHTML(fileSystem)).toThrow(BundleError);
+    });
+  });
+});
\ No newline at end of file
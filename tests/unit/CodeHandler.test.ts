@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CodeHandler } from '../../src/services/conversion/CodeHandler';
+
+describe('CodeHandler', () => {
+  let codeHandler: CodeHandler;
+  
+  beforeEach(() => {
+    codeHandler = new CodeHandler();
+  });
+  
+  describe('isSupportedLanguage', () => {
+    it('should accept language names and aliases', () => {
+      expect(codeHandler.isSupportedLanguage('javascript')).toBe(true);
+      expect(codeHandler.isSupportedLanguage('TS')).toBe(true);
+      expect(codeHandler.isSupportedLanguage('c++')).toBe(true);
+      expect(codeHandler.isSupportedLanguage('brainfuck')).toBe(false);
+      expect(codeHandler.isSupportedLanguage(undefined)).toBe(false);
+    });
+  });
+  
+  describe('tokenize', () => {
+    it('should find keywords, strings, comments and numbers', () => {
+      const tokens = codeHandler.tokenize('const x = "a // b"; // note\nreturn 42;', 'js');
+      
+      expect(tokens).toEqual([
+        { text: 'const', type: 'keyword' },
+        { text: ' x = ', type: 'plain' },
+        { text: '"a // b"', type: 'string' },
+        { text: '; ', type: 'plain' },
+        { text: '// note', type: 'comment' },
+        { text: '\n', type: 'plain' },
+        { text: 'return', type: 'keyword' },
+        { text: ' ', type: 'plain' },
+        { text: '42', type: 'number' },
+        { text: ';', type: 'plain' }
+      ]);
+    });
+    
+    it('should not treat keywords inside identifiers or digits inside names as tokens', () => {
+      const tokens = codeHandler.tokenize('format_if = value2', 'python');
+      
+      expect(tokens).toEqual([{ text: 'format_if = value2', type: 'plain' }]);
+    });
+    
+    it('should keep block comments and triple-quoted strings across lines', () => {
+      expect(codeHandler.tokenize('/* a\nb */x', 'c')[0]).toEqual({ text: '/* a\nb */', type: 'comment' });
+      expect(codeHandler.tokenize('s = """one\ntwo"""', 'py')[1]).toEqual({ text: '"""one\ntwo"""', type: 'string' });
+    });
+    
+    it('should respect escaped quotes and end unterminated strings at the line end', () => {
+      expect(codeHandler.tokenize("'it\\'s' x", 'js')[0]).toEqual({ text: "'it\\'s'", type: 'string' });
+      expect(codeHandler.tokenize('"open\nif', 'js').map(token => token.type)).toEqual(['string', 'plain', 'keyword']);
+    });
+    
+    it('should match keywords of case-insensitive languages in any case', () => {
+      const tokens = codeHandler.tokenize('SELECT name FROM users -- all', 'sql');
+      
+      expect(tokens.filter(token => token.type === 'keyword').map(token => token.text)).toEqual(['SELECT', 'FROM']);
+      expect(tokens[tokens.length - 1]).toEqual({ text: '-- all', type: 'comment' });
+    });
+    
+    it('should return the code as a single plain token for unknown languages', () => {
+      expect(codeHandler.tokenize('if x then y', 'unknown')).toEqual([{ text: 'if x then y', type: 'plain' }]);
+      expect(codeHandler.tokenize('', 'js')).toEqual([]);
+    });
+  });
+  
+  describe('highlight', () => {
+    it('should color the runs and break after each source line', () => {
+      const runs = codeHandler.highlight('# setup\n\nimport os', 'python');
+      
+      expect(runs).toEqual([
+        { text: '# setup', color: '8C8C8C', italic: true },
+        { text: '', breakLine: true },
+        { text: '', breakLine: true },
+        { text: 'import', color: '0033B3', bold: true },
+        { text: ' os' }
+      ]);
+    });
+    
+    it('should keep the indentation of each line', () => {
+      const runs = codeHandler.highlight('if (a) {\n    b();\n}', 'js');
+      
+      expect(runs.map(run => run.text).join('')).toBe('if (a) {    b();}');
+      expect(runs.find(run => run.text.startsWith('    '))).toBeDefined();
+      expect(runs.filter(run => run.breakLine)).toHaveLength(2);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import ConversionProgress from '../../src/components/conversion/ConversionProgress';
+import { ConversionConfig, PresentationTheme, SlideLayout, SplitStrategy } from '../../src/models';
+
+describe('ConversionProgress Component', () => {
+  const config: ConversionConfig = {
+    slideLayout: SlideLayout.WIDE,
+    includeImages: true,
+    theme: PresentationTheme.DEFAULT,
+    splitSections: SplitStrategy.BY_H2,
+    preserveLinks: true,
+    customStyles: {}
+  };
+  const parsed = { raw: '<h2>Intro</h2>', sections: [], resources: {} };
+  const blob = new Blob(['pptx']);
+  
+  const htmlParser = { parseHTML: vi.fn() };
+  const slideCreator = {
+    createSlides: vi.fn(),
+    createSlideFromSection: vi.fn(),
+    getWarnings: vi.fn()
+  };
+  const pptxGenerator = { savePresentation: vi.fn() } as any;
+  
+  beforeEach(() => {
+    vi.clearAllMocks();
+    htmlParser.parseHTML.mockReturnValue(parsed);
+    slideCreator.createSlides.mockResolvedValue({ slides: [] });
+    slideCreator.getWarnings.mockReturnValue([]);
+    pptxGenerator.savePresentation.mockResolvedValue(blob);
+    URL.createObjectURL = vi.fn(() => 'blob:presentation');
+    URL.revokeObjectURL = vi.fn();
+  });
+  
+  const renderProgress = (onConverted = vi.fn()) => render(
+    <ConversionProgress
+      htmlContent="<h2>Intro</h2>"
+      config={config}
+      onConverted={onConverted}
+      htmlParser={htmlParser as any}
+      slideCreator={slideCreator}
+      pptxGenerator={pptxGenerator}
+    />
+  );
+  
+  it('converts the content and offers the presentation for download', async () => {
+    const onConverted = vi.fn();
+    renderProgress(onConverted);
+    
+    fireEvent.click(screen.getByText('Convert to PPTX'));
+    
+    expect(await screen.findByText('Your presentation is ready.')).toBeInTheDocument();
+    expect(htmlParser.parseHTML).toHaveBeenCalledWith('<h2>Intro</h2>', SplitStrategy.BY_H2, undefined);
+    expect(slideCreator.createSlides).toHaveBeenCalledWith(parsed, config);
+    expect(screen.getByText('Download presentation')).toHaveAttribute('href', 'blob:presentation');
+    expect(screen.queryByText('Warnings')).not.toBeInTheDocument();
+    expect(onConverted).toHaveBeenCalledWith({ blob, warnings: [] });
+  });
+  
+  it('shows the warnings collected while creating the slides', async () => {
+    slideCreator.getWarnings.mockReturnValue(['Link to "#missing" does not match any element']);
+    renderProgress();
+    
+    fireEvent.click(screen.getByText('Convert to PPTX'));
+    
+    expect(await screen.findByText('Warnings')).toBeInTheDocument();
+    expect(screen.getByText('Link to "#missing" does not match any element')).toBeInTheDocument();
+  });
+  
+  it('reports conversion errors', async () => {
+    slideCreator.createSlides.mockRejectedValue(new Error('Broken table'));
+    renderProgress();
+    
+    fireEvent.click(screen.getByText('Convert to PPTX'));
+    
+    expect(await screen.findByRole('alert')).toHaveTextContent('Error converting content: Broken table');
+    expect(screen.queryByText('Your presentation is ready.')).not.toBeInTheDocument();
+  });
+});
\ No newline at end of file
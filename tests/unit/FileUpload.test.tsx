@@ -2,13 +2,15 @@ import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { vi, describe, test, expect, beforeEach } from 'vitest';
 import FileUpload from '../../src/components/upload/FileUpload';
+import { VirtualFileSystem } from '../../src/services/bundle';
 
 // Mock react-dropzone
 vi.mock('react-dropzone', () => {
   return {
-    useDropzone: ({ onDropAccepted, onDropRejected }) => {
-      // Store the callbacks for direct access in tests
-      (global as any).mockDropzoneCallbacks = { onDropAccepted, onDropRejected };
+    useDropzone: (options) => {
+      // Store the options and callbacks for direct access in tests
+      (global as any).mockDropzoneOptions = options;
+      (global as any).mockDropzoneCallbacks = { onDrop: options.onDrop };
       
       return {
         getRootProps: () => ({
@@ -36,8 +38,8 @@ describe('FileUpload Component', () => {
   test('renders the file upload component', () => {
     render(<FileUpload onFileAccepted={onFileAcceptedMock} onError={onErrorMock} />);
     
-    expect(screen.getByText(/Drag and drop your HTML file here/i)).toBeInTheDocument();
-    expect(screen.getByText(/Only .html and .htm files are accepted/i)).toBeInTheDocument();
+    expect(screen.getByText(/Drag and drop your HTML file, web archive, ZIP bundle or folder here/i)).toBeInTheDocument();
+    expect(screen.getByText(/Accepts .html, .htm and .md files/i)).toBeInTheDocument();
   });
 
   test('handles file size validation', async () => {
@@ -50,11 +52,8 @@ describe('FileUpload Component', () => {
 
     render(<FileUpload onFileAccepted={onFileAcceptedMock} onError={onErrorMock} />);
     
-    // Directly call the onDropRejected callback with a file size error
-    (global as any).mockDropzoneCallbacks.onDropRejected([{
-      file,
-      errors: [{ code: 'file-too-large', message: 'File is too large' }]
-    }]);
+    // Directly call the handleFileRead function by simulating a drop
+    (global as any).mockDropzoneCallbacks.onDrop([file], []);
     
     await waitFor(() => {
       expect(onErrorMock).toHaveBeenCalledWith(expect.stringContaining('File size exceeds'));
@@ -68,7 +67,7 @@ describe('FileUpload Component', () => {
     render(<FileUpload onFileAccepted={onFileAcceptedMock} onError={onErrorMock} />);
     
     // Directly call the handleFileRead function by simulating a drop
-    (global as any).mockDropzoneCallbacks.onDropAccepted([file]);
+    (global as any).mockDropzoneCallbacks.onDrop([file], []);
     
     await waitFor(() => {
       expect(onErrorMock).toHaveBeenCalledWith(expect.stringContaining('valid HTML file'));
@@ -85,7 +84,7 @@ describe('FileUpload Component', () => {
     render(<FileUpload onFileAccepted={onFileAcceptedMock} onError={onErrorMock} />);
     
     // Directly call the handleFileRead function by simulating a drop
-    (global as any).mockDropzoneCallbacks.onDropAccepted([file]);
+    (global as any).mockDropzoneCallbacks.onDrop([file], []);
     
     await waitFor(() => {
       expect(onErrorMock).toHaveBeenCalledWith(expect.stringContaining('valid HTML content'));
@@ -103,10 +102,135 @@ describe('FileUpload Component', () => {
     render(<FileUpload onFileAccepted={onFileAcceptedMock} onError={onErrorMock} />);
     
     // Directly call the handleFileRead function by simulating a drop
-    (global as any).mockDropzoneCallbacks.onDropAccepted([file]);
+    (global as any).mockDropzoneCallbacks.onDrop([file], []);
     
     await waitFor(() => {
       expect(onFileAcceptedMock).toHaveBeenCalledWith(validHTML);
     });
   });
+  
+  test('only offers supported file types', () => {
+    render(<FileUpload onFileAccepted={onFileAcceptedMock} onError={onErrorMock} />);
+    
+    const extensions = Object.values((global as any).mockDropzoneOptions.accept).flat();
+    expect(extensions).toEqual(expect.arrayContaining(['.html', '.htm', '.zip', '.mhtml', '.mht']));
+    expect((global as any).mockDropzoneOptions.maxSize).toBeUndefined();
+  });
+  
+  test('rejects unsupported files', async () => {
+    const file = new File(['png'], 'logo.png', { type: 'image/png' });
+    
+    render(<FileUpload onFileAccepted={onFileAcceptedMock} onError={onErrorMock} />);
+    
+    (global as any).mockDropzoneCallbacks.onDrop([], [{
+      file,
+      errors: [{ code: 'file-invalid-type', message: 'File type must be text/html' }]
+    }]);
+    
+    await waitFor(() => {
+      expect(onErrorMock).toHaveBeenCalledWith(expect.stringContaining('valid HTML file'));
+    });
+  });
+  
+  test('does not treat several files from different folders as a bundle', async () => {
+    const bundleLoader = {
+      loadZip: vi.fn(),
+      loadFiles: vi.fn(),
+      findEntryPage: vi.fn(),
+      bundleToHTML: vi.fn()
+    };
+    const first = Object.assign(new File(['<html></html>'], 'a.html', { type: 'text/html' }), { path: './a.html' });
+    const second = Object.assign(new File(['<html></html>'], 'b.html', { type: 'text/html' }), { path: './b.html' });
+    
+    render(<FileUpload onFileAccepted={onFileAcceptedMock} onError={onErrorMock} bundleLoader={bundleLoader} />);
+    
+    (global as any).mockDropzoneCallbacks.onDrop([first, second], []);
+    
+    await waitFor(() => {
+      expect(onErrorMock).toHaveBeenCalledWith(expect.stringContaining('single file'));
+    });
+    expect(bundleLoader.loadFiles).not.toHaveBeenCalled();
+  });
+  
+  test('accepts a ZIP bundle and passes the inlined HTML', async () => {
+    const bundleHTML = '<!DOCTYPE html>\n<html><body><img src="data:image/png;base64,AAAA"></body></html>';
+    const fileSystem = new VirtualFileSystem();
+    const bundleLoader = {
+      loadZip: vi.fn().mockResolvedValue(fileSystem),
+      loadFiles: vi.fn(),
+      findEntryPage: vi.fn(),
+      bundleToHTML: vi.fn().mockReturnValue(bundleHTML)
+    };
+    const file = new File(['zip'], 'export.zip', { type: 'application/zip' });
+    
+    render(<FileUpload onFileAccepted={onFileAcceptedMock} onError={onErrorMock} bundleLoader={bundleLoader} />);
+    
+    (global as any).mockDropzoneCallbacks.onDrop([file], []);
+    
+    await waitFor(() => {
+      expect(bundleLoader.loadZip).toHaveBeenCalledWith(file);
+      expect(bundleLoader.bundleToHTML).toHaveBeenCalledWith(fileSystem);
+      expect(onFileAcceptedMock).toHaveBeenCalledWith(bundleHTML);
+    });
+  });
+  
+  test('reads a dropped folder with its relative paths', async () => {
+    const bundleHTML = '<html><body><h1>Folder</h1></body></html>';
+    const fileSystem = new VirtualFileSystem();
+    const bundleLoader = {
+      loadZip: vi.fn(),
+      loadFiles: vi.fn().mockResolvedValue(fileSystem),
+      findEntryPage: vi.fn(),
+      bundleToHTML: vi.fn().mockReturnValue(bundleHTML)
+    };
+    const page = Object.assign(new File(['<html></html>'], 'index.html', { type: 'text/html' }), { path: '/site/index.html' });
+    const image = Object.assign(new File(['png'], 'logo.png', { type: 'image/png' }), { path: '/site/images/logo.png' });
+    
+    render(<FileUpload onFileAccepted={onFileAcceptedMock} onError={onErrorMock} bundleLoader={bundleLoader} />);
+    
+    // The image does not match the accepted types, but belongs to the dropped folder
+    (global as any).mockDropzoneCallbacks.onDrop([page], [{
+      file: image,
+      errors: [{ code: 'file-invalid-type', message: 'File type must be text/html' }]
+    }]);
+    
+    await waitFor(() => {
+      expect(bundleLoader.loadFiles).toHaveBeenCalledWith([
+        { path: 'site/index.html', file: page },
+        { path: 'site/images/logo.png', file: image }
+      ]);
+      expect(onFileAcceptedMock).toHaveBeenCalledWith(bundleHTML);
+    });
+  });
+  
+  test('accepts an MHTML archive and passes the unpacked HTML', async () => {
+    const archive = 'Content-Type: multipart/related; boundary="b"\n\n--b\nContent-Type: text/html\n\n<html><body><h1>Archive</h1></body></html>\n--b--';
+    const file = new File([archive], 'page.mhtml', { type: '' });
+    file.text = vi.fn().mockResolvedValue(archive);
+    
+    render(<FileUpload onFileAccepted={onFileAcceptedMock} onError={onErrorMock} />);
+    
+    (global as any).mockDropzoneCallbacks.onDrop([file], []);
+    
+    await waitFor(() => {
+      expect(onFileAcceptedMock).toHaveBeenCalledWith(expect.stringContaining('<h1>Archive</h1>'));
+    });
+  });
+  
+  test('converts Markdown files and passes the front matter settings', async () => {
+    const markdown = '---\ntheme: minimal\n---\n# Notes\n\n- [x] done';
+    const file = new File([markdown], 'notes.md', { type: 'text/markdown' });
+    file.text = vi.fn().mockResolvedValue(markdown);
+    
+    render(<FileUpload onFileAccepted={onFileAcceptedMock} onError={onErrorMock} />);
+    
+    (global as any).mockDropzoneCallbacks.onDrop([file], []);
+    
+    await waitFor(() => {
+      expect(onFileAcceptedMock).toHaveBeenCalledWith(
+        expect.stringContaining('<h1>Notes</h1>'),
+        { theme: 'MINIMAL' }
+      );
+    });
+  });
 });
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { HTMLParser, HTMLParsingError } from '../../src/services/parser';
 import { SplitStrategy } from '../../src/models';
+import { parseSvg, readSvgDataUrl } from '../../src/utils/svg';
 
 describe('HTMLParser', () => {
   const parser = new HTMLParser();
@@ -11,6 +12,15 @@ describe('HTMLParser', () => {
       expect(parser.validateHTML(validHTML)).toBe(true);
     });
     
+    it('should return true for HTML with closed style and script elements', () => {
+      const html = '<html><head><style>h1 { color: red; }</style><script>var a = 1;</script></head><body><h1>Hello</h1></body></html>';
+      expect(parser.validateHTML(html)).toBe(true);
+    });
+    
+    it('should return false for an unclosed style element', () => {
+      expect(parser.validateHTML('<html><head><style>h1 { color: red; }</head><body><h1>Hello</h1></body></html>')).toBe(false);
+    });
+    
     it('should return true for HTML fragment', () => {
       const htmlFragment = '<div><h1>Hello World</h1><p>This is a test</p></div>';
       expect(parser.validateHTML(htmlFragment)).toBe(true);
@@ -122,6 +132,499 @@ describe('HTMLParser', () => {
       expect(elementTypes).toContain('table');
       expect(elementTypes).toContain('list');
     });
+    
+    it('should move speaker notes out of the slide content', () => {
+      const html = `
+        <html>
+          <body>
+            <h1>Intro</h1>
+            <p>Visible text</p>
+            <aside class="notes">
+              <p>Greet the audience.</p>
+              <p>Mention the agenda.</p>
+            </aside>
+            <!-- notes: Keep it short -->
+            <h1>Details</h1>
+            <div data-notes="Skip if late"></div>
+            <p>More text</p>
+          </body>
+        </html>
+      `;
+      
+      const result = parser.parseHTML(html);
+      
+      expect(result.sections[0].notes).toBe('Greet the audience.\nMention the agenda.\n\nKeep it short');
+      expect(result.sections[1].notes).toBe('Skip if late');
+      expect(result.sections[0].elements.map(el => el.content.content)).toEqual(['Visible text']);
+      expect(result.resources.texts.map(text => text.content)).not.toContain('Greet the audience.');
+    });
+  });
+  
+  describe('extractElements', () => {
+    it('should extract elements in document order', () => {
+      const html = `
+        <html>
+          <body>
+            <p>Intro paragraph</p>
+            <table>
+              <tr><th>Header 1</th></tr>
+              <tr><td>Cell 1</td></tr>
+            </table>
+            <img src="figure.png" alt="Figure">
+            <ul><li>Item 1</li></ul>
+            <p>Closing paragraph</p>
+          </body>
+        </html>
+      `;
+      
+      const parser = new DOMParser();
+      const doc = parser.parseFromString(html, 'text/html');
+      const elements = new HTMLParser().extractElements(doc);
+      
+      expect(elements.map(el => el.type)).toEqual(['text', 'table', 'image', 'list', 'text']);
+      expect(elements[0].content.content).toBe('Intro paragraph');
+      expect(elements[4].content.content).toBe('Closing paragraph');
+    });
+    
+    it('should extract preformatted code with its indentation and language', () => {
+      const html = '<p>Example</p><pre><code class="hljs language-Python">def f():\n\treturn 1\n</code></pre><pre>plain\n  text</pre>';
+      
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      const elements = new HTMLParser().extractElements(doc);
+      
+      expect(elements.map(el => el.type)).toEqual(['text', 'code', 'code']);
+      expect(elements[1].content).toEqual({ code: 'def f():\n    return 1', language: 'python' });
+      expect(elements[2].content).toEqual({ code: 'plain\n  text' });
+    });
+    
+    it('should extract blockquotes with their attribution', () => {
+      const html = `
+        <blockquote cite="https://example.com/talk">
+          <p>First <em>line</em></p>
+          <p>Second line</p>
+          <footer>— <cite>Ada Lovelace</cite></footer>
+        </blockquote>
+        <blockquote><p>Short</p><p>– <cite>Someone</cite></p></blockquote>
+        <figure>
+          <blockquote>Pull quote with <cite>a book</cite></blockquote>
+          <figcaption>Jane Doe</figcaption>
+        </figure>
+      `;
+      
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      const elements = new HTMLParser().extractElements(doc);
+      
+      expect(elements.map(el => el.type)).toEqual(['quote', 'quote', 'quote']);
+      expect(elements[0].content).toMatchObject({
+        text: 'First line\nSecond line',
+        attribution: 'Ada Lovelace',
+        source: 'https://example.com/talk'
+      });
+      expect(elements[0].content.runs).toContainEqual(expect.objectContaining({ text: 'line', italic: true }));
+      expect(elements[1].content).toMatchObject({ text: 'Short', attribution: 'Someone' });
+      expect(elements[2].content).toMatchObject({ text: 'Pull quote with a book', attribution: 'Jane Doe' });
+    });
+    
+    it('should keep the other content of a figure that also holds a blockquote', () => {
+      const html = `
+        <figure>
+          <blockquote>Quoted finding</blockquote>
+          <p>Supporting detail</p>
+          <img src="chart.png" alt="Chart">
+          <figcaption>Figure 2</figcaption>
+        </figure>
+      `;
+      
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      const elements = new HTMLParser().extractElements(doc);
+      
+      expect(elements.map(el => el.type)).toEqual(['quote', 'text', 'image']);
+      expect(elements[0].content).toMatchObject({ text: 'Quoted finding' });
+      expect(elements[0].content.attribution).toBeUndefined();
+      expect(elements[1].content.content).toBe('Supporting detail');
+      expect(elements[2].caption).toBe('Figure 2');
+      expect(elements[2].content.caption).toBe('Figure 2');
+    });
+    
+    it('should attach figure and table captions to their element', () => {
+      const html = `
+        <figure>
+          <img src="chart.png" alt="Chart">
+          <figcaption>Figure 1:   Sales</figcaption>
+        </figure>
+        <figure><figcaption>Listing 1</figcaption><pre><code>x = 1</code></pre></figure>
+        <table><caption>Scores</caption><tr><th>Name</th></tr><tr><td>Ann</td></tr></table>
+        <figure><p>Just text</p><figcaption>Note</figcaption></figure>
+      `;
+      
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      const elements = new HTMLParser().extractElements(doc);
+      
+      expect(elements.map(el => el.type)).toEqual(['image', 'code', 'table', 'text', 'text']);
+      expect(elements[0].caption).toBe('Figure 1: Sales');
+      expect(elements[0].content.caption).toBe('Figure 1: Sales');
+      expect(elements[0].content.alt).toBe('Chart');
+      expect(elements[1].caption).toBe('Listing 1');
+      expect(elements[2].caption).toBe('Scores');
+      expect(elements.slice(3).map(el => el.content.content)).toEqual(['Just text', 'Note']);
+    });
+    
+    it('should assign increasing source indexes', () => {
+      const html = '<html><body><p>First</p><div><img src="a.png"></div><p>Second</p></body></html>';
+      
+      const parser = new DOMParser();
+      const doc = parser.parseFromString(html, 'text/html');
+      const elements = new HTMLParser().extractElements(doc);
+      
+      const indexes = elements.map(el => el.sourceIndex as number);
+      expect(indexes).toHaveLength(3);
+      expect([...indexes].sort((a, b) => a - b)).toEqual(indexes);
+      expect(new Set(indexes).size).toBe(indexes.length);
+    });
+    
+    it('should not extract table and list contents as separate elements', () => {
+      const html = `
+        <html>
+          <body>
+            <table><tr><td><p>Cell paragraph</p></td></tr></table>
+            <ul><li><a href="https://example.com">Item link</a></li></ul>
+          </body>
+        </html>
+      `;
+      
+      const parser = new DOMParser();
+      const doc = parser.parseFromString(html, 'text/html');
+      const elements = new HTMLParser().extractElements(doc);
+      
+      expect(elements.map(el => el.type)).toEqual(['table', 'list']);
+    });
+    
+    it('should keep document order in parsed sections', () => {
+      const html = `
+        <html>
+          <body>
+            <h1>Results</h1>
+            <p>Before the chart</p>
+            <img src="chart.png" alt="Chart">
+            <p>After the chart</p>
+          </body>
+        </html>
+      `;
+      
+      const result = parser.parseHTML(html);
+      const types = result.sections[0].elements.map(el => el.type);
+      
+      expect(types).toEqual(['text', 'image', 'text']);
+    });
+    
+    it('should keep inline formatting inside its parent block', () => {
+      const html = '<html><body><p>Revenue grew <strong>12%</strong> in <span>Q3</span></p></body></html>';
+      
+      const parser = new DOMParser();
+      const doc = parser.parseFromString(html, 'text/html');
+      const elements = new HTMLParser().extractElements(doc);
+      
+      expect(elements).toHaveLength(1);
+      expect(elements[0].type).toBe('text');
+      expect(elements[0].content.content).toBe('Revenue grew <strong>12%</strong> in <span>Q3</span>');
+    });
+    
+    it('should group loose inline content between blocks', () => {
+      const html = '<html><body><div>Intro <em>text</em><p>Paragraph</p>Trailing text</div></body></html>';
+      
+      const parser = new DOMParser();
+      const doc = parser.parseFromString(html, 'text/html');
+      const elements = new HTMLParser().extractElements(doc);
+      
+      expect(elements.map(el => el.content.content)).toEqual([
+        'Intro <em>text</em>',
+        'Paragraph',
+        'Trailing text'
+      ]);
+    });
+    
+    it('should exclude the heading used as the slide title', () => {
+      const html = '<html><body><h1>Overview</h1><h2>Details</h2><p>Body</p></body></html>';
+      
+      const parser = new DOMParser();
+      const doc = parser.parseFromString(html, 'text/html');
+      const elements = new HTMLParser().extractElements(doc, 'Overview');
+      
+      expect(elements.map(el => el.content.content)).toEqual(['Details', 'Body']);
+    });
+    
+    it('should emit a block containing only a hyperlink as a link element', () => {
+      const html = '<html><body><p><a href="https://example.com">Example</a></p><p>See <a href="https://example.com">this</a></p></body></html>';
+      
+      const parser = new DOMParser();
+      const doc = parser.parseFromString(html, 'text/html');
+      const elements = new HTMLParser().extractElements(doc);
+      
+      expect(elements.map(el => el.type)).toEqual(['link', 'text']);
+      expect(elements[0].content).toEqual({ text: 'Example', href: 'https://example.com' });
+    });
+    
+    it('should keep the images of a block containing only a hyperlink', () => {
+      const html = '<html><body><p><a href="https://example.com"><img src="logo.png" alt="Logo"> Example</a></p></body></html>';
+      
+      const parser = new DOMParser();
+      const doc = parser.parseFromString(html, 'text/html');
+      const elements = new HTMLParser().extractElements(doc);
+      
+      expect(elements.map(el => el.type)).toEqual(['text', 'image']);
+      expect(elements[0].content.runs).toContainEqual(expect.objectContaining({ link: 'https://example.com' }));
+      expect(elements[1].content).toMatchObject({ src: 'logo.png', alt: 'Logo' });
+    });
+  });
+  
+  describe('inline SVG', () => {
+    it('should place SVGs as images after their text and keep their text out of it', () => {
+      const html = `
+        <html>
+          <body>
+            <p>Status <svg width="32" viewBox="0 0 16 8"><text>OK</text></svg> is shown</p>
+            <figure>
+              <svg width="100" height="50"><rect width="100" height="50"/></svg>
+              <figcaption>Figure 2: Box</figcaption>
+            </figure>
+          </body>
+        </html>
+      `;
+      
+      const parser = new DOMParser();
+      const doc = parser.parseFromString(html, 'text/html');
+      const elements = new HTMLParser().extractElements(doc);
+      
+      expect(elements.map(element => element.type)).toEqual(['text', 'image', 'image']);
+      expect(elements[0].content.runs.map((run: any) => run.text).join('')).toBe('Status is shown');
+      expect(elements[1].content).toMatchObject({ width: 32, height: 16 });
+      expect(elements[2].content).toMatchObject({ width: 100, height: 50, caption: 'Figure 2: Box' });
+      expect(elements[2].caption).toBe('Figure 2: Box');
+    });
+  });
+  
+  describe('extractAnchors', () => {
+    it('should collect ids, named anchors and heading slugs', () => {
+      const html = `
+        <html>
+          <body>
+            <h2 id="intro">Intro</h2>
+            <p><a name="legacy"></a>Text</p>
+            <h3>Getting Started, Fast!</h3>
+          </body>
+        </html>
+      `;
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      
+      expect(new HTMLParser().extractAnchors(doc.body)).toEqual(['intro', 'legacy', 'getting-started-fast']);
+    });
+    
+    it('should attach the anchors inside an element to it', () => {
+      const html = `
+        <html>
+          <body>
+            <p>Intro <a name="start"></a>text</p>
+            <div id="box"><p>First</p><p id="second">Second</p></div>
+            <h2>Next Steps</h2>
+            <div id="empty"></div>
+          </body>
+        </html>
+      `;
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      const elements = new HTMLParser().extractElements(doc);
+      
+      expect(elements.map(element => element.anchors)).toEqual([['start'], ['box'], ['second'], ['next-steps']]);
+    });
+    
+    it('should attach the anchors to their section', () => {
+      const result = new HTMLParser().parseHTML('<h1>One</h1><p id="a">A</p><h1>Two</h1><p id="b">B</p>');
+      
+      expect(result.sections.map(section => section.anchors)).toEqual([['a', 'one'], ['b', 'two']]);
+    });
+  });
+  
+  describe('extractMetadata', () => {
+    it('should read title, meta and Open Graph tags', () => {
+      const html = `
+        <html>
+          <head>
+            <title>Page title</title>
+            <meta name="author" content="Dana Lee">
+            <meta name="description" content="Plain description">
+            <meta name="date" content="2024-05-01">
+            <meta name="keywords" content="sales, q1 ,, report">
+            <meta property="og:title" content="Shared title">
+            <meta property="og:site_name" content="Acme">
+          </head>
+          <body><p>Text</p></body>
+        </html>
+      `;
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      
+      expect(new HTMLParser().extractMetadata(doc)).toEqual({
+        title: 'Shared title',
+        author: 'Dana Lee',
+        description: 'Plain description',
+        date: '2024-05-01',
+        siteName: 'Acme',
+        keywords: ['sales', 'q1', 'report']
+      });
+    });
+    
+    it('should only set the fields present in the document', () => {
+      const doc = new DOMParser().parseFromString('<html><head><title> Report </title></head><body></body></html>', 'text/html');
+      
+      expect(new HTMLParser().extractMetadata(doc)).toEqual({ title: 'Report' });
+    });
+    
+    it('should read the document base URL', () => {
+      const doc = new DOMParser().parseFromString('<html><head><base href="https://example.com/docs/"></head><body></body></html>', 'text/html');
+      
+      expect(new HTMLParser().extractMetadata(doc).baseUrl).toBe('https://example.com/docs/');
+    });
+  });
+  
+  describe('slide decks', () => {
+    it('should import reveal.js slides one by one, including vertical stacks', () => {
+      const html = `
+        <div class="reveal"><div class="slides">
+          <section data-background-color="#123456">
+            <h2>Intro</h2>
+            <p class="fragment">Revealed later</p>
+            <aside class="notes">Welcome everyone</aside>
+          </section>
+          <section data-background-image="img/bg.jpg">
+            <section><h2>Down 1</h2><p>First</p></section>
+            <section data-background-color="rgb(255, 0, 0)"><h2>Down 2</h2><p>Second</p></section>
+          </section>
+          <section data-visibility="hidden"><h2>Hidden</h2></section>
+          <section><p>No heading</p></section>
+        </div></div>
+      `;
+      
+      const result = parser.parseHTML(html, SplitStrategy.BY_H2);
+      
+      expect(result.slideFramework).toBe('reveal');
+      expect(result.sections.map(section => section.title)).toEqual(['Intro', 'Down 1', 'Down 2', 'Untitled']);
+      expect(result.sections[0].notes).toBe('Welcome everyone');
+      expect(result.sections[0].background).toEqual({ color: '123456' });
+      expect(result.sections[0].elements.map(element => element.content.content)).toEqual(['Revealed later']);
+      expect(result.sections[1].background).toEqual({ image: 'img/bg.jpg' });
+      expect(result.sections[2].background).toEqual({ color: 'FF0000' });
+      expect(result.sections[3].background).toBeUndefined();
+    });
+    
+    it('should read named colors and image URLs in slide backgrounds', () => {
+      const html = `
+        <div class="reveal"><div class="slides">
+          <section data-background-color="rebeccapurple"><h2>One</h2></section>
+          <section data-background="black"><h2>Two</h2></section>
+          <section data-background="hsl(0, 100%, 50%)"><h2>Three</h2></section>
+          <section data-background="img/bg.png"><h2>Four</h2></section>
+          <section data-background="data:image/png;base64,AAAA"><h2>Five</h2></section>
+          <section data-background="not-a-color"><h2>Six</h2></section>
+        </div></div>
+      `;
+      
+      const result = parser.parseHTML(html);
+      
+      expect(result.sections.map(section => section.background)).toEqual([
+        { color: '663399' },
+        { color: '000000' },
+        { color: 'FF0000' },
+        { image: 'img/bg.png' },
+        { image: 'data:image/png;base64,AAAA' },
+        undefined
+      ]);
+    });
+    
+    it('should render inline reveal.js Markdown slides', () => {
+      const html = `
+        <div class="reveal"><div class="slides">
+          <section data-markdown>
+            <textarea data-template>
+              ## One
+              Text
+              
+              ---
+              
+              ## Two
+              Note: Say something
+            </textarea>
+          </section>
+        </div></div>
+      `;
+      
+      const result = parser.parseHTML(html);
+      
+      expect(result.sections.map(section => section.title)).toEqual(['One', 'Two']);
+      expect(result.sections[1].notes).toBe('Say something');
+    });
+    
+    it('should import impress.js steps with their notes', () => {
+      const html = `
+        <div id="impress">
+          <div class="step" data-x="0"><h1>First step</h1><div class="notes">Step notes</div></div>
+          <div class="step" data-x="1000"><p>Second step</p></div>
+        </div>
+      `;
+      
+      const result = parser.parseHTML(html);
+      
+      expect(result.slideFramework).toBe('impress');
+      expect(result.sections).toHaveLength(2);
+      expect(result.sections[0].title).toBe('First step');
+      expect(result.sections[0].notes).toBe('Step notes');
+      expect(result.sections[1].elements.map(element => element.content.content)).toEqual(['Second step']);
+    });
+    
+    it('should import Remark slides from the Markdown source', () => {
+      const html = `
+        <textarea id="source">
+class: center, middle
+background-image: url(cover.png)
+
+# Title
+
+---
+layout: true
+
+.footer[Company]
+
+---
+
+## Agenda
+- One
+--
+- Two
+
+???
+Keep it short
+
+---
+exclude: true
+
+## Draft
+</textarea>
+        <script src="https://remarkjs.com/downloads/remark-latest.min.js"></script>
+        <script>var slideshow = remark.create();</script>
+      `;
+      
+      const result = parser.parseHTML(html);
+      
+      expect(result.slideFramework).toBe('remark');
+      expect(result.sections.map(section => section.title)).toEqual(['Title', 'Agenda']);
+      expect(result.sections[0].background).toEqual({ image: 'cover.png' });
+      expect(result.sections[1].notes).toBe('Keep it short');
+      expect(result.sections[1].elements[0].content.items).toEqual(['One', 'Two']);
+    });
+    
+    it('should split ordinary documents by the strategy', () => {
+      const result = parser.parseHTML('<section><h1>A</h1></section><section><h1>B</h1></section>');
+      
+      expect(result.slideFramework).toBeUndefined();
+      expect(result.sections).toHaveLength(2);
+    });
   });
   
   describe('extractSections', () => {
@@ -176,14 +679,17 @@ describe('HTMLParser', () => {
       const doc = parser.parseFromString(html, 'text/html');
       const sections = new HTMLParser().extractSections(doc, SplitStrategy.BY_H2);
       
-      expect(sections).toHaveLength(2);
-      expect(sections[0].title).toBe('Section 1');
-      expect(sections[0].content).toContain('<h2>Section 1</h2>');
-      expect(sections[0].content).toContain('<p>Content for section 1</p>');
+      expect(sections).toHaveLength(3);
+      expect(sections[0].title).toBe('Main Title');
+      expect(sections[0].content).toContain('<p>Introduction</p>');
       
-      expect(sections[1].title).toBe('Section 2');
-      expect(sections[1].content).toContain('<h2>Section 2</h2>');
-      expect(sections[1].content).toContain('<p>Content for section 2</p>');
+      expect(sections[1].title).toBe('Section 1');
+      expect(sections[1].content).toContain('<h2>Section 1</h2>');
+      expect(sections[1].content).toContain('<p>Content for section 1</p>');
+      
+      expect(sections[2].title).toBe('Section 2');
+      expect(sections[2].content).toContain('<h2>Section 2</h2>');
+      expect(sections[2].content).toContain('<p>Content for section 2</p>');
     });
     
     it('should extract sections by custom selector', () => {
@@ -208,12 +714,162 @@ describe('HTMLParser', () => {
       const doc = parser.parseFromString(html, 'text/html');
       const sections = new HTMLParser().extractSections(doc, SplitStrategy.BY_CUSTOM_SELECTOR, '.slide-section');
       
-      expect(sections).toHaveLength(2);
-      expect(sections[0].content).toContain('Custom Section 1');
-      expect(sections[0].content).toContain('Content for custom section 1');
+      expect(sections).toHaveLength(3);
+      expect(sections[0].title).toBe('Untitled');
+      expect(sections[0].content).toContain('Introduction content');
+      
+      expect(sections[1].content).toContain('Custom Section 1');
+      expect(sections[1].content).toContain('Content for custom section 1');
+      
+      expect(sections[2].content).toContain('Custom Section 2');
+      expect(sections[2].content).toContain('Content for custom section 2');
+    });
+    
+    it('should keep content before the first H1 as its own section', () => {
+      const html = `
+        <html>
+          <body>
+            <main>
+              <p>Preface</p>
+              <h1>Chapter</h1>
+              <p>Body</p>
+            </main>
+          </body>
+        </html>
+      `;
+      
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      const sections = new HTMLParser().extractSections(doc, SplitStrategy.BY_H1);
+      
+      expect(sections.map(section => section.title)).toEqual(['Untitled', 'Chapter']);
+      expect(sections[0].content).toContain('<p>Preface</p>');
+      expect(sections[0].content).not.toContain('Chapter');
+    });
+    
+    it('should build chapter dividers and content sections with HIERARCHICAL strategy', () => {
+      const html = `
+        <html>
+          <body>
+            <p>Foreword</p>
+            <h1>Chapter 1</h1>
+            <p>Chapter intro</p>
+            <h2>Part A</h2>
+            <h3>Detail</h3>
+            <p>A text</p>
+            <h2>Part B</h2>
+            <p>B text</p>
+            <h1>Chapter 2</h1>
+            <h2>Part C</h2>
+          </body>
+        </html>
+      `;
+      
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      const sections = new HTMLParser().extractSections(doc, SplitStrategy.HIERARCHICAL);
+      
+      expect(sections.map(({ title, level, parentIndex }) => ({ title, level, parentIndex }))).toEqual([
+        { title: 'Untitled', level: undefined, parentIndex: undefined },
+        { title: 'Chapter 1', level: 1, parentIndex: undefined },
+        { title: 'Chapter 1', level: 2, parentIndex: 1 },
+        { title: 'Part A', level: 2, parentIndex: 1 },
+        { title: 'Part B', level: 2, parentIndex: 1 },
+        { title: 'Chapter 2', level: 1, parentIndex: undefined },
+        { title: 'Part C', level: 2, parentIndex: 5 }
+      ]);
+      expect(sections[1].content).toBe('<h1>Chapter 1</h1>');
+      expect(sections[2].content).toContain('Chapter intro');
+      expect(sections[3].content).toContain('<h3>Detail</h3>');
+      expect(sections[3].content).not.toContain('Part B');
+    });
+    
+    it('should split at horizontal rules, including rules inside containers', () => {
+      const html = `
+        <html>
+          <body>
+            <p>Opening remarks</p>
+            <hr>
+            <div class="content">
+              <h2>First</h2>
+              <p>One</p>
+              <hr>
+              <h2>Second</h2>
+              <p>Two &lt;3</p>
+            </div>
+            <hr>
+          </body>
+        </html>
+      `;
+      
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      const sections = new HTMLParser().extractSections(doc, SplitStrategy.BY_HR);
+      
+      expect(sections.map(section => section.title)).toEqual(['Untitled', 'First', 'Second']);
+      expect(sections[0].content).toContain('Opening remarks');
+      expect(sections[2].content).toContain('Two &lt;3');
+      expect(sections.some(section => section.content.includes('<hr'))).toBe(false);
+    });
+    
+    it('should split at slide comments and keep notes comments', () => {
+      const html = `
+        <html>
+          <body>
+            <h1>Intro</h1>
+            <!-- notes: say hello -->
+            <!-- slide -->
+            <h1>Next</h1>
+            <p>Text</p>
+          </body>
+        </html>
+      `;
+      
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      const sections = new HTMLParser().extractSections(doc, SplitStrategy.BY_SLIDE_COMMENT);
+      
+      expect(sections.map(section => section.title)).toEqual(['Intro', 'Next']);
+      expect(sections[0].content).toContain('<!-- notes: say hello -->');
+      expect(sections[1].content).not.toContain('slide');
+    });
+    
+    it('should start a new section at each data-slide-break element', () => {
+      const html = `
+        <html>
+          <body>
+            <p>Lead-in</p>
+            <div data-slide-break><h2>Break A</h2><p>A</p></div>
+            <p>Still A</p>
+            <h2 data-slide-break>Break B</h2>
+            <p>B</p>
+          </body>
+        </html>
+      `;
+      
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      const sections = new HTMLParser().extractSections(doc, SplitStrategy.BY_SLIDE_BREAK_ATTRIBUTE);
       
-      expect(sections[1].content).toContain('Custom Section 2');
-      expect(sections[1].content).toContain('Content for custom section 2');
+      expect(sections.map(section => section.title)).toEqual(['Untitled', 'Break A', 'Break B']);
+      expect(sections[1].content).toContain('Still A');
+    });
+    
+    it('should create a section for each innermost section element', () => {
+      const html = `
+        <html>
+          <body>
+            <header><h1>Deck</h1></header>
+            <section><h2>Solo</h2></section>
+            <section>
+              <section><h2>Stack 1</h2></section>
+              <section><h2>Stack 2</h2><aside class="notes">Only notes here</aside></section>
+              <section><aside class="notes">Only notes</aside></section>
+            </section>
+          </body>
+        </html>
+      `;
+      
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      const sections = new HTMLParser().extractSections(doc, SplitStrategy.BY_SECTION_ELEMENT);
+      
+      expect(sections.map(section => section.title)).toEqual(['Deck', 'Solo', 'Stack 1', 'Stack 2']);
+      expect(sections[3].content).toContain('Only notes here');
     });
     
     it('should create a single section with NO_SPLIT strategy', () => {
@@ -343,6 +999,34 @@ describe('HTMLParser', () => {
       
       expect(images).toHaveLength(0);
     });
+    
+    it('should serialize inline SVGs sized from their viewBox', () => {
+      const html = `
+        <html>
+          <body>
+            <svg style="display: none"><symbol id="dot"><circle r="5"/></symbol></svg>
+            <svg viewBox="0 0 400 200" aria-label="Logo"><use href="#dot"/><text>Label</text></svg>
+            <svg viewBox="0 0 50 100" height="40"><title>Arrow</title><path d="M0 0L50 100"/></svg>
+            <svg width="12" height="12" aria-hidden="true"><path d="M0 0"/></svg>
+          </body>
+        </html>
+      `;
+      
+      const parser = new DOMParser();
+      const doc = parser.parseFromString(html, 'text/html');
+      const images = new HTMLParser().extractImages(doc);
+      
+      expect(images).toHaveLength(2);
+      expect(images[0]).toMatchObject({ alt: 'Logo', width: 400, height: 200 });
+      expect(images[1]).toMatchObject({ alt: 'Arrow', width: 20, height: 40 });
+      expect(images[0].src).toBe(images[0].dataUrl);
+      
+      const svg = parseSvg(readSvgDataUrl(images[0].dataUrl!))!;
+      expect(svg.getAttribute('width')).toBe('400');
+      expect(svg.getAttribute('height')).toBe('200');
+      // The referenced symbol is copied into the standalone SVG
+      expect(svg.querySelector('symbol#dot circle')).not.toBeNull();
+    });
   });
   
   describe('extractTables', () => {
@@ -391,6 +1075,76 @@ describe('HTMLParser', () => {
       expect(tables[0].style.cellPadding).toBe('5');
     });
     
+    it('should record merged cells and multi-row headers', () => {
+      const html = `
+        <html>
+          <body>
+            <table>
+              <thead>
+                <tr><th rowspan="2">Name</th><th colspan="2">Scores</th></tr>
+                <tr><th>Math</th><th>Art</th></tr>
+              </thead>
+              <tbody>
+                <tr><td>Ann</td><td colspan="2">Absent</td></tr>
+              </tbody>
+            </table>
+          </body>
+        </html>
+      `;
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      
+      const [table] = new HTMLParser().extractTables(doc);
+      
+      expect(table.headers).toEqual(['Name', 'Scores']);
+      expect(table.additionalHeaderRows).toEqual([['Math', 'Art']]);
+      expect(table.rows).toEqual([['Ann', 'Absent']]);
+      expect(table.style!.headerDetails[0].map((cell: any) => [cell.colSpan, cell.rowSpan])).toEqual([[1, 2], [2, 1]]);
+      expect(table.style!.cellDetails[0][1].colSpan).toBe(2);
+    });
+    
+    it('should keep cell formatting, colors, alignment and row headers', () => {
+      const html = `
+        <html>
+          <body>
+            <table>
+              <tr><th>Metric</th><th>Value</th></tr>
+              <tr>
+                <th>Revenue</th>
+                <td bgcolor="#ffff00" style="color: rgb(255, 0, 0); text-align: right" valign="top"><b>42</b> M</td>
+              </tr>
+            </table>
+          </body>
+        </html>
+      `;
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      
+      const [table] = new HTMLParser().extractTables(doc);
+      const [rowHeader, value] = table.style!.cellDetails[0];
+      
+      expect(table.rows).toEqual([['Revenue', '42 M']]);
+      expect(rowHeader.header).toBe(true);
+      expect(rowHeader.runs).toBeUndefined();
+      expect(value).toMatchObject({ fill: 'FFFF00', color: 'FF0000', align: 'right', valign: 'top' });
+      expect(value.runs[0]).toEqual({ text: '42', bold: true });
+    });
+    
+    it('should read the requested chart type from data-chart', () => {
+      const html = `
+        <html>
+          <body>
+            <table data-chart="Line"><tr><th>Q</th><th>Sales</th></tr><tr><td>Q1</td><td>3</td></tr></table>
+            <table data-chart><tr><th>Q</th><th>Sales</th></tr><tr><td>Q1</td><td>3</td></tr></table>
+            <table data-chart="radar"><tr><th>Q</th><th>Sales</th></tr><tr><td>Q1</td><td>3</td></tr></table>
+          </body>
+        </html>
+      `;
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      
+      const tables = new HTMLParser().extractTables(doc);
+      
+      expect(tables.map(table => table.chartType)).toEqual(['line', 'bar', undefined]);
+    });
+    
     it('should handle tables without thead', () => {
       const html = `
         <html>
@@ -549,5 +1303,15 @@ describe('HTMLParser', () => {
       
       expect(lists).toHaveLength(0);
     });
+    
+    it('should render task list checkboxes as ballot boxes', () => {
+      const html = '<ul><li><input type="checkbox" disabled checked> Done</li><li><input type="checkbox" disabled> Open</li></ul>';
+      
+      const parser = new DOMParser();
+      const doc = parser.parseFromString(html, 'text/html');
+      const lists = new HTMLParser().extractLists(doc);
+      
+      expect(lists[0].items).toEqual(['\u2611 Done', '\u2610 Open']);
+    });
   });
 });
\ No newline at end of file
@@ -1,10 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ImageHandler, ImageHandlingError } from '../../src/services/conversion/ImageHandler';
 import { ImageResource, ImageProcessingOptions } from '../../src/models';
+import { parseSvg, readSvgDataUrl } from '../../src/utils/svg';
 
 // Mock canvas and context
 const mockContext = {
-  drawImage: vi.fn()
+  drawImage: vi.fn(),
+  // A single opaque pixel unless a test says otherwise
+  getImageData: vi.fn().mockReturnValue({ data: new Uint8ClampedArray([0, 0, 0, 255]) })
 };
 
 const mockCanvas = {
@@ -113,6 +116,95 @@ describe('ImageHandler', () => {
       await expect(imageHandler.processImage(imageResource))
         .rejects.toThrow(ImageHandlingError);
     });
+    
+    it('should embed supported images from their source when no resizing is needed', async () => {
+      const processedImage = await imageHandler.processImage({ src: 'https://example.com/logo.png?v=1', alt: '', width: 0, height: 0 });
+      
+      expect(processedImage.dataUrl).toBeUndefined();
+      expect(processedImage).toMatchObject({ width: 300, height: 200 });
+      expect(mockCanvas.toDataURL).not.toHaveBeenCalled();
+    });
+    
+    it('should convert WebP data URLs even when no resizing is needed', async () => {
+      mockContext.getImageData.mockReturnValueOnce({ data: new Uint8ClampedArray([0, 0, 0, 255, 0, 0, 0, 128]) });
+      mockCanvas.toDataURL.mockReturnValueOnce('data:image/png;base64,converted');
+      
+      const processedImage = await imageHandler.processImage({
+        src: 'icon.webp',
+        alt: '',
+        width: 300,
+        height: 200,
+        dataUrl: 'data:image/webp;base64,UklGRg=='
+      });
+      
+      expect(mockCanvas.toDataURL).toHaveBeenCalledWith('image/png');
+      expect(processedImage.dataUrl).toBe('data:image/png;base64,converted');
+    });
+    
+    it('should keep SVG data URLs as SVG sized from their viewBox', async () => {
+      const markup = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 800 400"><rect width="800" height="400"/></svg>';
+      const imageResource: ImageResource = {
+        src: 'logo.svg',
+        alt: 'Logo',
+        width: 300,
+        height: 200,
+        dataUrl: `data:image/svg+xml,${encodeURIComponent(markup)}`
+      };
+      
+      const processedImage = await imageHandler.processImage(imageResource, { maxWidth: 400, preserveAspectRatio: true, quality: 80 });
+      
+      expect(processedImage).toMatchObject({ width: 400, height: 200 });
+      expect(processedImage.dataUrl).toMatch(/^data:image\/svg\+xml;base64,/);
+      const svg = parseSvg(readSvgDataUrl(processedImage.dataUrl!))!;
+      expect(svg.getAttribute('width')).toBe('400');
+      expect(svg.getAttribute('height')).toBe('200');
+      expect(mockCanvas.toDataURL).not.toHaveBeenCalled();
+    });
+    
+    it('should load .svg files as SVG markup', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        text: () => Promise.resolve('<svg xmlns="http://www.w3.org/2000/svg" width="120" viewBox="0 0 30 10"/>')
+      });
+      vi.stubGlobal('fetch', fetchMock);
+      
+      try {
+        const processedImage = await imageHandler.processImage({ src: 'https://example.com/chart.svg?v=2', alt: '', width: 300, height: 200 });
+        
+        expect(fetchMock).toHaveBeenCalledWith('https://example.com/chart.svg?v=2');
+        expect(processedImage).toMatchObject({ width: 120, height: 40 });
+        expect(processedImage.dataUrl).toMatch(/^data:image\/svg\+xml;base64,/);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+    
+    it('should render .svg files to PNG through a canvas when their markup cannot be loaded', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockCanvas.toDataURL.mockReturnValueOnce('data:image/png;base64,rendered');
+      
+      try {
+        const processedImage = await imageHandler.processImage({ src: 'icon.svg', alt: '', width: 300, height: 200 });
+        
+        expect(mockCanvas.toDataURL).toHaveBeenCalledWith('image/png');
+        expect(processedImage).toMatchObject({ dataUrl: 'data:image/png;base64,rendered', width: 300, height: 200 });
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+    
+    it('should reject invalid SVG data', async () => {
+      const imageResource: ImageResource = {
+        src: 'broken.svg',
+        alt: '',
+        width: 300,
+        height: 200,
+        dataUrl: 'data:image/svg+xml,%3Cp%3Enot%20svg%3C%2Fp%3E'
+      };
+      
+      await expect(imageHandler.processImage(imageResource)).rejects.toThrow(ImageHandlingError);
+    });
   });
   
   describe('loadImageFromUrl', () => {
@@ -164,6 +256,23 @@ describe('ImageHandler', () => {
       expect(mockContext.drawImage).toHaveBeenCalledWith(image, 0, 0);
     });
     
+    it('should return data URLs unchanged when no resizing is needed', () => {
+      const image = new Image() as HTMLImageElement;
+      image.src = 'data:image/png;base64,iVBORw0KGgo=';
+      
+      expect(imageHandler.convertToDataUrl(image)).toBe('data:image/png;base64,iVBORw0KGgo=');
+      expect(mockCanvas.toDataURL).not.toHaveBeenCalled();
+    });
+    
+    it('should honor the quality option for JPEG images', () => {
+      const image = new Image() as HTMLImageElement;
+      image.src = 'photo.jpg';
+      
+      imageHandler.convertToDataUrl(image, { maxWidth: 100, preserveAspectRatio: true, quality: 50 });
+      
+      expect(mockCanvas.toDataURL).toHaveBeenCalledWith('image/jpeg', 0.5);
+    });
+    
     it('should resize the image if maxWidth or maxHeight is provided', () => {
       const image = new Image() as HTMLImageElement;
       image.naturalWidth = 300;
@@ -210,6 +319,32 @@ describe('ImageHandler', () => {
       expect(mockCanvas.height).toBe(150); // Aspect ratio not preserved
       expect(mockContext.drawImage).toHaveBeenCalledWith(image, 0, 0, 200, 150);
     });
+    
+    it('should keep PNG and GIF images as PNG to preserve transparency', () => {
+      const image = new Image() as HTMLImageElement;
+      
+      image.src = 'logo.png';
+      imageHandler.resizeImage(image, 200, 150);
+      image.src = 'data:image/gif;base64,R0lGODlh';
+      imageHandler.resizeImage(image, 200, 150);
+      
+      expect(mockCanvas.toDataURL).toHaveBeenNthCalledWith(1, 'image/png');
+      expect(mockCanvas.toDataURL).toHaveBeenNthCalledWith(2, 'image/png');
+      expect(mockContext.getImageData).not.toHaveBeenCalled();
+    });
+    
+    it('should encode WebP and AVIF images as PNG or JPEG depending on transparency', () => {
+      const image = new Image() as HTMLImageElement;
+      
+      image.src = 'photo.avif';
+      imageHandler.resizeImage(image, 200, 150, true, 60);
+      expect(mockCanvas.toDataURL).toHaveBeenLastCalledWith('image/jpeg', 0.6);
+      
+      mockContext.getImageData.mockReturnValueOnce({ data: new Uint8ClampedArray([0, 0, 0, 0]) });
+      image.src = 'badge.webp';
+      imageHandler.resizeImage(image, 200, 150, true, 60);
+      expect(mockCanvas.toDataURL).toHaveBeenLastCalledWith('image/png');
+    });
   });
   
   describe('calculateOptimalDimensions', () => {
@@ -0,0 +1,338 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LayoutEngine } from '../../src/services/conversion/LayoutEngine';
+import { SlideElement, SlideLayout, TextResource, ImageResource, TableResource, CodeResource } from '../../src/models';
+
+describe('LayoutEngine', () => {
+  let layoutEngine: LayoutEngine;
+  
+  beforeEach(() => {
+    layoutEngine = new LayoutEngine();
+  });
+  
+  describe('getContentArea', () => {
+    it('should use the slide size of the layout', () => {
+      expect(layoutEngine.getContentArea(SlideLayout.STANDARD)).toEqual({ x: 0.5, y: 1.5, w: 9, h: 5.5 });
+      expect(layoutEngine.getContentArea(SlideLayout.WIDE)).toEqual({ x: 0.5, y: 1.5, w: 9, h: 3.625 });
+    });
+    
+    it('should start below the top margin when the slide has no title', () => {
+      expect(layoutEngine.getContentArea(SlideLayout.STANDARD, false)).toEqual({ x: 0.5, y: 0.5, w: 9, h: 6.5 });
+    });
+  });
+  
+  describe('estimateElementHeight', () => {
+    it('should grow with the number of wrapped text lines', () => {
+      const short: SlideElement = {
+        type: 'text',
+        content: { content: 'Short text', format: {} } as TextResource
+      };
+      const long: SlideElement = {
+        type: 'text',
+        content: { content: 'Long text '.repeat(40), format: {} } as TextResource
+      };
+      
+      expect(layoutEngine.estimateElementHeight(long, 9)).toBeGreaterThan(
+        layoutEngine.estimateElementHeight(short, 9) * 2
+      );
+    });
+    
+    it('should count line breaks in text runs', () => {
+      const singleLine: SlideElement = {
+        type: 'text',
+        content: { content: 'a b', runs: [{ text: 'a b' }], format: {} } as TextResource
+      };
+      const twoLines: SlideElement = {
+        type: 'text',
+        content: { content: 'a<br>b', runs: [{ text: 'a', breakLine: true }, { text: 'b' }], format: {} } as TextResource
+      };
+      
+      expect(layoutEngine.estimateElementHeight(twoLines, 9)).toBeGreaterThan(
+        layoutEngine.estimateElementHeight(singleLine, 9)
+      );
+    });
+    
+    it('should use larger lines for headings', () => {
+      const paragraph: SlideElement = {
+        type: 'text',
+        content: { content: 'Heading', format: {} } as TextResource
+      };
+      const heading: SlideElement = {
+        type: 'text',
+        content: { content: 'Heading', format: { headingLevel: 1 } } as TextResource
+      };
+      
+      expect(layoutEngine.estimateElementHeight(heading, 9)).toBeGreaterThan(
+        layoutEngine.estimateElementHeight(paragraph, 9)
+      );
+    });
+    
+    it('should add the attribution line to the height of quotes', () => {
+      const quote: SlideElement = { type: 'quote', content: { text: 'A short quote' } };
+      const attributed: SlideElement = { type: 'quote', content: { text: 'A short quote', attribution: 'Someone' } };
+      
+      expect(layoutEngine.estimateElementHeight(attributed, 9)).toBeCloseTo(
+        layoutEngine.estimateElementHeight(quote, 9) + 0.4
+      );
+    });
+    
+    it('should measure list items by their text without markup', () => {
+      const text = 'Short item';
+      const markup = `<a href="https://example.com/a/very/long/path/that/would/wrap/the/line"><strong>${text}</strong></a>`;
+      
+      const plainHeight = layoutEngine.estimateElementHeight({ type: 'list', content: { items: [text], ordered: false } }, 9);
+      const markupHeight = layoutEngine.estimateElementHeight({ type: 'list', content: { items: [markup], ordered: false } }, 9);
+      
+      expect(markupHeight).toBe(plainHeight);
+    });
+    
+    it('should estimate table height from its rows', () => {
+      const table: TableResource = {
+        headers: ['A', 'B'],
+        rows: [['1', '2'], ['3', '4']]
+      };
+      const longerTable: TableResource = {
+        ...table,
+        rows: [...table.rows, ['5', '6'], ['7', '8']]
+      };
+      
+      const height = layoutEngine.estimateElementHeight({ type: 'table', content: table }, 9);
+      const longerHeight = layoutEngine.estimateElementHeight({ type: 'table', content: longerTable }, 9);
+      
+      expect(longerHeight).toBeCloseTo(height * 5 / 3);
+    });
+    
+    it('should keep the image aspect ratio when scaling down', () => {
+      const image: ImageResource = { src: 'test.png', alt: '', width: 1200, height: 600 };
+      
+      expect(layoutEngine.estimateElementHeight({ type: 'image', content: image }, 9)).toBeCloseTo(4.5);
+    });
+  });
+  
+  describe('layoutElements', () => {
+    it('should stack elements top-to-bottom with spacing', () => {
+      const elements: SlideElement[] = [
+        { type: 'text', content: { content: 'First', format: {} } as TextResource },
+        { type: 'list', content: { items: ['One', 'Two', 'Three'], ordered: false } },
+        { type: 'text', content: { content: 'Last', format: {} } as TextResource }
+      ];
+      
+      const placements = layoutEngine.layoutElements(elements, SlideLayout.STANDARD, { spacing: 0.3 });
+      
+      expect(placements.map(placement => placement.element)).toEqual(elements);
+      expect(placements[0].position.y).toBe(1.5);
+      
+      for (let i = 1; i < placements.length; i++) {
+        const previous = placements[i - 1].position;
+        expect(placements[i].position.y).toBeCloseTo(previous.y + previous.h + 0.3);
+      }
+    });
+    
+    it('should center images and fit them in the content area', () => {
+      const image: ImageResource = { src: 'test.png', alt: '', width: 800, height: 800 };
+      
+      const [placement] = layoutEngine.layoutElements([{ type: 'image', content: image }], SlideLayout.WIDE);
+      
+      expect(placement.position.h).toBeCloseTo(3.63, 1);
+      expect(placement.position.w).toBeCloseTo(placement.position.h);
+      expect(placement.position.x).toBeCloseTo(0.5 + (9 - placement.position.w) / 2);
+    });
+    
+    it('should fit charts in the space left on the slide, keeping their aspect ratio', () => {
+      const text: SlideElement = { type: 'text', content: { content: 'Intro', format: {} } as TextResource };
+      const chart: SlideElement = { type: 'chart', content: { type: 'bar', categories: ['A'], series: [{ name: 'S', values: [1] }] } };
+      
+      const [intro, placement] = layoutEngine.layoutElements([text, chart], SlideLayout.WIDE, { spacing: 0.2 });
+      
+      expect(placement.position.y).toBeCloseTo(intro.position.y + intro.position.h + 0.2);
+      expect(placement.position.y + placement.position.h).toBeCloseTo(1.5 + 3.625, 1);
+      expect(placement.position.w).toBeCloseTo(placement.position.h / 0.5625, 1);
+      expect(placement.position.x).toBeCloseTo(0.5 + (9 - placement.position.w) / 2, 1);
+    });
+    
+    it('should place captions below their element and leave room for them', () => {
+      const image: ImageResource = { src: 'test.png', alt: '', width: 800, height: 800 };
+      const text: SlideElement = { type: 'text', content: { content: 'After', format: {} } as TextResource };
+      
+      const [figure, next] = layoutEngine.layoutElements(
+        [{ type: 'image', content: image, caption: 'Figure 1: A square' }, text],
+        SlideLayout.WIDE,
+        { spacing: 0.2 }
+      );
+      
+      expect(figure.captionPosition).toEqual({ x: 0.5, y: figure.position.y + figure.position.h, w: 9, h: expect.any(Number) });
+      expect(figure.position.h + figure.captionPosition!.h).toBeLessThanOrEqual(3.63);
+      expect(next.position.y).toBeCloseTo(figure.captionPosition!.y + figure.captionPosition!.h + 0.2);
+      expect(next.captionPosition).toBeUndefined();
+    });
+  });
+  
+  describe('paginateElements', () => {
+    const paragraph = (text: string): SlideElement => ({
+      type: 'text',
+      content: { content: text, format: {} } as TextResource
+    });
+    
+    it('should keep content that fits on a single slide', () => {
+      const pages = layoutEngine.paginateElements([paragraph('One'), paragraph('Two')], SlideLayout.STANDARD);
+      
+      expect(pages).toHaveLength(1);
+      expect(pages[0]).toHaveLength(2);
+    });
+    
+    it('should return one empty slide when there are no elements', () => {
+      expect(layoutEngine.paginateElements([], SlideLayout.WIDE)).toEqual([[]]);
+    });
+    
+    it('should move elements that do not fit to the next slide', () => {
+      const elements = Array.from({ length: 6 }, (_, i) => paragraph(`Paragraph ${i} `.repeat(30)));
+      
+      const pages = layoutEngine.paginateElements(elements, SlideLayout.WIDE);
+      
+      expect(pages.length).toBeGreaterThan(1);
+      expect(pages.flat().map(placement => placement.element)).toEqual(elements);
+      
+      const area = layoutEngine.getContentArea(SlideLayout.WIDE);
+      pages.forEach(page => {
+        const last = page[page.length - 1].position;
+        expect(last.y + last.h).toBeLessThanOrEqual(area.y + area.h + 0.001);
+      });
+    });
+    
+    it('should carry a heading to the next slide with the element that follows it', () => {
+      const heading: SlideElement = { type: 'text', content: { content: 'Results', format: { headingLevel: 2 } } as TextResource };
+      const chart: SlideElement = { type: 'chart', content: { type: 'bar', categories: ['A'], series: [{ name: 'S', values: [1] }] } };
+      
+      const pages = layoutEngine.paginateElements([paragraph('Intro '.repeat(120)), heading, chart], SlideLayout.WIDE);
+      
+      expect(pages.map(page => page.map(placement => placement.element))).toEqual([[expect.anything()], [heading, chart]]);
+    });
+    
+    it('should scale an image into the space below a heading alone on the slide', () => {
+      const heading: SlideElement = { type: 'text', content: { content: 'Diagram', format: { headingLevel: 2 } } as TextResource };
+      const image: SlideElement = { type: 'image', content: { src: 'test.png', alt: '', width: 800, height: 800 } as ImageResource };
+      
+      const pages = layoutEngine.paginateElements([heading, image], SlideLayout.WIDE);
+      
+      expect(pages).toHaveLength(1);
+      const [title, figure] = pages[0];
+      expect(figure.position.y).toBeGreaterThan(title.position.y + title.position.h);
+      expect(figure.position.y + figure.position.h).toBeLessThanOrEqual(1.5 + 3.625 + 0.01);
+      expect(figure.position.w).toBeCloseTo(figure.position.h);
+    });
+    
+    it('should split long lists and continue ordered numbering', () => {
+      const list: SlideElement = {
+        type: 'list',
+        content: { items: Array.from({ length: 20 }, (_, i) => `Item ${i + 1}`), ordered: true }
+      };
+      
+      const pages = layoutEngine.paginateElements([list], SlideLayout.STANDARD, { maxListItems: 8 });
+      
+      expect(pages.map(page => page[0].element.content.items.length)).toEqual([8, 8, 4]);
+      expect(pages[1][0].element.content.items[0]).toBe('Item 9');
+      expect(pages[1][0].element.content.style.start).toBe('9');
+      expect(pages[2][0].element.content.style.start).toBe('17');
+    });
+    
+    it('should split long tables and repeat the header row', () => {
+      const table: TableResource = {
+        headers: ['Name', 'Value'],
+        rows: Array.from({ length: 60 }, (_, i) => [`Row ${i}`, String(i)])
+      };
+      
+      const pages = layoutEngine.paginateElements([{ type: 'table', content: table }], SlideLayout.WIDE);
+      
+      expect(pages.length).toBeGreaterThan(1);
+      pages.forEach(page => {
+        expect(page[0].element.content.headers).toEqual(['Name', 'Value']);
+      });
+      expect(pages.flatMap(page => page[0].element.content.rows)).toEqual(table.rows);
+    });
+    
+    it('should keep the caption of a split table with its last part', () => {
+      const table: TableResource = {
+        headers: ['Name'],
+        rows: Array.from({ length: 60 }, (_, i) => [`Row ${i}`])
+      };
+      
+      const pages = layoutEngine.paginateElements([{ type: 'table', content: table, caption: 'Table 1' }], SlideLayout.WIDE);
+      
+      expect(pages.length).toBeGreaterThan(1);
+      expect(pages.map(page => page[0].element.caption)).toEqual([...Array(pages.length - 1).fill(undefined), 'Table 1']);
+      expect(pages[pages.length - 1][0].captionPosition).toBeDefined();
+    });
+    
+    it('should number table pages after splitting them by row limit and height', () => {
+      const table: TableResource = {
+        headers: ['Name'],
+        rows: Array.from({ length: 60 }, (_, i) => [`Row ${i}`])
+      };
+      
+      const pages = layoutEngine.paginateElements([{ type: 'table', content: table }], SlideLayout.WIDE, {
+        maxTableRows: 40,
+        showTablePageNumbers: true
+      });
+      
+      // More pages than the row limit alone would give, all numbered against the final count
+      expect(pages.length).toBeGreaterThan(2);
+      expect(pages.map(page => page[1].element.content.content)).toEqual(
+        pages.map((_, index) => `Page ${index + 1} of ${pages.length}`)
+      );
+      expect(pages.flatMap(page => page[0].element.content.rows)).toEqual(table.rows);
+      pages.forEach(page => {
+        const last = page[page.length - 1];
+        expect(last.position.y + last.position.h).toBeLessThanOrEqual(5.125);
+      });
+    });
+    
+    it('should put each page of a table limited by rows on its own slide', () => {
+      const table: TableResource = {
+        headers: ['Name'],
+        rows: [['A'], ['B'], ['C']]
+      };
+      
+      const pages = layoutEngine.paginateElements(
+        [{ type: 'table', content: table }, { type: 'text', content: { content: 'After' } }],
+        SlideLayout.STANDARD,
+        { maxTableRows: 2 }
+      );
+      
+      expect(pages.map(page => page.map(placement => placement.element.type))).toEqual([['table'], ['table', 'text']]);
+      expect(pages[1][0].element.content.headers).toEqual(['Name']);
+    });
+    
+    it('should shrink the font of code listings taller than a slide', () => {
+      const code: CodeResource = { code: Array.from({ length: 25 }, (_, i) => `line ${i}`).join('\n') };
+      
+      const pages = layoutEngine.paginateElements([{ type: 'code', content: code }], SlideLayout.STANDARD);
+      
+      expect(pages).toHaveLength(1);
+      expect(pages[0][0].element.content.fontSize).toBeLessThan(14);
+      expect(pages[0][0].position.h).toBeLessThanOrEqual(5.5);
+    });
+    
+    it('should split code listings that do not fit at the smallest font size', () => {
+      const lines = Array.from({ length: 80 }, (_, i) => `  line ${i}`);
+      
+      const pages = layoutEngine.paginateElements([{ type: 'code', content: { code: lines.join('\n'), language: 'js' } }], SlideLayout.STANDARD);
+      
+      expect(pages.length).toBeGreaterThan(1);
+      pages.forEach(page => {
+        expect(page[0].element.content).toMatchObject({ fontSize: 10, language: 'js' });
+      });
+      expect(pages.map(page => page[0].element.content.code).join('\n')).toBe(lines.join('\n'));
+    });
+    
+    it('should move code that fits on a slide of its own instead of splitting it', () => {
+      const text: SlideElement = {
+        type: 'text',
+        content: { content: 'Intro '.repeat(200), format: {} } as TextResource
+      };
+      const code: SlideElement = { type: 'code', content: { code: Array.from({ length: 12 }, () => 'x').join('\n') } };
+      
+      const pages = layoutEngine.paginateElements([text, code], SlideLayout.STANDARD);
+      
+      expect(pages.map(page => page.map(placement => placement.element.type))).toEqual([['text'], ['code']]);
+    });
+  });
+});
\ No newline at end of file
@@ -54,11 +54,10 @@ describe('LinkHandler', () => {
       expect(normalizedUrl).toBe('https://example.com');
     });
     
-    it('should add https to URLs without protocol', () => {
-      const url = 'example.com';
-      const normalizedUrl = linkHandler.normalizeUrl(url);
-      
-      expect(normalizedUrl).toBe('https://example.com');
+    it('should leave relative URLs unchanged without a base URL', () => {
+      expect(linkHandler.normalizeUrl('docs/page.html')).toBe('docs/page.html');
+      expect(linkHandler.normalizeUrl('example.com')).toBe('example.com');
+      expect(linkHandler.normalizeUrl('docs/page.html', { baseUrl: 'not a url' })).toBe('docs/page.html');
     });
     
     it('should preserve anchor links', () => {
@@ -88,6 +87,34 @@ describe('LinkHandler', () => {
       
       expect(normalizedUrl).toBe('#');
     });
+    
+    it('should resolve relative URLs against the base URL', () => {
+      const options = { baseUrl: 'https://example.com/guide/index.html' };
+      
+      expect(linkHandler.normalizeUrl('docs/page.html', options)).toBe('https://example.com/guide/docs/page.html');
+      expect(linkHandler.normalizeUrl('/about', options)).toBe('https://example.com/about');
+      expect(linkHandler.normalizeUrl('../faq?q=1', options)).toBe('https://example.com/faq?q=1');
+      expect(linkHandler.normalizeUrl('#top', options)).toBe('#top');
+    });
+    
+    it('should keep http URLs when requested', () => {
+      expect(linkHandler.normalizeUrl('http://example.com', { keepHttp: true })).toBe('http://example.com');
+      expect(linkHandler.normalizeUrl('page.html', { baseUrl: 'http://intranet/', keepHttp: true })).toBe('http://intranet/page.html');
+      expect(linkHandler.normalizeUrl('page.html', { baseUrl: 'http://intranet/' })).toBe('https://intranet/page.html');
+    });
+  });
+  
+  describe('resolveUrl', () => {
+    it('should resolve relative URLs following the URL standard', () => {
+      expect(linkHandler.resolveUrl('img/a.png', 'https://example.com/posts/')).toBe('https://example.com/posts/img/a.png');
+      expect(linkHandler.resolveUrl('//cdn.example.com/a.png', 'https://example.com/')).toBe('https://cdn.example.com/a.png');
+    });
+    
+    it('should leave absolute URLs and URLs without a usable base unchanged', () => {
+      expect(linkHandler.resolveUrl('data:image/png;base64,abc', 'https://example.com/')).toBe('data:image/png;base64,abc');
+      expect(linkHandler.resolveUrl('img/a.png')).toBe('img/a.png');
+      expect(linkHandler.resolveUrl('img/a.png', 'not a url')).toBe('img/a.png');
+    });
   });
   
   describe('extractLinkText', () => {
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MHTMLParser, MHTMLParsingError } from '../../src/services/parser/MHTMLParser';
+import { HTMLParser } from '../../src/services/parser/HTMLParser';
+
+// Archive as saved by Chromium's "Save page as... Webpage, Single File"
+const ARCHIVE = [
+  'From: <Saved by Blink>',
+  'Snapshot-Content-Location: https://example.com/articles/report.html',
+  'Subject: Quarterly Report',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/related;',
+  '\ttype="text/html";',
+  '\tboundary="----MultipartBoundary--abc123----"',
+  '',
+  '',
+  '------MultipartBoundary--abc123----',
+  'Content-Type: text/html',
+  'Content-ID: <frame-1@mhtml.blink>',
+  'Content-Transfer-Encoding: quoted-printable',
+  'Content-Location: https://example.com/articles/report.html',
+  '',
+  '<html><head><link rel=3D"stylesheet" href=3D"cid:css-1@mhtml.blink"></head><bo=',
+  'dy><h1>Caf=C3=A9 results</h1><img src=3D"../images/chart.gif" alt=3D"Chart">',
+  '<img src=3D"https://cdn.example.com/missing.png" alt=3D"Missing"></body></html>',
+  '------MultipartBoundary--abc123----',
+  'Content-Type: text/css',
+  'Content-Transfer-Encoding: quoted-printable',
+  'Content-Location: cid:css-1@mhtml.blink',
+  '',
+  'h1 { background: url("https://example.com/images/chart.gif"); }',
+  '------MultipartBoundary--abc123----',
+  'Content-Type: image/gif',
+  'Content-Transfer-Encoding: base64',
+  'Content-Location: https://example.com/images/chart.gif',
+  '',
+  'R0lGODlh',
+  '------MultipartBoundary--abc123------',
+  ''
+].join('\r\n');
+
+describe('MHTMLParser', () => {
+  let mhtmlParser: MHTMLParser;
+  
+  beforeEach(() => {
+    mhtmlParser = new MHTMLParser();
+  });
+  
+  describe('isMHTML', () => {
+    it('should detect multipart archives', () => {
+      expect(mhtmlParser.isMHTML(ARCHIVE)).toBe(true);
+    });
+    
+    it('should not treat HTML or plain text as an archive', () => {
+      expect(mhtmlParser.isMHTML('<html><body>Test</body></html>')).toBe(false);
+      expect(mhtmlParser.isMHTML('not html content')).toBe(false);
+    });
+  });
+  
+  describe('parseArchive', () => {
+    it('should decode quoted-printable and base64 parts', () => {
+      const { fileSystem, rootPath } = mhtmlParser.parseArchive(ARCHIVE);
+      
+      expect(fileSystem.readText(rootPath)).toContain('<body><h1>Café results</h1>');
+      expect(fileSystem.resolve(rootPath, '../images/chart.gif')).not.toBeNull();
+      expect(fileSystem.toDataUrl(fileSystem.resolve(rootPath, '../images/chart.gif')!)).toBe('data:image/gif;base64,R0lGODlh');
+    });
+    
+    it('should resolve cid: references to their part', () => {
+      const { fileSystem, rootPath } = mhtmlParser.parseArchive(ARCHIVE);
+      const cssPath = fileSystem.resolve(rootPath, 'cid:css-1@mhtml.blink');
+      
+      expect(cssPath).not.toBeNull();
+      expect(fileSystem.getFile(cssPath!)?.mimeType).toBe('text/css');
+    });
+    
+    it('should use the part named by the start parameter as the root', () => {
+      const archive = [
+        'Content-Type: multipart/related; boundary="b"; start="<page@x>"',
+        '',
+        '--b',
+        'Content-Type: text/html',
+        '',
+        '<html><body>Other</body></html>',
+        '--b',
+        'Content-Type: text/html',
+        'Content-ID: <page@x>',
+        '',
+        '<html><body>Start</body></html>',
+        '--b--'
+      ].join('\n');
+      
+      const { fileSystem, rootPath } = mhtmlParser.parseArchive(archive);
+      
+      expect(fileSystem.readText(rootPath)).toBe('<html><body>Start</body></html>');
+    });
+    
+    it('should throw an MHTMLParsingError when there is no HTML part', () => {
+      const archive = 'Content-Type: multipart/related; boundary="b"\n\n--b\nContent-Type: image/gif\nContent-Transfer-Encoding: base64\n\nR0lGODlh\n--b--';
+      
+      expect(() => mhtmlParser.parseArchive(archive)).toThrow(MHTMLParsingError);
+    });
+  });
+  
+  describe('toHTML', () => {
+    it('should inline archived images and stylesheets as data URLs', () => {
+      const doc = new DOMParser().parseFromString(mhtmlParser.toHTML(ARCHIVE), 'text/html');
+      
+      expect(doc.querySelector('link')).toBeNull();
+      expect(doc.querySelector('style')?.textContent).toContain('data:image/gif;base64,R0lGODlh');
+      expect(doc.querySelector('img[alt="Chart"]')?.getAttribute('src')).toBe('data:image/gif;base64,R0lGODlh');
+      expect(doc.querySelector('img[alt="Missing"]')?.getAttribute('src')).toBe('https://cdn.example.com/missing.png');
+    });
+  });
+  
+  describe('HTMLParser integration', () => {
+    it('should parse MHTML archives passed to parseHTML', () => {
+      const result = new HTMLParser().parseHTML(ARCHIVE);
+      
+      expect(result.sections[0].title).toBe('Café results');
+      expect(result.resources.images[0].src).toBe('data:image/gif;base64,R0lGODlh');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MarkdownConverter, MarkdownConversionError } from '../../src/services/markdown';
+import { HTMLParser } from '../../src/services/parser/HTMLParser';
+import { PresentationTheme } from '../../src/models';
+
+describe('MarkdownConverter', () => {
+  let converter: MarkdownConverter;
+  
+  // Body of the converted document
+  const body = (markdown: string): string => {
+    const html = converter.convert(markdown).html;
+    return html.slice(html.indexOf('<body>') + 7, html.indexOf('</body>') - 1);
+  };
+  
+  beforeEach(() => {
+    converter = new MarkdownConverter();
+  });
+  
+  describe('blocks', () => {
+    it('should convert ATX and setext headings, paragraphs and thematic breaks', () => {
+      expect(body('# Title #\n\nSome *text*\nnext line\n\n***\n\nSub\n---')).toBe(
+        '<h1>Title</h1>\n<p>Some <em>text</em>\nnext line</p>\n<hr>\n<h2>Sub</h2>'
+      );
+    });
+    
+    it('should convert fenced code with a language class and escape its content', () => {
+      expect(body('```ts\nconst a = 1 < 2;\n```')).toBe(
+        '<pre><code class="language-ts">const a = 1 &lt; 2;\n</code></pre>'
+      );
+      expect(body('~~~\nplain\n~~~')).toBe('<pre><code>plain\n</code></pre>');
+    });
+    
+    it('should convert indented code', () => {
+      expect(body('    line 1\n\n    line 2')).toBe('<pre><code>line 1\n\nline 2\n</code></pre>');
+    });
+    
+    it('should convert blockquotes with lazy continuation lines', () => {
+      expect(body('> quoted\nlazy\n> - item')).toBe(
+        '<blockquote>\n<p>quoted\nlazy</p>\n<ul>\n<li>item</li>\n</ul>\n</blockquote>'
+      );
+    });
+    
+    it('should convert tight, loose, nested and ordered lists', () => {
+      expect(body('- a\n- b\n  - nested')).toBe('<ul>\n<li>a</li>\n<li>b\n<ul>\n<li>nested</li>\n</ul></li>\n</ul>');
+      expect(body('- a\n\n- b')).toBe('<ul>\n<li><p>a</p></li>\n<li><p>b</p></li>\n</ul>');
+      expect(body('3. three\n4. four')).toBe('<ol start="3">\n<li>three</li>\n<li>four</li>\n</ol>');
+    });
+    
+    it('should only make a list loose for blank lines between its own items or blocks', () => {
+      // A blank line inside a nested list loosens the nested list only
+      expect(body('- a\n  - b\n\n  - c\n- d')).toBe(
+        '<ul>\n<li>a\n<ul>\n<li><p>b</p></li>\n<li><p>c</p></li>\n</ul></li>\n<li>d</li>\n</ul>'
+      );
+      // Blank lines inside a code block do not count
+      expect(body('- a\n- b\n  ```\n  x\n\n  y\n  ```')).toBe(
+        '<ul>\n<li>a</li>\n<li>b\n<pre><code>x\n\ny\n</code></pre></li>\n</ul>'
+      );
+      // A blank line between a nested list and a paragraph of the same item does
+      expect(body('- a\n  - b\n\n  c')).toBe('<ul>\n<li><p>a</p>\n<ul>\n<li>b</li>\n</ul>\n<p>c</p></li>\n</ul>');
+    });
+    
+    it('should convert task list items to disabled checkboxes', () => {
+      expect(body('- [ ] open\n- [x] done')).toBe(
+        '<ul>\n<li class="task-list-item"><input type="checkbox" disabled> open</li>\n' +
+        '<li class="task-list-item"><input type="checkbox" disabled checked> done</li>\n</ul>'
+      );
+    });
+    
+    it('should convert tables with column alignment', () => {
+      expect(body('| Name | Score |\n| :--- | ---: |\n| Ann | 3 |\n| Bob `a\\|b` |')).toBe(
+        '<table>\n<thead>\n<tr><th align="left">Name</th><th align="right">Score</th></tr>\n</thead>\n<tbody>\n' +
+        '<tr><td align="left">Ann</td><td align="right">3</td></tr>\n' +
+        '<tr><td align="left">Bob <code>a|b</code></td><td align="right"></td></tr>\n</tbody>\n</table>'
+      );
+    });
+    
+    it('should pass HTML blocks through', () => {
+      expect(body('<div class="note">\n*not emphasis*\n</div>\n\ntext')).toBe(
+        '<div class="note">\n*not emphasis*\n</div>\n<p>text</p>'
+      );
+    });
+  });
+  
+  describe('inlines', () => {
+    it('should convert emphasis, strong emphasis and strikethrough', () => {
+      expect(body('*a* **b** ***c*** _d_ __e__ ~~f~~ snake_case_name')).toBe(
+        '<p><em>a</em> <strong>b</strong> <em><strong>c</strong></em> <em>d</em> <strong>e</strong> <del>f</del> snake_case_name</p>'
+      );
+      expect(body('**a *b* c**')).toBe('<p><strong>a <em>b</em> c</strong></p>');
+      expect(body('*unclosed')).toBe('<p>*unclosed</p>');
+    });
+    
+    it('should convert code spans without interpreting their content', () => {
+      expect(body('use `` a ` *b* `` here')).toBe('<p>use <code>a ` *b*</code> here</p>');
+    });
+    
+    it('should convert inline links, images, references and autolinks', () => {
+      expect(body('[site](https://example.com "Home") ![logo](img/logo.png)')).toBe(
+        '<p><a href="https://example.com" title="Home">site</a> <img src="img/logo.png" alt="logo"></p>'
+      );
+      expect(body('[docs][ref] and [ref]\n\n[ref]: https://example.com/docs')).toBe(
+        '<p><a href="https://example.com/docs">docs</a> and <a href="https://example.com/docs">ref</a></p>'
+      );
+      expect(body('<https://example.com> <me@example.com>')).toBe(
+        '<p><a href="https://example.com">https://example.com</a> <a href="mailto:me@example.com">me@example.com</a></p>'
+      );
+    });
+    
+    it('should not keep link references from one document for the next', () => {
+      body('[ref]\n\n[ref]: https://example.com/docs');
+      
+      expect(body('[ref]')).toBe('<p>[ref]</p>');
+    });
+    
+    it('should convert hard line breaks and escape special characters', () => {
+      expect(body('line  \nbreak\\\nagain')).toBe('<p>line<br />\nbreak<br />\nagain</p>');
+      expect(body('\\*literal\\* & 1 < 2 &copy;')).toBe('<p>*literal* &amp; 1 &lt; 2 &copy;</p>');
+    });
+  });
+  
+  describe('front matter', () => {
+    const markdown = [
+      '---',
+      'title: "Team Notes"',
+      'author: Ada Lovelace',
+      'theme: professional',
+      'tags:',
+      '  - planning',
+      '  - q3',
+      '---',
+      '# Agenda'
+    ].join('\n');
+    
+    it('should parse scalars and lists', () => {
+      const { data, body: rest } = converter.parseFrontMatter(markdown);
+      
+      expect(data).toEqual({ title: 'Team Notes', author: 'Ada Lovelace', theme: 'professional', tags: ['planning', 'q3'] });
+      expect(rest).toBe('# Agenda');
+    });
+    
+    it('should map the theme onto the conversion config regardless of case', () => {
+      expect(converter.convert(markdown).config).toEqual({ theme: PresentationTheme.PROFESSIONAL });
+      expect(converter.getConfigOverrides({ theme: 'Creative' })).toEqual({ theme: PresentationTheme.CREATIVE });
+      expect(converter.getConfigOverrides({ theme: 'MINIMAL' })).toEqual({ theme: PresentationTheme.MINIMAL });
+    });
+    
+    it('should ignore unknown themes with a warning', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      
+      const result = converter.convert('---\ntheme: dark\n---\n# Agenda');
+      
+      expect(result.config).toEqual({});
+      expect(result.warnings).toEqual([
+        'Unknown theme "dark" in front matter was ignored (expected one of: default, professional, creative, minimal)'
+      ]);
+      expect(converter.convert(markdown).warnings).toEqual([]);
+      warn.mockRestore();
+    });
+    
+    it('should write title and author into the document metadata', () => {
+      const result = new HTMLParser().parseHTML(converter.convert(markdown).html);
+      
+      expect(result.metadata?.title).toBe('Team Notes');
+      expect(result.metadata?.author).toBe('Ada Lovelace');
+      expect(result.metadata?.keywords).toEqual(['planning', 'q3']);
+      expect(result.sections[0].title).toBe('Agenda');
+    });
+  });
+  
+  it('should throw a MarkdownConversionError for invalid input', () => {
+    // @ts-ignore - Testing invalid input type
+    expect(() => converter.convert(null)).toThrow(MarkdownConversionError);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import MarkdownInput from '../../src/components/upload/MarkdownInput';
+
+describe('MarkdownInput Component', () => {
+  const mockOnContentAccepted = vi.fn();
+  const mockOnError = vi.fn();
+  
+  beforeEach(() => {
+    mockOnContentAccepted.mockClear();
+    mockOnError.mockClear();
+  });
+  
+  it('renders correctly', () => {
+    render(
+      <MarkdownInput 
+        onContentAccepted={mockOnContentAccepted} 
+        onError={mockOnError} 
+      />
+    );
+    
+    expect(screen.getByTestId('markdown-textarea')).toBeInTheDocument();
+    expect(screen.getByText('Insert Example')).toBeInTheDocument();
+    expect(screen.getByText('Use This Markdown')).toBeInTheDocument();
+  });
+  
+  it('converts the Markdown and passes the front matter settings', () => {
+    render(
+      <MarkdownInput 
+        onContentAccepted={mockOnContentAccepted} 
+        onError={mockOnError} 
+      />
+    );
+    
+    fireEvent.change(screen.getByTestId('markdown-textarea'), {
+      target: { value: '---\ntheme: creative\n---\n# Hello\n\nSome *text*' }
+    });
+    fireEvent.click(screen.getByText('Use This Markdown'));
+    
+    expect(mockOnContentAccepted).toHaveBeenCalledWith(
+      expect.stringContaining('<h1>Hello</h1>\n<p>Some <em>text</em></p>'),
+      { theme: 'CREATIVE' }
+    );
+    expect(mockOnError).not.toHaveBeenCalled();
+  });
+  
+  it('inserts example content', () => {
+    render(
+      <MarkdownInput 
+        onContentAccepted={mockOnContentAccepted} 
+        onError={mockOnError} 
+      />
+    );
+    
+    fireEvent.click(screen.getByText('Insert Example'));
+    
+    expect((screen.getByTestId('markdown-textarea') as HTMLTextAreaElement).value).toContain('# Main Title');
+  });
+});
\ No newline at end of file
@@ -1,19 +1,26 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { PptxGenerator, PptxGenerationError } from '../../src/services/pptx';
-import { SlideLayout, PresentationTheme, TextResource, ImageResource, TableResource, ListResource, LinkResource } from '../../src/models';
+import { SlideLayout, PresentationTheme, TextResource, ImageResource, TableResource, ListResource, LinkResource, ChartResource } from '../../src/models';
+import { readSvgDataUrl } from '../../src/utils/svg';
 
 // Mock pptxgenjs
 vi.mock('pptxgenjs', () => {
   const addTextMock = vi.fn();
   const addImageMock = vi.fn();
   const addTableMock = vi.fn();
+  const addChartMock = vi.fn();
+  const addNotesMock = vi.fn();
+  const addShapeMock = vi.fn();
   const defineSlideMasterMock = vi.fn();
   const writeFileMock = vi.fn().mockResolvedValue(new Blob(['mock-content']));
   
   const slideMock = {
     addText: addTextMock,
     addImage: addImageMock,
-    addTable: addTableMock
+    addTable: addTableMock,
+    addChart: addChartMock,
+    addNotes: addNotesMock,
+    addShape: addShapeMock
   };
   
   const addSlideMock = vi.fn().mockReturnValue(slideMock);
@@ -81,6 +88,53 @@ describe('PptxGenerator', () => {
     });
   });
   
+  describe('setMetadata', () => {
+    it('should set the presentation properties from the document metadata', () => {
+      const presentation = pptxGenerator.createPresentation();
+      
+      pptxGenerator.setMetadata(presentation, {
+        title: 'Quarterly Report',
+        author: 'Dana Lee',
+        description: 'Results for Q1',
+        siteName: 'Acme',
+        keywords: ['sales', 'q1']
+      });
+      
+      expect(presentation.title).toBe('Quarterly Report');
+      expect(presentation.author).toBe('Dana Lee');
+      expect(presentation.company).toBe('Acme');
+      expect(presentation.subject).toBe('Results for Q1 | Keywords: sales, q1');
+    });
+    
+    it('should keep the defaults for missing metadata', () => {
+      const presentation = pptxGenerator.createPresentation();
+      
+      pptxGenerator.setMetadata(presentation, {});
+      
+      expect(presentation.author).toBe('HTML to PPTX Converter');
+      expect(presentation.subject).toBe('Generated from HTML content');
+    });
+  });
+  
+  describe('addTitleSlide', () => {
+    it('should fill the placeholders of the given slide master', () => {
+      const presentation = pptxGenerator.createPresentation();
+      const slide = pptxGenerator.addTitleSlide(presentation, 'Chapter 1', 'Getting started', 'DEFAULT_TITLE');
+      
+      expect(presentation.addSlide).toHaveBeenCalledWith({ masterName: 'DEFAULT_TITLE' });
+      expect(slide.addText).toHaveBeenCalledWith('Chapter 1', { placeholder: 'title' });
+      expect(slide.addText).toHaveBeenCalledWith('Getting started', { placeholder: 'subtitle' });
+    });
+    
+    it('should center the title without a slide master', () => {
+      const presentation = pptxGenerator.createPresentation();
+      const slide = pptxGenerator.addTitleSlide(presentation, 'Chapter 1');
+      
+      expect(slide.addText).toHaveBeenCalledTimes(1);
+      expect(slide.addText).toHaveBeenCalledWith('Chapter 1', expect.objectContaining({ align: 'center', bold: true }));
+    });
+  });
+  
   describe('addTextElement', () => {
     it('should add a text element with formatting', () => {
       const presentation = pptxGenerator.createPresentation();
@@ -103,7 +157,9 @@ describe('PptxGenerator', () => {
         bold: true,
         italic: true,
         color: 'FF0000',
-        align: 'center'
+        align: 'center',
+        // 18px in points, the size the layout engine measures
+        fontSize: 14
       }));
     });
     
@@ -121,6 +177,50 @@ describe('PptxGenerator', () => {
       expect(slide.addText).toHaveBeenCalledWith('Bold and italic text', expect.any(Object));
     });
     
+    it('should emit text runs when the text resource has runs', () => {
+      const presentation = pptxGenerator.createPresentation();
+      const slide = pptxGenerator.addSlide(presentation, 'Test Slide', SlideLayout.STANDARD);
+      
+      const textResource: TextResource = {
+        content: 'Revenue grew <b>12%</b> (<a href="https://example.com">source</a>)',
+        runs: [
+          { text: 'Revenue grew ' },
+          { text: '12%', bold: true },
+          { text: ' (' },
+          { text: 'source', link: 'https://example.com' },
+          { text: ')' }
+        ],
+        format: {}
+      };
+      
+      pptxGenerator.addTextElement(slide, textResource);
+      
+      const [runs, options] = slide.addText.mock.calls[1];
+      expect(runs).toEqual([
+        { text: 'Revenue grew ', options: {} },
+        { text: '12%', options: { bold: true } },
+        { text: ' (', options: {} },
+        { text: 'source', options: { hyperlink: { url: 'https://example.com', tooltip: 'https://example.com' } } },
+        { text: ')', options: {} }
+      ]);
+      expect(options.bold).toBe(false);
+    });
+    
+    it('should link runs to slides inside the presentation', () => {
+      const presentation = pptxGenerator.createPresentation();
+      const slide = pptxGenerator.addSlide(presentation, 'Test Slide', SlideLayout.STANDARD);
+      
+      pptxGenerator.addTextElement(slide, {
+        content: 'Results',
+        runs: [{ text: 'Results', slide: 4 }],
+        format: {}
+      });
+      
+      expect(slide.addText.mock.calls[1][0]).toEqual([
+        { text: 'Results', options: { hyperlink: { slide: 4 } } }
+      ]);
+    });
+    
     it('should handle heading levels', () => {
       const presentation = pptxGenerator.createPresentation();
       const slide = pptxGenerator.addSlide(presentation, 'Test Slide', SlideLayout.STANDARD);
@@ -156,10 +256,22 @@ describe('PptxGenerator', () => {
       pptxGenerator.addImageElement(slide, imageResource);
       
       expect(slide.addImage).toHaveBeenCalledWith(expect.objectContaining({
-        path: 'test.jpg'
+        path: 'test.jpg',
+        altText: 'Test image'
       }));
     });
     
+    it('should add the figure caption to the alt text', () => {
+      const presentation = pptxGenerator.createPresentation();
+      const slide = pptxGenerator.addSlide(presentation, 'Test Slide', SlideLayout.STANDARD);
+      
+      pptxGenerator.addImageElement(slide, { src: 'a.png', alt: 'Chart', caption: 'Sales by region', width: 300, height: 200 });
+      pptxGenerator.addImageElement(slide, { src: 'b.png', alt: '', caption: 'Team photo', width: 300, height: 200 });
+      
+      expect(slide.addImage).toHaveBeenCalledWith(expect.objectContaining({ path: 'a.png', altText: 'Chart — Sales by region' }));
+      expect(slide.addImage).toHaveBeenCalledWith(expect.objectContaining({ path: 'b.png', altText: 'Team photo' }));
+    });
+    
     it('should use dataUrl if available', () => {
       const presentation = pptxGenerator.createPresentation();
       const slide = pptxGenerator.addSlide(presentation, 'Test Slide', SlideLayout.STANDARD);
@@ -178,6 +290,19 @@ describe('PptxGenerator', () => {
         path: 'data:image/jpeg;base64,abc123'
       }));
     });
+    
+    it('should embed SVG data URLs as base64 SVG data', () => {
+      const presentation = pptxGenerator.createPresentation();
+      const slide = pptxGenerator.addSlide(presentation, 'Test Slide', SlideLayout.STANDARD);
+      const markup = '<svg xmlns="http://www.w3.org/2000/svg" width="40" height="20"><rect width="40" height="20"/></svg>';
+      
+      pptxGenerator.addImageElement(slide, { src: 'icon.svg', alt: '', width: 40, height: 20, dataUrl: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}` });
+      
+      const options = (slide.addImage as any).mock.calls[0][0];
+      expect(options.path).toBeUndefined();
+      expect(options.data).toMatch(/^data:image\/svg\+xml;base64,/);
+      expect(readSvgDataUrl(options.data)).toBe(markup);
+    });
   });
   
   describe('addTableElement', () => {
@@ -205,6 +330,27 @@ describe('PptxGenerator', () => {
       expect(tableData[0][0].bold).toBe(true);
       expect(tableData[0][0].text).toBe('Header 1');
     });
+    
+    it('should render formatted cell text as text runs', () => {
+      const presentation = pptxGenerator.createPresentation();
+      const slide = pptxGenerator.addSlide(presentation, 'Test Slide', SlideLayout.STANDARD);
+      
+      const tableResource = {
+        headers: ['Value'],
+        rows: [['42']],
+        _formattedData: [
+          [{ text: 'Value', options: { bold: true } }],
+          [{ text: '42', runs: [{ text: '42', bold: true }], options: { align: 'right' } }]
+        ]
+      } as TableResource;
+      
+      pptxGenerator.addTableElement(slide, tableResource);
+      
+      const tableData = slide.addTable.mock.calls[0][0];
+      expect(tableData[0][0]).toEqual({ text: 'Value', options: { bold: true } });
+      expect(tableData[1][0].options).toEqual({ align: 'right' });
+      expect(tableData[1][0].text[0]).toMatchObject({ text: '42', options: expect.objectContaining({ bold: true }) });
+    });
   });
   
   describe('addListElement', () => {
@@ -273,6 +419,165 @@ describe('PptxGenerator', () => {
     });
   });
   
+  describe('addChartElement', () => {
+    it('should add a native chart with categories and named series', () => {
+      const presentation = pptxGenerator.createPresentation();
+      const slide = pptxGenerator.addSlide(presentation, 'Test Slide', SlideLayout.STANDARD);
+      
+      const chart: ChartResource = {
+        type: 'line',
+        categories: ['Q1', 'Q2'],
+        series: [
+          { name: 'Revenue', values: [10, 12] },
+          { name: 'Cost', values: [8, 9] }
+        ]
+      };
+      
+      pptxGenerator.addChartElement(slide, chart, { x: 1, y: 2, w: 8, h: 4, chartColors: ['4472C4', '5B9BD5'] });
+      
+      expect(slide.addChart).toHaveBeenCalledWith(
+        'line',
+        [
+          { name: 'Revenue', labels: ['Q1', 'Q2'], values: [10, 12] },
+          { name: 'Cost', labels: ['Q1', 'Q2'], values: [8, 9] }
+        ],
+        expect.objectContaining({ x: 1, y: 2, w: 8, h: 4, chartColors: ['4472C4', '5B9BD5'], showLegend: true })
+      );
+    });
+    
+    it('should pass X values as the first series of scatter charts', () => {
+      const presentation = pptxGenerator.createPresentation();
+      const slide = pptxGenerator.addSlide(presentation, 'Test Slide', SlideLayout.STANDARD);
+      
+      pptxGenerator.addChartElement(slide, {
+        type: 'scatter',
+        categories: ['1', '2.5'],
+        series: [{ name: 'Y', values: [3, 4] }]
+      });
+      
+      expect(slide.addChart.mock.calls[0][1]).toEqual([
+        { name: 'X', values: [1, 2.5] },
+        { name: 'Y', values: [3, 4] }
+      ]);
+    });
+  });
+  
+  describe('addCodeElement', () => {
+    it('should add highlighted runs in a monospace font on a shaded box', () => {
+      const presentation = pptxGenerator.createPresentation();
+      const slide = pptxGenerator.addSlide(presentation, 'Test Slide', SlideLayout.STANDARD);
+      
+      pptxGenerator.addCodeElement(slide, {
+        code: 'let x',
+        fontSize: 11,
+        runs: [{ text: 'let', color: '0033B3', bold: true }, { text: ' x' }]
+      }, { x: 1, y: 2, w: 8, h: 3 });
+      
+      const [content, options] = slide.addText.mock.calls[slide.addText.mock.calls.length - 1];
+      expect(content).toEqual([
+        { text: 'let', options: { bold: true, color: '0033B3' } },
+        { text: ' x', options: {} }
+      ]);
+      expect(options).toMatchObject({
+        x: 1, y: 2, w: 8, h: 3,
+        fontFace: 'Courier New',
+        fontSize: 11,
+        fill: { color: 'F5F5F5' },
+        align: 'left',
+        valign: 'top'
+      });
+    });
+    
+    it('should add the plain code when there are no runs', () => {
+      const presentation = pptxGenerator.createPresentation();
+      const slide = pptxGenerator.addSlide(presentation, 'Test Slide', SlideLayout.STANDARD);
+      
+      pptxGenerator.addCodeElement(slide, { code: 'a\n  b' });
+      
+      const [content, options] = slide.addText.mock.calls[slide.addText.mock.calls.length - 1];
+      expect(content).toBe('a\n  b');
+      expect(options.fontSize).toBe(14);
+    });
+  });
+  
+  describe('addQuoteElement', () => {
+    it('should draw an accent bar, the italic quote and the right-aligned attribution', () => {
+      const presentation = pptxGenerator.createPresentation();
+      const slide = pptxGenerator.addSlide(presentation, 'Test Slide', SlideLayout.STANDARD);
+      slide.addText.mockClear();
+      
+      pptxGenerator.addQuoteElement(slide, { text: 'Simplicity wins', attribution: 'Anon' }, {
+        x: 0.5, y: 2, w: 9, h: 2, accentColor: '#FF5733'
+      });
+      
+      expect(slide.addShape).toHaveBeenCalledWith('rect', expect.objectContaining({
+        x: 0.5, y: 2, h: 1.6, fill: { color: 'FF5733' }
+      }));
+      expect(slide.addText).toHaveBeenCalledWith('Simplicity wins', expect.objectContaining({
+        x: 0.8, italic: true, fontSize: 24
+      }));
+      expect(slide.addText).toHaveBeenCalledWith('\u2014 Anon', expect.objectContaining({
+        y: 3.6, align: 'right'
+      }));
+      expect(slide.addText.mock.calls.some(([, options]) => 'accentColor' in options)).toBe(false);
+    });
+    
+    it('should use a decorative quotation mark for full-slide quotes', () => {
+      const presentation = pptxGenerator.createPresentation();
+      const slide = pptxGenerator.addSlide(presentation, 'Test Slide', SlideLayout.STANDARD);
+      slide.addText.mockClear();
+      slide.addShape.mockClear();
+      
+      pptxGenerator.addQuoteElement(slide, { text: 'Big idea' }, { x: 0.5, y: 0.5, w: 9, h: 6.5, fullSlide: true, accentColor: '2E75B6' });
+      
+      expect(slide.addShape).not.toHaveBeenCalled();
+      expect(slide.addText).toHaveBeenCalledWith('\u201C', expect.objectContaining({ color: '2E75B6', fontSize: 96 }));
+      expect(slide.addText).toHaveBeenCalledWith('Big idea', expect.objectContaining({ fontSize: 28, h: 6.5 }));
+    });
+  });
+  
+  describe('addNotes', () => {
+    it('should add speaker notes to the slide', () => {
+      const presentation = pptxGenerator.createPresentation();
+      const slide = pptxGenerator.addSlide(presentation, 'Test Slide', SlideLayout.STANDARD);
+      
+      pptxGenerator.addNotes(slide, 'Remember to smile');
+      
+      expect(slide.addNotes).toHaveBeenCalledWith('Remember to smile');
+    });
+    
+    it('should skip empty notes', () => {
+      const presentation = pptxGenerator.createPresentation();
+      const slide = pptxGenerator.addSlide(presentation, 'Test Slide', SlideLayout.STANDARD);
+      
+      pptxGenerator.addNotes(slide, '  ');
+      
+      expect(slide.addNotes).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('setBackground', () => {
+    it('should set a color background', () => {
+      const presentation = pptxGenerator.createPresentation();
+      const slide = pptxGenerator.addSlide(presentation, 'Test Slide', SlideLayout.STANDARD);
+      
+      pptxGenerator.setBackground(slide, { color: '1A2B3C' });
+      
+      expect(slide.background).toEqual({ color: '1A2B3C' });
+    });
+    
+    it('should prefer the image over the color', () => {
+      const presentation = pptxGenerator.createPresentation();
+      const slide = pptxGenerator.addSlide(presentation, 'Test Slide', SlideLayout.STANDARD);
+      
+      pptxGenerator.setBackground(slide, { color: '1A2B3C', image: 'https://example.com/bg.png' });
+      expect(slide.background).toEqual({ path: 'https://example.com/bg.png' });
+      
+      pptxGenerator.setBackground(slide, { image: 'data:image/png;base64,AAAA' });
+      expect(slide.background).toEqual({ data: 'data:image/png;base64,AAAA' });
+    });
+  });
+  
   describe('applyTheme', () => {
     it('should apply the specified theme to the presentation', () => {
       const presentation = pptxGenerator.createPresentation();
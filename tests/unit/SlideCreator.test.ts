@@ -6,6 +6,7 @@ import { TableHandlerService } from '../../src/services/conversion/TableHandlerI
 import { ListHandlerService } from '../../src/services/conversion/ListHandlerInterface';
 import { LinkHandlerService } from '../../src/services/conversion/LinkHandlerInterface';
 import { ThemeHandlerService } from '../../src/services/conversion/ThemeHandlerInterface';
+import { LinkHandler } from '../../src/services/conversion/LinkHandler';
 import { 
   HTMLContent, 
   ConversionConfig, 
@@ -25,11 +26,18 @@ const mockPptxGenerator = {
   initialize: vi.fn().mockResolvedValue(undefined),
   createPresentation: vi.fn(),
   addSlide: vi.fn(),
+  addTitleSlide: vi.fn(),
+  setMetadata: vi.fn(),
   addTextElement: vi.fn(),
   addImageElement: vi.fn(),
   addTableElement: vi.fn(),
   addListElement: vi.fn(),
   addLinkElement: vi.fn(),
+  addChartElement: vi.fn(),
+  addCodeElement: vi.fn(),
+  addQuoteElement: vi.fn(),
+  addNotes: vi.fn(),
+  setBackground: vi.fn(),
   savePresentation: vi.fn()
 };
 
@@ -45,6 +53,7 @@ const mockImageHandler: ImageHandlerService = {
 // Mock TableHandlerService
 const mockTableHandler: TableHandlerService = {
   processTable: vi.fn().mockImplementation((table) => table),
+  resolveGrid: vi.fn(),
   formatHeaders: vi.fn().mockImplementation((headers) => 
     headers.map(header => ({ text: header, bold: true }))
   ),
@@ -60,7 +69,9 @@ const mockTableHandler: TableHandlerService = {
     w: '90%',
     colW: [1, 1],
     border: { pt: 1, color: '666666' }
-  }))
+  })),
+  paginateTable: vi.fn().mockImplementation((table) => [{ table, pageNumber: 1, pageCount: 1 }]),
+  createChart: vi.fn().mockReturnValue(null)
 };
 
 // Mock ListHandlerService
@@ -86,6 +97,7 @@ const mockListHandler: ListHandlerService = {
 const mockLinkHandler: LinkHandlerService = {
   processLink: vi.fn().mockImplementation((link) => link),
   normalizeUrl: vi.fn().mockImplementation((url) => url),
+  resolveUrl: vi.fn().mockImplementation((url) => url),
   extractLinkText: vi.fn().mockImplementation((html) => html),
   applyLinkStyling: vi.fn().mockImplementation((link) => ({
     x: 0.5,
@@ -198,6 +210,157 @@ describe('SlideCreator', () => {
       expect(mockThemeHandler.applyTheme).toHaveBeenCalledWith(mockPresentation, PresentationTheme.PROFESSIONAL);
     });
     
+    it('should size the presentation for the configured slide layout', async () => {
+      await slideCreator.createSlides(sampleHtmlContent, { ...sampleConfig, slideLayout: SlideLayout.STANDARD });
+      
+      expect(mockPresentation.layout).toBe('LAYOUT_4x3');
+    });
+    
+    it('should apply the document metadata and create a title slide when configured', async () => {
+      const metadata = { title: 'Quarterly Report', description: 'Results for Q1', author: 'Dana Lee', date: '2024-05-01' };
+      const content: HTMLContent = { ...sampleHtmlContent, metadata };
+      
+      await slideCreator.createSlides(content, sampleConfig);
+      
+      expect(mockPptxGenerator.setMetadata).toHaveBeenCalledWith(mockPresentation, metadata);
+      expect(mockPptxGenerator.addTitleSlide).not.toHaveBeenCalled();
+      
+      await slideCreator.createSlides(content, { ...sampleConfig, includeTitleSlide: true });
+      
+      expect(mockPptxGenerator.addTitleSlide).toHaveBeenCalledWith(
+        mockPresentation,
+        'Quarterly Report',
+        'Results for Q1\nDana Lee · 2024-05-01',
+        'PROFESSIONAL_TITLE'
+      );
+    });
+    
+    it('should add agenda slides linking to the first slide of each top-level section', async () => {
+      mockPresentation.slides = [];
+      mockPptxGenerator.addSlide.mockImplementation((presentation) => {
+        const slide = { addText: vi.fn() };
+        presentation.slides.push(slide);
+        return slide;
+      });
+      
+      const sections: Section[] = ['Intro', 'Results', 'Outlook'].map(title => ({
+        title,
+        content: '',
+        elements: [{ type: 'text', content: { content: `${title} text`, format: {} } as TextResource }]
+      }));
+      // A long section spanning two slides, and a subsection that is not listed
+      sections[1].elements = [{
+        type: 'list',
+        content: { items: Array.from({ length: 12 }, (_, i) => `Item ${i + 1}`), ordered: false } as ListResource
+      }];
+      sections.push({ ...sections[2], title: 'Details', parentIndex: 2 });
+      
+      await slideCreator.createSlides(
+        { ...sampleHtmlContent, sections },
+        { ...sampleConfig, includeAgenda: true, maxBulletsPerSlide: 2 }
+      );
+      
+      const titles = mockPptxGenerator.addSlide.mock.calls.map(call => call[1]);
+      expect(titles).toEqual(['Agenda', 'Agenda (cont.)', 'Intro', 'Results', 'Results (cont.)', 'Results (cont.)', 'Results (cont.)', 'Results (cont.)', 'Results (cont.)', 'Outlook', 'Details']);
+      
+      const agendaCalls = mockPptxGenerator.addTextElement.mock.calls.filter(call => call[0] === mockPresentation.slides[0] || call[0] === mockPresentation.slides[1]);
+      expect(agendaCalls[0][1].runs).toEqual([
+        { text: 'Intro', slide: 3, breakLine: true },
+        { text: 'Results', slide: 4, breakLine: false }
+      ]);
+      expect(agendaCalls[1][1].runs).toEqual([
+        { text: 'Outlook', slide: 10, breakLine: false }
+      ]);
+      expect(agendaCalls[0][2]).toEqual(expect.objectContaining({ x: 0.5, y: 1.5, bullet: true }));
+    });
+    
+    it('should turn in-document links into slide jumps and warn about missing targets', async () => {
+      const sections: Section[] = [
+        {
+          title: 'Intro',
+          content: '',
+          elements: [
+            {
+              type: 'text',
+              content: {
+                content: 'See results',
+                runs: [
+                  { text: 'See ' },
+                  { text: 'results', link: '#q1-results' },
+                  { text: ' or ' },
+                  { text: 'nothing', link: '#missing' }
+                ],
+                format: {}
+              } as TextResource
+            },
+            { type: 'link', content: { text: 'Jump', href: '#outlook' } as LinkResource },
+            { type: 'link', content: { text: 'Broken', href: '#gone' } as LinkResource }
+          ]
+        },
+        {
+          title: 'Results',
+          content: '',
+          anchors: ['results', 'q1-results'],
+          elements: [{ type: 'text', content: { content: 'Numbers', format: {} } as TextResource }]
+        },
+        {
+          title: 'Outlook',
+          content: '',
+          anchors: ['outlook'],
+          elements: []
+        }
+      ];
+      
+      await slideCreator.createSlides({ ...sampleHtmlContent, sections }, sampleConfig);
+      
+      const [, text] = mockPptxGenerator.addTextElement.mock.calls[0];
+      expect(text.runs).toEqual([
+        { text: 'See ' },
+        { text: 'results', slide: 2 },
+        { text: ' or ' },
+        { text: 'nothing' }
+      ]);
+      expect(mockPptxGenerator.addLinkElement).toHaveBeenCalledTimes(1);
+      expect(mockPptxGenerator.addLinkElement.mock.calls[0][2].hyperlink).toEqual({ slide: 3 });
+      expect(mockPptxGenerator.addTextElement).toHaveBeenCalledWith(
+        mockSlide,
+        { content: 'Broken', format: {} },
+        expect.any(Object)
+      );
+      expect(slideCreator.getWarnings()).toEqual([
+        'Link target "#missing" was not found in the document; the link was removed',
+        'Link target "#gone" was not found in the document; the link was removed'
+      ]);
+    });
+    
+    it('should send anchors to the continuation slide their element was placed on', async () => {
+      const sections: Section[] = [
+        {
+          title: 'Long',
+          content: '',
+          anchors: ['long', 'later'],
+          elements: [
+            {
+              type: 'text',
+              content: { content: 'Skip ahead', runs: [{ text: 'Skip ahead', link: '#later' }], format: {} } as TextResource
+            },
+            {
+              type: 'list',
+              content: { items: Array.from({ length: 12 }, (_, i) => `Item ${i + 1}`), ordered: false } as ListResource
+            },
+            { type: 'text', content: { content: 'Later', format: {} } as TextResource, anchors: ['later'] },
+            { type: 'link', content: { text: 'Top', href: '#long' } as LinkResource }
+          ]
+        }
+      ];
+      
+      await slideCreator.createSlides({ ...sampleHtmlContent, sections }, { ...sampleConfig, maxBulletsPerSlide: 8 });
+      
+      expect(mockPptxGenerator.addSlide).toHaveBeenCalledTimes(2);
+      expect(mockPptxGenerator.addTextElement.mock.calls[0][1].runs).toEqual([{ text: 'Skip ahead', slide: 2 }]);
+      expect(mockPptxGenerator.addLinkElement.mock.calls[0][2].hyperlink).toEqual({ slide: 1 });
+    });
+    
     it('should create slides from sections', async () => {
       await slideCreator.createSlides(sampleHtmlContent, sampleConfig);
       
@@ -234,6 +397,162 @@ describe('SlideCreator', () => {
   });
   
   describe('createSlideFromSection', () => {
+    it('should create a divider slide on the title master for chapter sections', async () => {
+      const divider = { addText: vi.fn() };
+      mockPptxGenerator.addTitleSlide.mockReturnValueOnce(divider);
+      
+      const slide = await slideCreator.createSlideFromSection(mockPresentation, {
+        title: 'Chapter 1',
+        content: '<h1>Chapter 1</h1>',
+        elements: [],
+        level: 1
+      }, sampleConfig);
+      
+      expect(slide).toBe(divider);
+      expect(mockPptxGenerator.addTitleSlide).toHaveBeenCalledWith(mockPresentation, 'Chapter 1', undefined, 'PROFESSIONAL_TITLE');
+      expect(mockPptxGenerator.addSlide).not.toHaveBeenCalled();
+    });
+    
+    it('should resolve in-document links within the section', async () => {
+      const section: Section = {
+        title: 'Links',
+        content: '',
+        anchors: ['here'],
+        elements: [
+          { type: 'link', content: { text: 'Here', href: '#here' } as LinkResource, anchors: ['here'] },
+          { type: 'link', content: { text: 'Elsewhere', href: '#elsewhere' } as LinkResource }
+        ]
+      };
+      
+      await slideCreator.createSlideFromSection({ ...mockPresentation, slides: [{}, {}] }, section, sampleConfig);
+      
+      expect(mockPptxGenerator.addLinkElement).toHaveBeenCalledTimes(1);
+      expect(mockPptxGenerator.addLinkElement.mock.calls[0][2].hyperlink).toEqual({ slide: 3 });
+      expect(mockPptxGenerator.addTextElement).toHaveBeenCalledWith(
+        mockSlide,
+        { content: 'Elsewhere', format: {} },
+        expect.any(Object)
+      );
+    });
+    
+    it('should add the section notes to the first slide only', async () => {
+      const section: Section = {
+        title: 'Notes Section',
+        content: '<ul></ul>',
+        notes: 'Talk slowly',
+        elements: [
+          {
+            type: 'list',
+            content: { items: Array.from({ length: 12 }, (_, i) => `Item ${i + 1}`), ordered: false } as ListResource
+          }
+        ]
+      };
+      const firstSlide = { addText: vi.fn() };
+      mockPptxGenerator.addSlide.mockReturnValueOnce(firstSlide);
+      
+      await slideCreator.createSlideFromSection(mockPresentation, section, { ...sampleConfig, maxBulletsPerSlide: 8 });
+      
+      expect(mockPptxGenerator.addSlide).toHaveBeenCalledTimes(2);
+      expect(mockPptxGenerator.addNotes).toHaveBeenCalledTimes(1);
+      expect(mockPptxGenerator.addNotes).toHaveBeenCalledWith(firstSlide, 'Talk slowly');
+    });
+    
+    it('should append the full section text to the notes when configured', async () => {
+      const section: Section = {
+        title: 'Summary',
+        content: '<p>Intro</p>',
+        notes: 'Talk slowly',
+        elements: [
+          { type: 'text', content: { content: 'Intro', format: {} } as TextResource },
+          { type: 'list', content: { items: ['One', 'Two'], ordered: false } as ListResource },
+          { type: 'table', content: { headers: ['Name', 'Score'], rows: [['Ann', '3']] } as TableResource }
+        ]
+      };
+      
+      await slideCreator.createSlideFromSection(mockPresentation, section, { ...sampleConfig, sectionTextInNotes: true });
+      
+      expect(mockPptxGenerator.addNotes).toHaveBeenCalledWith(
+        mockSlide,
+        'Talk slowly\n\nIntro\n- One\n- Two\nName\tScore\nAnn\t3'
+      );
+    });
+    
+    it('should put plain text without markup into the section notes', async () => {
+      const section: Section = {
+        title: 'Summary',
+        content: '<p>Intro</p>',
+        elements: [
+          {
+            type: 'text',
+            content: {
+              content: '<strong>Bold</strong> start',
+              runs: [{ text: 'Bold', bold: true }, { text: ' start', breakLine: true }, { text: 'next line' }],
+              format: {}
+            } as TextResource
+          },
+          { type: 'text', content: { content: 'A <em>fine</em> &amp; <a href="#x">linked</a> day', format: {} } as TextResource },
+          { type: 'list', content: { items: ['<strong>One</strong>', 'Two <code>x</code>'], ordered: false } as ListResource }
+        ]
+      };
+      
+      await slideCreator.createSlideFromSection(mockPresentation, section, { ...sampleConfig, sectionTextInNotes: true });
+      
+      expect(mockPptxGenerator.addNotes).toHaveBeenCalledWith(
+        mockSlide,
+        'Bold start\nnext line\nA fine & linked day\n- One\n- Two x'
+      );
+    });
+    
+    it('should not add notes to sections without notes', async () => {
+      await slideCreator.createSlideFromSection(mockPresentation, {
+        title: 'Plain',
+        content: '<p>Text</p>',
+        elements: [{ type: 'text', content: { content: 'Text', format: {} } as TextResource }]
+      }, sampleConfig);
+      
+      expect(mockPptxGenerator.addNotes).not.toHaveBeenCalled();
+    });
+    
+    it('should set the section background on each of its slides', async () => {
+      mockLinkHandler.resolveUrl.mockImplementation((url, baseUrl) => baseUrl ? `${baseUrl}${url}` : url);
+      
+      const section: Section = {
+        title: 'Backdrop',
+        content: '<ul></ul>',
+        background: { color: '112233', image: 'bg.png' },
+        elements: [
+          {
+            type: 'list',
+            content: { items: Array.from({ length: 12 }, (_, i) => `Item ${i + 1}`), ordered: false } as ListResource
+          }
+        ]
+      };
+      
+      await slideCreator.createSlideFromSection(mockPresentation, section, {
+        ...sampleConfig,
+        maxBulletsPerSlide: 8,
+        baseUrl: 'https://example.com/'
+      });
+      
+      expect(mockPptxGenerator.setBackground).toHaveBeenCalledTimes(2);
+      expect(mockPptxGenerator.setBackground).toHaveBeenCalledWith(mockSlide, {
+        color: '112233',
+        image: 'https://example.com/bg.png'
+      });
+      
+      mockLinkHandler.resolveUrl.mockImplementation((url) => url);
+    });
+    
+    it('should not set a background for sections without one', async () => {
+      await slideCreator.createSlideFromSection(mockPresentation, {
+        title: 'Plain',
+        content: '<p>Text</p>',
+        elements: [{ type: 'text', content: { content: 'Text', format: {} } as TextResource }]
+      }, sampleConfig);
+      
+      expect(mockPptxGenerator.setBackground).not.toHaveBeenCalled();
+    });
+    
     it('should create a slide with the section title and layout', async () => {
       const section: Section = {
         title: 'Test Section',
@@ -273,10 +592,66 @@ describe('SlideCreator', () => {
       expect(mockPptxGenerator.addTextElement).toHaveBeenCalledWith(
         mockSlide,
         textResource,
-        expect.objectContaining({ x: 0.5, y: 1.5, w: '90%' })
+        expect.objectContaining({ x: 0.5, y: 1.5, w: 9 })
       );
     });
     
+    it('should continue overflowing content on slides titled with (cont.)', async () => {
+      const listResource: ListResource = {
+        items: Array.from({ length: 12 }, (_, i) => `Item ${i + 1}`),
+        ordered: false
+      };
+      
+      const section: Section = {
+        title: 'Quarterly Results',
+        content: '<ul></ul>',
+        elements: [
+          {
+            type: 'list',
+            content: listResource
+          }
+        ]
+      };
+      
+      await slideCreator.createSlideFromSection(mockPresentation, section, { ...sampleConfig, maxBulletsPerSlide: 5 });
+      
+      expect(mockPptxGenerator.addSlide.mock.calls.map(call => call[1])).toEqual([
+        'Quarterly Results',
+        'Quarterly Results (cont.)',
+        'Quarterly Results (cont.)'
+      ]);
+      expect(mockListHandler.processList.mock.calls.map(call => call[0].items.length)).toEqual([5, 5, 2]);
+    });
+    
+    it('should put each page of a long table on its own slide', async () => {
+      const tableResource: TableResource = {
+        headers: ['Name'],
+        rows: [['A'], ['B'], ['C']]
+      };
+      
+      const section: Section = {
+        title: 'Inventory',
+        content: '<table></table>',
+        elements: [
+          {
+            type: 'table',
+            content: tableResource
+          }
+        ]
+      };
+      
+      await slideCreator.createSlideFromSection(mockPresentation, section, {
+        ...sampleConfig,
+        maxTableRowsPerSlide: 2,
+        showTablePageNumbers: true
+      });
+      
+      expect(mockPptxGenerator.addSlide.mock.calls.map(call => call[1])).toEqual(['Inventory', 'Inventory (cont.)']);
+      expect(mockPptxGenerator.addTableElement).toHaveBeenCalledTimes(2);
+      expect(mockPptxGenerator.addTableElement.mock.calls.map(call => call[1].rows)).toEqual([[['A'], ['B']], [['C']]]);
+      expect(mockPptxGenerator.addTextElement.mock.calls.map(call => call[1].content)).toEqual(['Page 1 of 2', 'Page 2 of 2']);
+    });
+    
     it('should throw SlideCreationError if slide creation fails', async () => {
       mockPptxGenerator.addSlide.mockImplementationOnce(() => {
         throw new Error('Slide creation failed');
@@ -322,10 +697,33 @@ describe('SlideCreator', () => {
       expect(mockPptxGenerator.addTextElement).toHaveBeenCalledWith(
         mockSlide,
         textResource,
-        expect.objectContaining({ x: 0.5, y: 1.5, w: '90%' })
+        expect.objectContaining({ x: 0.5, y: 1.5, w: 9 })
       );
     });
     
+    it('should drop hyperlinks from text runs when preserveLinks is false', async () => {
+      const textResource: TextResource = {
+        content: 'See <a href="https://example.com">docs</a>',
+        runs: [
+          { text: 'See ' },
+          { text: 'docs', link: 'https://example.com' }
+        ],
+        format: {}
+      };
+      
+      section.elements = [
+        {
+          type: 'text',
+          content: textResource
+        }
+      ];
+      
+      await slideCreator.createSlideFromSection(mockPresentation, section, { ...sampleConfig, preserveLinks: false });
+      
+      const addedText = mockPptxGenerator.addTextElement.mock.calls[0][1];
+      expect(addedText.runs).toEqual([{ text: 'See ' }, { text: 'docs' }]);
+    });
+    
     it('should add image elements to the slide when includeImages is true', async () => {
       const imageResource: ImageResource = {
         src: 'test.jpg',
@@ -351,7 +749,7 @@ describe('SlideCreator', () => {
       expect(mockPptxGenerator.addImageElement).toHaveBeenCalledWith(
         mockSlide,
         imageResource,
-        expect.objectContaining({ x: 1, y: 2 })
+        expect.objectContaining({ x: 3.5, y: 1.5, w: 3, h: 2 }) // Centered in the content area
       );
     });
     
@@ -429,8 +827,8 @@ describe('SlideCreator', () => {
         }),
         expect.objectContaining({
           x: 0.5,
-          y: 2,
-          w: '90%'
+          y: 1.5,
+          w: 9
         })
       );
     });
@@ -470,8 +868,8 @@ describe('SlideCreator', () => {
         }),
         expect.objectContaining({
           x: 0.5,
-          y: 2,
-          w: '90%'
+          y: 1.5,
+          w: 9
         })
       );
     });
@@ -499,7 +897,7 @@ describe('SlideCreator', () => {
       
       await slideCreator.createSlideFromSection(mockPresentation, section, sampleConfig);
       
-      expect(mockLinkHandler.processLink).toHaveBeenCalledWith(linkResource);
+      expect(mockLinkHandler.processLink).toHaveBeenCalledWith(linkResource, { baseUrl: undefined, keepHttp: undefined });
       expect(mockLinkHandler.applyLinkStyling).toHaveBeenCalled();
       
       expect(mockPptxGenerator.addLinkElement).toHaveBeenCalledWith(
@@ -507,8 +905,8 @@ describe('SlideCreator', () => {
         processedLink,
         expect.objectContaining({
           x: 0.5,
-          y: 2,
-          w: '90%',
+          y: 1.5,
+          w: 9,
           hyperlink: { url: 'https://example.com' }
         })
       );
@@ -534,40 +932,276 @@ describe('SlideCreator', () => {
       expect(mockPptxGenerator.addLinkElement).not.toHaveBeenCalled();
     });
     
-    it('should apply different layout positions based on slide layout', async () => {
-      const textResource: TextResource = {
-        content: 'Test text',
-        format: { bold: true }
-      };
+    it('should stack elements vertically without overlapping', async () => {
+      section.elements = [
+        {
+          type: 'text',
+          content: { content: 'First paragraph', format: {} } as TextResource
+        },
+        {
+          type: 'list',
+          content: { items: ['Item 1', 'Item 2'], ordered: false } as ListResource
+        },
+        {
+          type: 'text',
+          content: { content: 'Last paragraph', format: {} } as TextResource
+        }
+      ];
+      
+      await slideCreator.createSlideFromSection(mockPresentation, section, { ...sampleConfig, elementSpacing: 0.25 });
       
+      const firstText = mockPptxGenerator.addTextElement.mock.calls[0][2];
+      const list = mockPptxGenerator.addListElement.mock.calls[0][2];
+      const lastText = mockPptxGenerator.addTextElement.mock.calls[1][2];
+      
+      expect(firstText.y).toBe(1.5);
+      expect(list.y).toBeCloseTo(firstText.y + firstText.h + 0.25);
+      expect(lastText.y).toBeCloseTo(list.y + list.h + 0.25);
+    });
+    
+    it('should start content at the top of the slide when there is no title', async () => {
+      section.title = 'Untitled';
       section.elements = [
         {
           type: 'text',
-          content: textResource
+          content: { content: 'Test text', format: {} } as TextResource
         }
       ];
       
-      // Test with STANDARD layout
-      const standardConfig = { ...sampleConfig, slideLayout: SlideLayout.STANDARD };
-      await slideCreator.createSlideFromSection(mockPresentation, section, standardConfig);
+      await slideCreator.createSlideFromSection(mockPresentation, section, sampleConfig);
       
       expect(mockPptxGenerator.addTextElement).toHaveBeenCalledWith(
         mockSlide,
-        textResource,
-        expect.objectContaining({ x: 0.5, y: 1.5, w: '90%' })
+        expect.anything(),
+        expect.objectContaining({ x: 0.5, y: 0.5 })
+      );
+    });
+    
+    it('should render tables that request a chart as native charts in theme colors', async () => {
+      const tableResource: TableResource = {
+        headers: ['Quarter', 'Revenue'],
+        rows: [['Q1', '10'], ['Q2', '12']],
+        chartType: 'bar'
+      };
+      const chart = {
+        type: 'bar' as const,
+        categories: ['Q1', 'Q2'],
+        series: [{ name: 'Revenue', values: [10, 12] }]
+      };
+      
+      mockTableHandler.createChart.mockReturnValueOnce(chart);
+      mockThemeHandler.getThemeColorPalette.mockReturnValueOnce({
+        heading: '0F3C5F',
+        accent2: '5B9BD5',
+        accent1: '4472C4'
+      });
+      
+      section.elements = [
+        {
+          type: 'table',
+          content: tableResource
+        }
+      ];
+      
+      await slideCreator.createSlideFromSection(mockPresentation, section, sampleConfig);
+      
+      expect(mockTableHandler.createChart).toHaveBeenCalledWith(tableResource);
+      expect(mockPptxGenerator.addTableElement).not.toHaveBeenCalled();
+      expect(mockPptxGenerator.addChartElement).toHaveBeenCalledWith(
+        mockSlide,
+        chart,
+        expect.objectContaining({ x: 1.78, y: 1.5, w: 6.44, h: 3.63, chartColors: ['4472C4', '5B9BD5'] })
       );
+    });
+    
+    it('should keep tables without numeric columns as tables', async () => {
+      section.elements = [
+        {
+          type: 'table',
+          content: { headers: ['Name'], rows: [['Ann']] } as TableResource
+        }
+      ];
       
-      vi.clearAllMocks();
+      await slideCreator.createSlideFromSection(mockPresentation, section, { ...sampleConfig, convertTablesToCharts: true });
+      
+      expect(mockTableHandler.createChart).toHaveBeenCalled();
+      expect(mockPptxGenerator.addChartElement).not.toHaveBeenCalled();
+      expect(mockPptxGenerator.addTableElement).toHaveBeenCalled();
+    });
+    
+    it('should give a section with only a quote the whole content area', async () => {
+      mockThemeHandler.getThemeColorPalette.mockReturnValueOnce({ heading: '0F3C5F', accent1: 'FF5733' });
       
-      // Test with CUSTOM layout
-      const customConfig = { ...sampleConfig, slideLayout: SlideLayout.CUSTOM };
-      await slideCreator.createSlideFromSection(mockPresentation, section, customConfig);
+      const section: Section = {
+        title: 'Untitled',
+        content: '<blockquote></blockquote>',
+        elements: [{ type: 'quote', content: { text: 'Stay hungry', attribution: 'Steve Jobs' } }]
+      };
       
+      await slideCreator.createSlideFromSection(mockPresentation, section, sampleConfig);
+      
+      expect(mockPptxGenerator.addQuoteElement).toHaveBeenCalledWith(
+        mockSlide,
+        { text: 'Stay hungry', attribution: 'Steve Jobs' },
+        { accentColor: 'FF5733', fullSlide: true, x: 0.5, y: 0.5, w: 9, h: 4.625 }
+      );
+    });
+    
+    it('should stack quotes with other content and link their source only when links are kept', async () => {
+      const section: Section = {
+        title: 'Quotes',
+        content: '<p>Intro</p><blockquote></blockquote>',
+        elements: [
+          { type: 'text', content: { content: 'Intro', format: {} } as TextResource },
+          { type: 'quote', content: { text: 'Less is more', source: 'https://example.com/quote' } }
+        ]
+      };
+      
+      await slideCreator.createSlideFromSection(mockPresentation, section, sampleConfig);
+      await slideCreator.createSlideFromSection(mockPresentation, section, { ...sampleConfig, preserveLinks: false });
+      
+      const [withLinks, withoutLinks] = mockPptxGenerator.addQuoteElement.mock.calls;
+      expect(withLinks[1]).toEqual({ text: 'Less is more', source: 'https://example.com/quote' });
+      expect(withLinks[2].fullSlide).toBeUndefined();
+      expect(withoutLinks[1]).toEqual({ text: 'Less is more' });
+    });
+    
+    it('should add captions below their element', async () => {
+      const section: Section = {
+        title: 'Figure',
+        content: '<figure></figure>',
+        elements: [{ type: 'code', content: { code: 'x = 1' }, caption: 'Listing 1' }]
+      };
+      
+      await slideCreator.createSlideFromSection(mockPresentation, section, sampleConfig);
+      
+      const [codeOptions] = mockPptxGenerator.addCodeElement.mock.calls[0].slice(2);
       expect(mockPptxGenerator.addTextElement).toHaveBeenCalledWith(
         mockSlide,
-        textResource,
-        expect.objectContaining({ x: 0.5, y: 1.5, w: '95%' })
+        expect.objectContaining({ content: 'Listing 1', format: expect.objectContaining({ italic: true }) }),
+        expect.objectContaining({ y: codeOptions.y + codeOptions.h, valign: 'top' })
+      );
+    });
+    
+    it('should add code elements with highlighted runs', async () => {
+      const section: Section = {
+        title: 'Code',
+        content: '<pre></pre>',
+        elements: [{ type: 'code', content: { code: 'return 1', language: 'js' } }]
+      };
+      
+      await slideCreator.createSlideFromSection(mockPresentation, section, sampleConfig);
+      
+      expect(mockPptxGenerator.addCodeElement).toHaveBeenCalledWith(
+        mockSlide,
+        expect.objectContaining({
+          code: 'return 1',
+          runs: [{ text: 'return', color: '0033B3', bold: true }, { text: ' ' }, { text: '1', color: '1750EB' }]
+        }),
+        expect.objectContaining({ x: expect.any(Number), y: expect.any(Number) })
+      );
+    });
+    
+    it('should resolve links and images against the document base URL', async () => {
+      mockLinkHandler.resolveUrl.mockImplementation((url, baseUrl) => baseUrl ? `${baseUrl}${url}` : url);
+      
+      const sections: Section[] = [{
+        title: 'Links',
+        content: '',
+        elements: [
+          { type: 'image', content: { src: 'img/logo.png', alt: 'Logo', width: 100, height: 50 } as ImageResource },
+          { type: 'link', content: { text: 'Docs', href: 'docs/page.html' } as LinkResource }
+        ]
+      }];
+      
+      await slideCreator.createSlides(
+        { ...sampleHtmlContent, sections, metadata: { baseUrl: 'https://example.com/' } },
+        { ...sampleConfig, keepHttpLinks: true }
+      );
+      
+      expect(mockImageHandler.processImage).toHaveBeenCalledWith(
+        expect.objectContaining({ src: 'https://example.com/img/logo.png' }),
+        undefined
+      );
+      expect(mockLinkHandler.processLink).toHaveBeenCalledWith(
+        sections[0].elements[1].content,
+        { baseUrl: 'https://example.com/', keepHttp: true }
+      );
+      
+      mockLinkHandler.resolveUrl.mockImplementation((url) => url);
+    });
+    
+    it('should turn in-document links in table cells into slide jumps', async () => {
+      (mockTableHandler.formatRows as any).mockImplementation(() => [[
+        { text: 'See B', options: {}, runs: [{ text: 'See ' }, { text: 'B', link: '#b' }] }
+      ]]);
+      
+      const sections: Section[] = [
+        {
+          title: 'Table',
+          content: '',
+          elements: [{ type: 'table', content: { headers: [], rows: [['See B']] } as TableResource }]
+        },
+        { title: 'B', content: '', anchors: ['b'], elements: [] }
+      ];
+      const formattedCell = (call: number) => mockPptxGenerator.addTableElement.mock.calls[call][1]._formattedData[0][0];
+      
+      await slideCreator.createSlides({ ...sampleHtmlContent, sections }, sampleConfig);
+      await slideCreator.createSlides({ ...sampleHtmlContent, sections }, { ...sampleConfig, preserveLinks: false });
+      
+      expect(formattedCell(0).runs).toEqual([{ text: 'See ' }, { text: 'B', slide: 2 }]);
+      expect(formattedCell(1).runs).toEqual([{ text: 'See ' }, { text: 'B' }]);
+      
+      (mockTableHandler.formatRows as any).mockImplementation((rows: any[][]) => rows.map(row => row.map(cell => ({ text: cell }))));
+    });
+    
+    it('should resolve relative links in table cells against the base URL', async () => {
+      (mockTableHandler.formatRows as any).mockImplementation(() => [[
+        { text: 'Page', options: {}, runs: [{ text: 'Page', link: 'img/y.html' }] }
+      ]]);
+      const creator = new SlideCreator(
+        mockPptxGenerator, mockImageHandler, mockTableHandler, mockListHandler, new LinkHandler(), mockThemeHandler
+      );
+      const sections: Section[] = [{
+        title: 'Table',
+        content: '',
+        elements: [{ type: 'table', content: { headers: [], rows: [['Page']] } as TableResource }]
+      }];
+      
+      await creator.createSlides({ ...sampleHtmlContent, sections }, { ...sampleConfig, baseUrl: 'https://example.com/docs/' });
+      
+      expect(mockPptxGenerator.addTableElement.mock.calls[0][1]._formattedData[0][0].runs).toEqual([
+        { text: 'Page', link: 'https://example.com/docs/img/y.html' }
+      ]);
+      expect(creator.getWarnings()).toEqual([]);
+      
+      (mockTableHandler.formatRows as any).mockImplementation((rows: any[][]) => rows.map(row => row.map(cell => ({ text: cell }))));
+    });
+    
+    it('should ignore a relative base URL and warn about links left relative', async () => {
+      const sections: Section[] = [{
+        title: 'Links',
+        content: '',
+        elements: [
+          { type: 'link', content: { text: 'Docs', href: 'docs/page.html' } as LinkResource },
+          {
+            type: 'text',
+            content: { content: 'FAQ', runs: [{ text: 'FAQ', link: 'faq.html' }], format: {} } as TextResource
+          }
+        ]
+      }];
+      
+      await slideCreator.createSlides({ ...sampleHtmlContent, sections, metadata: { baseUrl: 'docs/' } }, sampleConfig);
+      
+      expect(mockLinkHandler.processLink).toHaveBeenCalledWith(
+        sections[0].elements[0].content,
+        { baseUrl: undefined, keepHttp: undefined }
       );
+      expect(slideCreator.getWarnings()).toEqual([
+        'The document\'s <base href="docs/"> is relative and was ignored; set an absolute base URL to resolve relative links',
+        'Relative link "docs/page.html" was left unchanged because there is no base URL to resolve it against',
+        'Relative link "faq.html" was left unchanged because there is no base URL to resolve it against'
+      ]);
     });
     
     it('should apply image processing options when available', async () => {
@@ -616,8 +1250,8 @@ describe('SlideCreator', () => {
         mockSlide,
         processedImage,
         expect.objectContaining({
-          x: 1,
-          y: 2,
+          x: 3.5,
+          y: 1.5,
           w: 3, // 300 / 100
           h: 1.8 // 180 / 100
         })
@@ -1,6 +1,6 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { TableHandler, TableHandlingError } from '../../src/services/conversion/TableHandler';
-import { TableResource } from '../../src/models';
+import { TableResource, TableCellResource } from '../../src/models';
 
 describe('TableHandler', () => {
   let tableHandler: TableHandler;
@@ -103,11 +103,11 @@ describe('TableHandler', () => {
       
       expect(formattedHeaders).toHaveLength(2);
       expect(formattedHeaders[0].text).toBe('Header 1');
-      expect(formattedHeaders[0].bold).toBe(true);
-      expect(formattedHeaders[0].color).toBe('333333');
-      expect(formattedHeaders[0].fill).toBe('EEEEEE');
-      expect(formattedHeaders[0].valign).toBe('middle');
-      expect(formattedHeaders[0].align).toBe('center');
+      expect(formattedHeaders[0].options.bold).toBe(true);
+      expect(formattedHeaders[0].options.color).toBe('333333');
+      expect(formattedHeaders[0].options.fill).toEqual({ color: 'EEEEEE' });
+      expect(formattedHeaders[0].options.valign).toBe('middle');
+      expect(formattedHeaders[0].options.align).toBe('center');
     });
   });
   
@@ -122,12 +122,41 @@ describe('TableHandler', () => {
       
       expect(formattedRows).toHaveLength(2);
       expect(formattedRows[0][0].text).toBe('Row 1, Cell 1');
-      expect(formattedRows[0][0].valign).toBe('middle');
-      expect(formattedRows[0][0].fill).toBeUndefined();
+      expect(formattedRows[0][0].options.valign).toBe('middle');
+      expect(formattedRows[0][0].options.fill).toBeUndefined();
       
-      // Check zebra striping
+      // No hard-coded zebra striping
       expect(formattedRows[1][0].text).toBe('Row 2, Cell 1');
-      expect(formattedRows[1][0].fill).toBe('F9F9F9');
+      expect(formattedRows[1][0].options.fill).toBeUndefined();
+    });
+    
+    it('should translate cell details into PptxGenJS cell options', () => {
+      const rows = [['Total', '42']];
+      const cellDetails: TableCellResource[][] = [[
+        { content: 'Total', text: 'Total', header: true, colSpan: 1, rowSpan: 1 },
+        {
+          content: '<b>42</b>',
+          text: '42',
+          runs: [{ text: '42', bold: true }],
+          fill: 'FFFF00',
+          color: 'FF0000',
+          align: 'right',
+          valign: 'top',
+          colSpan: 1,
+          rowSpan: 1
+        }
+      ]];
+      
+      const [[rowHeader, value]] = tableHandler.formatRows(rows, cellDetails);
+      
+      expect(rowHeader.options).toMatchObject({ bold: true, fill: { color: 'EEEEEE' } });
+      expect(value.options).toEqual({
+        valign: 'top',
+        align: 'right',
+        fill: { color: 'FFFF00' },
+        color: 'FF0000'
+      });
+      expect(value.runs).toEqual([{ text: '42', bold: true }]);
     });
     
     it('should handle non-string cell values', () => {
@@ -216,7 +245,7 @@ describe('TableHandler', () => {
       expect(tableOptions.align).toBe('center');
     });
     
-    it('should handle merged cells', () => {
+    it('should leave merged cells to the options of each cell', () => {
       const tableResource: TableResource = {
         headers: ['Header 1', 'Header 2', 'Header 3'],
         rows: [
@@ -240,11 +269,10 @@ describe('TableHandler', () => {
       };
       
       const tableOptions = tableHandler.applyTableStyling(tableResource);
+      const rows = tableHandler.formatRows(tableResource.rows, tableResource.style!.cellDetails);
       
-      expect(tableOptions.complex).toBe(true);
-      expect(tableOptions.mergedCells).toBeDefined();
-      expect(tableOptions.mergedCells).toHaveLength(1);
-      expect(tableOptions.mergedCells[0].colspan).toBe(2);
+      expect(tableOptions.mergedCells).toBeUndefined();
+      expect(rows[0][0].options.colspan).toBe(2);
     });
     
     it('should handle tables without style', () => {
@@ -263,4 +291,217 @@ describe('TableHandler', () => {
       expect(tableOptions.align).toBe('left');
     });
   });
+  
+  describe('paginateTable', () => {
+    const tableResource: TableResource = {
+      headers: ['Name', 'Value'],
+      rows: Array.from({ length: 12 }, (_, i) => [`Row ${i + 1}`, String(i + 1)]),
+      style: {
+        cellDetails: Array.from({ length: 12 }, (_, i) => [{ content: `Row ${i + 1}` }, { content: String(i + 1) }])
+      }
+    };
+    
+    it('should return a single page when the table fits', () => {
+      const pages = tableHandler.paginateTable(tableResource, 20, true);
+      
+      expect(pages).toHaveLength(1);
+      expect(pages[0].table).toBe(tableResource);
+      expect(pages[0].caption).toBeUndefined();
+    });
+    
+    it('should split rows into pages and repeat the header row', () => {
+      const pages = tableHandler.paginateTable(tableResource, 5);
+      
+      expect(pages.map(page => page.table.rows.length)).toEqual([5, 5, 2]);
+      pages.forEach(page => {
+        expect(page.table.headers).toEqual(['Name', 'Value']);
+        expect(page.pageCount).toBe(3);
+        expect(page.caption).toBeUndefined();
+      });
+      expect(pages[1].table.rows[0]).toEqual(['Row 6', '6']);
+    });
+    
+    it('should keep cell details aligned with the rows of each page', () => {
+      const pages = tableHandler.paginateTable(tableResource, 5);
+      
+      expect(pages[2].table.style!.cellDetails[0][0].content).toBe('Row 11');
+    });
+    
+    it('should add page number captions when requested', () => {
+      const pages = tableHandler.paginateTable(tableResource, 5, true);
+      
+      expect(pages.map(page => page.caption)).toEqual(['Page 1 of 3', 'Page 2 of 3', 'Page 3 of 3']);
+    });
+    
+    it('should cut pages short where they no longer fit', () => {
+      // The first page has room for 3 rows, later pages for 4
+      const fitsPage = vi.fn((page: TableResource, pageIndex: number) => page.rows.length <= (pageIndex === 0 ? 3 : 4));
+      
+      const pages = tableHandler.paginateTable(tableResource, 5, true, fitsPage);
+      
+      expect(pages.map(page => page.table.rows.length)).toEqual([3, 4, 4, 1]);
+      expect(pages.map(page => page.caption)).toEqual(['Page 1 of 4', 'Page 2 of 4', 'Page 3 of 4', 'Page 4 of 4']);
+    });
+    
+    it('should keep at least one row on a page that does not fit', () => {
+      const pages = tableHandler.paginateTable(tableResource, 0, false, () => false);
+      
+      expect(pages).toHaveLength(12);
+    });
+  });
+  
+  describe('merged cells', () => {
+    const spans = (...cells: Array<[number, number]>): TableCellResource[] =>
+      cells.map(([colSpan, rowSpan]) => ({ content: '', text: '', colSpan, rowSpan }));
+    
+    it('should resolve colspan and rowspan onto a rectangular grid', () => {
+      const grid = tableHandler.resolveGrid(
+        [['A', 'B'], ['C', 'D'], ['E']],
+        [spans([1, 2], [2, 1]), spans([1, 1], [1, 1]), spans([3, 1])]
+      );
+      
+      expect(grid.columnCount).toBe(3);
+      expect(grid.rows[0].map(cell => cell.column)).toEqual([0, 1]);
+      // Column 0 of the second row is covered by the rowspan above
+      expect(grid.rows[1].map(cell => cell.column)).toEqual([1, 2]);
+      expect(grid.coveredCounts).toEqual([3, 3, 3]);
+    });
+    
+    it('should clamp rowspans that extend past the last row', () => {
+      const grid = tableHandler.resolveGrid([['A', 'B'], ['C']], [spans([1, 5], [1, 1]), spans([1, 1])]);
+      
+      expect(grid.rows[0][0].rowSpan).toBe(2);
+    });
+    
+    it('should not pad rows whose columns are covered by merged cells', () => {
+      const tableResource: TableResource = {
+        headers: ['Region', 'Q1', 'Q2'],
+        rows: [
+          ['North', 'Total'],
+          ['South', '1', '2']
+        ],
+        style: {
+          cellDetails: [spans([1, 1], [2, 1]), spans([1, 1], [1, 1], [1, 1])]
+        }
+      };
+      
+      const processedTable = tableHandler.processTable(tableResource);
+      
+      expect(processedTable.rows[0]).toEqual(['North', 'Total']);
+      expect(processedTable.headers).toHaveLength(3);
+    });
+    
+    it('should emit PptxGenJS colspan and rowspan options', () => {
+      const formattedRows = tableHandler.formatRows(
+        [['A', 'B'], ['C']],
+        [spans([1, 2], [1, 1]), spans([1, 1])]
+      );
+      
+      expect(formattedRows[0][0].options.rowspan).toBe(2);
+      expect(formattedRows[0][1].options.rowspan).toBeUndefined();
+      expect(formattedRows[0][1].options.colspan).toBeUndefined();
+      
+      const formattedHeaders = tableHandler.formatHeaders(['Name', 'Scores'], spans([1, 2], [3, 1]));
+      expect(formattedHeaders[0].options.rowspan).toBe(2);
+      expect(formattedHeaders[1].options.colspan).toBe(3);
+    });
+    
+    it('should resolve spans across multiple header rows', () => {
+      const tableResource: TableResource = {
+        headers: ['Name', 'Scores'],
+        additionalHeaderRows: [['Math', 'Art']],
+        rows: [['Ann', '1', '2']],
+        style: {
+          headerDetails: [spans([1, 2], [2, 1]), spans([1, 1], [1, 1])]
+        }
+      };
+      
+      const processedTable = tableHandler.processTable(tableResource);
+      
+      expect(processedTable.headers).toEqual(['Name', 'Scores']);
+      expect(processedTable.additionalHeaderRows).toEqual([['Math', 'Art']]);
+      expect(tableHandler.calculateColumnWidths(processedTable)).toHaveLength(3);
+    });
+    
+    it('should not split pages inside cells merged across rows', () => {
+      const tableResource: TableResource = {
+        headers: ['Group', 'Item'],
+        rows: [['G1', 'a'], ['b'], ['c'], ['G2', 'd']],
+        style: {
+          cellDetails: [spans([1, 3], [1, 1]), spans([1, 1]), spans([1, 1]), spans([1, 1], [1, 1])]
+        }
+      };
+      
+      const pages = tableHandler.paginateTable(tableResource, 2);
+      
+      expect(pages.map(page => page.table.rows.length)).toEqual([3, 1]);
+    });
+  });
+  
+  describe('createChart', () => {
+    const salesTable: TableResource = {
+      headers: ['Quarter', 'Revenue', 'Notes', 'Margin'],
+      rows: [
+        ['Q1', '$1,200', 'Launch', '12%'],
+        ['Q2', '1,500', '', '(3.5)']
+      ],
+      chartType: 'line'
+    };
+    
+    it('should use the first column as categories and numeric columns as series', () => {
+      const chart = tableHandler.createChart(salesTable);
+      
+      expect(chart).toEqual({
+        type: 'line',
+        categories: ['Q1', 'Q2'],
+        series: [
+          { name: 'Revenue', values: [1200, 1500] },
+          { name: 'Margin', values: [12, -3.5] }
+        ]
+      });
+    });
+    
+    it('should let the caller choose the chart type', () => {
+      expect(tableHandler.createChart({ ...salesTable, chartType: undefined })!.type).toBe('bar');
+      expect(tableHandler.createChart(salesTable, 'pie')!.type).toBe('pie');
+    });
+    
+    it('should return null for tables without numeric columns', () => {
+      const tableResource: TableResource = {
+        headers: ['Name', 'Role'],
+        rows: [['Ann', 'Lead']]
+      };
+      
+      expect(tableHandler.createChart(tableResource)).toBeNull();
+    });
+    
+    it('should read merged header and label cells from the resolved grid', () => {
+      const tableResource: TableResource = {
+        headers: ['Region', 'Sales'],
+        additionalHeaderRows: [['2023', '2024']],
+        rows: [
+          ['North', '10', '12'],
+          ['15', '18'],
+          ['South', '7', '9']
+        ],
+        style: {
+          headerDetails: [[{ rowSpan: 2 }, { colSpan: 2 }], [{}, {}]],
+          cellDetails: [[{ rowSpan: 2 }, {}, {}], [{}, {}], [{}, {}, {}]]
+        }
+      };
+      
+      expect(tableHandler.createChart(tableResource)).toEqual({
+        type: 'bar',
+        categories: ['North', 'North', 'South'],
+        series: [
+          { name: '2023', values: [10, 15, 7] },
+          { name: '2024', values: [12, 18, 9] }
+        ]
+      });
+    });
+    
+    it('should require numeric X values for scatter charts', () => {
+      expect(tableHandler.createChart(salesTable, 'scatter')).toBeNull();
+    });
+  });
 });
\ No newline at end of file
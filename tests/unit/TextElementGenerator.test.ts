@@ -153,6 +153,61 @@ describe('TextElementGenerator', () => {
     });
   });
   
+  describe('generateTextRuns', () => {
+    it('should split text into runs with inline formatting', () => {
+      const runs = textElementGenerator.generateTextRuns('Revenue grew <b>12%</b> this year');
+      
+      expect(runs).toEqual([
+        { text: 'Revenue grew ' },
+        { text: '12%', bold: true },
+        { text: ' this year' }
+      ]);
+    });
+    
+    it('should inherit formatting from ancestor elements', () => {
+      const runs = textElementGenerator.generateTextRuns('<strong>Bold <em>and italic</em></strong>');
+      
+      expect(runs).toEqual([
+        { text: 'Bold ', bold: true },
+        { text: 'and italic', bold: true, italic: true }
+      ]);
+    });
+    
+    it('should capture links, colors, code and super/subscripts', () => {
+      const runs = textElementGenerator.generateTextRuns(
+        '<a href="https://example.com">Link</a> <span style="color: #f00">red</span> <code>x</code>H<sub>2</sub>O E=mc<sup>2</sup>'
+      );
+      
+      expect(runs).toContainEqual({ text: 'Link', link: 'https://example.com' });
+      expect(runs).toContainEqual({ text: 'red', color: 'FF0000' });
+      expect(runs).toContainEqual({ text: 'x', code: true });
+      expect(runs).toContainEqual({ text: '2', subscript: true });
+      expect(runs).toContainEqual({ text: '2', superscript: true });
+    });
+    
+    it('should convert named and hsl() colors to hex', () => {
+      expect(textElementGenerator.normalizeColor('Navy')).toBe('000080');
+      expect(textElementGenerator.normalizeColor('hsl(120, 100%, 25%)')).toBe('008000');
+      expect(textElementGenerator.normalizeColor('hsl(240deg 100% 50% / 0.5)')).toBe('0000FF');
+      expect(textElementGenerator.normalizeColor('transparent')).toBeUndefined();
+    });
+    
+    it('should collapse whitespace and convert <br> to line breaks', () => {
+      const runs = textElementGenerator.generateTextRuns('  First   line<br>\n  Second line  ');
+      
+      expect(runs).toEqual([
+        { text: 'First line', breakLine: true },
+        { text: 'Second line' }
+      ]);
+    });
+    
+    it('should preserve whitespace when requested', () => {
+      const runs = textElementGenerator.generateTextRuns('if (a) {\n  return b;\n}', true);
+      
+      expect(runs).toEqual([{ text: 'if (a) {\n  return b;\n}' }]);
+    });
+  });
+  
   describe('generateComplexTextElements', () => {
     it('should generate multiple text elements for complex HTML', () => {
       const htmlContent = '<p><strong>Bold</strong> and <em>italic</em> text</p>';
@@ -146,6 +146,37 @@ describe('Text Formatting Preservation', () => {
       expect(nestedElement2?.format.hasNestedFormatting).toBe(true);
     });
     
+    it('should not duplicate text of inline formatting elements', () => {
+      const html = `
+        <html>
+          <body>
+            <p>This has <strong>bold</strong> and <span>span</span> text</p>
+          </body>
+        </html>
+      `;
+      
+      const domParser = new DOMParser();
+      const doc = domParser.parseFromString(html, 'text/html');
+      const textElements = parser.extractFormattedText(doc);
+      
+      expect(textElements).toHaveLength(1);
+      expect(textElements[0].format.bold).toBe(false);
+      expect(textElements[0].format.hasNestedFormatting).toBe(true);
+    });
+    
+    it('should attach formatting runs to each text block', () => {
+      const html = '<html><body><p>Revenue grew <b>12%</b></p></body></html>';
+      
+      const domParser = new DOMParser();
+      const doc = domParser.parseFromString(html, 'text/html');
+      const textElements = parser.extractFormattedText(doc);
+      
+      expect(textElements[0].runs).toEqual([
+        { text: 'Revenue grew ' },
+        { text: '12%', bold: true }
+      ]);
+    });
+    
     it('should skip empty elements', () => {
       const html = `
         <html>